@@ -0,0 +1,45 @@
+// scripts/backfill-pass-access-tokens.mjs
+// One-off migration for registrations made before passes had access tokens: gives each of
+// them one, so their pass page, PDF and calendar links can be emailed again. Run it once
+// after `prisma db push` has added the column; running it again only fills in rows still
+// without a token. Then resend the passes of upcoming events ("Resend passes" on an event's
+// Emails page), since the links in pass emails sent so far only open for staff now.
+//
+//   DATABASE_URL=... npm run backfill:pass-tokens
+
+import crypto from 'crypto';
+import { PrismaClient } from '@prisma/client';
+
+const BATCH_SIZE = 500;
+
+const prisma = new PrismaClient();
+
+async function main() {
+  let total = 0;
+  for (;;) {
+    // Trashed registrations get one too, so they keep working if restored
+    const batch = await prisma.eventRegistration.findMany({
+      where: { accessToken: null },
+      select: { id: true },
+      take: BATCH_SIZE,
+    });
+    if (!batch.length) break;
+    for (const { id } of batch) {
+      // Same format as newPassAccessToken() in src/lib/passAccess.ts
+      await prisma.eventRegistration.updateMany({
+        where: { id, accessToken: null },
+        data: { accessToken: crypto.randomBytes(24).toString('base64url') },
+      });
+    }
+    total += batch.length;
+    console.log(`${total} registration(s) given an access token`);
+  }
+  console.log(total ? 'Done. Now resend the passes of upcoming events from their Emails page.' : 'Every registration already has an access token.');
+}
+
+main()
+  .catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,50 @@
+// scripts/cron-worker.mjs
+// Standalone scheduler for hosts without a cron service. It calls the app's cron routes on
+// an interval; the routes do the work and never send the same email twice, so running one
+// worker next to a cron job is harmless.
+//
+//   APP_URL=https://bri-event.vercel.app CRON_SECRET=... npm run cron:worker
+//
+// CRON_INTERVAL_MINUTES (default 5) sets how often it runs. Pass --once to run a single
+// time and exit, e.g. from a system crontab.
+
+const JOBS = ['/api/cron/reminders', '/api/cron/email-outbox', '/api/cron/purge-trash'];
+
+const appUrl = (process.env.APP_URL || 'http://localhost:3000').replace(/\/$/, '');
+const secret = process.env.CRON_SECRET;
+const intervalMs = Number(process.env.CRON_INTERVAL_MINUTES || 5) * 60_000;
+
+if (!secret) {
+  console.error('CRON_SECRET is not set.');
+  process.exit(1);
+}
+
+async function runJob(path) {
+  try {
+    const res = await fetch(`${appUrl}${path}`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${secret}` },
+    });
+    const body = await res.json().catch(() => ({}));
+    if (!res.ok) throw new Error(body.error || `HTTP ${res.status}`);
+    console.log(`${new Date().toISOString()} ${path}: ${JSON.stringify(body)}`);
+    return true;
+  } catch (error) {
+    console.error(`${new Date().toISOString()} ${path} failed:`, error.message);
+    return false;
+  }
+}
+
+// Reminders first, so the emails they queue go out in the same run
+async function runOnce() {
+  let ok = true;
+  for (const path of JOBS) ok = (await runJob(path)) && ok;
+  return ok;
+}
+
+if (process.argv.includes('--once')) {
+  process.exit((await runOnce()) ? 0 : 1);
+}
+
+await runOnce();
+setInterval(runOnce, intervalMs);
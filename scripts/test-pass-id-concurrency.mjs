@@ -0,0 +1,95 @@
+// scripts/test-pass-id-concurrency.mjs
+// Concurrency test for pass IDs (src/lib/passId.ts): fires many registrations at
+// /api/public-register at once and checks that every one got a pass ID, with no duplicates
+// and no gaps. Run it against a running app backed by a disposable database; the test
+// event, its attendees and its counter are removed again afterwards.
+//
+//   APP_URL=http://localhost:3000 DATABASE_URL=... npm run test:pass-ids
+//
+// PASS_ID_TEST_COUNT (default 300) sets how many registrations are sent at once.
+
+import crypto from 'crypto';
+import { PrismaClient } from '@prisma/client';
+
+const appUrl = (process.env.APP_URL || 'http://localhost:3000').replace(/\/$/, '');
+const count = Number(process.env.PASS_ID_TEST_COUNT || 300);
+const START = 1;
+
+const prisma = new PrismaClient();
+
+// A prefix of its own, so the test starts a fresh counter (at most 12 characters, see PASS_ID_PREFIX_REGEX)
+const runId = crypto.randomBytes(4).toString('hex');
+const prefix = `T${runId}-`;
+
+async function register(eventId, occurrenceId, i) {
+  const res = await fetch(`${appUrl}/api/public-register`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      firstName: 'Load',
+      lastName: `Test ${i}`,
+      email: `pass-id-${runId}-${i}@example.test`,
+      phone: '+1 555 0100',
+      company: 'Pass ID test',
+      eventId,
+      selectedOccurrenceIds: [occurrenceId],
+    }),
+  });
+  const body = await res.json().catch(() => ({}));
+  return { ok: res.ok, status: res.status, error: body.error };
+}
+
+async function cleanUp(eventId) {
+  const registrations = await prisma.eventRegistration.findMany({ where: { eventId }, select: { id: true, userId: true } });
+  await prisma.outboundEmail.deleteMany({ where: { registrationId: { in: registrations.map((r) => r.id) } } });
+  await prisma.auditLog.deleteMany({ where: { eventId } });
+  await prisma.eventRegistration.deleteMany({ where: { eventId } });
+  await prisma.user.deleteMany({ where: { email: { startsWith: `pass-id-${runId}-` } } });
+  await prisma.event.delete({ where: { id: eventId } });
+  await prisma.passIdSequence.deleteMany({ where: { prefix } });
+}
+
+async function main() {
+  const event = await prisma.event.create({
+    data: {
+      name: `Pass ID concurrency test ${runId}`,
+      description: 'Created by scripts/test-pass-id-concurrency.mjs',
+      location: 'Nowhere',
+      passIdPrefix: prefix,
+      passIdStart: START,
+      occurrences: { create: { startTime: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000) } },
+    },
+    include: { occurrences: true },
+  });
+
+  const failures = [];
+  try {
+    console.log(`Sending ${count} registrations at once to ${appUrl}...`);
+    const results = await Promise.all(Array.from({ length: count }, (_, i) => register(event.id, event.occurrences[0].id, i)));
+    const rejected = results.filter((r) => !r.ok);
+    if (rejected.length) failures.push(`${rejected.length} registration(s) failed, e.g. HTTP ${rejected[0].status}: ${rejected[0].error}`);
+
+    const passIds = (await prisma.eventRegistration.findMany({ where: { eventId: event.id }, select: { passId: true } })).map((r) => r.passId);
+    const numbers = passIds.map((id) => Number(id.slice(prefix.length))).sort((a, b) => a - b);
+    if (passIds.length !== count) failures.push(`expected ${count} registrations, found ${passIds.length}`);
+    if (new Set(passIds).size !== passIds.length) failures.push('duplicate pass IDs were issued');
+    const gap = numbers.findIndex((n, i) => n !== START + i);
+    if (gap !== -1) failures.push(`pass IDs are not contiguous: expected ${prefix}${START + gap}, found ${prefix}${numbers[gap]}`);
+  } finally {
+    await cleanUp(event.id);
+  }
+
+  if (failures.length) {
+    failures.forEach((f) => console.error(`FAIL: ${f}`));
+    process.exitCode = 1;
+  } else {
+    console.log(`OK: ${count} unique, contiguous pass IDs (${prefix}${START} to ${prefix}${START + count - 1})`);
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
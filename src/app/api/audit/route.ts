@@ -0,0 +1,103 @@
+// src/app/api/audit/route.ts
+import { NextResponse } from 'next/server';
+import { AuditLog, Prisma } from '@prisma/client';
+import prisma from '@/lib/prisma';
+import { requireRole } from '@/lib/auth';
+import { EVENT_MANAGERS } from '@/lib/roles';
+import { isAuditEntityType, sessionLabel } from '@/lib/audit';
+
+export const dynamic = "force-dynamic";
+
+// ?from / ?to are dates (YYYY-MM-DD); ?to includes the whole day
+function parseDay(raw: string | null, endOfDay = false) {
+  if (!raw) return null;
+  const ts = Date.parse(raw);
+  if (Number.isNaN(ts)) return null;
+  const day = new Date(ts);
+  if (endOfDay) day.setDate(day.getDate() + 1);
+  return day;
+}
+
+const idsOf = (entries: AuditLog[], type: string) =>
+  Array.from(new Set(entries.filter((e) => e.entityType === type).map((e) => e.entityId)));
+
+/**
+ * Add the event name and a readable label for the entity. Trashed items are still looked up;
+ * purged ones have no label and are shown by id.
+ */
+async function withLabels(entries: AuditLog[]) {
+  const eventIds = Array.from(new Set(entries.map((e) => e.eventId).filter((id): id is string => !!id)));
+  const [events, occurrences, registrations] = await Promise.all([
+    prisma.event.findMany({ where: { id: { in: eventIds } }, select: { id: true, name: true } }),
+    prisma.eventOccurrence.findMany({
+      where: { id: { in: idsOf(entries, 'occurrence') } },
+      select: { id: true, startTime: true, endTime: true, location: true },
+    }),
+    prisma.eventRegistration.findMany({
+      where: { id: { in: idsOf(entries, 'registration') } },
+      select: { id: true, passId: true, user: { select: { email: true } } },
+    }),
+  ]);
+
+  const eventNames = new Map(events.map((e) => [e.id, e.name]));
+  const labels = new Map<string, string>([
+    ...occurrences.map((o): [string, string] => [o.id, sessionLabel(o)]),
+    ...registrations.map((r): [string, string] => [r.id, `${r.passId} (${r.user.email})`]),
+  ]);
+
+  return entries.map((entry) => ({
+    ...entry,
+    eventName: entry.eventId ? eventNames.get(entry.eventId) ?? null : null,
+    entityLabel: entry.entityType === 'event' ? eventNames.get(entry.entityId) ?? null : labels.get(entry.entityId) ?? null,
+  }));
+}
+
+// A whole-number query parameter, or `fallback` when it is missing or not a number
+function intParam(raw: string | null, fallback: number) {
+  const n = parseInt(raw || '', 10);
+  return Number.isFinite(n) ? n : fallback;
+}
+
+// GET audit entries, newest first. Filters: ?entityType, ?entityId, ?eventId, ?action,
+// ?actor (part of an email, or "system"), ?from, ?to; paged with ?page and ?limit.
+export async function GET(req: Request) {
+  const auth = await requireRole(req, EVENT_MANAGERS);
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const params = new URL(req.url).searchParams;
+    const page = Math.max(1, intParam(params.get('page'), 1));
+    const limit = Math.min(100, Math.max(1, intParam(params.get('limit'), 25)));
+
+    const entityType = (params.get('entityType') || '').trim();
+    const entityId = (params.get('entityId') || '').trim();
+    const eventId = (params.get('eventId') || '').trim();
+    const action = (params.get('action') || '').trim();
+    const actor = (params.get('actor') || '').trim();
+    const from = parseDay(params.get('from'));
+    const to = parseDay(params.get('to'), true);
+
+    if (entityType && !isAuditEntityType(entityType)) {
+      return NextResponse.json({ error: 'Unknown entity type.' }, { status: 400 });
+    }
+
+    const where: Prisma.AuditLogWhereInput = {};
+    if (entityType) where.entityType = entityType;
+    if (entityId) where.entityId = entityId;
+    if (eventId) where.eventId = eventId;
+    if (action) where.action = action;
+    if (actor === 'system') where.actorId = null;
+    else if (actor) where.actorEmail = { contains: actor, mode: 'insensitive' };
+    if (from || to) where.createdAt = { ...(from ? { gte: from } : {}), ...(to ? { lt: to } : {}) };
+
+    const [entries, total] = await prisma.$transaction([
+      prisma.auditLog.findMany({ where, orderBy: { createdAt: 'desc' }, take: limit, skip: (page - 1) * limit }),
+      prisma.auditLog.count({ where }),
+    ]);
+
+    return NextResponse.json({ data: await withLabels(entries), total, page, limit });
+  } catch (error: unknown) {
+    console.error('Error loading the audit log:', error);
+    return NextResponse.json({ error: 'Something went wrong.' }, { status: 500 });
+  }
+}
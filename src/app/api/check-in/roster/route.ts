@@ -0,0 +1,67 @@
+// src/app/api/check-in/roster/route.ts
+import { NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { requireRole } from '@/lib/auth';
+import { CHECK_IN_STAFF } from '@/lib/roles';
+import { passCode } from '@/lib/passCode';
+
+export const dynamic = "force-dynamic";
+
+// GET ?eventId=... — everything a station needs to keep checking people in offline for one event,
+// including each pass's current signed code to check scans against
+export async function GET(req: Request) {
+  const auth = await requireRole(req, CHECK_IN_STAFF);
+  if (auth instanceof NextResponse) return auth;
+
+  const eventId = new URL(req.url).searchParams.get('eventId');
+  if (!eventId) {
+    return NextResponse.json({ error: 'eventId is required.' }, { status: 400 });
+  }
+
+  try {
+    const event = await prisma.event.findUnique({
+      where: { id: eventId, deletedAt: null },
+      select: {
+        id: true,
+        name: true,
+        occurrences: { where: { deletedAt: null }, select: { id: true, startTime: true, endTime: true, location: true }, orderBy: { startTime: 'asc' } },
+      },
+    });
+    if (!event) {
+      return NextResponse.json({ error: 'Event not found.' }, { status: 404 });
+    }
+
+    const registrations = await prisma.eventRegistration.findMany({
+      where: { eventId, deletedAt: null },
+      select: {
+        id: true,
+        passId: true,
+        passVersion: true,
+        passRevokedAt: true,
+        legacyPassCode: true,
+        status: true,
+        user: { select: { firstName: true, lastName: true, company: true } },
+        selectedOccurrences: { where: { occurrence: { deletedAt: null } }, select: { id: true, occurrenceId: true, checkedInAt: true, checkedOutAt: true } },
+      },
+    });
+
+    return NextResponse.json({
+      event,
+      downloadedAt: new Date().toISOString(),
+      registrations: registrations.map((r) => ({
+        id: r.id,
+        passId: r.passId,
+        passCode: r.passRevokedAt ? null : passCode({ passId: r.passId, eventId, passVersion: r.passVersion }),
+        legacyPassCode: r.legacyPassCode,
+        status: r.status,
+        name: `${r.user.firstName || ''} ${r.user.lastName || ''}`.trim(),
+        company: r.user.company,
+        sessions: r.selectedOccurrences,
+      })),
+    });
+  } catch (error: unknown) {
+    console.error('Error building check-in roster:', error);
+    const message = error instanceof Error ? error.message : 'Something went wrong.';
+    return NextResponse.json({ error: `An unexpected error occurred: ${message}` }, { status: 500 });
+  }
+}
@@ -0,0 +1,43 @@
+// src/app/api/check-in/route.ts
+import { NextResponse } from 'next/server';
+import { requireRole } from '@/lib/auth';
+import { CHECK_IN_STAFF } from '@/lib/roles';
+import { checkInByCode, checkOutByCode } from '@/lib/checkIn';
+
+export const dynamic = "force-dynamic";
+
+// POST { code, eventId?, occurrenceId?, tzOffset?, station?, mode?, manual? } — code is the raw scanner/camera read,
+// which must be the pass's current signed code (see src/lib/passCode.ts). With manual true it is a pass ID
+// typed in by staff, which is let in unless the pass is revoked; the audit log marks it as manual.
+// Without occurrenceId the session is worked out from the clock. mode "check-out" records a departure.
+// Always 200 with a `result` the station can show; only bad input and auth errors use other statuses.
+export async function POST(req: Request) {
+  const auth = await requireRole(req, CHECK_IN_STAFF);
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const { code, eventId, occurrenceId, tzOffset, station, mode, manual } = await req.json();
+    if (!code || typeof code !== 'string' || !code.trim()) {
+      return NextResponse.json({ error: 'A scanned code is required.' }, { status: 400 });
+    }
+    if (mode && mode !== 'check-in' && mode !== 'check-out') {
+      return NextResponse.json({ error: 'Mode must be "check-in" or "check-out".' }, { status: 400 });
+    }
+
+    const request = {
+      code,
+      manual: manual === true,
+      eventId: eventId || undefined,
+      occurrenceId: occurrenceId || undefined,
+      tzOffsetMinutes: Number.isFinite(Number(tzOffset)) ? Number(tzOffset) : 0,
+      staff: auth,
+      station: typeof station === 'string' ? station.trim().slice(0, 100) : undefined,
+    };
+    const outcome = mode === 'check-out' ? await checkOutByCode(request) : await checkInByCode(request);
+    return NextResponse.json(outcome);
+  } catch (error: unknown) {
+    console.error('Error during check-in:', error);
+    const message = error instanceof Error ? error.message : 'Something went wrong.';
+    return NextResponse.json({ error: `An unexpected error occurred during check-in: ${message}` }, { status: 500 });
+  }
+}
@@ -0,0 +1,51 @@
+// src/app/api/check-in/sync/route.ts
+import { NextResponse } from 'next/server';
+import { requireRole } from '@/lib/auth';
+import { CHECK_IN_STAFF } from '@/lib/roles';
+import { applyOfflineOp, OfflineCheckInOp, OfflineSyncResult } from '@/lib/checkIn';
+import { MAX_OPS_PER_SYNC } from '@/lib/checkInRules';
+
+export const dynamic = "force-dynamic";
+
+// POST { ops: OfflineCheckInOp[] } — replay check-ins queued by a station while it was offline.
+// Ops are applied oldest first; each gets its own result so the station can clear its queue.
+export async function POST(req: Request) {
+  const auth = await requireRole(req, CHECK_IN_STAFF);
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const { ops } = await req.json();
+    if (!Array.isArray(ops)) {
+      return NextResponse.json({ error: 'ops must be an array.' }, { status: 400 });
+    }
+    if (ops.length > MAX_OPS_PER_SYNC) {
+      return NextResponse.json({ error: `Send at most ${MAX_OPS_PER_SYNC} ops per sync.` }, { status: 400 });
+    }
+
+    const valid = ops.filter(
+      (op: any): op is OfflineCheckInOp =>
+        op && typeof op.id === 'string' && typeof op.passId === 'string' && typeof op.occurrenceId === 'string' &&
+        (op.mode === 'check-in' || op.mode === 'check-out') && typeof op.at === 'string' &&
+        (op.code === undefined || typeof op.code === 'string') && (op.manual === undefined || typeof op.manual === 'boolean')
+    );
+    const sorted = [...valid].sort((a, b) => new Date(a.at).getTime() - new Date(b.at).getTime());
+
+    const results: OfflineSyncResult[] = ops
+      .filter((op: any) => !valid.includes(op))
+      .map((op: any) => ({ opId: String(op?.id ?? ''), status: 'rejected' as const, message: 'Malformed op.' }));
+    for (const op of sorted) {
+      try {
+        results.push(await applyOfflineOp(op, auth));
+      } catch (error) {
+        // Leave it out of the results so the station keeps it queued and retries
+        console.error(`Failed to apply offline check-in op ${op.id}:`, error);
+      }
+    }
+
+    return NextResponse.json({ results });
+  } catch (error: unknown) {
+    console.error('Error syncing offline check-ins:', error);
+    const message = error instanceof Error ? error.message : 'Something went wrong.';
+    return NextResponse.json({ error: `An unexpected error occurred while syncing: ${message}` }, { status: 500 });
+  }
+}
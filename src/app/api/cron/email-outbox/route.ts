@@ -0,0 +1,26 @@
+// src/app/api/cron/email-outbox/route.ts
+import { NextResponse } from 'next/server';
+import { isCronRequest } from '@/lib/auth';
+import { processOutbox } from '@/lib/emailOutbox';
+
+export const dynamic = "force-dynamic";
+
+// Delivers queued emails and retries failed ones whose backoff has passed. Emails normally go
+// out straight after they are queued; this catches whatever a frozen or crashed instance left
+// behind. Same schedule and CRON_SECRET as /api/cron/reminders.
+async function run(req: Request) {
+  if (!isCronRequest(req)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const result = await processOutbox();
+    return NextResponse.json(result);
+  } catch (error: unknown) {
+    console.error('Error processing the email outbox:', error);
+    return NextResponse.json({ error: 'Something went wrong.' }, { status: 500 });
+  }
+}
+
+export const GET = run;
+export const POST = run;
@@ -0,0 +1,26 @@
+// src/app/api/cron/purge-trash/route.ts
+import { NextResponse } from 'next/server';
+import { isCronRequest } from '@/lib/auth';
+import { purgeExpiredTrash } from '@/lib/trash';
+
+export const dynamic = "force-dynamic";
+
+// Permanently deletes events, sessions and registrations that have been in the trash longer
+// than TRASH_RETENTION_DAYS. Once a day is enough; same CRON_SECRET as the other cron routes.
+async function run(req: Request) {
+  if (!isCronRequest(req)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const result = await purgeExpiredTrash();
+    console.log(`Trash purge: ${result.events} events, ${result.occurrences} sessions, ${result.registrations} registrations.`);
+    return NextResponse.json(result);
+  } catch (error: unknown) {
+    console.error('Error purging the trash:', error);
+    return NextResponse.json({ error: 'Something went wrong.' }, { status: 500 });
+  }
+}
+
+export const GET = run;
+export const POST = run;
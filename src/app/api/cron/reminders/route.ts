@@ -0,0 +1,27 @@
+// src/app/api/cron/reminders/route.ts
+import { NextResponse } from 'next/server';
+import { isCronRequest } from '@/lib/auth';
+import { queueDueReminders } from '@/lib/reminders';
+
+export const dynamic = "force-dynamic";
+
+// Called by a scheduler (Vercel Cron, a crontab curl, or scripts/cron-worker.mjs) with
+// "Authorization: Bearer <CRON_SECRET>". Run it every 5-15 minutes; already-sent reminders
+// are never repeated.
+async function run(req: Request) {
+  if (!isCronRequest(req)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const result = await queueDueReminders();
+    console.log(`Reminder run: ${result.queued} queued, ${result.failed} failed.`);
+    return NextResponse.json(result);
+  } catch (error: unknown) {
+    console.error('Error sending reminders:', error);
+    return NextResponse.json({ error: 'Something went wrong.' }, { status: 500 });
+  }
+}
+
+export const GET = run;
+export const POST = run;
@@ -0,0 +1,93 @@
+// src/app/api/events/[id]/attendance/route.ts
+import { NextResponse } from 'next/server';
+import { requireRole } from '@/lib/auth';
+import { CHECK_IN_STAFF } from '@/lib/roles';
+import { attendanceStats, onAttendanceChanged } from '@/lib/attendance';
+
+export const dynamic = "force-dynamic";
+
+interface Params {
+  params: { id: string };
+}
+
+// Bursts of scans at the door are coalesced into one recount
+const DEBOUNCE_MS = 1000;
+// Recount this often anyway, for changes made by another server instance
+const POLL_MS = 15 * 1000;
+// Comment lines that stop proxies from closing an idle stream
+const HEARTBEAT_MS = 25 * 1000;
+
+// GET: Server-Sent Events stream of attendance stats for one event. A "stats" event is sent on
+// connect and again whenever the numbers change.
+export async function GET(req: Request, { params }: Params) {
+  const auth = await requireRole(req, CHECK_IN_STAFF);
+  if (auth instanceof NextResponse) return auth;
+
+  const eventId = params.id;
+  const initial = await attendanceStats(eventId);
+  if (!initial) {
+    return NextResponse.json({ error: 'Event not found.' }, { status: 404 });
+  }
+
+  const encoder = new TextEncoder();
+  let close = () => {};
+
+  const stream = new ReadableStream({
+    start(controller) {
+      let closed = false;
+      let pending: ReturnType<typeof setTimeout> | null = null;
+      let lastSent = JSON.stringify(initial);
+
+      const send = (chunk: string) => {
+        if (!closed) controller.enqueue(encoder.encode(chunk));
+      };
+
+      const recount = async () => {
+        pending = null;
+        try {
+          const stats = await attendanceStats(eventId);
+          const json = JSON.stringify(stats);
+          if (json !== lastSent) {
+            lastSent = json;
+            send(`event: stats\ndata: ${json}\n\n`);
+          }
+        } catch (error) {
+          console.error(`Error recounting attendance for event ${eventId}:`, error);
+        }
+      };
+      const schedule = () => {
+        if (!pending && !closed) pending = setTimeout(recount, DEBOUNCE_MS);
+      };
+
+      send(`retry: 5000\nevent: stats\ndata: ${lastSent}\n\n`);
+      const unsubscribe = onAttendanceChanged(eventId, schedule);
+      const poll = setInterval(schedule, POLL_MS);
+      const heartbeat = setInterval(() => send(': keep-alive\n\n'), HEARTBEAT_MS);
+
+      close = () => {
+        if (closed) return;
+        closed = true;
+        unsubscribe();
+        clearInterval(poll);
+        clearInterval(heartbeat);
+        if (pending) clearTimeout(pending);
+        try {
+          controller.close();
+        } catch {}
+      };
+      req.signal.addEventListener('abort', close);
+    },
+    cancel() {
+      close();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  });
+}
@@ -0,0 +1,139 @@
+// src/app/api/events/[id]/attendee-types/route.ts
+import { NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { requireRole } from '@/lib/auth';
+import { EVENT_MANAGERS } from '@/lib/roles';
+import { recordAudit } from '@/lib/audit';
+import { ATTENDEE_TYPE_INCLUDE, validateAttendeeTypes } from '@/lib/attendeeTypes';
+
+export const dynamic = "force-dynamic";
+
+interface Params {
+  params: { id: string };
+}
+
+const inOrder = { orderBy: { position: 'asc' as const } };
+
+// Each type with the number of its registrations that count against the quota
+const withUsage = {
+  include: {
+    ...ATTENDEE_TYPE_INCLUDE,
+    _count: { select: { registrations: { where: { deletedAt: null, status: { not: 'cancelled' } } } } },
+  },
+  ...inOrder,
+};
+
+// One line per type for the audit log, e.g. "Speaker (SPEAKER, #b91c1c, quota 20, staff only, 2 sessions)"
+const typeSummaries = (types: { name: string; badgeLabel: string; badgeColor: string; quota: number | null; selfService: boolean; sessions: unknown[] }[]) =>
+  types.map((t) => {
+    const details = [
+      t.badgeLabel || 'no badge label',
+      t.badgeColor,
+      ...(t.quota ? [`quota ${t.quota}`] : []),
+      ...(t.selfService ? [] : ['staff only']),
+      ...(t.sessions.length ? [`${t.sessions.length} session${t.sessions.length === 1 ? '' : 's'}`] : []),
+    ];
+    return `${t.name} (${details.join(', ')})`;
+  });
+
+// GET the event's attendee types, in order, with its sessions to choose from
+export async function GET(req: Request, { params }: Params) {
+  const auth = await requireRole(req, EVENT_MANAGERS);
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const event = await prisma.event.findUnique({
+      where: { id: params.id, deletedAt: null },
+      select: {
+        id: true,
+        name: true,
+        occurrences: { where: { deletedAt: null }, select: { id: true, startTime: true, endTime: true, location: true }, orderBy: { startTime: 'asc' } },
+        attendeeTypes: withUsage,
+      },
+    });
+    if (!event) {
+      return NextResponse.json({ error: 'Event not found.' }, { status: 404 });
+    }
+    return NextResponse.json(event);
+  } catch (error: unknown) {
+    console.error(`Error loading attendee types for event ${params.id}:`, error);
+    return NextResponse.json({ error: 'Something went wrong.' }, { status: 500 });
+  }
+}
+
+/**
+ * PUT { types }: replace the event's attendee types with the submitted list, in that order.
+ * Types with an id are updated, ones without are added, and stored types missing from the
+ * list are removed; a type still held by registrations can't be removed. Quotas apply to new
+ * registrations and type changes only, so lowering one never cancels anybody.
+ */
+export async function PUT(req: Request, { params }: Params) {
+  const auth = await requireRole(req, EVENT_MANAGERS);
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const body = await req.json();
+
+    const attendeeTypes = await prisma.$transaction(async (tx) => {
+      const event = await tx.event.findUnique({
+        where: { id: params.id, deletedAt: null },
+        select: { id: true, occurrences: { where: { deletedAt: null }, select: { id: true } }, attendeeTypes: withUsage },
+      });
+      if (!event) {
+        return NextResponse.json({ error: 'Event not found.' }, { status: 404 });
+      }
+
+      const validated = validateAttendeeTypes(body?.types, event.occurrences.map((o) => o.id));
+      if (validated.error !== null) {
+        return NextResponse.json({ error: validated.error }, { status: 400 });
+      }
+
+      const storedIds = new Set(event.attendeeTypes.map((t) => t.id));
+      const unknown = validated.types.find((t) => t.id && !storedIds.has(t.id));
+      if (unknown) {
+        return NextResponse.json({ error: `${unknown.name}: this type no longer exists. Reload and try again.` }, { status: 409 });
+      }
+      const keptIds = validated.types.map((t) => t.id).filter((id): id is string => !!id);
+      const inUse = event.attendeeTypes.find((t) => !keptIds.includes(t.id) && t._count.registrations > 0);
+      if (inUse) {
+        return NextResponse.json(
+          { error: `${inUse.name} still has ${inUse._count.registrations} registration(s). Move them to another type before removing it.` },
+          { status: 409 }
+        );
+      }
+
+      // Cancelled and trashed registrations keep no claim on a removed type
+      await tx.eventRegistration.updateMany({
+        where: { eventId: event.id, attendeeTypeId: { notIn: keptIds } },
+        data: { attendeeTypeId: null },
+      });
+      await tx.attendeeType.deleteMany({ where: { eventId: event.id, id: { notIn: keptIds } } });
+      for (const [position, { id, sessionIds, ...type }] of Array.from(validated.types.entries())) {
+        const sessions = sessionIds.map((sessionId) => ({ id: sessionId }));
+        if (id) await tx.attendeeType.update({ where: { id }, data: { ...type, position, sessions: { set: sessions } } });
+        else await tx.attendeeType.create({ data: { ...type, position, eventId: event.id, sessions: { connect: sessions } } });
+      }
+
+      const saved = await tx.attendeeType.findMany({ where: { eventId: event.id }, ...withUsage });
+      await recordAudit(
+        {
+          actor: auth,
+          entityType: 'event',
+          entityId: event.id,
+          eventId: event.id,
+          action: 'update',
+          before: { attendeeTypes: typeSummaries(event.attendeeTypes) },
+          after: { attendeeTypes: typeSummaries(saved) },
+        },
+        tx
+      );
+      return saved;
+    });
+
+    if (attendeeTypes instanceof NextResponse) return attendeeTypes;
+    return NextResponse.json({ attendeeTypes });
+  } catch (error: unknown) {
+    console.error(`Error saving attendee types for event ${params.id}:`, error);
+    return NextResponse.json({ error: 'Something went wrong.' }, { status: 500 });
+  }
+}
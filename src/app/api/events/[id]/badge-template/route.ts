@@ -0,0 +1,176 @@
+// src/app/api/events/[id]/badge-template/route.ts
+import { NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import prisma from '@/lib/prisma';
+import { requireRole, SessionUser } from '@/lib/auth';
+import { EVENT_MANAGERS } from '@/lib/roles';
+import { recordAudit } from '@/lib/audit';
+import { PASS_EVENT_INCLUDE, renderPassPdf } from '@/lib/passPdf';
+import {
+  BADGE_FIELDS,
+  BADGE_PLACEHOLDERS,
+  BadgeDesign,
+  DEFAULT_BADGE_DESIGN,
+  badgeDesignOf,
+  validateBadgeDesign,
+} from '@/lib/badgeTemplates';
+
+export const dynamic = "force-dynamic";
+
+interface Params {
+  params: { id: string };
+}
+
+// One line per setting for the audit log; the header image is too large to log itself
+const designSummary = (design: BadgeDesign) => [
+  `Title: ${design.title || '(none)'}`,
+  `Subtitle: ${design.subtitle || '(none)'}`,
+  `Header image: ${design.headerImage ? 'uploaded' : 'none'}`,
+  `Colours: accent ${design.accentColor}, header text ${design.headerTextColor}, text ${design.textColor}`,
+  `Role label: ${design.roleLabel || '(none)'}`,
+  `Details: ${design.fields.map((f) => `${BADGE_FIELDS[f.field]} (${f.size}pt, ${f.align}${f.bold ? ', bold' : ''}${f.uppercase ? ', caps' : ''})`).join('; ') || '(none)'}`,
+  `QR code: ${design.qrPosition}${design.showBarcode && design.qrPosition !== 'center' ? ', with barcode' : ''}`,
+];
+
+// Save a design (null restores the default) and log the change, in one transaction
+async function saveDesign(eventId: string, design: BadgeDesign | null, actor: SessionUser) {
+  return prisma.$transaction(async (tx) => {
+    const event = await tx.event.findUnique({ where: { id: eventId, deletedAt: null }, select: { id: true, badgeTemplate: true } });
+    if (!event) {
+      return NextResponse.json({ error: 'Event not found.' }, { status: 404 });
+    }
+
+    if (design) {
+      const data = { ...design, fields: design.fields as unknown as Prisma.InputJsonArray };
+      await tx.badgeTemplate.upsert({ where: { eventId }, create: { ...data, eventId }, update: data });
+    } else {
+      await tx.badgeTemplate.deleteMany({ where: { eventId } });
+    }
+
+    await recordAudit(
+      {
+        actor,
+        entityType: 'event',
+        entityId: eventId,
+        eventId,
+        action: 'update',
+        before: { badge: designSummary(badgeDesignOf(event.badgeTemplate)) },
+        after: { badge: designSummary(design ?? DEFAULT_BADGE_DESIGN) },
+      },
+      tx
+    );
+    return { design: design ?? DEFAULT_BADGE_DESIGN, customized: !!design };
+  });
+}
+
+// GET: the event's badge design (saved or default), with what the designer can choose from
+export async function GET(req: Request, { params }: Params) {
+  const auth = await requireRole(req, EVENT_MANAGERS);
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const event = await prisma.event.findUnique({
+      where: { id: params.id, deletedAt: null },
+      select: { id: true, name: true, badgeTemplate: true },
+    });
+    if (!event) {
+      return NextResponse.json({ error: 'Event not found.' }, { status: 404 });
+    }
+
+    const { badgeTemplate, ...rest } = event;
+    return NextResponse.json({
+      event: rest,
+      design: badgeDesignOf(badgeTemplate),
+      customized: !!badgeTemplate,
+      placeholders: BADGE_PLACEHOLDERS,
+      fields: BADGE_FIELDS,
+    });
+  } catch (error: unknown) {
+    console.error(`Error loading the badge template for event ${params.id}:`, error);
+    return NextResponse.json({ error: 'Something went wrong.' }, { status: 500 });
+  }
+}
+
+// PUT { design }: save the event's badge design; passes printed from now on use it
+export async function PUT(req: Request, { params }: Params) {
+  const auth = await requireRole(req, EVENT_MANAGERS);
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const body = await req.json();
+    const validated = validateBadgeDesign(body?.design);
+    if (validated.error !== null) {
+      return NextResponse.json({ error: validated.error }, { status: 400 });
+    }
+
+    const saved = await saveDesign(params.id, validated.design, auth);
+    if (saved instanceof NextResponse) return saved;
+    return NextResponse.json(saved);
+  } catch (error: unknown) {
+    console.error(`Error saving the badge template for event ${params.id}:`, error);
+    return NextResponse.json({ error: 'Something went wrong.' }, { status: 500 });
+  }
+}
+
+// DELETE: drop the saved design so the default badge is used again
+export async function DELETE(req: Request, { params }: Params) {
+  const auth = await requireRole(req, EVENT_MANAGERS);
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const saved = await saveDesign(params.id, null, auth);
+    if (saved instanceof NextResponse) return saved;
+    return NextResponse.json(saved);
+  } catch (error: unknown) {
+    console.error(`Error resetting the badge template for event ${params.id}:`, error);
+    return NextResponse.json({ error: 'Something went wrong.' }, { status: 500 });
+  }
+}
+
+// POST { design }: draw an unsaved design as a PDF, using the event's latest registration
+// (or a sample attendee), for the designer's live preview
+export async function POST(req: Request, { params }: Params) {
+  const auth = await requireRole(req, EVENT_MANAGERS);
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const body = await req.json();
+    const validated = validateBadgeDesign(body?.design);
+    if (validated.error !== null) {
+      return NextResponse.json({ error: validated.error }, { status: 400 });
+    }
+
+    const event = await prisma.event.findUnique({ where: { id: params.id, deletedAt: null }, include: PASS_EVENT_INCLUDE });
+    if (!event) {
+      return NextResponse.json({ error: 'Event not found.' }, { status: 404 });
+    }
+
+    const latest = await prisma.eventRegistration.findFirst({
+      where: { eventId: event.id, deletedAt: null },
+      orderBy: { registrationDate: 'desc' },
+      include: { user: true },
+    });
+    const registration = latest
+      ? { ...latest, event }
+      : {
+          passId: 'BRI-1001',
+          eventId: event.id,
+          passVersion: 1,
+          user: { firstName: 'Alex', lastName: 'Example', email: 'alex@example.com', company: 'Example Ltd', position: 'Head of Operations' },
+          event,
+        };
+
+    const pdfBytes = await renderPassPdf(registration, validated.design);
+    return new NextResponse(pdfBytes, {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `inline; filename="badge-preview-${event.id}.pdf"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error: unknown) {
+    console.error(`Error previewing the badge template for event ${params.id}:`, error);
+    const message = error instanceof Error ? error.message : 'Something went wrong.';
+    return NextResponse.json({ error: `Could not draw the badge: ${message}` }, { status: 500 });
+  }
+}
@@ -0,0 +1,130 @@
+// src/app/api/events/[id]/badges/route.ts
+import { NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { requireRole } from '@/lib/auth';
+import { CHECK_IN_STAFF } from '@/lib/roles';
+import { SEAT_HOLDING_STATUSES } from '@/lib/capacity';
+import { buildWhere } from '@/lib/registrationQuery';
+import { PASS_EVENT_INCLUDE, renderBadgeSheetsPdf } from '@/lib/passPdf';
+import { BADGE_SHEET_LAYOUTS, BADGE_SORT_ORDERS, BadgeSheetLayoutId, BadgeSortOrder } from '@/lib/badgeTemplates';
+
+export const dynamic = "force-dynamic";
+
+interface Params {
+  params: { id: string };
+}
+
+// Past this, narrow the batch down by session or attendee type
+const MAX_BATCH_BADGES = 1000;
+
+type Attendee = { user: { firstName: string | null; lastName: string | null; company: string | null } };
+
+const byText = (a: string | null, b: string | null) => {
+  if (!a || !b) return a ? -1 : b ? 1 : 0; // Blanks last
+  return a.localeCompare(b, undefined, { sensitivity: 'base' });
+};
+const bySurname = (a: Attendee, b: Attendee) =>
+  byText(a.user.lastName, b.user.lastName) || byText(a.user.firstName, b.user.firstName);
+
+const SORTERS: Record<BadgeSortOrder, (a: Attendee, b: Attendee) => number> = {
+  surname: bySurname,
+  company: (a, b) => byText(a.user.company?.trim() || null, b.user.company?.trim() || null) || bySurname(a, b),
+};
+
+/**
+ * GET /api/events/[id]/badges: one PDF with the badges of many registrations, for pre-printing.
+ * - sessionId, status and attendeeTypeId filter as on GET /api/registrations; without a
+ *   status, registrations holding a seat (registered and checked in) are printed
+ * - layout: one of BADGE_SHEET_LAYOUTS (default a4-4up); sort: surname (default) or company
+ * - cutMarks=1|0 overrides the layout's default (on for plain paper, off for label stock)
+ * Revoked passes are left out.
+ * The first page(s) are a manifest listing each badge's sheet and position.
+ */
+export async function GET(req: Request, { params }: Params) {
+  const auth = await requireRole(req, CHECK_IN_STAFF);
+  if (auth instanceof NextResponse) return auth;
+
+  const query = new URL(req.url).searchParams;
+  const layoutId = (query.get('layout') || 'a4-4up') as BadgeSheetLayoutId;
+  const sort = (query.get('sort') || 'surname') as BadgeSortOrder;
+  if (!Object.hasOwn(BADGE_SHEET_LAYOUTS, layoutId)) {
+    return NextResponse.json({ error: `Invalid layout. Allowed: ${Object.keys(BADGE_SHEET_LAYOUTS).join(', ')}` }, { status: 400 });
+  }
+  if (!Object.hasOwn(BADGE_SORT_ORDERS, sort)) {
+    return NextResponse.json({ error: `Invalid sort. Allowed: ${Object.keys(BADGE_SORT_ORDERS).join(', ')}` }, { status: 400 });
+  }
+  const layout = BADGE_SHEET_LAYOUTS[layoutId];
+  const cutMarks = query.has('cutMarks') ? query.get('cutMarks') === '1' : !layout.preCut;
+
+  try {
+    const event = await prisma.event.findUnique({
+      where: { id: params.id, deletedAt: null },
+      include: { ...PASS_EVENT_INCLUDE, attendeeTypes: { select: { id: true, name: true } } },
+    });
+    if (!event) {
+      return NextResponse.json({ error: 'Event not found.' }, { status: 404 });
+    }
+
+    const sessionId = (query.get('sessionId') || '').trim();
+    const session = sessionId ? event.occurrences.find((o) => o.id === sessionId) : null;
+    if (sessionId && !session) {
+      return NextResponse.json({ error: 'That session is not part of this event.' }, { status: 400 });
+    }
+    const typeId = (query.get('attendeeTypeId') || '').trim();
+    const type = typeId && typeId !== 'none' ? event.attendeeTypes.find((t) => t.id === typeId) : null;
+    if (typeId && typeId !== 'none' && !type) {
+      return NextResponse.json({ error: 'That attendee type is not part of this event.' }, { status: 400 });
+    }
+
+    const filters = new URLSearchParams({ eventId: event.id, sessionId, attendeeTypeId: typeId, status: query.get('status') || '' });
+    const where = buildWhere(filters);
+    if (!where.status) where.status = { in: SEAT_HOLDING_STATUSES };
+    where.passRevokedAt = null; // Revoked passes must not be printed
+
+    const count = await prisma.eventRegistration.count({ where });
+    if (!count) {
+      return NextResponse.json({ error: 'No registrations match these filters.' }, { status: 404 });
+    }
+    if (count > MAX_BATCH_BADGES) {
+      return NextResponse.json(
+        { error: `${count} badges match; print at most ${MAX_BATCH_BADGES} at a time by choosing a session or attendee type.` },
+        { status: 400 }
+      );
+    }
+
+    const { attendeeTypes, ...passEvent } = event;
+    const registrations = await prisma.eventRegistration.findMany({ where, include: { user: true, attendeeType: true } });
+    registrations.sort(SORTERS[sort]);
+
+    const sessionLabel = session
+      ? `${session.startTime.toISOString().slice(0, 16).replace('T', ' ')}${session.location ? ` (${session.location})` : ''}`
+      : 'All sessions';
+    const pdfBytes = await renderBadgeSheetsPdf(
+      registrations.map((r) => ({ ...r, event: passEvent })),
+      {
+        layout,
+        cutMarks,
+        title: event.name,
+        details: [
+          `Session: ${sessionLabel}`,
+          `Status: ${query.get('status') || 'registered and checked in'}`,
+          ...(attendeeTypes.length ? [`Attendee type: ${typeId === 'none' ? 'No type' : type?.name ?? 'All types'}`] : []),
+          `Layout: ${layout.label}${cutMarks ? ', with cut marks' : ''}`,
+          `Order: ${BADGE_SORT_ORDERS[sort]}`,
+          `${registrations.length} badge${registrations.length === 1 ? '' : 's'}, printed ${new Date().toISOString().slice(0, 16).replace('T', ' ')} UTC by ${auth.email}`,
+        ],
+      }
+    );
+
+    return new NextResponse(pdfBytes, {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `inline; filename="badges-${event.id}-${layoutId}.pdf"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error: unknown) {
+    console.error(`Error printing badges for event ${params.id}:`, error);
+    return NextResponse.json({ error: 'Something went wrong.' }, { status: 500 });
+  }
+}
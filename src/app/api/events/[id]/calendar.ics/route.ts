@@ -0,0 +1,37 @@
+// src/app/api/events/[id]/calendar.ics/route.ts
+import { NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { buildCalendar } from '@/lib/ics';
+import { CALENDAR_REFRESH_MINUTES, eventCalendarEvents } from '@/lib/calendar';
+
+export const dynamic = "force-dynamic";
+
+interface Params {
+  params: { id: string };
+}
+
+// GET: subscribable feed with every session of the event. Public, like the event list on
+// the registration page, because calendar apps can't sign in.
+export async function GET(req: Request, { params }: Params) {
+  try {
+    const event = await prisma.event.findUnique({
+      where: { id: params.id, deletedAt: null },
+      include: { occurrences: { where: { deletedAt: null } } },
+    });
+    if (!event) {
+      return NextResponse.json({ error: 'Event not found.' }, { status: 404 });
+    }
+
+    const ics = buildCalendar(eventCalendarEvents(event), { name: event.name, refreshMinutes: CALENDAR_REFRESH_MINUTES });
+    return new NextResponse(ics, {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': `inline; filename="event-${event.id}.ics"`,
+        'Cache-Control': 'no-cache',
+      },
+    });
+  } catch (error: unknown) {
+    console.error(`Error building calendar feed for event ${params.id}:`, error);
+    return NextResponse.json({ error: 'Something went wrong.' }, { status: 500 });
+  }
+}
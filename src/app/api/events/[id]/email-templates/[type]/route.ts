@@ -0,0 +1,142 @@
+// src/app/api/events/[id]/email-templates/[type]/route.ts
+import { NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { requireRole } from '@/lib/auth';
+import { EVENT_MANAGERS } from '@/lib/roles';
+import { sendRenderedEmail } from '@/lib/emailOutbox';
+import {
+  DEFAULT_EMAIL_TEMPLATES,
+  EmailTemplateType,
+  isEmailTemplateType,
+  renderEmail,
+  unknownPlaceholders,
+} from '@/lib/emailTemplates';
+
+export const dynamic = "force-dynamic";
+
+interface Params {
+  params: { id: string; type: string };
+}
+
+const MAX_SUBJECT_LENGTH = 200;
+const MAX_BODY_LENGTH = 100_000;
+
+// Checks shared by save and preview; returns an error message or null
+function validateDraft(subject: unknown, body: unknown): string | null {
+  if (typeof subject !== 'string' || !subject.trim()) return 'Subject is required.';
+  if (typeof body !== 'string' || !body.trim()) return 'Body is required.';
+  if (subject.length > MAX_SUBJECT_LENGTH) return `Subject must be at most ${MAX_SUBJECT_LENGTH} characters.`;
+  if (body.length > MAX_BODY_LENGTH) return 'Body is too long.';
+  const unknown = unknownPlaceholders(`${subject} ${body}`);
+  if (unknown.length) return `Unknown placeholder(s): ${unknown.map((p) => `{{${p}}}`).join(', ')}.`;
+  return null;
+}
+
+async function findEvent(id: string) {
+  return prisma.event.findUnique({ where: { id, deletedAt: null }, select: { id: true } });
+}
+
+// PUT { subject, body }: save the event's wording for this email type
+export async function PUT(req: Request, { params }: Params) {
+  const auth = await requireRole(req, EVENT_MANAGERS);
+  if (auth instanceof NextResponse) return auth;
+  if (!isEmailTemplateType(params.type)) {
+    return NextResponse.json({ error: 'Unknown email type.' }, { status: 404 });
+  }
+
+  try {
+    const { subject, body } = await req.json();
+    const invalid = validateDraft(subject, body);
+    if (invalid) return NextResponse.json({ error: invalid }, { status: 400 });
+    if (!(await findEvent(params.id))) {
+      return NextResponse.json({ error: 'Event not found.' }, { status: 404 });
+    }
+
+    const saved = await prisma.emailTemplate.upsert({
+      where: { eventId_type: { eventId: params.id, type: params.type } },
+      create: { eventId: params.id, type: params.type, subject: subject.trim(), body },
+      update: { subject: subject.trim(), body },
+    });
+    return NextResponse.json({ ...saved, customized: true });
+  } catch (error: unknown) {
+    console.error(`Error saving ${params.type} email template for event ${params.id}:`, error);
+    return NextResponse.json({ error: 'Something went wrong.' }, { status: 500 });
+  }
+}
+
+// DELETE: drop the saved wording so the built-in default is used again
+export async function DELETE(req: Request, { params }: Params) {
+  const auth = await requireRole(req, EVENT_MANAGERS);
+  if (auth instanceof NextResponse) return auth;
+  if (!isEmailTemplateType(params.type)) {
+    return NextResponse.json({ error: 'Unknown email type.' }, { status: 404 });
+  }
+
+  try {
+    await prisma.emailTemplate.deleteMany({ where: { eventId: params.id, type: params.type } });
+    return NextResponse.json({ ...DEFAULT_EMAIL_TEMPLATES[params.type as EmailTemplateType], customized: false });
+  } catch (error: unknown) {
+    console.error(`Error resetting ${params.type} email template for event ${params.id}:`, error);
+    return NextResponse.json({ error: 'Something went wrong.' }, { status: 500 });
+  }
+}
+
+// POST { subject, body, send? }: render a draft for a sample attendee booked on the event's first
+// sessions. With send: true the result also goes to the signed-in user's own address.
+// A real registration is never used: its manage link and QR code would let whoever gets the
+// test email change, cancel or check in that attendee.
+export async function POST(req: Request, { params }: Params) {
+  const auth = await requireRole(req, EVENT_MANAGERS);
+  if (auth instanceof NextResponse) return auth;
+  if (!isEmailTemplateType(params.type)) {
+    return NextResponse.json({ error: 'Unknown email type.' }, { status: 404 });
+  }
+  const type = params.type;
+
+  try {
+    const { subject, body, send } = await req.json();
+    const invalid = validateDraft(subject, body);
+    if (invalid) return NextResponse.json({ error: invalid }, { status: 400 });
+
+    const event = await prisma.event.findUnique({
+      where: { id: params.id, deletedAt: null },
+      include: { occurrences: { where: { deletedAt: null }, orderBy: { startTime: 'asc' } } },
+    });
+    if (!event) {
+      return NextResponse.json({ error: 'Event not found.' }, { status: 404 });
+    }
+
+    const registration = {
+      id: 'preview', // The manage link's token names no registration
+      eventId: event.id,
+      passId: 'BRI-1001',
+      passVersion: 0, // Real passes start at version 1, so the sample QR code admits nobody
+      accessToken: 'preview',
+      waitlistPosition: 3,
+      user: { firstName: 'Alex', lastName: 'Example', email: 'alex@example.com', company: 'Example Ltd' },
+      event,
+      selectedOccurrences: event.occurrences.slice(0, 2).map((occurrence) => ({ occurrence })),
+    };
+
+    // A made-up change for the schedule-change email: its first session moved back an hour
+    const first = registration.selectedOccurrences[0]?.occurrence;
+    const hourEarlier = (d: Date | null) => (d ? new Date(d.getTime() - 3_600_000) : null);
+    const scheduleChanges = first
+      ? [{
+          kind: 'moved' as const,
+          before: { ...first, startTime: hourEarlier(first.startTime) as Date, endTime: hourEarlier(first.endTime) },
+          after: first,
+        }]
+      : [];
+
+    const rendered = await renderEmail(type, { ...registration, scheduleChanges }, { draft: { subject, body } });
+    if (send) {
+      await sendRenderedEmail(auth.email, `[TEST] ${rendered.subject}`, rendered.html);
+    }
+    return NextResponse.json({ ...rendered, sentTo: send ? auth.email : null });
+  } catch (error: unknown) {
+    console.error(`Error previewing ${type} email template for event ${params.id}:`, error);
+    const message = error instanceof Error ? error.message : 'Something went wrong.';
+    return NextResponse.json({ error: `Could not render or send the email: ${message}` }, { status: 500 });
+  }
+}
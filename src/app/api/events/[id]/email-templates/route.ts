@@ -0,0 +1,34 @@
+// src/app/api/events/[id]/email-templates/route.ts
+import { NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { requireRole } from '@/lib/auth';
+import { EVENT_MANAGERS } from '@/lib/roles';
+import { EMAIL_PLACEHOLDERS, EMAIL_TEMPLATE_LABELS, EMAIL_TEMPLATE_TYPES, loadEmailTemplate } from '@/lib/emailTemplates';
+
+export const dynamic = "force-dynamic";
+
+interface Params {
+  params: { id: string };
+}
+
+// GET: every email type for the event, with its current wording (saved or default)
+export async function GET(req: Request, { params }: Params) {
+  const auth = await requireRole(req, EVENT_MANAGERS);
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const event = await prisma.event.findUnique({ where: { id: params.id, deletedAt: null }, select: { id: true, name: true } });
+    if (!event) {
+      return NextResponse.json({ error: 'Event not found.' }, { status: 404 });
+    }
+
+    const templates = [];
+    for (const type of EMAIL_TEMPLATE_TYPES) {
+      templates.push({ type, label: EMAIL_TEMPLATE_LABELS[type], ...(await loadEmailTemplate(event.id, type)) });
+    }
+    return NextResponse.json({ event, templates, placeholders: EMAIL_PLACEHOLDERS });
+  } catch (error: unknown) {
+    console.error(`Error loading email templates for event ${params.id}:`, error);
+    return NextResponse.json({ error: 'Something went wrong.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,123 @@
+// src/app/api/events/[id]/form-fields/route.ts
+import { NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import prisma from '@/lib/prisma';
+import { requireRole } from '@/lib/auth';
+import { EVENT_MANAGERS } from '@/lib/roles';
+import { recordAudit } from '@/lib/audit';
+import { FORM_FIELD_TYPE_LABELS, validateFormFields } from '@/lib/formFields';
+
+export const dynamic = "force-dynamic";
+
+interface Params {
+  params: { id: string };
+}
+
+const inOrder = { orderBy: { position: 'asc' as const } };
+const withTypes = { include: { attendeeTypes: { select: { id: true, name: true } } }, ...inOrder };
+
+// One line per field for the audit log, e.g. "Dietary requirements (Dropdown, required, Speaker only)"
+const fieldSummaries = (fields: { label: string; type: string; required: boolean; attendeeTypes: { name: string }[] }[]) =>
+  fields.map((f) => {
+    const details = [
+      FORM_FIELD_TYPE_LABELS[f.type as keyof typeof FORM_FIELD_TYPE_LABELS] ?? f.type,
+      ...(f.required ? ['required'] : []),
+      ...(f.attendeeTypes.length ? [`${f.attendeeTypes.map((t) => t.name).join('/')} only`] : []),
+    ];
+    return `${f.label} (${details.join(', ')})`;
+  });
+
+// GET the event's registration form fields, in form order, and the attendee types they can be limited to
+export async function GET(req: Request, { params }: Params) {
+  const auth = await requireRole(req, EVENT_MANAGERS);
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const event = await prisma.event.findUnique({
+      where: { id: params.id, deletedAt: null },
+      select: {
+        id: true,
+        name: true,
+        formFields: withTypes,
+        attendeeTypes: { select: { id: true, name: true }, ...inOrder },
+      },
+    });
+    if (!event) {
+      return NextResponse.json({ error: 'Event not found.' }, { status: 404 });
+    }
+    return NextResponse.json(event);
+  } catch (error: unknown) {
+    console.error(`Error loading form fields for event ${params.id}:`, error);
+    return NextResponse.json({ error: 'Something went wrong.' }, { status: 500 });
+  }
+}
+
+/**
+ * PUT { fields }: replace the form with the submitted list, in that order. Fields with an id
+ * are updated, ones without are added, and stored fields missing from the list are removed.
+ * Existing answers stay on the registrations but are no longer shown for removed fields.
+ * A field's attendeeTypeIds limit it to those types of the event; empty asks everyone.
+ */
+export async function PUT(req: Request, { params }: Params) {
+  const auth = await requireRole(req, EVENT_MANAGERS);
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const body = await req.json();
+    const validated = validateFormFields(body?.fields);
+    if (validated.error !== null) {
+      return NextResponse.json({ error: validated.error }, { status: 400 });
+    }
+
+    const formFields = await prisma.$transaction(async (tx) => {
+      const event = await tx.event.findUnique({
+        where: { id: params.id, deletedAt: null },
+        select: { id: true, formFields: withTypes, attendeeTypes: { select: { id: true } } },
+      });
+      if (!event) {
+        return NextResponse.json({ error: 'Event not found.' }, { status: 404 });
+      }
+
+      const storedIds = new Set(event.formFields.map((f) => f.id));
+      const unknown = validated.fields.find((f) => f.id && !storedIds.has(f.id));
+      if (unknown) {
+        return NextResponse.json({ error: `${unknown.label}: this field no longer exists. Reload and try again.` }, { status: 409 });
+      }
+      const typeIds = event.attendeeTypes.map((t) => t.id);
+      const staleType = validated.fields.find((f) => f.attendeeTypeIds.some((typeId) => !typeIds.includes(typeId)));
+      if (staleType) {
+        return NextResponse.json({ error: `${staleType.label}: one of its attendee types no longer exists. Reload and try again.` }, { status: 409 });
+      }
+
+      const keptIds = validated.fields.map((f) => f.id).filter((id): id is string => !!id);
+      await tx.eventFormField.deleteMany({ where: { eventId: event.id, id: { notIn: keptIds } } });
+      for (const [position, { id, rules, attendeeTypeIds, ...field }] of Array.from(validated.fields.entries())) {
+        const data = { ...field, position, rules: (rules as Prisma.InputJsonObject | null) ?? Prisma.DbNull };
+        const attendeeTypes = attendeeTypeIds.map((typeId) => ({ id: typeId }));
+        if (id) await tx.eventFormField.update({ where: { id }, data: { ...data, attendeeTypes: { set: attendeeTypes } } });
+        else await tx.eventFormField.create({ data: { ...data, eventId: event.id, attendeeTypes: { connect: attendeeTypes } } });
+      }
+
+      const saved = await tx.eventFormField.findMany({ where: { eventId: event.id }, ...withTypes });
+      await recordAudit(
+        {
+          actor: auth,
+          entityType: 'event',
+          entityId: event.id,
+          eventId: event.id,
+          action: 'update',
+          before: { formFields: fieldSummaries(event.formFields) },
+          after: { formFields: fieldSummaries(saved) },
+        },
+        tx
+      );
+      return saved;
+    });
+
+    if (formFields instanceof NextResponse) return formFields;
+    return NextResponse.json({ formFields });
+  } catch (error: unknown) {
+    console.error(`Error saving form fields for event ${params.id}:`, error);
+    return NextResponse.json({ error: 'Something went wrong.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,71 @@
+// src/app/api/events/[id]/resend-passes/route.ts
+import { NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { requireRole } from '@/lib/auth';
+import { EVENT_MANAGERS } from '@/lib/roles';
+import { recordAuditSafely } from '@/lib/audit';
+import { queueEventPassEmail } from '@/lib/emailService';
+
+export const dynamic = "force-dynamic";
+
+interface Params {
+  params: { id: string };
+}
+
+/**
+ * POST: email every attendee holding a valid pass for this event their pass again, with the
+ * current pass links. Meant for after `npm run backfill:pass-tokens`: pass emails sent before
+ * access tokens linked to the pass by pass ID, which only staff can open now.
+ */
+export async function POST(req: Request, { params }: Params) {
+  const auth = await requireRole(req, EVENT_MANAGERS);
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const event = await prisma.event.findUnique({ where: { id: params.id, deletedAt: null }, select: { id: true } });
+    if (!event) {
+      return NextResponse.json({ error: 'Event not found.' }, { status: 404 });
+    }
+
+    const registrations = await prisma.eventRegistration.findMany({
+      where: {
+        eventId: event.id,
+        deletedAt: null,
+        status: { in: ['registered', 'checked-in'] },
+        passRevokedAt: null,
+        accessToken: { not: null },
+      },
+      include: {
+        user: true,
+        event: true,
+        selectedOccurrences: { where: { occurrence: { deletedAt: null } }, include: { occurrence: true } },
+      },
+    });
+
+    let queued = 0;
+    let failed = 0;
+    for (const registration of registrations) {
+      try {
+        await queueEventPassEmail(registration.user.email, registration, 'confirmation');
+        queued++;
+      } catch {
+        // Logged by queueEventPassEmail; staff can resend it from the registrations list
+        failed++;
+        continue;
+      }
+      await recordAuditSafely({
+        actor: auth,
+        entityType: 'registration',
+        entityId: registration.id,
+        eventId: event.id,
+        action: 'resend-email',
+        after: { email: 'confirmation', to: registration.user.email },
+      });
+    }
+
+    return NextResponse.json({ queued, failed }, { status: 202 });
+  } catch (error: unknown) {
+    console.error(`Error resending the passes of event ${params.id}:`, error);
+    return NextResponse.json({ error: 'Something went wrong.' }, { status: 500 });
+  }
+}
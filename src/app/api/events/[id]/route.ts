@@ -2,6 +2,15 @@
 import { NextResponse, NextRequest } from "next/server";
 import prisma from "@/lib/prisma";
 import { PrismaClientKnownRequestError } from "@prisma/client/runtime/library";
+import { notifyPromoted, promoteFromWaitlist } from "@/lib/capacity";
+import { PASS_ID_PREFIX_REGEX } from "@/lib/passId";
+import { requireRole } from "@/lib/auth";
+import { CHECK_IN_STAFF, EVENT_MANAGERS } from "@/lib/roles";
+import { queueCancellationEmail } from "@/lib/emailService";
+import { kickOutbox } from "@/lib/emailOutbox";
+import { affectedRegistrants, diffOccurrences, notifyScheduleChanges, OccurrenceSnapshot } from "@/lib/scheduleChanges";
+import { trashEvent } from "@/lib/trash";
+import { eventSnapshot, recordAudit, sessionLabel } from "@/lib/audit";
 
 export const dynamic = "force-dynamic";
 export const revalidate = 0;
@@ -38,6 +47,13 @@ function validateCoreFields(body: any) {
     const n = Number(body.maxCapacity);
     if (!Number.isFinite(n) || n <= 0) errs.push("Max Capacity must be a positive number.");
   }
+  if (body.passIdPrefix && !PASS_ID_PREFIX_REGEX.test(String(body.passIdPrefix))) {
+    errs.push("Pass ID Prefix may only contain letters, digits and dashes (max 12 characters).");
+  }
+  if (body.passIdStart !== undefined && body.passIdStart !== null && body.passIdStart !== "") {
+    const n = Number(body.passIdStart);
+    if (!Number.isInteger(n) || n < 0) errs.push("Pass ID Starting Number must be a whole number.");
+  }
   return errs;
 }
 
@@ -56,6 +72,10 @@ function validateOccurrences(occurrences: any[]) {
       if (isNaN(e.getTime())) errs.push(`Invalid date format for occurrence end time: ${occ.endTime}`);
       if (!isNaN(s.getTime()) && !isNaN(e.getTime()) && e < s) errs.push("Occurrence endTime cannot be before startTime.");
     }
+    if (occ.maxCapacity !== undefined && occ.maxCapacity !== null && occ.maxCapacity !== "") {
+      const n = Number(occ.maxCapacity);
+      if (!Number.isFinite(n) || n <= 0) errs.push("Occurrence capacity must be a positive number.");
+    }
   }
   return errs;
 }
@@ -72,12 +92,22 @@ export async function OPTIONS() {
   });
 }
 
-/** PUT /api/events/[id] — full update + replace/sync occurrences */
+/**
+ * PUT /api/events/[id] — full update + replace/sync occurrences.
+ * With ?dryRun=1 nothing is saved; the response is the session diff (added/moved/removed) and
+ * the registrants it affects, for the editor's confirmation step. Affected registrants are
+ * emailed their new schedule after a real save unless the body has notify: false.
+ */
 export async function PUT(req: NextRequest, { params }: { params: { id: string } }) {
+  const auth = await requireRole(req, EVENT_MANAGERS);
+  if (auth instanceof NextResponse) return auth;
+
   const { id } = params;
+  const dryRun = req.nextUrl.searchParams.get("dryRun") === "1";
   try {
     const body = await req.json();
-    const { name, description, location, googleMapsLink, contactEmail, contactPhone, maxCapacity, occurrences = [] } = body || {};
+    const { name, description, location, googleMapsLink, contactEmail, contactPhone, maxCapacity, passIdPrefix, passIdStart, occurrences = [] } = body || {};
+    const notify = body?.notify !== false;
 
     const coreErrs = validateCoreFields(body);
     if (coreErrs.length) return NextResponse.json({ error: coreErrs.join(" ") }, { status: 400 });
@@ -85,20 +115,59 @@ export async function PUT(req: NextRequest, { params }: { params: { id: string }
     const occErrs = validateOccurrences(occurrences);
     if (occErrs.length) return NextResponse.json({ error: occErrs.join(" ") }, { status: 400 });
 
-    const existing = await prisma.event.findUnique({ where: { id }, select: { id: true } });
+    const existing = await prisma.event.findUnique({
+      where: { id, deletedAt: null },
+      include: { occurrences: { where: { deletedAt: null } } },
+    });
     if (!existing) return NextResponse.json({ error: "Event not found." }, { status: 404 });
 
+    const incoming: OccurrenceSnapshot[] = occurrences.map((o: any) => ({
+      id: o.id ? String(o.id) : undefined,
+      startTime: new Date(o.startTime),
+      endTime: o.endTime ? new Date(o.endTime) : null,
+      location: o.location || null,
+    }));
+    const occurrenceSelect = { id: true, startTime: true, endTime: true, location: true };
+
+    if (dryRun) {
+      const existingOccs = await prisma.eventOccurrence.findMany({ where: { eventId: id, deletedAt: null }, select: occurrenceSelect });
+      const diff = diffOccurrences(existingOccs, incoming);
+      return NextResponse.json({ diff, affected: await affectedRegistrants(id, diff) });
+    }
+
     const updated = await prisma.$transaction(async (tx) => {
       // Existing occurrences for this event
-      const existingOccs = await tx.eventOccurrence.findMany({ where: { eventId: id }, select: { id: true } });
+      const existingOccs = await tx.eventOccurrence.findMany({ where: { eventId: id, deletedAt: null }, select: occurrenceSelect });
       const existingIdSet = new Set(existingOccs.map(o => o.id));
 
+      // Who is booked on a moved or removed session; read before the removed ones go to the trash
+      const diff = diffOccurrences(existingOccs, incoming);
+      const movedIds = new Set(diff.moved.map((m) => m.id));
+      const affected = await affectedRegistrants(id, diff, tx);
+
       // Keep only ids that belong to this event
       const incomingIds = occurrences.filter((o: any) => o.id && existingIdSet.has(String(o.id))).map((o: any) => String(o.id));
 
-      // Delete occurrences that aren't in incoming payload
-      await tx.eventOccurrence.deleteMany({
-        where: { eventId: id, NOT: { id: { in: incomingIds.length ? incomingIds : [""] } } },
+      // A trashed session still holds its start time (unique per event), and so does one this
+      // save removes. Refuse rather than purge it, which would take its bookings with it.
+      const incomingTimes = incoming.map((o) => o.startTime.getTime());
+      const trashedOccs = await tx.eventOccurrence.findMany({
+        where: { eventId: id, deletedAt: { not: null }, startTime: { in: incoming.map((o) => o.startTime) } },
+        select: occurrenceSelect,
+      });
+      const removedOccs = existingOccs.filter((o) => !incomingIds.includes(o.id) && incomingTimes.includes(o.startTime.getTime()));
+      if (trashedOccs.length || removedOccs.length) {
+        const clash = trashedOccs.length ? trashedOccs[0] : removedOccs[0];
+        const error = trashedOccs.length
+          ? `A session at ${sessionLabel(clash)} is in the trash. Restore it, or delete it permanently from the Trash page, before adding a session at that time.`
+          : `The session at ${sessionLabel(clash)} can't be removed and added again in one save. Keep the existing session and edit it instead.`;
+        return NextResponse.json({ error }, { status: 409 }) as unknown as any;
+      }
+
+      // Occurrences that aren't in incoming payload go to the trash, bookings included
+      await tx.eventOccurrence.updateMany({
+        where: { eventId: id, deletedAt: null, NOT: { id: { in: incomingIds.length ? incomingIds : [""] } } },
+        data: { deletedAt: new Date() },
       });
 
       // Update existing / create new
@@ -107,13 +176,16 @@ export async function PUT(req: NextRequest, { params }: { params: { id: string }
           startTime: new Date(occ.startTime),
           endTime: occ.endTime ? new Date(occ.endTime) : null,
           location: occ.location || null,
+          maxCapacity: toIntOrNull(occ.maxCapacity),
         };
         if (occ.id) {
           const occId = String(occ.id);
           if (!existingIdSet.has(occId)) {
             return NextResponse.json({ error: `Occurrence ${occId} does not belong to this event.` }, { status: 400 }) as unknown as any;
           }
-          await tx.eventOccurrence.update({ where: { id: occId }, data });
+          // A moved session needs a higher SEQUENCE for subscribed calendars to pick up the change
+          const moved = movedIds.has(occId);
+          await tx.eventOccurrence.update({ where: { id: occId }, data: moved ? { ...data, sequence: { increment: 1 } } : data });
         } else {
           await tx.eventOccurrence.create({ data: { ...data, eventId: id } });
         }
@@ -121,18 +193,44 @@ export async function PUT(req: NextRequest, { params }: { params: { id: string }
 
       const event = await tx.event.update({
         where: { id },
-        data: { name, description, location, googleMapsLink, contactEmail, contactPhone, maxCapacity: toIntOrNull(maxCapacity) },
+        data: {
+          name, description, location, googleMapsLink, contactEmail, contactPhone,
+          maxCapacity: toIntOrNull(maxCapacity),
+          passIdPrefix: passIdPrefix ? String(passIdPrefix).trim() : null,
+          passIdStart: toIntOrNull(passIdStart),
+        },
         include: {
-          occurrences: { orderBy: { startTime: "asc" } },
-          registrations: { select: { id: true } },
+          occurrences: { where: { deletedAt: null }, orderBy: { startTime: "asc" } },
+          registrations: { where: { deletedAt: null }, select: { id: true } },
         },
       });
 
-      return event;
+      // Every calendar entry shows the event name and (by default) its location
+      if (event.name !== existing.name || event.location !== existing.location) {
+        await tx.eventOccurrence.updateMany({ where: { eventId: id }, data: { sequence: { increment: 1 } } });
+      }
+
+      await recordAudit(
+        { actor: auth, entityType: "event", entityId: id, eventId: id, action: "update", before: eventSnapshot(existing), after: eventSnapshot(event) },
+        tx
+      );
+      for (const removed of diff.removed) {
+        await recordAudit(
+          { actor: auth, entityType: "occurrence", entityId: removed.id, eventId: id, action: "delete", before: { session: sessionLabel(removed) } },
+          tx
+        );
+      }
+
+      // Raised capacity (event or session) may free seats for waitlisted registrants
+      const promotedIds = await promoteFromWaitlist(tx, id);
+
+      return { event, promotedIds, affected };
     });
 
     if (updated instanceof NextResponse) return updated;
-    return NextResponse.json(updated);
+    await notifyPromoted(updated.promotedIds);
+    if (notify) await notifyScheduleChanges(updated.affected);
+    return NextResponse.json({ ...updated.event, notified: notify ? updated.affected.length : 0 });
   } catch (error: unknown) {
     console.error("Error updating event (PUT):", error);
     if (error instanceof PrismaClientKnownRequestError) {
@@ -148,16 +246,64 @@ export async function PUT(req: NextRequest, { params }: { params: { id: string }
   }
 }
 
-/** DELETE /api/events/[id] — delete everything related to the event */
-export async function DELETE(_req: NextRequest, { params }: { params: { id: string } }) {
+/**
+ * DELETE /api/events/[id] — move the event, its sessions and registrations to the trash,
+ * where an admin can restore them until the retention period ends (src/lib/trash.ts).
+ * ?dryRun=1 only lists the registrants who would lose their registration. Otherwise each of
+ * them is sent a cancellation email (skipped with ?notify=0), queued in the same transaction
+ * so it goes out only if the delete goes through.
+ */
+export async function DELETE(req: NextRequest, { params }: { params: { id: string } }) {
+  const auth = await requireRole(req, EVENT_MANAGERS);
+  if (auth instanceof NextResponse) return auth;
+
   const { id } = params;
+  const dryRun = req.nextUrl.searchParams.get("dryRun") === "1";
+  const notify = req.nextUrl.searchParams.get("notify") !== "0";
   try {
-    await prisma.$transaction(async (tx) => {
-      await tx.eventRegistration.deleteMany({ where: { eventId: id } });
-      await tx.eventOccurrence.deleteMany({ where: { eventId: id } });
-      await tx.event.delete({ where: { id } });
+    const existing = await prisma.event.findUnique({
+      where: { id, deletedAt: null },
+      include: { occurrences: { where: { deletedAt: null } } },
+    });
+    if (!existing) return NextResponse.json({ error: "Event not found." }, { status: 404 });
+
+    const activeRegistrations = {
+      where: { eventId: id, status: { not: "cancelled" }, deletedAt: null },
+      include: {
+        user: true,
+        event: true,
+        selectedOccurrences: { where: { occurrence: { deletedAt: null } }, include: { occurrence: true } },
+      },
+      orderBy: { registrationDate: "asc" as const },
+    };
+
+    if (dryRun) {
+      const registrations = await prisma.eventRegistration.findMany(activeRegistrations);
+      return NextResponse.json({
+        affected: registrations.map((r) => ({
+          registrationId: r.id,
+          passId: r.passId,
+          name: `${r.user.firstName || ""} ${r.user.lastName || ""}`.trim(),
+          email: r.user.email,
+          status: r.status,
+        })),
+      });
+    }
+
+    const notified = await prisma.$transaction(async (tx) => {
+      const registrations = notify ? await tx.eventRegistration.findMany(activeRegistrations) : [];
+      for (const registration of registrations) {
+        await queueCancellationEmail(registration.user.email, registration, tx);
+      }
+      await trashEvent(tx, id);
+      await recordAudit({ actor: auth, entityType: "event", entityId: id, eventId: id, action: "delete", before: eventSnapshot(existing) }, tx);
+      return registrations.length;
+    }, {
+      // Rendering one email per registrant can take a while on a big event
+      timeout: 60000,
     });
-    return NextResponse.json({ ok: true });
+    if (notified) kickOutbox();
+    return NextResponse.json({ ok: true, notified });
   } catch (error: unknown) {
     console.error("Error deleting event:", error);
     const message = error instanceof Error ? error.message : "Something went wrong.";
@@ -167,6 +313,9 @@ export async function DELETE(_req: NextRequest, { params }: { params: { id: stri
 
 
 export async function GET(req: NextRequest, { params }: { params: { id: string } }) {
+  const auth = await requireRole(req, CHECK_IN_STAFF);
+  if (auth instanceof NextResponse) return auth;
+
   const { id } = params;
 
   if (!id) {
@@ -175,12 +324,14 @@ export async function GET(req: NextRequest, { params }: { params: { id: string }
 
   try {
     const event = await prisma.event.findUnique({
-      where: { id },
+      where: { id, deletedAt: null },
       include: {
         occurrences: {
+          where: { deletedAt: null },
           orderBy: { startTime: 'asc' } // Order occurrences by start time
         },
         registrations: {
+          where: { deletedAt: null },
           select: { id: true, userId: true, status: true } // Select relevant registration fields
         }
       }
@@ -2,10 +2,18 @@
 import { NextResponse } from 'next/server';
 import prisma from '@/lib/prisma';
 import { PrismaClientKnownRequestError } from '@prisma/client/runtime/library';
+import { PASS_ID_PREFIX_REGEX } from '@/lib/passId';
+import { getSessionUser, requireRole } from '@/lib/auth';
+import { eventSnapshot, recordAuditSafely } from '@/lib/audit';
+import { CHECK_IN_STAFF, EVENT_MANAGERS } from '@/lib/roles';
+import { ATTENDEE_TYPE_INCLUDE } from '@/lib/attendeeTypes';
 
 export async function POST(req: Request) {
+  const auth = await requireRole(req, EVENT_MANAGERS);
+  if (auth instanceof NextResponse) return auth;
+
   try {
-    const { name, description, location, googleMapsLink, contactEmail, contactPhone, maxCapacity, occurrences } = await req.json();
+    const { name, description, location, googleMapsLink, contactEmail, contactPhone, maxCapacity, passIdPrefix, passIdStart, occurrences } = await req.json();
 
     if (!name || !description || !location || !googleMapsLink || !contactEmail || !contactPhone || !occurrences || !Array.isArray(occurrences) || occurrences.length === 0) {
       return NextResponse.json({ error: 'All fields (Name, Description, Location, Google Maps Link, Contact Email, Contact Phone, and at least one Occurrence) are required.' }, { status: 400 });
@@ -23,10 +31,18 @@ export async function POST(req: Request) {
       return NextResponse.json({ error: 'Google Maps Link must be a valid URL (start with http/https).' }, { status: 400 });
     }
 
+    if (passIdPrefix && !PASS_ID_PREFIX_REGEX.test(String(passIdPrefix))) {
+      return NextResponse.json({ error: 'Pass ID Prefix may only contain letters, digits and dashes (max 12 characters).' }, { status: 400 });
+    }
+    if (passIdStart !== undefined && passIdStart !== null && passIdStart !== '' && !(Number.isInteger(Number(passIdStart)) && Number(passIdStart) >= 0)) {
+      return NextResponse.json({ error: 'Pass ID Starting Number must be a whole number.' }, { status: 400 });
+    }
+
     for (const occ of occurrences) {
       if (!occ.startTime) return NextResponse.json({ error: 'Each occurrence must have a startTime.' }, { status: 400 });
       if (isNaN(new Date(occ.startTime).getTime())) return NextResponse.json({ error: `Invalid date format for occurrence: ${occ.startTime}` }, { status: 400 });
       if (occ.endTime && isNaN(new Date(occ.endTime).getTime())) return NextResponse.json({ error: `Invalid date format for occurrence end time: ${occ.endTime}` }, { status: 400 });
+      if (occ.maxCapacity !== undefined && occ.maxCapacity !== null && occ.maxCapacity !== '' && !(Number(occ.maxCapacity) > 0)) return NextResponse.json({ error: 'Occurrence capacity must be a positive number.' }, { status: 400 });
     }
 
     const newEvent = await prisma.event.create({
@@ -38,16 +54,27 @@ export async function POST(req: Request) {
         contactEmail,
         contactPhone,
         maxCapacity: maxCapacity ? parseInt(maxCapacity) : null,
+        passIdPrefix: passIdPrefix ? String(passIdPrefix).trim() : null,
+        passIdStart: passIdStart !== undefined && passIdStart !== null && passIdStart !== '' ? parseInt(passIdStart) : null,
         occurrences: {
           create: occurrences.map((occ: any) => ({
             startTime: new Date(occ.startTime),
             endTime: occ.endTime ? new Date(occ.endTime) : null,
             location: occ.location,
+            maxCapacity: occ.maxCapacity ? parseInt(occ.maxCapacity) : null,
           })),
         },
       },
       include: { occurrences: true },
     });
+    await recordAuditSafely({
+      actor: auth,
+      entityType: 'event',
+      entityId: newEvent.id,
+      eventId: newEvent.id,
+      action: 'create',
+      after: eventSnapshot(newEvent),
+    });
 
     return NextResponse.json(newEvent, { status: 201 });
   } catch (error: unknown) {
@@ -67,12 +94,25 @@ export async function POST(req: Request) {
   }
 }
 
-export async function GET(_req: Request) {
+// Public: the registration form lists events from here. Registration data is staff-only, and
+// attendee types only staff can assign are listed for organizers only.
+export async function GET(req: Request) {
   try {
+    const user = await getSessionUser(req);
+    const isStaff = Boolean(user && CHECK_IN_STAFF.includes(user.role));
+    const isManager = Boolean(user && EVENT_MANAGERS.includes(user.role));
+
     const events = await prisma.event.findMany({
+      where: { deletedAt: null },
       include: {
-        occurrences: { orderBy: { startTime: 'asc' } },
-        registrations: { select: { id: true } },
+        occurrences: { where: { deletedAt: null }, orderBy: { startTime: 'asc' } },
+        formFields: { orderBy: { position: 'asc' }, include: { attendeeTypes: { select: { id: true } } } },
+        attendeeTypes: {
+          where: isManager ? {} : { selfService: true },
+          orderBy: { position: 'asc' },
+          include: ATTENDEE_TYPE_INCLUDE,
+        },
+        ...(isStaff ? { registrations: { where: { deletedAt: null }, select: { id: true, status: true } } } : {}),
       },
     });
     return NextResponse.json(events);
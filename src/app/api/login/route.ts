@@ -0,0 +1,26 @@
+// src/app/api/login/route.ts
+import { NextResponse } from 'next/server';
+import { authenticate, startSession } from '@/lib/auth';
+
+// Staff sign-in with either { email, password } or { email, pin }.
+export async function POST(req: Request) {
+  try {
+    const { email, password, pin } = await req.json();
+
+    if (!email || (!password && !pin)) {
+      return NextResponse.json({ error: 'Email and password or PIN are required.' }, { status: 400 });
+    }
+
+    const result = await authenticate(String(email), pin ? { pin: String(pin) } : { password: String(password) });
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    const res = NextResponse.json({ message: 'Login successful', data: result.user });
+    await startSession(res, result.user);
+    return res;
+  } catch (error: unknown) {
+    console.error('Error during login:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred during login.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,238 @@
+// src/app/api/manage-registration/route.ts
+import { NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { PrismaClientKnownRequestError } from '@prisma/client/runtime/library';
+import { verifyManageToken } from '@/lib/manageToken';
+import { queueCancellationEmail } from '@/lib/emailService';
+import {
+  compactWaitlist,
+  hasSeatFor,
+  holdsSeat,
+  lockEventForCapacity,
+  notifyPromoted,
+  promoteFromWaitlist,
+  seatsLeftByOccurrence,
+  sendStatusEmail,
+} from '@/lib/capacity';
+import { notifyAttendanceChanged } from '@/lib/attendance';
+import { recordAudit, sessionLabel } from '@/lib/audit';
+import { PUBLIC_PASS_SELECT, publicPass } from '@/lib/passAccess';
+import { ATTENDEE_TYPE_INCLUDE, typeOffersSession } from '@/lib/attendeeTypes';
+
+export const dynamic = "force-dynamic";
+
+// Attendee self-service, authorised by the signed token from the pass email (?token=...).
+// No staff session is involved: the token only grants access to its own registration.
+
+function registrationIdFrom(req: Request) {
+  return verifyManageToken(new URL(req.url).searchParams.get('token'));
+}
+
+const invalidLink = () =>
+  NextResponse.json({ error: 'This link is invalid or has expired.' }, { status: 401 });
+
+// Changes are closed once the attendee has been checked in or has cancelled.
+function lockedReason(status: string): string | null {
+  if (status === 'cancelled') return 'This registration has been cancelled.';
+  if (status === 'checked-in') return 'You have already been checked in, so this registration can no longer be changed.';
+  return null;
+}
+
+// GET: the pass as on the public pass page, plus its access token for the pass's links and
+// every session of the event with its remaining seats
+export async function GET(req: Request) {
+  const id = registrationIdFrom(req);
+  if (!id) return invalidLink();
+
+  try {
+    const registration = await prisma.eventRegistration.findUnique({
+      where: { id, deletedAt: null },
+      select: {
+        ...PUBLIC_PASS_SELECT,
+        accessToken: true,
+        event: { select: { ...PUBLIC_PASS_SELECT.event.select, occurrences: { where: { deletedAt: null }, orderBy: { startTime: 'asc' } } } },
+      },
+    });
+    if (!registration) {
+      return NextResponse.json({ error: 'Registration not found.' }, { status: 404 });
+    }
+
+    const seatsLeft = await seatsLeftByOccurrence(prisma, registration.eventId);
+    const { occurrences, ...event } = registration.event;
+    return NextResponse.json({
+      ...publicPass({ ...registration, event }),
+      accessToken: registration.accessToken,
+      eventSessions: occurrences.map(({ id, startTime, endTime, location }) => ({ id, startTime, endTime, location })),
+      seatsLeft,
+      canChange: !lockedReason(registration.status),
+    });
+  } catch (error: unknown) {
+    console.error('Error fetching registration for self-service:', error);
+    return NextResponse.json({ error: 'Something went wrong.' }, { status: 500 });
+  }
+}
+
+// PATCH: replace the selected sessions. Newly added sessions must have a free seat.
+export async function PATCH(req: Request) {
+  const id = registrationIdFrom(req);
+  if (!id) return invalidLink();
+
+  try {
+    const { selectedOccurrenceIds } = await req.json();
+    if (!Array.isArray(selectedOccurrenceIds) || selectedOccurrenceIds.length === 0) {
+      return NextResponse.json({ error: 'Please select at least one session.' }, { status: 400 });
+    }
+    const wanted = Array.from(new Set(selectedOccurrenceIds.map(String)));
+
+    const result = await prisma.$transaction(async (tx) => {
+      const { eventId } = await tx.eventRegistration.findUniqueOrThrow({ where: { id, deletedAt: null }, select: { eventId: true } });
+      // Read the status under the lock, so the seat check below can't act on a stale one
+      await lockEventForCapacity(tx, eventId);
+
+      // Bookings on trashed sessions are left alone, so restoring a session brings them back
+      const registration = await tx.eventRegistration.findUniqueOrThrow({
+        where: { id, deletedAt: null },
+        select: {
+          id: true,
+          eventId: true,
+          status: true,
+          attendeeType: { include: ATTENDEE_TYPE_INCLUDE },
+          user: { select: { id: true, email: true, role: true } },
+          selectedOccurrences: {
+            where: { occurrence: { deletedAt: null } },
+            select: { occurrenceId: true, occurrence: { select: { startTime: true, endTime: true, location: true } } },
+          },
+        },
+      });
+      const reason = lockedReason(registration.status);
+      if (reason) return NextResponse.json({ error: reason }, { status: 409 });
+
+      const valid = await tx.eventOccurrence.count({ where: { id: { in: wanted }, eventId: registration.eventId, deletedAt: null } });
+      if (valid !== wanted.length) {
+        return NextResponse.json({ error: 'One or more selected sessions do not belong to this event.' }, { status: 400 });
+      }
+
+      const current = registration.selectedOccurrences.map((so) => so.occurrenceId);
+      const added = wanted.filter((occId) => !current.includes(occId));
+      const removed = current.filter((occId) => !wanted.includes(occId));
+      if (!added.length && !removed.length) return { changed: false, eventId: registration.eventId, promotedIds: [] as string[] };
+
+      // The same rule as at registration: only sessions open to the attendee's type
+      const type = registration.attendeeType;
+      if (type && added.some((occId) => !typeOffersSession(type, occId))) {
+        return NextResponse.json({ error: `One or more selected sessions are not open to ${type.name} attendees.` }, { status: 400 });
+      }
+
+      // Waitlisted registrants can pick any session; the seat check happens when they are promoted
+      if (holdsSeat(registration.status) && added.length && !(await hasSeatFor(tx, registration.eventId, added, id))) {
+        return NextResponse.json({ error: 'One or more of the sessions you added is full.' }, { status: 409 });
+      }
+
+      if (removed.length) {
+        await tx.eventOccurrenceRegistration.deleteMany({ where: { registrationId: id, occurrenceId: { in: removed } } });
+      }
+      if (added.length) {
+        await tx.eventOccurrenceRegistration.createMany({
+          data: added.map((occurrenceId) => ({ registrationId: id, occurrenceId })),
+        });
+      }
+
+      const nowBooked = await tx.eventOccurrence.findMany({ where: { id: { in: wanted } } });
+      await recordAudit(
+        {
+          actor: registration.user, // The attendee, acting on their own registration
+          entityType: 'registration',
+          entityId: id,
+          eventId: registration.eventId,
+          action: 'update',
+          before: { sessions: registration.selectedOccurrences.map((so) => sessionLabel(so.occurrence)).sort() },
+          after: { sessions: nowBooked.map(sessionLabel).sort() },
+        },
+        tx
+      );
+
+      // Seats given up in the removed sessions may let someone off the waitlist, and a
+      // waitlisted registrant who dropped a full session may now fit themselves
+      const promotedIds = (holdsSeat(registration.status) && removed.length) || registration.status === 'waitlisted'
+        ? await promoteFromWaitlist(tx, registration.eventId)
+        : [];
+      return { changed: true, eventId: registration.eventId, promotedIds };
+    });
+
+    if (result instanceof NextResponse) return result;
+
+    if (result.changed) {
+      notifyAttendanceChanged(result.eventId);
+      // A promoted registrant gets their pass from notifyPromoted; don't email them twice
+      if (!result.promotedIds.includes(id)) await sendStatusEmail(id, 'update');
+      await notifyPromoted(result.promotedIds);
+    }
+    return NextResponse.json({ message: result.changed ? 'Your sessions have been updated. An updated pass is on its way to your inbox.' : 'No changes.' });
+  } catch (error: unknown) {
+    console.error('Error updating sessions for self-service:', error);
+    if (error instanceof PrismaClientKnownRequestError && error.code === 'P2025') {
+      return NextResponse.json({ error: 'Registration not found.' }, { status: 404 });
+    }
+    return NextResponse.json({ error: 'Something went wrong.' }, { status: 500 });
+  }
+}
+
+// DELETE: cancel the registration, freeing its seat for the waitlist
+export async function DELETE(req: Request) {
+  const id = registrationIdFrom(req);
+  if (!id) return invalidLink();
+
+  try {
+    const result = await prisma.$transaction(async (tx) => {
+      const registration = await tx.eventRegistration.findUniqueOrThrow({
+        where: { id, deletedAt: null },
+        select: { eventId: true, status: true, waitlistPosition: true, user: { select: { id: true, email: true, role: true } } },
+      });
+      const reason = lockedReason(registration.status);
+      if (reason) return NextResponse.json({ error: reason }, { status: 409 });
+
+      await lockEventForCapacity(tx, registration.eventId);
+      await tx.eventRegistration.update({ where: { id }, data: { status: 'cancelled', waitlistPosition: null } });
+      await recordAudit(
+        {
+          actor: registration.user, // The attendee, acting on their own registration
+          entityType: 'registration',
+          entityId: id,
+          eventId: registration.eventId,
+          action: 'cancel',
+          before: { status: registration.status, waitlistPosition: registration.waitlistPosition },
+          after: { status: 'cancelled', waitlistPosition: null },
+        },
+        tx
+      );
+
+      if (holdsSeat(registration.status)) {
+        return { eventId: registration.eventId, promotedIds: await promoteFromWaitlist(tx, registration.eventId) };
+      }
+      await compactWaitlist(tx, registration.eventId);
+      return { eventId: registration.eventId, promotedIds: [] as string[] };
+    });
+
+    if (result instanceof NextResponse) return result;
+
+    notifyAttendanceChanged(result.eventId);
+    await notifyPromoted(result.promotedIds);
+    try {
+      const registration = await prisma.eventRegistration.findUniqueOrThrow({
+        where: { id },
+        include: { user: true, event: { include: { occurrences: { where: { deletedAt: null } } } } },
+      });
+      await queueCancellationEmail(registration.user.email, registration);
+    } catch (error) {
+      console.error(`Failed to queue cancellation email for registration ${id}:`, error);
+    }
+
+    return NextResponse.json({ message: 'Your registration has been cancelled.' });
+  } catch (error: unknown) {
+    console.error('Error cancelling registration for self-service:', error);
+    if (error instanceof PrismaClientKnownRequestError && error.code === 'P2025') {
+      return NextResponse.json({ error: 'Registration not found.' }, { status: 404 });
+    }
+    return NextResponse.json({ error: 'Something went wrong.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,43 @@
+// src/app/api/public-pass/[token]/calendar.ics/route.ts
+import { NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { PASS_LINK_NOT_FOUND } from '@/lib/passAccess';
+import { buildCalendar } from '@/lib/ics';
+import { CALENDAR_REFRESH_MINUTES, sessionCalendarEvents } from '@/lib/calendar';
+
+export const dynamic = "force-dynamic";
+
+interface Params {
+  params: { token: string };
+}
+
+// GET: subscribable feed with the sessions of the pass behind this access token. It follows session
+// changes, switched sessions and cancellation, since it is rebuilt on every request.
+export async function GET(req: Request, { params }: Params) {
+  try {
+    const registration = await prisma.eventRegistration.findUnique({
+      where: { accessToken: params.token },
+      include: { event: true, selectedOccurrences: { where: { occurrence: { deletedAt: null } }, include: { occurrence: true } } },
+    });
+    if (!registration) {
+      return NextResponse.json({ error: PASS_LINK_NOT_FOUND }, { status: 404 });
+    }
+
+    // A trashed registration stays in the feed as cancelled, so subscribed calendars drop it
+    const status = registration.deletedAt ? 'cancelled' : registration.status;
+    const ics = buildCalendar(sessionCalendarEvents({ ...registration, status }), {
+      name: registration.event.name,
+      refreshMinutes: CALENDAR_REFRESH_MINUTES,
+    });
+    return new NextResponse(ics, {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': `inline; filename="pass-${registration.passId}.ics"`,
+        'Cache-Control': 'no-cache',
+      },
+    });
+  } catch (error: unknown) {
+    console.error('Error building a pass calendar feed:', error);
+    return NextResponse.json({ error: 'Something went wrong.' }, { status: 500 });
+  }
+}
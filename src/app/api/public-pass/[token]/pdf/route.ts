@@ -0,0 +1,40 @@
+// src/app/api/public-pass/[token]/pdf/route.ts
+import { NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { PASS_LINK_NOT_FOUND } from '@/lib/passAccess';
+import { PASS_EVENT_INCLUDE, renderPassPdf } from '@/lib/passPdf';
+
+export const dynamic = "force-dynamic";
+
+interface Params {
+  params: { token: string };
+}
+
+// GET the printable pass behind an access token, as linked from the pass email and page.
+// Staff print passes by pass ID through /api/event-pass-pdf instead.
+export async function GET(req: Request, { params }: Params) {
+  try {
+    const registration = await prisma.eventRegistration.findUnique({
+      where: { accessToken: params.token, deletedAt: null },
+      include: { user: true, attendeeType: true, event: { include: PASS_EVENT_INCLUDE } },
+    });
+    if (!registration) {
+      return NextResponse.json({ error: PASS_LINK_NOT_FOUND }, { status: 404 });
+    }
+    if (registration.passRevokedAt) {
+      return NextResponse.json({ error: 'This pass has been revoked.' }, { status: 410 });
+    }
+
+    const pdfBytes = await renderPassPdf(registration);
+    return new NextResponse(pdfBytes, {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `inline; filename="event-pass-${registration.passId}.pdf"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error: unknown) {
+    console.error('Error generating a public pass PDF:', error);
+    return NextResponse.json({ error: 'Something went wrong.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,27 @@
+// src/app/api/public-pass/[token]/route.ts
+import { NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { PASS_LINK_NOT_FOUND, PUBLIC_PASS_SELECT, publicPass } from '@/lib/passAccess';
+
+export const dynamic = "force-dynamic";
+
+interface Params {
+  params: { token: string };
+}
+
+// GET the pass behind an access token from the pass email, for /view-pass/[token]
+export async function GET(req: Request, { params }: Params) {
+  try {
+    const registration = await prisma.eventRegistration.findUnique({
+      where: { accessToken: params.token, deletedAt: null },
+      select: PUBLIC_PASS_SELECT,
+    });
+    if (!registration) {
+      return NextResponse.json({ error: PASS_LINK_NOT_FOUND }, { status: 404 });
+    }
+    return NextResponse.json(publicPass(registration), { headers: { 'Cache-Control': 'no-store' } });
+  } catch (error: unknown) {
+    console.error('Error fetching a public pass:', error);
+    return NextResponse.json({ error: 'Something went wrong.' }, { status: 500 });
+  }
+}
@@ -1,10 +1,16 @@
 // src/app/api/public-register/route.ts
 import { NextResponse } from 'next/server';
 import prisma from '@/lib/prisma';
-import QRCode from 'qrcode'; // For QR code generation
-import { sendEventPassEmail } from '@/lib/emailService'; // Changed to sendEventPassEmail
-import { PrismaClient, Prisma } from '@prisma/client';
-import { PrismaClientKnownRequestError } from '@prisma/client/runtime/library';
+import { queueEventPassEmail, queueWaitlistEmail } from '@/lib/emailService';
+import { Prisma } from '@prisma/client';
+import { attendeeTypeError, createRegistration, EMAIL_REGEX, PHONE_REGEX, trashedRegistrationError } from '@/lib/registrations';
+import { notifyAttendanceChanged } from '@/lib/attendance';
+import { fieldsForType, validateAnswers } from '@/lib/formFields';
+import { ATTENDEE_TYPE_INCLUDE, chooseAttendeeType } from '@/lib/attendeeTypes';
+import { getSessionUser } from '@/lib/auth';
+import { lockEventForCapacity } from '@/lib/capacity';
+import { EVENT_MANAGERS } from '@/lib/roles';
+import { findUserByEmail, normalizeEmail } from '@/lib/userEmail';
 
 // Define a type for occurrence data as it exists in the database
 interface EventOccurrence {
@@ -15,49 +21,11 @@ interface EventOccurrence {
   eventId: string;
 }
 
-// Function to generate a unique sequential pass ID like BRI-1001
-// This function attempts to find the highest existing sequential number
-// and increments it. It includes a basic retry for generation, but the
-// ultimate uniqueness guarantee comes from the database's unique constraint
-// and the retry logic in the POST handler.
-async function generatePassId(): Promise<string> {
-  const prefix = 'BRI-';
-  let nextNumber = 1001; // Start from 1001
-
-  // Find the highest existing pass ID number
-  const latestRegistration = await prisma.eventRegistration.findFirst({
-    where: {
-      passId: {
-        startsWith: prefix,
-      },
-    },
-    orderBy: {
-      passId: 'desc', // Assuming string comparison works for BRI-000... numbers
-    },
-    select: {
-      passId: true,
-    },
-  });
-
-  if (latestRegistration && latestRegistration.passId) {
-    const lastNumberStr = latestRegistration.passId.replace(prefix, '');
-    const lastNumber = parseInt(lastNumberStr, 10);
-    if (!isNaN(lastNumber) && lastNumber >= 1000) { // Ensure it's a valid number and at least our starting point
-      nextNumber = lastNumber + 1;
-    }
-  }
-
-  // Changed: No longer padding to 9 digits with leading zeros.
-  // The number will now appear as its natural length (e.g., 1001, 10000, 999999999).
-  const formattedNumber = String(nextNumber);
-  return `${prefix}${formattedNumber}`;
-}
-
-
 export async function POST(req: Request) {
   try {
     // Destructure all expected fields from the request body
-    const { firstName, lastName, email, phone, company, eventId, selectedOccurrenceIds } = await req.json();
+    const { firstName, lastName, email: rawEmail, phone, company, position, eventId, selectedOccurrenceIds, answers, attendeeTypeId } = await req.json();
+    const email = rawEmail ? normalizeEmail(rawEmail) : '';
 
     // 1. Basic Validation
     if (!firstName || !lastName || !email || !phone || !company || !eventId || !selectedOccurrenceIds || selectedOccurrenceIds.length === 0) {
@@ -65,21 +33,17 @@ export async function POST(req: Request) {
     }
 
     // Validate email format
-    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-    if (!emailRegex.test(email)) {
+    if (!EMAIL_REGEX.test(email)) {
       return NextResponse.json({ error: 'Invalid email format.' }, { status: 400 });
     }
 
     // Validate phone format (simple check for digits, spaces, +, -)
-    const phoneRegex = /^[0-9\s\-\+()]+$/;
-    if (!phoneRegex.test(phone)) {
+    if (!PHONE_REGEX.test(phone)) {
         return NextResponse.json({ error: 'Invalid phone number format.' }, { status: 400 });
     }
 
     // 2. Check if user already exists or create a new user (or link to existing)
-    let user: Awaited<ReturnType<typeof prisma.user.findUnique>> | null = await prisma.user.findUnique({
-      where: { email },
-    });
+    let user: Awaited<ReturnType<typeof prisma.user.findUnique>> | null = await findUserByEmail(email);
 
     if (!user) {
       user = await prisma.user.create({
@@ -89,6 +53,7 @@ export async function POST(req: Request) {
           lastName,
           phone,
           company,
+          position: position || null,
         },
       });
     } else {
@@ -99,6 +64,7 @@ export async function POST(req: Request) {
           lastName: lastName || user.lastName,
           phone: phone || user.phone,
           company: company || user.company,
+          position: position || user.position,
         },
       });
     }
@@ -116,6 +82,7 @@ export async function POST(req: Request) {
           userId: nonNullUser.id,
           eventId: eventId,
         },
+        deletedAt: null, // A trashed one is reported in the transaction below
       },
     });
 
@@ -125,9 +92,11 @@ export async function POST(req: Request) {
 
     // 4. Validate selected occurrences against the event's actual occurrences
     const event = await prisma.event.findUnique({
-      where: { id: eventId },
+      where: { id: eventId, deletedAt: null },
       include: {
-        occurrences: true,
+        occurrences: { where: { deletedAt: null } },
+        formFields: { orderBy: { position: 'asc' }, include: { attendeeTypes: { select: { id: true } } } },
+        attendeeTypes: { orderBy: { position: 'asc' }, include: ATTENDEE_TYPE_INCLUDE },
       },
     });
 
@@ -140,78 +109,61 @@ export async function POST(req: Request) {
       return NextResponse.json({ error: 'One or more selected sessions are invalid for this event.' }, { status: 400 });
     }
 
-    let newRegistration;
-    let retries = 0;
-    const MAX_RETRIES = 5; // Limit retries to prevent infinite loops in extreme cases
-
-    do {
-      try {
-        const passId = await generatePassId(); // Generate new sequential pass ID
-        const passUrl = `https://bri-event.vercel.app/api/event-pass-pdf/${passId}`;
-        const qrCodeDataUrl = await QRCode.toDataURL(passUrl);
-
-        // 6. Create Event Registration and link selected occurrences in a transaction
-        newRegistration = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
-          const reg = await tx.eventRegistration.create({
-            data: {
-              userId: nonNullUser.id,
-              eventId: eventId,
-              passId: passId,
-              qrCodeData: qrCodeDataUrl,
-              status: 'registered',
-              selectedOccurrences: {
-                create: selectedOccurrenceIds.map((occId: string) => ({
-                  occurrence: {
-                    connect: { id: occId }
-                  }
-                })),
-              },
-            },
-            include: {
-              user: true,
-              event: {
-                include: {
-                  occurrences: true
-                }
-              },
-              selectedOccurrences: {
-                include: {
-                  occurrence: true
-                }
-              }
-            },
-          });
-          return reg;
-        });
-      } catch (transactionError: any) {
-        if (transactionError instanceof PrismaClientKnownRequestError && transactionError.code === 'P2002' && transactionError.meta?.target === 'EventRegistration_passId_key') {
-          // Collision detected on passId, retry
-          console.warn(`Pass ID collision detected for ${transactionError.meta?.target}. Retrying... (Attempt ${retries + 1})`);
-          retries++;
-          if (retries >= MAX_RETRIES) {
-            throw new Error('Maximum pass ID generation retries reached due to collisions.');
-          }
-        } else {
-          // Re-throw other errors
-          throw transactionError;
-        }
-      }
-    } while (!newRegistration && retries < MAX_RETRIES);
+    // Organizers registering someone from this form may pick any type, attendees only self-service ones
+    const staff = await getSessionUser(req);
+    const chosenType = chooseAttendeeType(event.attendeeTypes, attendeeTypeId, Boolean(staff && EVENT_MANAGERS.includes(staff.role)));
+    if (chosenType.error !== null) {
+      return NextResponse.json({ error: chosenType.error }, { status: 400 });
+    }
+    const attendeeType = chosenType.type;
 
-    if (!newRegistration) {
-      return NextResponse.json({ error: 'Failed to generate a unique pass ID after multiple retries. Please try again.' }, { status: 500 });
+    // Answers to the event's own form fields, as asked of this attendee type
+    const checkedAnswers = validateAnswers(fieldsForType(event.formFields, attendeeType?.id), answers);
+    if (checkedAnswers.errors.length) {
+      return NextResponse.json({ error: checkedAnswers.errors.join(' ') }, { status: 400 });
     }
 
+    // 5. Create Event Registration and link selected occurrences in a transaction
+    //    (capacity check, attendee type quota, waitlist and pass ID all happen under the event lock).
+    const newRegistration = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      if (attendeeType) {
+        await lockEventForCapacity(tx, event.id);
+        const typeError = await attendeeTypeError(tx, attendeeType, selectedOccurrenceIds);
+        if (typeError) return NextResponse.json({ error: typeError }, { status: 409 });
+      }
+      const trashedError = await trashedRegistrationError(tx, nonNullUser.id, event.id);
+      if (trashedError) return NextResponse.json({ error: trashedError }, { status: 409 });
+      // Self-service sign-up: the attendee is the actor
+      const attendee = { id: nonNullUser.id, email: nonNullUser.email, role: nonNullUser.role };
+      return createRegistration(tx, event, nonNullUser.id, selectedOccurrenceIds, attendee, checkedAnswers.answers, attendeeType?.id);
+    }, {
+      // Registrations for the same event/prefix queue on row locks; give busy periods room to drain
+      maxWait: 10000,
+      timeout: 20000,
+    });
+
+    if (newRegistration instanceof NextResponse) return newRegistration;
     console.log(newRegistration);
-    // 7. Send registration confirmation email
-    // Prepare arguments for sendEventPassEmail
+    notifyAttendanceChanged(eventId);
+    // 7. Queue the confirmation email; it is delivered in the background, so a slow or
+    //    unavailable mail server can't fail a registration that is already saved
     const toEmail = newRegistration.user.email;
-    const eventName = newRegistration.event.name;
-     const pdfLink = `https://bri-event.vercel.app/api/event-pass-pdf/${newRegistration.passId}`; // Assuming NEXT_PUBLIC_BASE_URL for frontend
-    
-    await sendEventPassEmail(toEmail, eventName, newRegistration, pdfLink);
 
-    return NextResponse.json({ message: 'Registration successful! Check your email for pass details.', registrationId: newRegistration.id, passId: newRegistration.passId }, { status: 201 });
+    if (newRegistration.status === 'waitlisted') {
+      // No pass yet: the pass email goes out when the registrant is promoted off the waitlist.
+      await queueWaitlistEmail(toEmail, newRegistration);
+      return NextResponse.json({
+        message: `This event is currently full. You have been added to the waitlist at position #${newRegistration.waitlistPosition} and will receive your pass by email if a place opens up.`,
+        registrationId: newRegistration.id,
+        passId: newRegistration.passId,
+        status: newRegistration.status,
+        waitlistPosition: newRegistration.waitlistPosition,
+      }, { status: 202 });
+    }
+
+    await queueEventPassEmail(toEmail, newRegistration, 'confirmation');
+
+    return NextResponse.json({ message: 'Registration successful! Check your email for pass details.', registrationId: newRegistration.id, passId: newRegistration.passId, status: newRegistration.status }, { status: 201 });
 
   } catch (error: any) {
     console.error('Public registration failed:', error);
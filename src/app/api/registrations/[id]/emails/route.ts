@@ -0,0 +1,24 @@
+// src/app/api/registrations/[id]/emails/route.ts
+import { NextResponse } from 'next/server';
+import { requireRole } from '@/lib/auth';
+import { CHECK_IN_STAFF } from '@/lib/roles';
+import { emailHistory } from '@/lib/emailOutbox';
+
+export const dynamic = "force-dynamic";
+
+interface Params {
+  params: { id: string };
+}
+
+// GET the outbox history (queued, sent, failed) for one registration
+export async function GET(req: Request, { params }: Params) {
+  const auth = await requireRole(req, CHECK_IN_STAFF);
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    return NextResponse.json(await emailHistory(params.id));
+  } catch (error: unknown) {
+    console.error(`Error loading email history for registration ${params.id}:`, error);
+    return NextResponse.json({ error: 'Something went wrong.' }, { status: 500 });
+  }
+}
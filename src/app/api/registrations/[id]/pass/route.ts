@@ -0,0 +1,102 @@
+// src/app/api/registrations/[id]/pass/route.ts
+import { NextResponse } from 'next/server';
+import QRCode from 'qrcode';
+import prisma from '@/lib/prisma';
+import { requireRole } from '@/lib/auth';
+import { CHECK_IN_STAFF } from '@/lib/roles';
+import { recordAudit } from '@/lib/audit';
+import { queueEventPassEmail } from '@/lib/emailService';
+import { passCode } from '@/lib/passCode';
+
+export const dynamic = "force-dynamic";
+
+interface Params {
+  params: { id: string };
+}
+
+/**
+ * POST { action }: act on a registration's pass, e.g. when a badge is lost or copied.
+ * - revoke: every printed or emailed code of this pass is refused at check-in until it is reissued
+ * - reissue: the pass gets a new code (retiring all earlier ones, revoked or not) and the
+ *   attendee is emailed the new pass
+ */
+export async function POST(req: Request, { params }: Params) {
+  const auth = await requireRole(req, CHECK_IN_STAFF);
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const { action } = await req.json();
+    if (action !== 'revoke' && action !== 'reissue') {
+      return NextResponse.json({ error: 'Invalid action. Allowed: revoke, reissue' }, { status: 400 });
+    }
+
+    const result = await prisma.$transaction(async (tx) => {
+      const registration = await tx.eventRegistration.findUnique({
+        where: { id: params.id, deletedAt: null },
+        select: { id: true, passId: true, eventId: true, status: true, passVersion: true, passRevokedAt: true },
+      });
+      if (!registration) {
+        return NextResponse.json({ error: 'Registration not found.' }, { status: 404 });
+      }
+      const before = { passVersion: registration.passVersion, passRevoked: !!registration.passRevokedAt };
+
+      if (action === 'revoke') {
+        if (registration.passRevokedAt) {
+          return NextResponse.json({ error: 'This pass is already revoked.' }, { status: 409 });
+        }
+        const updated = await tx.eventRegistration.update({
+          where: { id: registration.id },
+          data: { passRevokedAt: new Date() },
+          select: { id: true, passVersion: true, passRevokedAt: true },
+        });
+        await recordAudit(
+          { actor: auth, entityType: 'registration', entityId: registration.id, eventId: registration.eventId, action: 'revoke-pass', before, after: { ...before, passRevoked: true } },
+          tx
+        );
+        return updated;
+      }
+
+      if (registration.status === 'cancelled') {
+        return NextResponse.json({ error: 'This registration is cancelled. Reinstate it before reissuing the pass.' }, { status: 409 });
+      }
+      const passVersion = registration.passVersion + 1;
+      const updated = await tx.eventRegistration.update({
+        where: { id: registration.id },
+        data: {
+          passVersion,
+          passRevokedAt: null,
+          legacyPassCode: false,
+          qrCodeData: await QRCode.toDataURL(passCode({ ...registration, passVersion })),
+        },
+        select: { id: true, passVersion: true, passRevokedAt: true },
+      });
+      await recordAudit(
+        { actor: auth, entityType: 'registration', entityId: registration.id, eventId: registration.eventId, action: 'reissue-pass', before, after: { passVersion, passRevoked: false } },
+        tx
+      );
+      return updated;
+    });
+
+    if (result instanceof NextResponse) return result;
+
+    if (action === 'reissue') {
+      const registration = await prisma.eventRegistration.findUniqueOrThrow({
+        where: { id: result.id },
+        include: {
+          user: true,
+          event: true,
+          selectedOccurrences: { where: { occurrence: { deletedAt: null } }, include: { occurrence: true } },
+        },
+      });
+      // The pass is reissued either way; staff can resend the email from the registrations list
+      await queueEventPassEmail(registration.user.email, registration, 'update').catch((error) =>
+        console.error(`Failed to queue the reissued pass for registration ${result.id}:`, error)
+      );
+    }
+
+    return NextResponse.json(result);
+  } catch (error: unknown) {
+    console.error(`Error updating the pass of registration ${params.id}:`, error);
+    return NextResponse.json({ error: 'Something went wrong.' }, { status: 500 });
+  }
+}
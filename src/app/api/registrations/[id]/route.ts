@@ -2,6 +2,13 @@
 import { NextResponse } from 'next/server';
 import prisma from '@/lib/prisma';
 import { PrismaClientKnownRequestError } from '@prisma/client/runtime/library';
+import { requireRole } from '@/lib/auth';
+import { CHECK_IN_STAFF, EVENT_MANAGERS } from '@/lib/roles';
+import { compactWaitlist, hasSeatFor, holdsSeat, lockEventForCapacity, nextWaitlistPosition, notifyPromoted, promoteFromWaitlist } from '@/lib/capacity';
+import { notifyAttendanceChanged } from '@/lib/attendance';
+import { recordAudit, registrationSnapshot } from '@/lib/audit';
+import { attendeeTypeError } from '@/lib/registrations';
+import { ATTENDEE_TYPE_INCLUDE } from '@/lib/attendeeTypes';
 
 interface Params {
   params: { id: string };
@@ -9,6 +16,9 @@ interface Params {
 
 // GET a single registration by ID
 export async function GET(req: Request, { params }: Params) {
+  const auth = await requireRole(req, CHECK_IN_STAFF);
+  if (auth instanceof NextResponse) return auth;
+
   const { id } = params;
 
   if (!id) {
@@ -17,7 +27,7 @@ export async function GET(req: Request, { params }: Params) {
 
   try {
     const registration = await prisma.eventRegistration.findUnique({
-      where: { id },
+      where: { id, deletedAt: null },
       include: {
         user: {
           select: {
@@ -39,9 +49,13 @@ export async function GET(req: Request, { params }: Params) {
             contactPhone: true,
           },
         },
+        attendeeType: { select: { id: true, name: true } },
         selectedOccurrences: {
+          where: { occurrence: { deletedAt: null } },
           include: {
             occurrence: true,
+            // Per-session check-in record: checkedInAt, checkInStation, checkedOutAt and who scanned it
+            checkedInBy: { select: { id: true, email: true, firstName: true, lastName: true } },
           },
           orderBy: {
             occurrence: {
@@ -71,6 +85,9 @@ export async function GET(req: Request, { params }: Params) {
 
 // PATCH/PUT (Update) a registration by ID
 export async function PATCH(req: Request, { params }: Params) {
+  const auth = await requireRole(req, CHECK_IN_STAFF);
+  if (auth instanceof NextResponse) return auth;
+
   const { id } = params;
 
   if (!id) {
@@ -79,10 +96,15 @@ export async function PATCH(req: Request, { params }: Params) {
 
   try {
     const body = await req.json();
-    const { status, userId, eventId, selectedOccurrenceIds, ...otherFields } = body; // Destructure to safely update
+    const { status, userId, eventId, selectedOccurrenceIds, attendeeTypeId, ...otherFields } = body; // Destructure to safely update
+    // undefined: leave the type alone; null or "": untyped
+    const changesType = attendeeTypeId !== undefined;
+    if (changesType && !EVENT_MANAGERS.includes(auth.role)) {
+      return NextResponse.json({ error: 'Only organizers and admins can change the attendee type.' }, { status: 403 });
+    }
 
     // Validate if status is a valid enum value if you have one in Prisma
-    const allowedStatuses = ['registered', 'checked-in', 'cancelled']; // Example statuses
+    const allowedStatuses = ['registered', 'checked-in', 'cancelled', 'waitlisted']; // Example statuses
     if (status && !allowedStatuses.includes(status)) {
       return NextResponse.json({ error: `Invalid status provided. Allowed: ${allowedStatuses.join(', ')}` }, { status: 400 });
     }
@@ -94,19 +116,107 @@ export async function PATCH(req: Request, { params }: Params) {
     }
     // Add other editable fields here if you expand the edit form in frontend.
     // E.g., if you want to allow changing user/event, you'd handle linking logic.
-    // For now, only status is expected from the frontend edit modal.
-
-    const updatedRegistration = await prisma.eventRegistration.update({
-      where: { id },
-      data: updateData,
-      include: { // Include updated data in response
-        user: true,
-        event: true,
-        selectedOccurrences: {
-          include: { occurrence: true }
+    // For now, status and the attendee type are expected from the frontend edit modal.
+
+    const result = await prisma.$transaction(async (tx) => {
+      // Throws P2025 (handled below as 404) when the registration doesn't exist
+      const { eventId: regEventId } = await tx.eventRegistration.findUniqueOrThrow({ where: { id, deletedAt: null }, select: { eventId: true } });
+      // Read the status under the lock, so the seat check below can't act on a stale one
+      await lockEventForCapacity(tx, regEventId);
+      const previous = await tx.eventRegistration.findUniqueOrThrow({
+        where: { id, deletedAt: null },
+        select: {
+          status: true,
+          eventId: true,
+          passId: true,
+          waitlistPosition: true,
+          attendeeType: { select: { id: true, name: true } },
+          selectedOccurrences: { where: { occurrence: { deletedAt: null } }, select: { occurrenceId: true } },
+        },
+      });
+      const previousStatus = previous.status;
+
+      // Check-in staff may check someone in or undo it; every other status change is for organizers
+      const checkInChange =
+        (status === 'checked-in' && previousStatus === 'registered') || (status === 'registered' && previousStatus === 'checked-in');
+      if (status && status !== previousStatus && !checkInChange && !EVENT_MANAGERS.includes(auth.role)) {
+        return NextResponse.json({ error: 'Check-in staff can only check attendees in or undo a check-in.' }, { status: 403 });
+      }
+
+      // A new type must belong to the event, be open to the booked sessions and have room; so
+      // must the current one when a cancelled registration comes back and counts against its quota
+      const typeId: string | null = changesType ? attendeeTypeId || null : previous.attendeeType?.id ?? null;
+      const typeChanged = typeId !== (previous.attendeeType?.id ?? null);
+      const reinstated = previousStatus === 'cancelled' && !!status && status !== 'cancelled';
+      if (typeId && (typeChanged || reinstated)) {
+        const type = await tx.attendeeType.findFirst({ where: { id: typeId, eventId: regEventId }, include: ATTENDEE_TYPE_INCLUDE });
+        if (!type) {
+          return NextResponse.json({ error: 'That attendee type is not part of this event.' }, { status: 400 });
         }
+        const typeError = await attendeeTypeError(tx, type, previous.selectedOccurrences.map((so) => so.occurrenceId), id);
+        if (typeError) return NextResponse.json({ error: typeError }, { status: 409 });
+      }
+      if (typeChanged) updateData.attendeeTypeId = typeId;
+
+      // Coming off the waitlist or back from cancellation takes a seat, so one must be free
+      const occurrenceIds = previous.selectedOccurrences.map((so) => so.occurrenceId);
+      if (holdsSeat(status) && !holdsSeat(previousStatus) && !(await hasSeatFor(tx, regEventId, occurrenceIds, id))) {
+        return NextResponse.json(
+          { error: 'The event or one of the booked sessions is full. Raise its capacity or leave the registration waitlisted.' },
+          { status: 409 }
+        );
       }
+
+      // Keep waitlistPosition consistent with the status change
+      if (status === 'waitlisted' && previousStatus !== 'waitlisted') {
+        updateData.waitlistPosition = await nextWaitlistPosition(tx, regEventId);
+      } else if (status && status !== 'waitlisted') {
+        updateData.waitlistPosition = null;
+      }
+
+      const updated = await tx.eventRegistration.update({
+        where: { id },
+        data: updateData,
+        include: { // Include updated data in response
+          user: true,
+          event: true,
+          attendeeType: { select: { id: true, name: true, badgeColor: true } },
+          selectedOccurrences: {
+            where: { occurrence: { deletedAt: null } },
+            include: { occurrence: true }
+          }
+        }
+      });
+
+      await recordAudit(
+        {
+          actor: auth,
+          entityType: 'registration',
+          entityId: id,
+          eventId: regEventId,
+          action: 'update',
+          // Sessions can't change here; leave them out of both sides
+          before: registrationSnapshot({ ...previous, selectedOccurrences: undefined }),
+          after: registrationSnapshot({ ...updated, selectedOccurrences: undefined }),
+        },
+        tx
+      );
+
+      // A freed seat goes to the next person in the queue
+      let promoted: string[] = [];
+      if (holdsSeat(previousStatus) && !holdsSeat(updated.status)) {
+        promoted = await promoteFromWaitlist(tx, regEventId);
+      } else if (previousStatus === 'waitlisted' && updated.status !== 'waitlisted') {
+        await compactWaitlist(tx, regEventId);
+      }
+
+      return { updatedRegistration: updated, promotedIds: promoted };
     });
+    if (result instanceof NextResponse) return result;
+    const { updatedRegistration, promotedIds } = result;
+
+    await notifyPromoted(promotedIds);
+    notifyAttendanceChanged(updatedRegistration.eventId);
 
     return NextResponse.json(updatedRegistration);
   } catch (error: unknown) {
@@ -124,8 +234,11 @@ export async function PATCH(req: Request, { params }: Params) {
   }
 }
 
-// DELETE a registration by ID
+// DELETE a registration by ID. It goes to the trash (see src/lib/trash.ts) and frees its seat.
 export async function DELETE(req: Request, { params }: Params) {
+  const auth = await requireRole(req, EVENT_MANAGERS);
+  if (auth instanceof NextResponse) return auth;
+
   const { id } = params;
 
   if (!id) {
@@ -133,14 +246,34 @@ export async function DELETE(req: Request, { params }: Params) {
   }
 
   try {
-    // Delete associated EventOccurrenceRegistration records first if onDelete: Cascade isn't set
-    // or if you want to explicitly handle it for clarity/logging.
-    // With `onDelete: Cascade` on the relation, Prisma handles this automatically when deleting EventRegistration.
-    await prisma.eventRegistration.delete({
-      where: { id },
+    // Session bookings stay with the trashed registration so a restore brings them back;
+    // seat counts and lists skip it from here on.
+    const { eventId, promotedIds } = await prisma.$transaction(async (tx) => {
+      const { eventId } = await tx.eventRegistration.findUniqueOrThrow({ where: { id, deletedAt: null }, select: { eventId: true } });
+      await lockEventForCapacity(tx, eventId);
+
+      const deleted = await tx.eventRegistration.update({
+        where: { id },
+        data: { deletedAt: new Date(), waitlistPosition: null },
+        include: { selectedOccurrences: { where: { occurrence: { deletedAt: null } }, include: { occurrence: true } } },
+      });
+      await recordAudit(
+        { actor: auth, entityType: 'registration', entityId: id, eventId, action: 'delete', before: registrationSnapshot(deleted) },
+        tx
+      );
+      if (holdsSeat(deleted.status)) {
+        return { eventId, promotedIds: await promoteFromWaitlist(tx, deleted.eventId) };
+      }
+      if (deleted.status === 'waitlisted') {
+        await compactWaitlist(tx, deleted.eventId);
+      }
+      return { eventId, promotedIds: [] as string[] };
     });
 
-    return NextResponse.json({ message: 'Registration deleted successfully.' }, { status: 200 });
+    await notifyPromoted(promotedIds);
+    notifyAttendanceChanged(eventId);
+
+    return NextResponse.json({ message: 'Registration moved to the trash.' }, { status: 200 });
   } catch (error: unknown) {
     console.error(`Error deleting registration with ID ${id}:`, error);
     if (error instanceof PrismaClientKnownRequestError) {
@@ -1,25 +1,36 @@
 import { NextResponse } from "next/server";
 import prisma from "@/lib/prisma";
+import { requireRole } from "@/lib/auth";
+import { CHECK_IN_STAFF } from "@/lib/roles";
 
 export const dynamic = "force-dynamic";
 
 /**
  * GET /api/registrations/all
  * - Returns ALL registrations (no pagination)
- * - Includes full user, event(+occurrences), and selectedOccurrences(+occurrence)
+ * - Includes user contact fields, event(+occurrences), and selectedOccurrences(+occurrence)
+ * - For downloads use /api/registrations/export, which filters and streams on the server
  */
-export async function GET() {
+export async function GET(req: Request) {
+  const auth = await requireRole(req, CHECK_IN_STAFF);
+  if (auth instanceof NextResponse) return auth;
+
   try {
     const data = await prisma.eventRegistration.findMany({
+      where: { deletedAt: null },
       orderBy: { registrationDate: "desc" },
       include: {
-        user: true, // all user fields
+        // Only the attendee fields the list shows; never password or PIN hashes
+        user: { select: { id: true, firstName: true, lastName: true, email: true, phone: true, company: true, position: true } },
         event: {
           include: {
-            occurrences: true, // all event occurrences
+            occurrences: { where: { deletedAt: null } }, // all event occurrences
+            formFields: { orderBy: { position: "asc" } }, // labels for the stored answers
           },
         },
+        attendeeType: { select: { id: true, name: true, badgeColor: true } },
         selectedOccurrences: {
+          where: { occurrence: { deletedAt: null } },
           include: {
             occurrence: true, // the chosen occurrence(s) for this registration
           },
@@ -0,0 +1,77 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { requireRole } from "@/lib/auth";
+import { CHECK_IN_STAFF } from "@/lib/roles";
+import { buildOrderBy, buildWhere } from "@/lib/registrationQuery";
+import {
+  EXPORT_FORMATS,
+  eventExportColumns,
+  ExportFormat,
+  parseExportColumns,
+  registrationExportStream,
+  registrationExportWorkbook,
+} from "@/lib/registrationExport";
+
+export const dynamic = "force-dynamic";
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  json: "application/json; charset=utf-8",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+};
+
+/**
+ * GET /api/registrations/export?format=csv|xlsx|json
+ * - Same filters and sorting as GET /api/registrations (status, searchTerm, eventId, sessionId, attendeeTypeId, sortBy, sortDirection)
+ * - columns=passId,name,email,... picks and orders the columns (see EXPORT_COLUMNS); with an
+ *   eventId, each form field is also available as field:<id> and exported by default
+ * - csv and json are streamed as rows are read
+ */
+export async function GET(req: Request) {
+  const auth = await requireRole(req, CHECK_IN_STAFF);
+  if (auth instanceof NextResponse) return auth;
+
+  const params = new URL(req.url).searchParams;
+
+  const format = (params.get("format") || "csv").trim().toLowerCase() as ExportFormat;
+  if (!EXPORT_FORMATS.includes(format)) {
+    return NextResponse.json({ error: `Invalid format. Allowed: ${EXPORT_FORMATS.join(", ")}` }, { status: 400 });
+  }
+
+  const eventId = (params.get("eventId") || "").trim();
+  const formFields = eventId ? await prisma.eventFormField.findMany({ where: { eventId }, orderBy: { position: "asc" } }) : [];
+  const { catalog, defaults } = eventExportColumns(formFields);
+
+  const { columns, unknown } = parseExportColumns(params.get("columns"), catalog, defaults);
+  if (unknown.length) {
+    return NextResponse.json(
+      { error: `Unknown column(s): ${unknown.join(", ")}. Allowed: ${Object.keys(catalog).join(", ")}` },
+      { status: 400 }
+    );
+  }
+  if (!columns.length) {
+    return NextResponse.json({ error: "Select at least one column." }, { status: 400 });
+  }
+
+  const where = buildWhere(params);
+  const sortDirection = params.get("sortDirection") === "ascending" ? "asc" : "desc";
+  const orderBy = buildOrderBy((params.get("sortBy") || "registrationDate").trim(), sortDirection);
+
+  const filename = `registrations-${new Date().toISOString().slice(0, 10)}.${format}`;
+  const headers = {
+    "Content-Type": CONTENT_TYPES[format],
+    "Content-Disposition": `attachment; filename="${filename}"`,
+    "Cache-Control": "no-store",
+  };
+
+  try {
+    if (format === "xlsx") {
+      const workbook = await registrationExportWorkbook(columns, where, orderBy, catalog);
+      return new Response(workbook, { headers });
+    }
+    return new Response(registrationExportStream(format, columns, where, orderBy, catalog), { headers });
+  } catch (error: any) {
+    console.error("Error exporting registrations:", error);
+    return NextResponse.json({ error: `An unexpected error occurred: ${error?.message ?? "Unknown error"}` }, { status: 500 });
+  }
+}
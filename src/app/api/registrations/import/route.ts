@@ -0,0 +1,155 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { requireRole } from "@/lib/auth";
+import { EVENT_MANAGERS } from "@/lib/roles";
+import { sendStatusEmail } from "@/lib/capacity";
+import { notifyAttendanceChanged } from "@/lib/attendance";
+import { ATTENDEE_FIELD_LABELS } from "@/lib/registrations";
+import { ATTENDEE_TYPE_INCLUDE } from "@/lib/attendeeTypes";
+import {
+  ColumnMapping,
+  commitImport,
+  guessMapping,
+  MAX_IMPORT_ROWS,
+  parseSpreadsheet,
+  previewImport,
+  unmappedFields,
+} from "@/lib/attendeeImport";
+
+export const dynamic = "force-dynamic";
+
+const MAX_FILE_BYTES = 5 * 1024 * 1024;
+
+function parseJsonField<T>(value: FormDataEntryValue | null, fallback: T): T {
+  if (typeof value !== "string" || !value.trim()) return fallback;
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return fallback;
+  }
+}
+
+/**
+ * POST /api/registrations/import (multipart/form-data)
+ * - file: CSV or XLSX, first sheet, header row first
+ * - eventId, occurrenceIds (JSON array): the event and sessions every imported attendee is registered for
+ * - attendeeTypeId (optional): one of the event's attendee types, given to every imported attendee
+ * - mapping (JSON, optional): { firstName: "<header>", ... }; guessed from the headers when omitted
+ * - mode: "preview" (default) validates only; "commit" registers the valid rows
+ * - sendEmails: "true" to email each new registrant their pass (or waitlist notice)
+ *
+ * The file is re-read and re-validated on commit, so the preview is never trusted as-is.
+ */
+export async function POST(req: Request) {
+  const auth = await requireRole(req, EVENT_MANAGERS);
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const form = await req.formData();
+    const file = form.get("file");
+    const eventId = String(form.get("eventId") || "").trim();
+    const occurrenceIds = parseJsonField<string[]>(form.get("occurrenceIds"), []);
+    const attendeeTypeId = String(form.get("attendeeTypeId") || "").trim();
+    const mode = form.get("mode") === "commit" ? "commit" : "preview";
+
+    if (!file || typeof file === "string") {
+      return NextResponse.json({ error: "Please choose a CSV or XLSX file." }, { status: 400 });
+    }
+    if (file.size > MAX_FILE_BYTES) {
+      return NextResponse.json({ error: "The file is larger than 5 MB." }, { status: 400 });
+    }
+    if (!eventId) {
+      return NextResponse.json({ error: "Please select an event." }, { status: 400 });
+    }
+
+    const event = await prisma.event.findUnique({
+      where: { id: eventId, deletedAt: null },
+      select: {
+        id: true,
+        passIdPrefix: true,
+        passIdStart: true,
+        occurrences: { where: { deletedAt: null }, select: { id: true } },
+        attendeeTypes: { include: ATTENDEE_TYPE_INCLUDE },
+      },
+    });
+    if (!event) {
+      return NextResponse.json({ error: "Event not found." }, { status: 404 });
+    }
+    const validIds = event.occurrences.map((o) => o.id);
+    if (!Array.isArray(occurrenceIds) || !occurrenceIds.length) {
+      return NextResponse.json({ error: "Please select at least one session." }, { status: 400 });
+    }
+    if (occurrenceIds.some((id) => !validIds.includes(id))) {
+      return NextResponse.json({ error: "One or more selected sessions are invalid for this event." }, { status: 400 });
+    }
+    const attendeeType = attendeeTypeId ? event.attendeeTypes.find((t) => t.id === attendeeTypeId) : null;
+    if (attendeeType === undefined) {
+      return NextResponse.json({ error: "That attendee type is not part of this event." }, { status: 400 });
+    }
+
+    let sheet;
+    try {
+      sheet = parseSpreadsheet(Buffer.from(await file.arrayBuffer()));
+    } catch (error) {
+      console.error("Could not parse import file:", error);
+      return NextResponse.json({ error: "Could not read the file. Upload a CSV or XLSX spreadsheet." }, { status: 400 });
+    }
+    if (!sheet.rows.length) {
+      return NextResponse.json({ error: "The file has no data rows." }, { status: 400 });
+    }
+    if (sheet.rows.length > MAX_IMPORT_ROWS) {
+      return NextResponse.json({ error: `Import at most ${MAX_IMPORT_ROWS} rows at a time.` }, { status: 400 });
+    }
+
+    const mapping = parseJsonField<ColumnMapping | null>(form.get("mapping"), null) ?? guessMapping(sheet.headers);
+    const unmapped = unmappedFields(mapping, sheet.headers);
+    const rows = unmapped.length ? [] : await previewImport(sheet, mapping, eventId);
+
+    if (mode === "preview") {
+      return NextResponse.json({
+        headers: sheet.headers,
+        fields: ATTENDEE_FIELD_LABELS,
+        mapping,
+        unmapped,
+        rows,
+        summary: {
+          total: sheet.rows.length,
+          valid: rows.filter((r) => !r.errors.length && !r.duplicate).length,
+          invalid: rows.filter((r) => r.errors.length).length,
+          duplicates: rows.filter((r) => !r.errors.length && r.duplicate).length,
+        },
+      });
+    }
+
+    if (unmapped.length) {
+      return NextResponse.json(
+        { error: `Map a column to: ${unmapped.map((f) => ATTENDEE_FIELD_LABELS[f]).join(", ")}.` },
+        { status: 400 }
+      );
+    }
+
+    const results = await commitImport(rows, event, occurrenceIds, auth, attendeeType);
+    const created = results.filter((r) => r.registrationId);
+    if (created.length) notifyAttendanceChanged(eventId);
+
+    // sendStatusEmail logs its own failures, so one bad address doesn't stop the rest
+    const sendEmails = form.get("sendEmails") === "true";
+    if (sendEmails) {
+      for (const r of created) await sendStatusEmail(r.registrationId as string);
+    }
+
+    return NextResponse.json({
+      results,
+      summary: {
+        registered: results.filter((r) => r.status === "registered").length,
+        waitlisted: results.filter((r) => r.status === "waitlisted").length,
+        skipped: results.filter((r) => r.status === "skipped").length,
+        failed: results.filter((r) => r.status === "failed").length,
+      },
+      emailed: sendEmails ? created.length : 0,
+    });
+  } catch (error: any) {
+    console.error("Error importing registrations:", error);
+    return NextResponse.json({ error: `An unexpected error occurred: ${error?.message ?? "Unknown error"}` }, { status: 500 });
+  }
+}
@@ -1,11 +1,17 @@
 // src/app/api/registrations/resend-email/route.ts
 import { NextResponse } from 'next/server';
 import prisma from '@/lib/prisma';
-import { sendEventPassEmail } from '@/lib/emailService'; // Changed to sendEventPassEmail
+import { queueEventPassEmail } from '@/lib/emailService';
 import { PrismaClientKnownRequestError } from '@prisma/client/runtime/library';
+import { requireRole } from '@/lib/auth';
+import { EVENT_MANAGERS } from '@/lib/roles';
+import { recordAuditSafely } from '@/lib/audit';
 
 // This API route handles resending the registration email for a given registration ID.
 export async function POST(req: Request) {
+  const auth = await requireRole(req, EVENT_MANAGERS);
+  if (auth instanceof NextResponse) return auth;
+
   try {
     const { registrationId } = await req.json();
 
@@ -15,17 +21,18 @@ export async function POST(req: Request) {
     }
 
     // Fetch the full registration details, including all necessary related data
-    // that the `sendEventPassEmail` function expects.
+    // that the `queueEventPassEmail` function expects.
     const registration = await prisma.eventRegistration.findUnique({
-      where: { id: registrationId },
+      where: { id: registrationId, deletedAt: null },
       include: {
         user: true, // Include user details (for email, name)
         event: {
           include: {
-            occurrences: true, // Include all event occurrences to match email template needs
+            occurrences: { where: { deletedAt: null } }, // Include all event occurrences to match email template needs
           },
         },
         selectedOccurrences: {
+          where: { occurrence: { deletedAt: null } },
           include: {
             occurrence: true, // Include details of the specific selected occurrences
           },
@@ -38,21 +45,19 @@ export async function POST(req: Request) {
       return NextResponse.json({ error: 'Registration not found.' }, { status: 404 });
     }
 
-    // Prepare arguments for sendEventPassEmail
-    const toEmail = registration.user.email;
-    const eventName = registration.event.name;
-
-    const pdfLink = `https://bri-event.vercel.app/api/event-pass-pdf/${registration.passId}`;
-
-
-
-    // Call the email service to send the registration email with all required arguments.
-    console.log(registration);
-    
-    await sendEventPassEmail(toEmail, eventName, registration, pdfLink);
+    // Goes through the outbox like every other email, so it shows up in the delivery log
+    // and is retried if the mail server is unavailable.
+    await queueEventPassEmail(registration.user.email, registration, 'confirmation');
+    await recordAuditSafely({
+      actor: auth,
+      entityType: 'registration',
+      entityId: registration.id,
+      eventId: registration.eventId,
+      action: 'resend-email',
+      after: { email: 'confirmation', to: registration.user.email },
+    });
 
-    // Return a success response.
-    return NextResponse.json({ message: 'Registration email resent successfully.' }, { status: 200 });
+    return NextResponse.json({ message: 'Registration email queued for sending.' }, { status: 202 });
 
   } catch (error: unknown) {
     console.error('Error resending registration email:', error);
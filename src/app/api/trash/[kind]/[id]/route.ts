@@ -0,0 +1,52 @@
+// src/app/api/trash/[kind]/[id]/route.ts
+import { NextResponse } from 'next/server';
+import { requireRole } from '@/lib/auth';
+import { USER_ADMINS } from '@/lib/roles';
+import { isTrashKind, purgeFromTrash, restoreFromTrash } from '@/lib/trash';
+import { notifyAttendanceChanged } from '@/lib/attendance';
+import { recordAuditSafely } from '@/lib/audit';
+
+export const dynamic = "force-dynamic";
+
+interface Params {
+  params: { kind: string; id: string }; // kind: "event", "occurrence" or "registration"
+}
+
+// POST: restore the item (an event comes back with everything that was deleted with it)
+export async function POST(req: Request, { params }: Params) {
+  const auth = await requireRole(req, USER_ADMINS);
+  if (auth instanceof NextResponse) return auth;
+  if (!isTrashKind(params.kind)) {
+    return NextResponse.json({ error: 'Unknown item type.' }, { status: 400 });
+  }
+
+  try {
+    const result = await restoreFromTrash(params.kind, params.id);
+    if (result.error !== null) return NextResponse.json({ error: result.error }, { status: result.status });
+    if (result.eventId) notifyAttendanceChanged(result.eventId);
+    await recordAuditSafely({ actor: auth, entityType: params.kind, entityId: params.id, eventId: result.eventId, action: 'restore' });
+    return NextResponse.json({ message: result.message });
+  } catch (error: unknown) {
+    console.error(`Error restoring ${params.kind} ${params.id}:`, error);
+    return NextResponse.json({ error: 'Something went wrong.' }, { status: 500 });
+  }
+}
+
+// DELETE: remove the item for good without waiting for the retention period
+export async function DELETE(req: Request, { params }: Params) {
+  const auth = await requireRole(req, USER_ADMINS);
+  if (auth instanceof NextResponse) return auth;
+  if (!isTrashKind(params.kind)) {
+    return NextResponse.json({ error: 'Unknown item type.' }, { status: 400 });
+  }
+
+  try {
+    const result = await purgeFromTrash(params.kind, params.id);
+    if (result.error !== null) return NextResponse.json({ error: result.error }, { status: result.status });
+    await recordAuditSafely({ actor: auth, entityType: params.kind, entityId: params.id, eventId: params.kind === 'event' ? params.id : null, action: 'purge' });
+    return NextResponse.json({ message: result.message });
+  } catch (error: unknown) {
+    console.error(`Error purging ${params.kind} ${params.id}:`, error);
+    return NextResponse.json({ error: 'Something went wrong.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,74 @@
+// src/app/api/trash/route.ts
+import { NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { requireRole } from '@/lib/auth';
+import { USER_ADMINS } from '@/lib/roles';
+import { purgeDate, trashRetentionDays } from '@/lib/trash';
+
+export const dynamic = "force-dynamic";
+
+const inTrash = { deletedAt: { not: null } };
+// Sessions and registrations of a trashed event are listed under the event, not separately
+const liveEvent = { event: { deletedAt: null } };
+
+// GET everything in the trash, newest first, with the date each item will be purged
+export async function GET(req: Request) {
+  const auth = await requireRole(req, USER_ADMINS);
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const [events, occurrences, registrations] = await Promise.all([
+      prisma.event.findMany({
+        where: inTrash,
+        orderBy: { deletedAt: 'desc' },
+        select: {
+          id: true,
+          name: true,
+          location: true,
+          deletedAt: true,
+          _count: { select: { registrations: true, occurrences: true } },
+        },
+      }),
+      prisma.eventOccurrence.findMany({
+        where: { ...inTrash, ...liveEvent },
+        orderBy: { deletedAt: 'desc' },
+        select: {
+          id: true,
+          startTime: true,
+          endTime: true,
+          location: true,
+          deletedAt: true,
+          event: { select: { id: true, name: true } },
+          _count: { select: { registrations: true } },
+        },
+      }),
+      prisma.eventRegistration.findMany({
+        where: { ...inTrash, ...liveEvent },
+        orderBy: { deletedAt: 'desc' },
+        select: {
+          id: true,
+          passId: true,
+          status: true,
+          deletedAt: true,
+          user: { select: { firstName: true, lastName: true, email: true } },
+          event: { select: { id: true, name: true } },
+        },
+      }),
+    ]);
+
+    const withPurgeDate = <T extends { deletedAt: Date | null }>(item: T) => ({
+      ...item,
+      purgeAfter: purgeDate(item.deletedAt as Date),
+    });
+
+    return NextResponse.json({
+      retentionDays: trashRetentionDays(),
+      events: events.map(withPurgeDate),
+      occurrences: occurrences.map(withPurgeDate),
+      registrations: registrations.map(withPurgeDate),
+    });
+  } catch (error: unknown) {
+    console.error('Error loading the trash:', error);
+    return NextResponse.json({ error: 'Something went wrong.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,11 @@
+// src/app/api/users/logout/route.ts
+import { NextResponse } from 'next/server';
+import { endSession } from '@/lib/auth';
+
+export const dynamic = "force-dynamic";
+
+export async function GET(req: Request) {
+  const res = NextResponse.json({ message: 'Logout successful', success: true });
+  await endSession(req, res);
+  return res;
+}
@@ -0,0 +1,13 @@
+// src/app/api/users/me/route.ts
+import { NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/auth';
+
+export const dynamic = "force-dynamic";
+
+export async function GET(req: Request) {
+  const user = await getSessionUser(req);
+  if (!user) {
+    return NextResponse.json({ error: 'Not signed in.' }, { status: 401 });
+  }
+  return NextResponse.json({ message: 'User found', data: user });
+}
@@ -0,0 +1,68 @@
+// src/app/api/users/signup/route.ts
+import { NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { hashPassword, PIN_REGEX, requireRole } from '@/lib/auth';
+import { isRole, USER_ADMINS } from '@/lib/roles';
+import { sendEmail } from '@/helpers/mailer';
+import { findUserByEmail, normalizeEmail } from '@/lib/userEmail';
+
+// Staff accounts are created by an admin. The very first admin can be created
+// without signing in, otherwise nobody could ever log in to a fresh install.
+export async function POST(req: Request) {
+  try {
+    const adminCount = await prisma.user.count({ where: { role: 'admin' } });
+    if (adminCount > 0) {
+      const auth = await requireRole(req, USER_ADMINS);
+      if (auth instanceof NextResponse) return auth;
+    }
+
+    const { email, password, pin, role } = await req.json();
+
+    if (!email || !password || !role) {
+      return NextResponse.json({ error: 'Email, password and role are required.' }, { status: 400 });
+    }
+    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+    if (!emailRegex.test(email)) {
+      return NextResponse.json({ error: 'Invalid email format.' }, { status: 400 });
+    }
+    if (String(password).length < 5) {
+      return NextResponse.json({ error: 'Password must be at least 5 characters.' }, { status: 400 });
+    }
+    if (pin && !PIN_REGEX.test(String(pin))) {
+      return NextResponse.json({ error: 'PIN must be 4 to 8 digits.' }, { status: 400 });
+    }
+    if (!isRole(role)) {
+      return NextResponse.json({ error: 'Invalid role.' }, { status: 400 });
+    }
+    if (adminCount === 0 && role !== 'admin') {
+      return NextResponse.json({ error: 'The first account must be an admin.' }, { status: 400 });
+    }
+
+    const normalizedEmail = normalizeEmail(email);
+    const existing = await findUserByEmail(normalizedEmail);
+    if (existing?.password) {
+      return NextResponse.json({ error: 'User already exists.' }, { status: 409 });
+    }
+
+    const credentials = {
+      password: await hashPassword(String(password)),
+      pinHash: pin ? await hashPassword(String(pin)) : null,
+      role,
+    };
+    // An attendee who registered for an event already has a User row (without a password); upgrade it.
+    const user = existing
+      ? await prisma.user.update({ where: { id: existing.id }, data: credentials })
+      : await prisma.user.create({ data: { email: normalizedEmail, ...credentials } });
+
+    await sendEmail({ email: user.email, emailType: "VERIFY" });
+
+    return NextResponse.json(
+      { message: 'User created successfully', success: true, data: { id: user.id, email: user.email, role: user.role } },
+      { status: 201 }
+    );
+  } catch (error: unknown) {
+    console.error('Error creating user:', error);
+    const message = error instanceof Error ? error.message : 'Something went wrong.';
+    return NextResponse.json({ error: `An unexpected error occurred while creating the user: ${message}` }, { status: 500 });
+  }
+}
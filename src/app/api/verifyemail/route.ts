@@ -0,0 +1,27 @@
+// src/app/api/verifyemail/route.ts
+import { NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+
+export async function POST(req: Request) {
+  try {
+    const { token } = await req.json();
+    if (!token) {
+      return NextResponse.json({ error: 'Verification token is required.' }, { status: 400 });
+    }
+
+    const record = await prisma.verificationToken.findUnique({ where: { token: String(token) } });
+    if (!record || record.expires < new Date()) {
+      return NextResponse.json({ error: 'Invalid or expired verification link.' }, { status: 400 });
+    }
+
+    await prisma.$transaction([
+      prisma.user.update({ where: { email: record.identifier }, data: { emailVerified: new Date() } }),
+      prisma.verificationToken.delete({ where: { token: record.token } }),
+    ]);
+
+    return NextResponse.json({ message: 'Email verified successfully', success: true });
+  } catch (error: unknown) {
+    console.error('Error verifying email:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred while verifying the email.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,224 @@
+// src/app/audit/page.tsx
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import axiosInstance from "@/lib/api";
+import { Loader2 } from "lucide-react";
+import { AuditChangeList, AuditLogEntry, actorLabel } from "@/app/components/AuditHistory";
+
+/* ---------------- Types ---------------- */
+interface EventOption {
+  id: string;
+  name: string;
+}
+
+interface AuditResponse {
+  data: AuditLogEntry[];
+  total: number;
+  page: number;
+  limit: number;
+}
+
+interface Filters {
+  entityType: string;
+  eventId: string;
+  action: string;
+  actor: string;
+  from: string;
+  to: string;
+}
+
+const EMPTY_FILTERS: Filters = { entityType: "", eventId: "", action: "", actor: "", from: "", to: "" };
+const PAGE_SIZE = 25;
+
+const ENTITY_LABELS: Record<AuditLogEntry["entityType"], string> = {
+  event: "Event",
+  occurrence: "Session",
+  registration: "Registration",
+};
+
+const ACTIONS = [
+  "create",
+  "update",
+  "delete",
+  "cancel",
+  "restore",
+  "purge",
+  "resend-email",
+  "revoke-pass",
+  "reissue-pass",
+  "check-in",
+  "check-out",
+  "waitlist-promotion",
+];
+
+const inputClass = "rounded-md border border-gray-300 px-3 py-2 text-sm text-black focus:outline-none focus:ring-1 focus:ring-black";
+
+/* ---------------- Component ---------------- */
+export default function AuditLogPage() {
+  const [events, setEvents] = useState<EventOption[]>([]);
+  const [filters, setFilters] = useState<Filters>(EMPTY_FILTERS);
+  const [page, setPage] = useState(1);
+  const [result, setResult] = useState<AuditResponse | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    axiosInstance
+      .get<EventOption[]>("/api/events")
+      .then((res) => setEvents(res.data))
+      .catch(() => setEvents([]));
+  }, []);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      // Only send the filters that are set
+      const params = Object.fromEntries(Object.entries(filters).filter(([, value]) => value));
+      const res = await axiosInstance.get<AuditResponse>("/api/audit", { params: { ...params, page, limit: PAGE_SIZE } });
+      setResult(res.data);
+      setError(null);
+    } catch (err: any) {
+      setError(err.response?.data?.error || "Failed to load the audit log.");
+    } finally {
+      setLoading(false);
+    }
+  }, [filters, page]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const setFilter = (key: keyof Filters, value: string) => {
+    setFilters((prev) => ({ ...prev, [key]: value }));
+    setPage(1);
+  };
+
+  const totalPages = result ? Math.max(1, Math.ceil(result.total / PAGE_SIZE)) : 1;
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-8">
+      <div className="w-full max-w-7xl mx-auto bg-white rounded-2xl border border-gray-100 shadow-xl p-8">
+        <div className="mb-6">
+          <h1 className="text-2xl font-semibold text-black">Audit Log</h1>
+          <p className="text-sm text-gray-500">Every change made to events, sessions and registrations, newest first.</p>
+        </div>
+
+        {/* Filters */}
+        <div className="mb-6 grid gap-3 sm:grid-cols-3 lg:grid-cols-6">
+          <select value={filters.entityType} onChange={(e) => setFilter("entityType", e.target.value)} className={inputClass}>
+            <option value="">All items</option>
+            {Object.entries(ENTITY_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}s
+              </option>
+            ))}
+          </select>
+          <select value={filters.eventId} onChange={(e) => setFilter("eventId", e.target.value)} className={inputClass}>
+            <option value="">All events</option>
+            {events.map((ev) => (
+              <option key={ev.id} value={ev.id}>
+                {ev.name}
+              </option>
+            ))}
+          </select>
+          <select value={filters.action} onChange={(e) => setFilter("action", e.target.value)} className={inputClass}>
+            <option value="">All actions</option>
+            {ACTIONS.map((action) => (
+              <option key={action} value={action}>
+                {action}
+              </option>
+            ))}
+          </select>
+          <input
+            type="text"
+            placeholder='Actor email or "system"'
+            value={filters.actor}
+            onChange={(e) => setFilter("actor", e.target.value)}
+            className={inputClass}
+          />
+          <input type="date" value={filters.from} onChange={(e) => setFilter("from", e.target.value)} className={inputClass} title="From" />
+          <input type="date" value={filters.to} onChange={(e) => setFilter("to", e.target.value)} className={inputClass} title="To" />
+        </div>
+
+        {error && <p className="mb-4 text-sm text-red-600">{error}</p>}
+
+        <div className="overflow-x-auto border border-gray-200 rounded-md">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                {["Time", "Actor", "Item", "Action", "Changes"].map((heading) => (
+                  <th key={heading} className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {heading}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-100">
+              {!result || loading ? (
+                <tr>
+                  <td colSpan={5} className="px-4 py-6 text-center">
+                    <Loader2 className="inline h-5 w-5 animate-spin text-gray-500" />
+                  </td>
+                </tr>
+              ) : result.data.length === 0 ? (
+                <tr>
+                  <td colSpan={5} className="px-4 py-6 text-center text-sm text-gray-500">
+                    No entries match these filters.
+                  </td>
+                </tr>
+              ) : (
+                result.data.map((entry) => (
+                  <tr key={entry.id} className="align-top">
+                    <td className="px-4 py-3 text-sm text-gray-700 whitespace-nowrap">{new Date(entry.createdAt).toLocaleString()}</td>
+                    <td className="px-4 py-3 text-sm text-gray-700">{actorLabel(entry)}</td>
+                    <td className="px-4 py-3 text-sm text-gray-700">
+                      <div className="font-medium text-black">
+                        {ENTITY_LABELS[entry.entityType]}: {entry.entityLabel || <span className="text-gray-400">{entry.entityId}</span>}
+                      </div>
+                      {entry.entityType !== "event" && entry.eventName && <div className="text-xs text-gray-500">{entry.eventName}</div>}
+                    </td>
+                    <td className="px-4 py-3 text-sm">
+                      <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-gray-100 text-gray-800">
+                        {entry.action}
+                      </span>
+                    </td>
+                    <td className="px-4 py-3 text-sm">
+                      <AuditChangeList changes={entry.changes} />
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        {/* Pagination */}
+        <div className="flex justify-between items-center mt-6">
+          <div className="text-sm text-gray-700">
+            {result ? `${result.total} entr${result.total === 1 ? "y" : "ies"}` : ""}
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setPage((p) => p - 1)}
+              disabled={page <= 1 || loading}
+              className="px-3 py-2 border border-gray-300 bg-white text-sm text-gray-700 rounded-md disabled:opacity-50"
+            >
+              Previous
+            </button>
+            <span className="text-sm text-gray-700">
+              Page {page} of {totalPages}
+            </span>
+            <button
+              onClick={() => setPage((p) => p + 1)}
+              disabled={page >= totalPages || loading}
+              className="px-3 py-2 border border-gray-300 bg-white text-sm text-gray-700 rounded-md disabled:opacity-50"
+            >
+              Next
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
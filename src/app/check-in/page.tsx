@@ -5,6 +5,7 @@ import { toast } from "react-hot-toast";
 import axiosInstance from "@/lib/api";
 import Link from "next/link";
 import { ChevronDown, Pencil } from "lucide-react";
+import CheckInScanner from "../components/CheckInScanner";
 
 interface EventOccurrence {
   id: string;
@@ -18,6 +19,7 @@ interface Registration {
   passId: string;
   registrationDate: string;
   status: string;
+  waitlistPosition: number | null;
   user: {
     id: string;
     firstName: string | null;
@@ -48,10 +50,6 @@ export default function RegistrationsPage() {
   // expanded row
   const [expandedRowId, setExpandedRowId] = useState<string | null>(null);
 
-  // Jump to PassId
-  const [jumpPassId, setJumpPassId] = useState("");
-  const [jumpBusy, setJumpBusy] = useState(false);
-
   // Edit modal
   const [editingReg, setEditingReg] = useState<Registration | null>(null);
   const [editStatus, setEditStatus] = useState("");
@@ -60,6 +58,7 @@ export default function RegistrationsPage() {
   // Fetch all registrations
   const fetchRegistrations = useCallback(async () => {
     setLoading(true);
+    setError(null);
     try {
       const response = await axiosInstance.get<{ data: Registration[] }>(
         `/api/registrations/all`
@@ -103,38 +102,6 @@ export default function RegistrationsPage() {
     return data;
   }, [allRows, searchInput]);
 
-  // Jump to PassId handler
-  const jumpToPassId = async (e: React.FormEvent) => {
-    e.preventDefault();
-    const q = jumpPassId.trim().toLowerCase();
-    if (!q) return;
-
-    const reg = allRows.find((r) => r.passId.toLowerCase() === q);
-    if (!reg) {
-      toast.error("Pass ID not found");
-      return;
-    }
-
-    setJumpBusy(true);
-    try {
-      if (reg.status !== "checked-in") {
-        await axiosInstance.patch(`/api/registrations/${reg.id}`, { status: "checked-in" });
-        setAllRows((prev) =>
-          prev.map((r) =>
-            r.id === reg.id ? { ...r, status: "checked-in" } : r
-          )
-        );
-        toast.success(`${reg.passId} marked as checked-in`);
-      }
-      window.open(`/api/event-pass-pdf/${reg.passId}`, "_blank");
-    } catch (err: any) {
-      console.error(err);
-      toast.error("Failed to check-in / open pass");
-    } finally {
-      setJumpBusy(false);
-    }
-  };
-
   // Save edit
   const saveEdit = async () => {
     if (!editingReg) return;
@@ -166,14 +133,6 @@ export default function RegistrationsPage() {
     );
   }
 
-  if (error) {
-    return (
-      <div className="flex h-screen w-screen items-center justify-center">
-        <div className="text-xl font-semibold text-red-600">{error}</div>
-      </div>
-    );
-  }
-
   const formatOccurrenceSummary = (reg: Registration) => {
     if (!reg.selectedOccurrences?.length) return "N/A";
     const first = reg.selectedOccurrences[0].occurrence;
@@ -191,23 +150,17 @@ export default function RegistrationsPage() {
           Event Registrations
         </h1>
 
-        {/* Jump to Pass ID */}
-        {/* <form onSubmit={jumpToPassId} className="flex gap-2 mb-6">
-          <input
-            value={jumpPassId}
-            onChange={(e) => setJumpPassId(e.target.value)}
-            placeholder="Enter Pass ID e.g. BRI-1151"
-            className="flex-1 rounded-md border p-2 border-gray-300 text-black"
-            disabled={jumpBusy}
-          />
-          <button
-            type="submit"
-            disabled={jumpBusy || !jumpPassId.trim()}
-            className="px-4 py-2 bg-black text-white rounded-md"
-          >
-            {jumpBusy ? "Working..." : "Go"}
-          </button>
-        </form> */}
+        {/* Offline the list can't load, but the scanner still works from its downloaded roster */}
+        {error && (
+          <div className="mb-6 rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700">{error}</div>
+        )}
+
+        {/* Scanner station: camera, USB wedge scanner or typed Pass ID */}
+        <CheckInScanner
+          onCheckedIn={(registrationId) =>
+            setAllRows((prev) => prev.map((r) => (r.id === registrationId ? { ...r, status: "checked-in" } : r)))
+          }
+        />
 
         {/* Search */}
         <div className="mb-4">
@@ -278,10 +231,13 @@ export default function RegistrationsPage() {
                                 ? "bg-blue-100 text-blue-800"
                                 : reg.status === "checked-in"
                                 ? "bg-green-100 text-green-800"
+                                : reg.status === "waitlisted"
+                                ? "bg-yellow-100 text-yellow-800"
                                 : "bg-red-100 text-red-800"
                             }`}
                           >
                             {reg.status}
+                            {reg.status === "waitlisted" && reg.waitlistPosition ? ` #${reg.waitlistPosition}` : ""}
                           </span>
                         </td>
                         <td className="px-6 py-4 text-sm">
@@ -350,6 +306,7 @@ export default function RegistrationsPage() {
                 <option value="registered">Registered</option>
                 <option value="checked-in">Checked-in</option>
                 <option value="cancelled">Cancelled</option>
+                <option value="waitlisted">Waitlisted</option>
               </select>
             </div>
             <div className="mt-6 flex justify-end gap-2">
@@ -0,0 +1,94 @@
+// components/AuditHistory.tsx
+"use client";
+
+import React, { useEffect, useState } from "react";
+import axiosInstance from "@/lib/api";
+import { Loader2 } from "lucide-react";
+
+export interface AuditLogEntry {
+  id: string;
+  createdAt: string;
+  actorId: string | null;
+  actorEmail: string | null;
+  actorRole: string | null;
+  entityType: "event" | "occurrence" | "registration";
+  entityId: string;
+  eventId: string | null;
+  action: string;
+  changes: Record<string, { before: unknown; after: unknown }>;
+  eventName: string | null;
+  entityLabel: string | null; // null once the item has been purged
+}
+
+const show = (value: unknown) =>
+  value === null || value === undefined || value === ""
+    ? "—"
+    : Array.isArray(value)
+    ? value.join("; ") || "—"
+    : typeof value === "object"
+    ? JSON.stringify(value)
+    : String(value);
+
+export const actorLabel = (entry: AuditLogEntry) =>
+  entry.actorEmail ? `${entry.actorEmail}${entry.actorRole ? ` (${entry.actorRole})` : ""}` : "System";
+
+/** The before → after values of one audit entry, one line per field. */
+export function AuditChangeList({ changes }: { changes: AuditLogEntry["changes"] }) {
+  const fields = Object.keys(changes || {});
+  if (!fields.length) return null;
+  return (
+    <ul className="mt-1 space-y-0.5 text-xs text-gray-600">
+      {fields.map((field) => (
+        <li key={field} className="break-words">
+          <span className="font-medium text-gray-700">{field}:</span>{" "}
+          <span className="line-through text-gray-400">{show(changes[field].before)}</span> → {show(changes[field].after)}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+/** Change history of one event, session or registration, for the expanded rows of the list pages. */
+export default function AuditHistory({ entityType, entityId }: { entityType: AuditLogEntry["entityType"]; entityId: string }) {
+  const [entries, setEntries] = useState<AuditLogEntry[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setEntries(null);
+    setError(null);
+    axiosInstance
+      .get<{ data: AuditLogEntry[] }>("/api/audit", { params: { entityType, entityId, limit: 50 } })
+      .then((res) => !cancelled && setEntries(res.data.data))
+      .catch((err: any) => {
+        if (cancelled) return;
+        // Check-in staff can open the lists but not the audit log
+        setError(err.response?.status === 403 ? "Only organizers and admins can see the change history." : "Failed to load the change history.");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [entityType, entityId]);
+
+  if (error) return <p className="text-sm text-gray-500">{error}</p>;
+  if (!entries) return <Loader2 className="h-4 w-4 animate-spin text-gray-500" />;
+  if (!entries.length) return <p className="text-sm text-gray-500">No recorded changes.</p>;
+
+  return (
+    <ul className="space-y-2">
+      {entries.map((entry) => (
+        <li key={entry.id} className="text-sm text-gray-700">
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-gray-100 text-gray-800">
+              {entry.action}
+            </span>
+            <span className="text-gray-500">
+              {actorLabel(entry)}, {new Date(entry.createdAt).toLocaleString()}
+            </span>
+          </div>
+          <AuditChangeList changes={entry.changes} />
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,360 @@
+// components/BadgeDesigner.tsx
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { toast } from "react-hot-toast";
+import { ArrowDown, ArrowUp, Loader2, Trash2 } from "lucide-react";
+import axiosInstance from "@/lib/api";
+import {
+  BADGE_ALIGNMENTS,
+  BADGE_FIELDS,
+  BadgeDesign,
+  BadgeField,
+  MAX_FONT_SIZE,
+  MAX_HEADER_IMAGE_BYTES,
+  MIN_FONT_SIZE,
+  QR_POSITIONS,
+} from "@/lib/badgeTemplates";
+
+interface BadgeTemplateResponse {
+  design: BadgeDesign;
+  customized: boolean;
+  placeholders: Record<string, string>;
+}
+
+const PREVIEW_DELAY_MS = 600;
+
+const inputClass = "mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-black focus:border-black sm:text-sm text-black";
+const labelClass = "block text-sm font-medium text-gray-700";
+
+// Error bodies of blob requests arrive as a Blob holding the JSON
+async function blobError(err: any): Promise<string> {
+  const data = err.response?.data;
+  if (data instanceof Blob) {
+    try {
+      return JSON.parse(await data.text()).error || "Failed to draw the preview.";
+    } catch {
+      return "Failed to draw the preview.";
+    }
+  }
+  return data?.error || "Failed to draw the preview.";
+}
+
+/** Badge template editor with a live PDF preview, shown under the event form on the edit page. */
+export default function BadgeDesigner({ eventId }: { eventId: string }) {
+  const [design, setDesign] = useState<BadgeDesign | null>(null);
+  const [customized, setCustomized] = useState(false);
+  const [placeholders, setPlaceholders] = useState<Record<string, string>>({});
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    axiosInstance
+      .get<BadgeTemplateResponse>(`/api/events/${eventId}/badge-template`)
+      .then((res) => {
+        setDesign(res.data.design);
+        setCustomized(res.data.customized);
+        setPlaceholders(res.data.placeholders);
+      })
+      .catch((err) => toast.error(err.response?.data?.error || "Failed to load the badge design."));
+  }, [eventId]);
+
+  // Redraw the preview a moment after the last change
+  useEffect(() => {
+    if (!design) return;
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setPreviewing(true);
+      try {
+        const res = await axiosInstance.post(`/api/events/${eventId}/badge-template`, { design }, { responseType: "blob" });
+        if (cancelled) return;
+        setPreviewUrl(URL.createObjectURL(res.data));
+        setPreviewError(null);
+      } catch (err: any) {
+        if (!cancelled) setPreviewError(await blobError(err));
+      } finally {
+        if (!cancelled) setPreviewing(false);
+      }
+    }, PREVIEW_DELAY_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [design, eventId]);
+
+  // Free the previous preview once it has been replaced
+  useEffect(() => {
+    return () => {
+      if (previewUrl) URL.revokeObjectURL(previewUrl);
+    };
+  }, [previewUrl]);
+
+  if (!design) {
+    return (
+      <div className="flex justify-center py-6">
+        <Loader2 className="h-5 w-5 animate-spin text-gray-500" />
+      </div>
+    );
+  }
+
+  const update = (changes: Partial<BadgeDesign>) => setDesign({ ...design, ...changes });
+
+  const updateField = (index: number, changes: Partial<BadgeDesign["fields"][number]>) =>
+    update({ fields: design.fields.map((f, i) => (i === index ? { ...f, ...changes } : f)) });
+
+  const moveField = (index: number, by: number) => {
+    const fields = [...design.fields];
+    const [moved] = fields.splice(index, 1);
+    fields.splice(index + by, 0, moved);
+    update({ fields });
+  };
+
+  const addField = (field: BadgeField) =>
+    update({ fields: [...design.fields, { field, size: 12, align: "center", bold: false, uppercase: false }] });
+
+  const onHeaderImage = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    if (!["image/png", "image/jpeg"].includes(file.type)) {
+      toast.error("The header image must be a PNG or JPEG.");
+      return;
+    }
+    if (file.size > MAX_HEADER_IMAGE_BYTES) {
+      toast.error("The header image must be at most 1 MB.");
+      return;
+    }
+    const reader = new FileReader();
+    reader.onload = () => update({ headerImage: reader.result as string });
+    reader.readAsDataURL(file);
+  };
+
+  const save = async () => {
+    setSaving(true);
+    try {
+      const res = await axiosInstance.put<BadgeTemplateResponse>(`/api/events/${eventId}/badge-template`, { design });
+      setDesign(res.data.design);
+      setCustomized(true);
+      toast.success("Badge design saved.");
+    } catch (err: any) {
+      toast.error(err.response?.data?.error || "Failed to save the badge design.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const reset = async () => {
+    if (!window.confirm("Go back to the default badge for this event?")) return;
+    setSaving(true);
+    try {
+      const res = await axiosInstance.delete<BadgeTemplateResponse>(`/api/events/${eventId}/badge-template`);
+      setDesign(res.data.design);
+      setCustomized(false);
+      toast.success("Badge design reset to the default.");
+    } catch (err: any) {
+      toast.error(err.response?.data?.error || "Failed to reset the badge design.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const unused = (Object.keys(BADGE_FIELDS) as BadgeField[]).filter((field) => !design.fields.some((f) => f.field === field));
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      <div className="space-y-4">
+        <div>
+          <label className={labelClass}>Header Image (optional)</label>
+          <p className="text-xs text-gray-500">PNG or JPEG up to 1 MB. Replaces the coloured header and its text.</p>
+          <div className="mt-1 flex items-center gap-3">
+            <input type="file" accept="image/png,image/jpeg" onChange={onHeaderImage} className="text-sm text-gray-700" />
+            {design.headerImage && (
+              <button type="button" onClick={() => update({ headerImage: null })} className="text-sm text-red-600 hover:underline">
+                Remove
+              </button>
+            )}
+          </div>
+        </div>
+
+        <div>
+          <label className={labelClass}>Title</label>
+          <input type="text" value={design.title} onChange={(e) => update({ title: e.target.value })} className={inputClass} />
+        </div>
+        <div>
+          <label className={labelClass}>Subtitle</label>
+          <input type="text" value={design.subtitle} onChange={(e) => update({ subtitle: e.target.value })} className={inputClass} />
+          <p className="mt-1 text-xs text-gray-500">
+            Placeholders:{" "}
+            {Object.entries(placeholders).map(([name, description]) => (
+              <code key={name} title={description} className="mr-2">{`{{${name}}}`}</code>
+            ))}
+          </p>
+        </div>
+
+        <div className="grid grid-cols-3 gap-3">
+          {(
+            [
+              ["accentColor", "Accent"],
+              ["headerTextColor", "Header Text"],
+              ["textColor", "Attendee Text"],
+            ] as const
+          ).map(([key, label]) => (
+            <div key={key}>
+              <label className={labelClass}>{label}</label>
+              <input type="color" value={design[key]} onChange={(e) => update({ [key]: e.target.value })} className="mt-1 h-9 w-full rounded-md border border-gray-300" />
+            </div>
+          ))}
+        </div>
+
+        <div>
+          <label className={labelClass}>Role Label</label>
+          <input
+            type="text"
+            value={design.roleLabel}
+            onChange={(e) => update({ roleLabel: e.target.value })}
+            placeholder="Leave empty for none"
+            className={inputClass}
+          />
+        </div>
+
+        <div>
+          <label className={labelClass}>Attendee Details</label>
+          <div className="mt-1 space-y-2">
+            {design.fields.map((placement, index) => (
+              <div key={placement.field} className="flex flex-wrap items-center gap-2 rounded-md border border-gray-200 p-2 text-sm text-black">
+                <span className="flex-1 min-w-[8rem] font-medium">{BADGE_FIELDS[placement.field]}</span>
+                <input
+                  type="number"
+                  min={MIN_FONT_SIZE}
+                  max={MAX_FONT_SIZE}
+                  value={placement.size}
+                  onChange={(e) => updateField(index, { size: Number(e.target.value) })}
+                  className="w-16 rounded-md border border-gray-300 px-2 py-1"
+                  title="Font size (pt)"
+                />
+                <select
+                  value={placement.align}
+                  onChange={(e) => updateField(index, { align: e.target.value as BadgeDesign["fields"][number]["align"] })}
+                  className="rounded-md border border-gray-300 px-2 py-1"
+                >
+                  {BADGE_ALIGNMENTS.map((align) => (
+                    <option key={align} value={align}>
+                      {align}
+                    </option>
+                  ))}
+                </select>
+                <label className="flex items-center gap-1">
+                  <input type="checkbox" checked={placement.bold} onChange={(e) => updateField(index, { bold: e.target.checked })} />
+                  Bold
+                </label>
+                <label className="flex items-center gap-1">
+                  <input type="checkbox" checked={placement.uppercase} onChange={(e) => updateField(index, { uppercase: e.target.checked })} />
+                  Caps
+                </label>
+                <button type="button" onClick={() => moveField(index, -1)} disabled={index === 0} className="text-gray-500 disabled:opacity-30" title="Move up">
+                  <ArrowUp className="h-4 w-4" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => moveField(index, 1)}
+                  disabled={index === design.fields.length - 1}
+                  className="text-gray-500 disabled:opacity-30"
+                  title="Move down"
+                >
+                  <ArrowDown className="h-4 w-4" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => update({ fields: design.fields.filter((_, i) => i !== index) })}
+                  className="text-red-600"
+                  title="Remove"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+          {unused.length > 0 && (
+            <select
+              value=""
+              onChange={(e) => e.target.value && addField(e.target.value as BadgeField)}
+              className="mt-2 rounded-md border border-gray-300 px-2 py-1 text-sm text-black"
+            >
+              <option value="">Add a detail…</option>
+              {unused.map((field) => (
+                <option key={field} value={field}>
+                  {BADGE_FIELDS[field]}
+                </option>
+              ))}
+            </select>
+          )}
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className={labelClass}>QR Code Position</label>
+            <select
+              value={design.qrPosition}
+              onChange={(e) => update({ qrPosition: e.target.value as BadgeDesign["qrPosition"] })}
+              className={inputClass}
+            >
+              {QR_POSITIONS.map((position) => (
+                <option key={position} value={position}>
+                  {position}
+                </option>
+              ))}
+            </select>
+          </div>
+          <label className="flex items-end gap-2 pb-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={design.showBarcode}
+              disabled={design.qrPosition === "center"}
+              onChange={(e) => update({ showBarcode: e.target.checked })}
+            />
+            Barcode beside the QR code
+          </label>
+        </div>
+
+        <div className="flex gap-3 pt-2">
+          <button
+            type="button"
+            onClick={save}
+            disabled={saving}
+            className={`px-4 py-2 rounded-md text-sm text-white ${saving ? "bg-gray-400 cursor-not-allowed" : "bg-black hover:bg-gray-800"}`}
+          >
+            {saving ? "Saving..." : "Save Badge"}
+          </button>
+          {customized && (
+            <button
+              type="button"
+              onClick={reset}
+              disabled={saving}
+              className="px-4 py-2 rounded-md border border-gray-300 text-sm text-gray-700 hover:bg-gray-50"
+            >
+              Reset to Default
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between">
+          <label className={labelClass}>Preview</label>
+          {previewing && <Loader2 className="h-4 w-4 animate-spin text-gray-500" />}
+        </div>
+        {previewError && <p className="mt-1 text-sm text-red-600">{previewError}</p>}
+        {previewUrl ? (
+          <iframe src={previewUrl} title="Badge preview" className="mt-1 h-[32rem] w-full rounded-md border border-gray-200" />
+        ) : (
+          <div className="mt-1 flex h-[32rem] items-center justify-center rounded-md border border-gray-200 text-sm text-gray-500">
+            Drawing the preview…
+          </div>
+        )}
+        <p className="mt-1 text-xs text-gray-500">Uses the latest registration for this event, or a sample attendee.</p>
+      </div>
+    </div>
+  );
+}
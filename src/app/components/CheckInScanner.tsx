@@ -0,0 +1,499 @@
+// components/CheckInScanner.tsx
+"use client";
+
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import { toast } from "react-hot-toast";
+import axiosInstance from "@/lib/api";
+import { Camera, CameraOff, CheckCircle2, XCircle, AlertTriangle, Download, RefreshCw, Wifi, WifiOff } from "lucide-react";
+import type { IScannerControls } from "@zxing/browser";
+import {
+  CheckInOutcome,
+  checkInOffline,
+  getQueuedOps,
+  getRoster,
+  getRosters,
+  queueOp,
+  removeQueuedOps,
+  Roster,
+  saveRoster,
+  SyncResult,
+} from "@/lib/offlineCheckIn";
+import { MAX_OPS_PER_SYNC } from "@/lib/checkInRules";
+
+interface StationEvent {
+  id: string;
+  name: string;
+  occurrences: { id: string; startTime: string; endTime: string | null; location: string | null }[];
+}
+
+const STATION_STORAGE_KEY = "checkInStation";
+
+// The camera keeps decoding the same pass while it is held up; ignore repeats for this long
+const REPEAT_SCAN_MS = 3000;
+
+// While there are queued offline scans, retry syncing this often
+const SYNC_INTERVAL_MS = 30 * 1000;
+
+/* Short beeps through WebAudio, so the station needs no sound files */
+let audioCtx: AudioContext | null = null;
+function beep(kind: "success" | "warning" | "error") {
+  try {
+    audioCtx = audioCtx || new AudioContext();
+    const tones = kind === "success" ? [880] : kind === "warning" ? [660, 660] : [220, 220, 220];
+    tones.forEach((freq, i) => {
+      const osc = audioCtx!.createOscillator();
+      const gain = audioCtx!.createGain();
+      osc.type = kind === "error" ? "square" : "sine";
+      osc.frequency.value = freq;
+      gain.gain.value = 0.15;
+      osc.connect(gain);
+      gain.connect(audioCtx!.destination);
+      const start = audioCtx!.currentTime + i * 0.18;
+      osc.start(start);
+      osc.stop(start + 0.12);
+    });
+  } catch {
+    // Audio is a nice-to-have; the on-screen result is what matters
+  }
+}
+
+export default function CheckInScanner({ onCheckedIn }: { onCheckedIn?: (registrationId: string) => void }) {
+  const [events, setEvents] = useState<StationEvent[]>([]);
+  const [eventId, setEventId] = useState("");
+  const [occurrenceId, setOccurrenceId] = useState("");
+  const [manualCode, setManualCode] = useState("");
+  const [typedPassId, setTypedPassId] = useState(false); // The next entry is a pass ID typed by hand, not a scan
+  const [cameraOn, setCameraOn] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [outcome, setOutcome] = useState<CheckInOutcome | null>(null);
+  const [mode, setMode] = useState<"check-in" | "check-out">("check-in");
+  const [station, setStation] = useState(""); // Label saved per device, recorded with each check-in
+  const [online, setOnline] = useState(true);
+  const [pendingCount, setPendingCount] = useState(0);
+  const [roster, setRoster] = useState<Roster | null>(null); // Offline copy for the selected event
+  const [syncIssues, setSyncIssues] = useState<SyncResult[]>([]);
+
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const controlsRef = useRef<IScannerControls | null>(null);
+  const wedgeInputRef = useRef<HTMLInputElement>(null);
+  const lastScanRef = useRef<{ code: string; at: number }>({ code: "", at: 0 });
+  const syncingRef = useRef(false);
+
+  useEffect(() => {
+    axiosInstance
+      .get<StationEvent[]>("/api/events")
+      .then((res) => setEvents(res.data))
+      .catch(async () => {
+        // Offline: fall back to the events whose rosters were downloaded
+        const rosters = await getRosters().catch(() => [] as Roster[]);
+        setEvents(rosters.map((r) => r.event));
+        if (!rosters.length) toast.error("Failed to load events.");
+      });
+    try {
+      setStation(localStorage.getItem(STATION_STORAGE_KEY) || "");
+    } catch {}
+    // Lets the station page reload without a network
+    navigator.serviceWorker?.register("/sw.js").catch((err) => console.error("Service worker registration failed:", err));
+  }, []);
+
+  useEffect(() => {
+    if (!eventId) {
+      setRoster(null);
+      return;
+    }
+    getRoster(eventId)
+      .then((r) => setRoster(r ?? null))
+      .catch(() => setRoster(null));
+  }, [eventId]);
+
+  const downloadRoster = async () => {
+    if (!eventId) return;
+    try {
+      const res = await axiosInstance.get<Roster>(`/api/check-in/roster?eventId=${eventId}`);
+      await saveRoster(res.data);
+      setRoster(res.data);
+      toast.success(`Roster saved for offline use (${res.data.registrations.length} passes).`);
+    } catch (err: any) {
+      toast.error(err.response?.data?.error || "Failed to download the roster.");
+    }
+  };
+
+  const refreshPending = useCallback(() => {
+    getQueuedOps()
+      .then((ops) => setPendingCount(ops.length))
+      .catch(() => {});
+  }, []);
+
+  // Replay queued offline scans, oldest first and at most MAX_OPS_PER_SYNC per request. Every
+  // op that got a result is dropped from the queue before the next chunk is sent, so a failed
+  // request only leaves its own chunk and the ones after it queued. Conflicts and rejections
+  // are kept on screen for staff to follow up.
+  const syncQueue = useCallback(async () => {
+    if (syncingRef.current || !navigator.onLine) return;
+    syncingRef.current = true;
+    let synced = 0;
+    const issues: SyncResult[] = [];
+    try {
+      const ops = (await getQueuedOps()).sort((a, b) => a.at.localeCompare(b.at));
+      for (let start = 0; start < ops.length; start += MAX_OPS_PER_SYNC) {
+        const chunk = ops.slice(start, start + MAX_OPS_PER_SYNC);
+        const res = await axiosInstance.post<{ results: SyncResult[] }>("/api/check-in/sync", { ops: chunk });
+        await removeQueuedOps(res.data.results.map((r) => r.opId));
+        synced += res.data.results.length;
+        issues.push(...res.data.results.filter((r) => r.status !== "applied"));
+      }
+    } catch (err) {
+      console.error("Offline check-in sync failed:", err);
+    } finally {
+      if (issues.length) {
+        setSyncIssues((prev) => [...issues, ...prev]);
+        toast.error(`Synced offline scans with ${issues.length} conflict(s) to review.`);
+      } else if (synced) {
+        toast.success(`Synced ${synced} offline scan(s).`);
+      }
+      syncingRef.current = false;
+      refreshPending();
+    }
+  }, [refreshPending]);
+
+  useEffect(() => {
+    const update = () => {
+      setOnline(navigator.onLine);
+      if (navigator.onLine) syncQueue();
+    };
+    update();
+    refreshPending();
+    window.addEventListener("online", update);
+    window.addEventListener("offline", update);
+    const timer = setInterval(syncQueue, SYNC_INTERVAL_MS);
+    return () => {
+      window.removeEventListener("online", update);
+      window.removeEventListener("offline", update);
+      clearInterval(timer);
+    };
+  }, [syncQueue, refreshPending]);
+
+  // Check in against the downloaded roster and queue the scan for the next sync
+  const submitOffline = useCallback(
+    async (code: string, manual: boolean): Promise<CheckInOutcome> => {
+      if (!eventId) return { result: "not-found", message: "Select an event to scan offline." };
+      const saved = await getRoster(eventId);
+      if (!saved) return { result: "not-found", message: "Offline, and no roster downloaded for this event." };
+
+      const { outcome, op } = checkInOffline(saved, {
+        code,
+        manual,
+        occurrenceId: occurrenceId || undefined,
+        mode,
+        station: station || undefined,
+      });
+      if (op) {
+        await saveRoster(saved);
+        await queueOp(op);
+        setRoster(saved);
+        refreshPending();
+      }
+      return outcome;
+    },
+    [eventId, occurrenceId, mode, station, refreshPending]
+  );
+
+  const submitCode = useCallback(
+    async (raw: string, manual = false) => {
+      const code = raw.trim();
+      if (!code) return;
+      const now = Date.now();
+      if (lastScanRef.current.code === code && now - lastScanRef.current.at < REPEAT_SCAN_MS) return;
+      lastScanRef.current = { code, at: now };
+
+      setBusy(true);
+      try {
+        let result: CheckInOutcome;
+        try {
+          if (!navigator.onLine) throw new Error("offline");
+          const res = await axiosInstance.post<CheckInOutcome>("/api/check-in", {
+            code,
+            manual: manual || undefined,
+            eventId: eventId || undefined,
+            occurrenceId: occurrenceId || undefined,
+            tzOffset: new Date().getTimezoneOffset(),
+            station: station || undefined,
+            mode,
+          });
+          result = res.data;
+        } catch (err: any) {
+          // No response at all means the network is down; anything else is a real error
+          if (err.response) throw err;
+          result = await submitOffline(code, manual);
+        }
+        setOutcome(result);
+        beep(result.result === "ok" ? "success" : result.result === "already" ? "warning" : "error");
+        if (result.result === "ok" && result.registration) onCheckedIn?.(result.registration.id);
+      } catch (err: any) {
+        beep("error");
+        setOutcome({ result: "not-found", message: err.response?.data?.error || "Check-in failed." });
+      } finally {
+        setBusy(false);
+        wedgeInputRef.current?.focus();
+      }
+    },
+    [eventId, occurrenceId, station, mode, onCheckedIn, submitOffline]
+  );
+
+  // The camera callback reads the latest submitCode through a ref, so changing the
+  // event/session selection doesn't restart the camera
+  const submitCodeRef = useRef(submitCode);
+  useEffect(() => {
+    submitCodeRef.current = submitCode;
+  }, [submitCode]);
+
+  // Camera scanning (QR + Code128). The library is loaded on demand so it never runs during SSR.
+  useEffect(() => {
+    if (!cameraOn) return;
+    let cancelled = false;
+
+    (async () => {
+      try {
+        const { BrowserMultiFormatReader } = await import("@zxing/browser");
+        const reader = new BrowserMultiFormatReader();
+        const controls = await reader.decodeFromConstraints(
+          { video: { facingMode: "environment" } },
+          videoRef.current!,
+          (result) => {
+            if (result) submitCodeRef.current(result.getText());
+          }
+        );
+        if (cancelled) controls.stop();
+        else controlsRef.current = controls;
+      } catch (err) {
+        console.error("Camera scanner failed to start:", err);
+        toast.error("Could not start the camera. Check the browser's camera permission.");
+        setCameraOn(false);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+      controlsRef.current?.stop();
+      controlsRef.current = null;
+    };
+  }, [cameraOn]);
+
+  const selectedEvent = events.find((e) => e.id === eventId);
+
+  const tone =
+    outcome?.result === "ok"
+      ? "bg-green-600"
+      : outcome?.result === "already"
+      ? "bg-amber-500"
+      : "bg-red-600";
+
+  return (
+    <div className="mb-8 rounded-xl border border-gray-200 p-6">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+        <h2 className="text-lg font-semibold text-black">Scan Passes</h2>
+        <div className="flex items-center gap-2 text-sm">
+          <span className={`inline-flex items-center gap-1 ${online ? "text-green-700" : "text-red-600"}`}>
+            {online ? <Wifi className="h-4 w-4" /> : <WifiOff className="h-4 w-4" />}
+            {online ? "Online" : "Offline"}
+          </span>
+          {pendingCount > 0 && (
+            <button
+              type="button"
+              onClick={syncQueue}
+              disabled={!online}
+              className="inline-flex items-center gap-1 px-2 py-1 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+            >
+              <RefreshCw className="h-4 w-4" />
+              {pendingCount} to sync
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={downloadRoster}
+            disabled={!eventId || !online}
+            title={eventId ? "Save this event's passes so scanning keeps working offline" : "Select an event first"}
+            className="inline-flex items-center gap-1 px-2 py-1 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+          >
+            <Download className="h-4 w-4" />
+            {roster ? "Refresh Roster" : "Download Roster"}
+          </button>
+        </div>
+      </div>
+      {roster && (
+        <p className="text-xs text-gray-500 -mt-2 mb-4">
+          Offline roster: {roster.registrations.length} passes, downloaded{" "}
+          {new Date(roster.downloadedAt).toLocaleString("en-US", { dateStyle: "short", timeStyle: "short" })}
+        </p>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-4">
+        <div>
+          <label htmlFor="stationEvent" className="block text-sm font-medium text-gray-700 mb-1">Event</label>
+          <select
+            id="stationEvent"
+            value={eventId}
+            onChange={(e) => {
+              setEventId(e.target.value);
+              setOccurrenceId("");
+            }}
+            className="w-full border rounded-md p-2 text-black"
+          >
+            <option value="">Any event</option>
+            {events.map((ev) => (
+              <option key={ev.id} value={ev.id}>{ev.name}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="stationSession" className="block text-sm font-medium text-gray-700 mb-1">Session</label>
+          <select
+            id="stationSession"
+            value={occurrenceId}
+            onChange={(e) => setOccurrenceId(e.target.value)}
+            disabled={!selectedEvent}
+            className="w-full border rounded-md p-2 text-black disabled:bg-gray-100"
+          >
+            <option value="">Current session (by clock)</option>
+            {selectedEvent?.occurrences.map((occ) => (
+              <option key={occ.id} value={occ.id}>
+                {new Date(occ.startTime).toLocaleString("en-US", { dateStyle: "short", timeStyle: "short" })}
+                {occ.location ? ` (${occ.location})` : ""}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="stationLabel" className="block text-sm font-medium text-gray-700 mb-1">Station</label>
+          <input
+            id="stationLabel"
+            value={station}
+            onChange={(e) => {
+              setStation(e.target.value);
+              try {
+                localStorage.setItem(STATION_STORAGE_KEY, e.target.value);
+              } catch {}
+            }}
+            placeholder="e.g. Hall A door"
+            className="w-full border rounded-md p-2 border-gray-300 text-black"
+          />
+        </div>
+        <div>
+          <label htmlFor="stationMode" className="block text-sm font-medium text-gray-700 mb-1">Mode</label>
+          <select
+            id="stationMode"
+            value={mode}
+            onChange={(e) => setMode(e.target.value as "check-in" | "check-out")}
+            className="w-full border rounded-md p-2 text-black"
+          >
+            <option value="check-in">Check in</option>
+            <option value="check-out">Check out</option>
+          </select>
+        </div>
+      </div>
+
+      {/* USB wedge scanners type the code followed by Enter into the focused input */}
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          submitCode(manualCode, typedPassId);
+          setManualCode("");
+          setTypedPassId(false);
+        }}
+        className="flex gap-2 mb-4"
+      >
+        <input
+          ref={wedgeInputRef}
+          autoFocus
+          value={manualCode}
+          onChange={(e) => setManualCode(e.target.value)}
+          placeholder={typedPassId ? "Type the pass ID, e.g. BRI-1188" : "Scan a pass with a handheld scanner, or paste its code"}
+          className="flex-1 rounded-md border p-2 border-gray-300 text-black"
+        />
+        <button
+          type="submit"
+          disabled={busy || !manualCode.trim()}
+          className="px-4 py-2 bg-black text-white rounded-md disabled:opacity-50"
+        >
+          {mode === "check-out" ? "Check Out" : "Check In"}
+        </button>
+        <button
+          type="button"
+          onClick={() => setCameraOn(!cameraOn)}
+          className="inline-flex items-center gap-2 px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+        >
+          {cameraOn ? <CameraOff className="h-4 w-4" /> : <Camera className="h-4 w-4" />}
+          {cameraOn ? "Stop Camera" : "Use Camera"}
+        </button>
+      </form>
+      {/* For a badge that won't scan; the attendee's ID is checked by the staff member instead */}
+      <label className="flex items-center gap-2 -mt-2 mb-4 text-sm text-gray-700">
+        <input type="checkbox" checked={typedPassId} onChange={(e) => setTypedPassId(e.target.checked)} />
+        Type a pass ID by hand (check the attendee&apos;s photo ID first; recorded as a manual check-in)
+      </label>
+
+      {cameraOn && (
+        <video ref={videoRef} className="w-full max-w-md mx-auto mb-4 rounded-lg bg-black" muted playsInline />
+      )}
+
+      {outcome && (
+        <div className={`${tone} text-white rounded-xl p-6 text-center`}>
+          <div className="flex justify-center mb-2">
+            {outcome.result === "ok" ? (
+              <CheckCircle2 className="h-16 w-16" />
+            ) : outcome.result === "already" ? (
+              <AlertTriangle className="h-16 w-16" />
+            ) : (
+              <XCircle className="h-16 w-16" />
+            )}
+          </div>
+          <p className="text-3xl font-bold">
+            {outcome.result === "ok" ? (mode === "check-out" ? "GOODBYE" : "WELCOME") : outcome.message.toUpperCase()}
+          </p>
+          {outcome.registration && (
+            <p className="mt-2 text-xl">
+              {outcome.registration.name}
+              {outcome.registration.company ? ` · ${outcome.registration.company}` : ""}
+              <span className="block text-sm opacity-90">{outcome.registration.passId} · {outcome.registration.eventName}</span>
+            </p>
+          )}
+          {outcome.session && (
+            <p className="mt-1 text-sm opacity-90">
+              Session: {new Date(outcome.session.startTime).toLocaleString("en-US", { dateStyle: "medium", timeStyle: "short" })}
+              {outcome.session.location ? ` (${outcome.session.location})` : ""}
+              {outcome.result === "already" && outcome.session.checkedInAt
+                ? ` · checked in at ${new Date(outcome.session.checkedInAt).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}`
+                : ""}
+            </p>
+          )}
+        </div>
+      )}
+
+      {syncIssues.length > 0 && (
+        <div className="mt-4 rounded-md border border-amber-300 bg-amber-50 p-4 text-sm text-amber-900">
+          <div className="flex items-center justify-between mb-2">
+            <p className="font-semibold">Offline sync conflicts</p>
+            <button type="button" onClick={() => setSyncIssues([])} className="text-xs underline">
+              Dismiss
+            </button>
+          </div>
+          <ul className="space-y-1">
+            {syncIssues.map((issue) => (
+              <li key={issue.opId}>
+                {issue.message}
+                {issue.conflict && (
+                  <span className="block text-xs opacity-80">
+                    {issue.conflict.passId}: kept {formatScan(issue.conflict.kept)}; discarded {formatScan(issue.conflict.discarded)}
+                  </span>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
+
+const formatScan = (scan: { at: string; station: string | null }) =>
+  `${new Date(scan.at).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit", second: "2-digit" })}${scan.station ? ` at ${scan.station}` : ""}`;
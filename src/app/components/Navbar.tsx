@@ -6,6 +6,7 @@ import { useRouter } from "next/navigation";
 import axios, { AxiosError } from "axios"; // Import AxiosError for type safety
 import { toast } from "react-hot-toast";
 import React, { useState, useEffect } from "react"; // Import useEffect
+import { EVENT_MANAGERS, isRole } from "@/lib/roles";
 
 // Define interfaces for better type safety
 interface ErrorResponseData {
@@ -95,6 +96,11 @@ export default function Navbar() {
                             </Link>
                              </>
                     )}
+                    {userData && isRole(userData.role) && EVENT_MANAGERS.includes(userData.role) && (
+                        <Link href="/audit" className="hover:text-gray-500">
+                            Audit Log
+                        </Link>
+                    )}
                     {userData?.role === 'admin' && (
                         <>
                             <Link href="/signup" className="hover:text-gray-500">
@@ -103,6 +109,9 @@ export default function Navbar() {
                             <Link href="/profile/settings" className="hover:text-gray-500">
                                 Settings
                             </Link>
+                            <Link href="/trash" className="hover:text-gray-500">
+                                Trash
+                            </Link>
                         </>
                     )}
                      {userData && ( // Show Profile and Logout to any logged-in user
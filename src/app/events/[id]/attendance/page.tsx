@@ -0,0 +1,238 @@
+"use client";
+import React, { useEffect, useState } from "react";
+import { useParams } from "next/navigation";
+import Link from "next/link";
+
+/* ---------------- Types ---------------- */
+interface Breakdown {
+  registered: number;
+  checkedIn: number;
+  noShow: number;
+  cancelled: number;
+  waitlisted: number;
+  arrivals: { start: string; count: number }[];
+  topCompanies: { company: string; count: number }[];
+}
+
+interface OccurrenceBreakdown extends Breakdown {
+  id: string;
+  startTime: string;
+  endTime: string | null;
+  location: string | null;
+}
+
+interface TypeBreakdown extends Omit<Breakdown, "arrivals" | "topCompanies"> {
+  id: string | null;
+  name: string;
+  badgeColor: string | null;
+}
+
+interface AttendanceStats {
+  eventId: string;
+  eventName: string;
+  event: Breakdown;
+  byType: TypeBreakdown[];
+  occurrences: OccurrenceBreakdown[];
+}
+
+const formatSession = (occ: OccurrenceBreakdown) =>
+  `${new Date(occ.startTime).toLocaleString("en-US", { dateStyle: "medium", timeStyle: "short" })}${occ.location ? ` (${occ.location})` : ""}`;
+
+const percent = (part: number, whole: number) => (whole ? `${Math.round((part / whole) * 100)}%` : "—");
+
+function StatCard({ label, value, hint, tone }: { label: string; value: number; hint?: string; tone: string }) {
+  return (
+    <div className={`rounded-lg p-4 ${tone}`}>
+      <p className="text-sm font-medium opacity-80">{label}</p>
+      <p className="text-3xl font-bold">{value}</p>
+      {hint && <p className="text-xs opacity-70">{hint}</p>}
+    </div>
+  );
+}
+
+function ArrivalsChart({ arrivals }: { arrivals: Breakdown["arrivals"] }) {
+  if (!arrivals.length) return <p className="text-sm text-gray-500">No check-ins yet.</p>;
+  const max = Math.max(...arrivals.map((a) => a.count));
+  return (
+    <div className="space-y-1">
+      {arrivals.map((a) => (
+        <div key={a.start} className="flex items-center gap-2 text-sm">
+          <span className="w-28 shrink-0 text-gray-600">
+            {new Date(a.start).toLocaleString("en-US", { month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" })}
+          </span>
+          <div className="flex-1 bg-gray-100 rounded">
+            <div className="bg-green-500 h-4 rounded" style={{ width: `${(a.count / max) * 100}%` }} />
+          </div>
+          <span className="w-8 text-right text-black">{a.count}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function CompanyList({ companies }: { companies: Breakdown["topCompanies"] }) {
+  if (!companies.length) return <p className="text-sm text-gray-500">No companies yet.</p>;
+  return (
+    <ol className="space-y-1 text-sm text-black">
+      {companies.map((c) => (
+        <li key={c.company} className="flex justify-between">
+          <span>{c.company}</span>
+          <span className="font-semibold">{c.count}</span>
+        </li>
+      ))}
+    </ol>
+  );
+}
+
+export default function AttendanceDashboardPage() {
+  const { id } = useParams() as { id: string };
+  const [stats, setStats] = useState<AttendanceStats | null>(null);
+  const [connected, setConnected] = useState(false);
+  const [updatedAt, setUpdatedAt] = useState<Date | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedOccurrenceId, setSelectedOccurrenceId] = useState("");
+
+  // Live numbers over Server-Sent Events; EventSource reconnects on its own after a drop
+  useEffect(() => {
+    if (!id) return;
+    const source = new EventSource(`/api/events/${id}/attendance`);
+    source.addEventListener("stats", (e) => {
+      setStats(JSON.parse((e as MessageEvent).data));
+      setUpdatedAt(new Date());
+      setConnected(true);
+      setError(null);
+    });
+    source.onerror = () => {
+      setConnected(false);
+      // CLOSED means the server refused the stream (e.g. signed out or unknown event)
+      if (source.readyState === EventSource.CLOSED) setError("Could not load attendance for this event.");
+    };
+    return () => source.close();
+  }, [id]);
+
+  if (!stats) {
+    return (
+      <div className="flex h-screen w-screen items-center justify-center">
+        <div className={`text-xl font-semibold ${error ? "text-red-600" : "text-black"}`}>
+          {error || "Loading attendance..."}
+        </div>
+      </div>
+    );
+  }
+
+  const selected = stats.occurrences.find((o) => o.id === selectedOccurrenceId);
+  const view: Breakdown = selected ?? stats.event;
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-8">
+      <div className="w-full max-w-6xl mx-auto bg-white rounded-2xl border shadow p-8">
+        <div className="flex flex-wrap items-start justify-between gap-4 mb-6">
+          <div>
+            <h1 className="text-2xl font-semibold text-black">{stats.eventName}: Live Attendance</h1>
+            <p className="text-sm text-gray-500">
+              <span className={`inline-block h-2 w-2 rounded-full mr-1 ${connected ? "bg-green-500" : "bg-amber-500"}`} />
+              {connected ? "Live" : "Reconnecting..."}
+              {updatedAt && ` · updated ${updatedAt.toLocaleTimeString()}`}
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <select
+              value={selectedOccurrenceId}
+              onChange={(e) => setSelectedOccurrenceId(e.target.value)}
+              className="border rounded-md p-2 text-black"
+            >
+              <option value="">Whole event</option>
+              {stats.occurrences.map((occ) => (
+                <option key={occ.id} value={occ.id}>{formatSession(occ)}</option>
+              ))}
+            </select>
+            <Link href={`/events/${id}`} className="text-sm text-blue-600 hover:underline">Back to event</Link>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-8">
+          <StatCard label="Registered" value={view.registered} tone="bg-blue-50 text-blue-900" />
+          <StatCard label="Checked in" value={view.checkedIn} hint={percent(view.checkedIn, view.registered)} tone="bg-green-50 text-green-900" />
+          <StatCard label="No-show" value={view.noShow} hint="Sessions that have ended" tone="bg-red-50 text-red-900" />
+          <StatCard label="Cancelled" value={view.cancelled} tone="bg-gray-100 text-gray-900" />
+          <StatCard label="Waitlisted" value={view.waitlisted} tone="bg-amber-50 text-amber-900" />
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-8 mb-8">
+          <div className="md:col-span-2">
+            <h2 className="text-lg font-semibold text-black mb-3">Arrivals per 15 minutes</h2>
+            <ArrivalsChart arrivals={view.arrivals} />
+          </div>
+          <div>
+            <h2 className="text-lg font-semibold text-black mb-3">Top companies</h2>
+            <CompanyList companies={view.topCompanies} />
+          </div>
+        </div>
+
+        <h2 className="text-lg font-semibold text-black mb-3">Sessions</h2>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                {["Session", "Registered", "Checked in", "No-show", "Cancelled", "Waitlisted"].map((h) => (
+                  <th key={h} className="px-4 py-2 text-left font-medium text-gray-500 uppercase tracking-wider">{h}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 text-black">
+              {stats.occurrences.map((occ) => (
+                <tr
+                  key={occ.id}
+                  onClick={() => setSelectedOccurrenceId(occ.id)}
+                  className={`cursor-pointer hover:bg-gray-50 ${occ.id === selectedOccurrenceId ? "bg-blue-50" : ""}`}
+                >
+                  <td className="px-4 py-2">{formatSession(occ)}</td>
+                  <td className="px-4 py-2">{occ.registered}</td>
+                  <td className="px-4 py-2">{occ.checkedIn} <span className="text-gray-500">({percent(occ.checkedIn, occ.registered)})</span></td>
+                  <td className="px-4 py-2">{occ.noShow}</td>
+                  <td className="px-4 py-2">{occ.cancelled}</td>
+                  <td className="px-4 py-2">{occ.waitlisted}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {stats.byType.length > 0 && (
+          <>
+            <h2 className="text-lg font-semibold text-black mt-8 mb-3">By attendee type</h2>
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    {["Type", "Registered", "Checked in", "No-show", "Cancelled", "Waitlisted"].map((h) => (
+                      <th key={h} className="px-4 py-2 text-left font-medium text-gray-500 uppercase tracking-wider">{h}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 text-black">
+                  {stats.byType.map((type) => (
+                    <tr key={type.id ?? "none"}>
+                      <td className="px-4 py-2">
+                        <span
+                          className="inline-block h-3 w-3 rounded-full mr-2 align-middle border"
+                          style={{ backgroundColor: type.badgeColor ?? "transparent" }}
+                        />
+                        {type.name}
+                      </td>
+                      <td className="px-4 py-2">{type.registered}</td>
+                      <td className="px-4 py-2">{type.checkedIn} <span className="text-gray-500">({percent(type.checkedIn, type.registered)})</span></td>
+                      <td className="px-4 py-2">{type.noShow}</td>
+                      <td className="px-4 py-2">{type.cancelled}</td>
+                      <td className="px-4 py-2">{type.waitlisted}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -290,6 +290,17 @@ export default function EventDetailsPage({ params }: { params: { id: string } })
           </button>
         </div>
 
+        <p className="text-center text-sm text-gray-600 mb-8">
+          Calendar feed with every session:{" "}
+          <a href={`webcal://${window.location.host}/api/events/${event.id}/calendar.ics`} className="text-blue-600 hover:underline">
+            Subscribe
+          </a>{" "}
+          or{" "}
+          <a href={`/api/events/${event.id}/calendar.ics`} download className="text-blue-600 hover:underline">
+            download .ics
+          </a>
+        </p>
+
         {/* Share Options */}
         {showShareOptions && (
           <div className="mt-4 mb-8 flex flex-col sm:flex-row justify-center space-y-2 sm:space-y-0 sm:space-x-4">
@@ -9,6 +9,7 @@ interface EventOccurrenceFormData {
   startTime: string; // "YYYY-MM-DDTHH:mm"
   endTime: string; // "YYYY-MM-DDTHH:mm"
   location: string; // Optional override for occurrence location
+  maxCapacity: string; // Optional per-session seat limit
 }
 
 export default function CreateEventPage() {
@@ -22,7 +23,9 @@ export default function CreateEventPage() {
     contactEmail: "",
     contactPhone: "",
     maxCapacity: "",
-    occurrences: [{ startTime: "", endTime: "", location: "" }] as EventOccurrenceFormData[],
+    passIdPrefix: "",
+    passIdStart: "",
+    occurrences: [{ startTime: "", endTime: "", location: "", maxCapacity: "" }] as EventOccurrenceFormData[],
   });
   const [errors, setErrors] = useState({
     name: "",
@@ -32,7 +35,9 @@ export default function CreateEventPage() {
     contactEmail: "",
     contactPhone: "",
     maxCapacity: "",
-    occurrences: [] as { startTime?: string; endTime?: string; location?: string }[],
+    passIdPrefix: "",
+    passIdStart: "",
+    occurrences: [] as { startTime?: string; endTime?: string; location?: string; maxCapacity?: string }[],
   });
   const [apiError, setApiError] = useState("");
   const [buttonDisabled, setLoadingButtonDisabled] = useState(true); // Renamed for clarity
@@ -57,7 +62,9 @@ export default function CreateEventPage() {
       contactEmail: "",
       contactPhone: "",
       maxCapacity: "",
-      occurrences: [] as { startTime?: string; endTime?: string; location?: string }[],
+      passIdPrefix: "",
+      passIdStart: "",
+      occurrences: [] as { startTime?: string; endTime?: string; location?: string; maxCapacity?: string }[],
     };
     let isValid = true;
 
@@ -99,13 +106,21 @@ export default function CreateEventPage() {
         formErrors.maxCapacity = "Max Capacity must be a positive number.";
         isValid = false;
     }
+    if (formData.passIdPrefix && !/^[A-Za-z0-9-]{1,12}$/.test(formData.passIdPrefix)) {
+        formErrors.passIdPrefix = "Letters, digits and dashes only (max 12).";
+        isValid = false;
+    }
+    if (formData.passIdStart && (!Number.isInteger(Number(formData.passIdStart)) || Number(formData.passIdStart) < 0)) {
+        formErrors.passIdStart = "Starting Number must be a whole number.";
+        isValid = false;
+    }
 
     if (formData.occurrences.length === 0) {
       formErrors.occurrences[0] = { startTime: "At least one event occurrence is required." };
       isValid = false;
     } else {
       formData.occurrences.forEach((occ: EventOccurrenceFormData, index) => { // Explicitly typed 'occ' here
-        let occErrors: { startTime?: string; endTime?: string; location?: string } = {};
+        let occErrors: { startTime?: string; endTime?: string; location?: string; maxCapacity?: string } = {};
         if (!occ.startTime) {
           occErrors.startTime = "Start Time is required.";
           isValid = false;
@@ -120,6 +135,10 @@ export default function CreateEventPage() {
             occErrors.endTime = "End Time cannot be before Start Time.";
             isValid = false;
         }
+        if (occ.maxCapacity && (isNaN(Number(occ.maxCapacity)) || Number(occ.maxCapacity) <= 0)) {
+            occErrors.maxCapacity = "Capacity must be a positive number.";
+            isValid = false;
+        }
         formErrors.occurrences[index] = occErrors;
       });
     }
@@ -138,7 +157,7 @@ export default function CreateEventPage() {
   const addOccurrence = () => {
     setFormData({
       ...formData,
-      occurrences: [...formData.occurrences, { startTime: "", endTime: "", location: "" }],
+      occurrences: [...formData.occurrences, { startTime: "", endTime: "", location: "", maxCapacity: "" }],
     });
   };
 
@@ -159,6 +178,12 @@ export default function CreateEventPage() {
       const payload = {
         ...formData,
         maxCapacity: formData.maxCapacity ? parseInt(formData.maxCapacity) : null,
+        passIdPrefix: formData.passIdPrefix.trim() || null,
+        passIdStart: formData.passIdStart ? parseInt(formData.passIdStart) : null,
+        occurrences: formData.occurrences.map((occ) => ({
+          ...occ,
+          maxCapacity: occ.maxCapacity ? parseInt(occ.maxCapacity) : null,
+        })),
       };
       const response = await axiosInstance.post("/api/events", payload);
       console.log("Event creation success", response.data);
@@ -333,6 +358,41 @@ export default function CreateEventPage() {
             </div>
           </div>
 
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="passIdPrefix" className="block text-sm font-medium text-gray-700 mb-1">Pass ID Prefix (Optional)</label>
+              <input
+                id="passIdPrefix"
+                name="passIdPrefix"
+                type="text"
+                placeholder="Defaults to BRI-"
+                className={`mt-1 block w-full appearance-none rounded-md text-black border ${errors.passIdPrefix ? 'border-red-500' : 'border-gray-300'} px-3 py-2 placeholder-gray-400 shadow-sm focus:border-black focus:outline-none focus:ring-black sm:text-sm`}
+                onChange={(e) => setFormData({ ...formData, passIdPrefix: e.target.value })}
+                value={formData.passIdPrefix}
+              />
+              {errors.passIdPrefix && (
+                <p className="mt-1 text-sm text-red-500">{errors.passIdPrefix}</p>
+              )}
+            </div>
+
+            <div>
+              <label htmlFor="passIdStart" className="block text-sm font-medium text-gray-700 mb-1">Pass ID Starting Number (Optional)</label>
+              <input
+                id="passIdStart"
+                name="passIdStart"
+                type="number"
+                placeholder="Defaults to 1001"
+                min="0"
+                className={`mt-1 block w-full appearance-none rounded-md text-black border ${errors.passIdStart ? 'border-red-500' : 'border-gray-300'} px-3 py-2 placeholder-gray-400 shadow-sm focus:border-black focus:outline-none focus:ring-black sm:text-sm`}
+                onChange={(e) => setFormData({ ...formData, passIdStart: e.target.value })}
+                value={formData.passIdStart}
+              />
+              {errors.passIdStart && (
+                <p className="mt-1 text-sm text-red-500">{errors.passIdStart}</p>
+              )}
+            </div>
+          </div>
+
 
           {/* Event Occurrences Section - Remains largely vertical due to dynamic nature */}
           <div className="mt-6 border-t border-gray-200 pt-6">
@@ -369,19 +429,36 @@ export default function CreateEventPage() {
                     )}
                   </div>
                 </div> {/* End of grid for occurrence dates */}
-                <div> {/* Full width for occurrence location */}
-                  <label htmlFor={`occLocation-${index}`} className="block text-xs font-medium text-gray-600 mb-1">Specific Location (Optional)</label>
-                  <input
-                    id={`occLocation-${index}`}
-                    type="text"
-                    placeholder="e.g., Room 101, Online Link"
-                    className={`mt-1 block w-full appearance-none rounded-md text-black border ${errors.occurrences[index]?.location ? 'border-red-500' : 'border-gray-300'} px-3 py-2 placeholder-gray-400 shadow-sm focus:border-black focus:outline-none focus:ring-black sm:text-sm`}
-                    onChange={(e) => handleOccurrenceChange(index, 'location', e.target.value)}
-                    value={occ.location}
-                  />
-                  {errors.occurrences[index]?.location && (
-                    <p className="mt-1 text-sm text-red-500">{errors.occurrences[index]?.location}</p>
-                  )}
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4"> {/* Occurrence location and capacity */}
+                  <div>
+                    <label htmlFor={`occLocation-${index}`} className="block text-xs font-medium text-gray-600 mb-1">Specific Location (Optional)</label>
+                    <input
+                      id={`occLocation-${index}`}
+                      type="text"
+                      placeholder="e.g., Room 101, Online Link"
+                      className={`mt-1 block w-full appearance-none rounded-md text-black border ${errors.occurrences[index]?.location ? 'border-red-500' : 'border-gray-300'} px-3 py-2 placeholder-gray-400 shadow-sm focus:border-black focus:outline-none focus:ring-black sm:text-sm`}
+                      onChange={(e) => handleOccurrenceChange(index, 'location', e.target.value)}
+                      value={occ.location}
+                    />
+                    {errors.occurrences[index]?.location && (
+                      <p className="mt-1 text-sm text-red-500">{errors.occurrences[index]?.location}</p>
+                    )}
+                  </div>
+                  <div>
+                    <label htmlFor={`occCapacity-${index}`} className="block text-xs font-medium text-gray-600 mb-1">Session Capacity (Optional)</label>
+                    <input
+                      id={`occCapacity-${index}`}
+                      type="number"
+                      min="1"
+                      placeholder="e.g., 120"
+                      className={`mt-1 block w-full appearance-none rounded-md text-black border ${errors.occurrences[index]?.maxCapacity ? 'border-red-500' : 'border-gray-300'} px-3 py-2 placeholder-gray-400 shadow-sm focus:border-black focus:outline-none focus:ring-black sm:text-sm`}
+                      onChange={(e) => handleOccurrenceChange(index, 'maxCapacity', e.target.value)}
+                      value={occ.maxCapacity}
+                    />
+                    {errors.occurrences[index]?.maxCapacity && (
+                      <p className="mt-1 text-sm text-red-500">{errors.occurrences[index]?.maxCapacity}</p>
+                    )}
+                  </div>
                 </div>
                 {formData.occurrences.length > 1 && (
                   <button
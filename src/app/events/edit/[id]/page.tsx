@@ -6,6 +6,7 @@ import { useRouter } from "next/navigation";
 import { toast } from "react-hot-toast";
 import axiosInstance from "@/lib/api";
 import Link from "next/link";
+import BadgeDesigner from "@/app/components/BadgeDesigner";
 
 /* ---------------- Types ---------------- */
 interface EventOccurrenceFormData {
@@ -13,6 +14,7 @@ interface EventOccurrenceFormData {
   startTime: string;      // EXACT string from input: "YYYY-MM-DDTHH:mm"
   endTime: string;        // EXACT string from input: "YYYY-MM-DDTHH:mm" or ""
   location: string;       // optional override
+  maxCapacity: string;    // optional per-session seat limit
 }
 
 interface EventDetail {
@@ -24,11 +26,14 @@ interface EventDetail {
   contactEmail: string | null;
   contactPhone: string | null;
   maxCapacity: number | null;
+  passIdPrefix: string | null;
+  passIdStart: number | null;
   occurrences: Array<{
     id: string;
     startTime: string;    // whatever server stored (ISO or naive); we won't shift it
     endTime: string | null;
     location: string | null;
+    maxCapacity: number | null;
   }>;
 }
 
@@ -45,6 +50,43 @@ function toInputNoTZ(isoLike: string | null | undefined): string {
   return m ? `${m[1]}T${m[2]}` : "";
 }
 
+/* ---------------- Schedule change preview ---------------- */
+interface SessionSnapshot {
+  id?: string;
+  startTime: string;
+  endTime: string | null;
+  location: string | null;
+}
+
+interface ScheduleDiff {
+  added: SessionSnapshot[];
+  moved: { id: string; before: SessionSnapshot; after: SessionSnapshot }[];
+  removed: SessionSnapshot[];
+}
+
+interface AffectedRegistrant {
+  registrationId: string;
+  passId: string;
+  name: string;
+  email: string;
+  status: string;
+  changes: { kind: "moved" | "removed"; before: SessionSnapshot; after?: SessionSnapshot }[];
+  sessionsLeft: number;
+}
+
+interface ScheduleChangePreview {
+  diff: ScheduleDiff;
+  affected: AffectedRegistrant[];
+}
+
+// Session times are wall-clock values, so show them as stored
+function describeSession(o: SessionSnapshot): string {
+  const start = toInputNoTZ(o.startTime).replace("T", " ");
+  const end = toInputNoTZ(o.endTime);
+  const time = end ? `${start} – ${end.slice(0, 10) === start.slice(0, 10) ? end.slice(11) : end.replace("T", " ")}` : start;
+  return o.location ? `${time} (${o.location})` : time;
+}
+
 /* ---------------- Component ---------------- */
 export default function EditEventPage({ params }: { params: { id: string } }) {
   const router = useRouter();
@@ -58,6 +100,8 @@ export default function EditEventPage({ params }: { params: { id: string } }) {
     contactEmail: "",
     contactPhone: "",
     maxCapacity: "",
+    passIdPrefix: "",
+    passIdStart: "",
     occurrences: [] as EventOccurrenceFormData[],
   });
 
@@ -69,13 +113,21 @@ export default function EditEventPage({ params }: { params: { id: string } }) {
     contactEmail: "",
     contactPhone: "",
     maxCapacity: "",
-    occurrences: [] as { startTime?: string; endTime?: string; location?: string }[],
+    passIdPrefix: "",
+    passIdStart: "",
+    occurrences: [] as { startTime?: string; endTime?: string; location?: string; maxCapacity?: string }[],
   });
 
   const [apiError, setApiError] = useState("");
   const [buttonDisabled, setButtonDisabled] = useState(true);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
+  const [pendingChange, setPendingChange] = useState<{
+    payload: object;
+    diff: ScheduleDiff;
+    affected: AffectedRegistrant[];
+  } | null>(null);
+  const [notifyAffected, setNotifyAffected] = useState(true);
 
   /* ---------------- Load existing event ---------------- */
   useEffect(() => {
@@ -94,13 +146,16 @@ export default function EditEventPage({ params }: { params: { id: string } }) {
           contactEmail: e.contactEmail ?? "",
           contactPhone: e.contactPhone ?? "",
           maxCapacity: e.maxCapacity ? String(e.maxCapacity) : "",
+          passIdPrefix: e.passIdPrefix ?? "",
+          passIdStart: e.passIdStart != null ? String(e.passIdStart) : "",
           occurrences:
             e.occurrences?.map((o) => ({
               id: o.id,
               startTime: toInputNoTZ(o.startTime), // NO TZ SHIFT
               endTime: toInputNoTZ(o.endTime),     // NO TZ SHIFT
               location: o.location ?? "",
-            })) || [{ startTime: "", endTime: "", location: "" }],
+              maxCapacity: o.maxCapacity ? String(o.maxCapacity) : "",
+            })) || [{ startTime: "", endTime: "", location: "", maxCapacity: "" }],
         });
       } catch (err: any) {
         console.error("Failed to load event", err);
@@ -131,7 +186,9 @@ export default function EditEventPage({ params }: { params: { id: string } }) {
       contactEmail: "",
       contactPhone: "",
       maxCapacity: "",
-      occurrences: [] as { startTime?: string; endTime?: string; location?: string }[],
+      passIdPrefix: "",
+      passIdStart: "",
+      occurrences: [] as { startTime?: string; endTime?: string; location?: string; maxCapacity?: string }[],
     };
     let ok = true;
 
@@ -176,13 +233,24 @@ export default function EditEventPage({ params }: { params: { id: string } }) {
         ok = false;
       }
     }
+    if (formData.passIdPrefix && !/^[A-Za-z0-9-]{1,12}$/.test(formData.passIdPrefix)) {
+      errs.passIdPrefix = "Letters, digits and dashes only (max 12).";
+      ok = false;
+    }
+    if (formData.passIdStart) {
+      const n = Number(formData.passIdStart);
+      if (!Number.isInteger(n) || n < 0) {
+        errs.passIdStart = "Starting Number must be a whole number.";
+        ok = false;
+      }
+    }
 
     if (formData.occurrences.length === 0) {
       errs.occurrences[0] = { startTime: "At least one event occurrence is required." };
       ok = false;
     } else {
       formData.occurrences.forEach((occ, i) => {
-        const oe: { startTime?: string; endTime?: string; location?: string } = {};
+        const oe: { startTime?: string; endTime?: string; location?: string; maxCapacity?: string } = {};
         if (!occ.startTime) {
           oe.startTime = "Start Time is required.";
           ok = false;
@@ -196,6 +264,13 @@ export default function EditEventPage({ params }: { params: { id: string } }) {
             ok = false;
           }
         }
+        if (occ.maxCapacity) {
+          const n = Number(occ.maxCapacity);
+          if (!Number.isFinite(n) || n <= 0) {
+            oe.maxCapacity = "Capacity must be a positive number.";
+            ok = false;
+          }
+        }
         errs.occurrences[i] = oe;
       });
     }
@@ -223,7 +298,7 @@ export default function EditEventPage({ params }: { params: { id: string } }) {
   const addOccurrence = () => {
     setFormData((prev) => ({
       ...prev,
-      occurrences: [...prev.occurrences, { startTime: "", endTime: "", location: "" }],
+      occurrences: [...prev.occurrences, { startTime: "", endTime: "", location: "", maxCapacity: "" }],
     }));
   };
 
@@ -235,42 +310,82 @@ export default function EditEventPage({ params }: { params: { id: string } }) {
   };
 
   /* ---------------- Submit (PUT) ---------------- */
+  const buildPayload = () => ({
+    // Send exactly what user typed; backend should persist as provided.
+    name: formData.name.trim(),
+    description: formData.description.trim(),
+    location: formData.location.trim(),
+    googleMapsLink: formData.googleMapsLink.trim(),
+    contactEmail: formData.contactEmail.trim(),
+    contactPhone: formData.contactPhone.trim(),
+    maxCapacity: formData.maxCapacity ? parseInt(formData.maxCapacity, 10) : null,
+    passIdPrefix: formData.passIdPrefix.trim() || null,
+    passIdStart: formData.passIdStart ? parseInt(formData.passIdStart, 10) : null,
+    occurrences: formData.occurrences.map((o) => ({
+      id: o.id,
+      startTime: o.startTime,         // e.g. "2025-06-19T15:00" (no tz conversion)
+      endTime: o.endTime || null,     // e.g. "2025-06-19T16:45" or null
+      location: o.location || null,
+      maxCapacity: o.maxCapacity ? parseInt(o.maxCapacity, 10) : null,
+    })),
+  });
+
+  const showError = (error: any) => {
+    console.error("Event update failed", error);
+    const message =
+      error.response?.data?.error ||
+      error.message ||
+      "An unexpected error occurred during update.";
+    setApiError(message);
+    toast.error(message);
+  };
+
+  const saveEvent = async (payload: object, notify: boolean) => {
+    const res = await axiosInstance.put(`/api/events/${id}`, { ...payload, notify });
+    const notified = res.data?.notified || 0;
+    toast.success(
+      notified > 0
+        ? `Event updated. ${notified} attendee${notified === 1 ? "" : "s"} will be notified.`
+        : "Event updated successfully!"
+    );
+    const eid = res.data?.id || id;
+    router.push(`/events/${eid}`);
+  };
+
   const onUpdateEvent = async () => {
     setApiError("");
     if (!handleValidation()) return;
 
     try {
       setSaving(true);
+      const payload = buildPayload();
+
+      // Dry run first: if booked sessions move or disappear, ask before saving
+      const preview = await axiosInstance.put(`/api/events/${id}?dryRun=1`, payload);
+      const { diff, affected } = preview.data as ScheduleChangePreview;
+      if (diff.moved.length > 0 || diff.removed.length > 0) {
+        setNotifyAffected(true);
+        setPendingChange({ payload, diff, affected });
+        return;
+      }
 
-      // Send exactly what user typed; backend should persist as provided.
-      const payload = {
-        name: formData.name.trim(),
-        description: formData.description.trim(),
-        location: formData.location.trim(),
-        googleMapsLink: formData.googleMapsLink.trim(),
-        contactEmail: formData.contactEmail.trim(),
-        contactPhone: formData.contactPhone.trim(),
-        maxCapacity: formData.maxCapacity ? parseInt(formData.maxCapacity, 10) : null,
-        occurrences: formData.occurrences.map((o) => ({
-          id: o.id,
-          startTime: o.startTime,         // e.g. "2025-06-19T15:00" (no tz conversion)
-          endTime: o.endTime || null,     // e.g. "2025-06-19T16:45" or null
-          location: o.location || null,
-        })),
-      };
-
-      const res = await axiosInstance.put(`/api/events/${id}`, payload);
-      toast.success("Event updated successfully!");
-      const eid = res.data?.id || id;
-      router.push(`/events/${eid}`);
+      await saveEvent(payload, false);
     } catch (error: any) {
-      console.error("Event update failed", error);
-      const message =
-        error.response?.data?.error ||
-        error.message ||
-        "An unexpected error occurred during update.";
-      setApiError(message);
-      toast.error(message);
+      showError(error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const confirmScheduleChange = async () => {
+    if (!pendingChange) return;
+    try {
+      setSaving(true);
+      await saveEvent(pendingChange.payload, notifyAffected);
+      setPendingChange(null);
+    } catch (error: any) {
+      setPendingChange(null);
+      showError(error);
     } finally {
       setSaving(false);
     }
@@ -445,6 +560,45 @@ export default function EditEventPage({ params }: { params: { id: string } }) {
             </div>
           </div>
 
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="passIdPrefix" className="block text-sm font-medium text-gray-700 mb-1">
+                Pass ID Prefix (Optional)
+              </label>
+              <input
+                id="passIdPrefix"
+                name="passIdPrefix"
+                type="text"
+                placeholder="Defaults to BRI-"
+                className={`mt-1 block w-full appearance-none rounded-md text-black border ${
+                  errors.passIdPrefix ? "border-red-500" : "border-gray-300"
+                } px-3 py-2 placeholder-gray-400 shadow-sm focus:border-black focus:outline-none focus:ring-black sm:text-sm`}
+                onChange={(e) => setFormData({ ...formData, passIdPrefix: e.target.value })}
+                value={formData.passIdPrefix}
+              />
+              {errors.passIdPrefix && <p className="mt-1 text-sm text-red-500">{errors.passIdPrefix}</p>}
+            </div>
+
+            <div>
+              <label htmlFor="passIdStart" className="block text-sm font-medium text-gray-700 mb-1">
+                Pass ID Starting Number (Optional)
+              </label>
+              <input
+                id="passIdStart"
+                name="passIdStart"
+                type="number"
+                placeholder="Defaults to 1001"
+                min="0"
+                className={`mt-1 block w-full appearance-none rounded-md text-black border ${
+                  errors.passIdStart ? "border-red-500" : "border-gray-300"
+                } px-3 py-2 placeholder-gray-400 shadow-sm focus:border-black focus:outline-none focus:ring-black sm:text-sm`}
+                onChange={(e) => setFormData({ ...formData, passIdStart: e.target.value })}
+                value={formData.passIdStart}
+              />
+              {errors.passIdStart && <p className="mt-1 text-sm text-red-500">{errors.passIdStart}</p>}
+            </div>
+          </div>
+
           {/* Event Occurrences */}
           <div className="mt-6 border-t border-gray-200 pt-6">
             <h4 className="text-lg font-semibold text-black mb-4">
@@ -494,23 +648,45 @@ export default function EditEventPage({ params }: { params: { id: string } }) {
                   </div>
                 </div>
 
-                <div>
-                  <label htmlFor={`occLocation-${index}`} className="block text-xs font-medium text-gray-600 mb-1">
-                    Specific Location (Optional)
-                  </label>
-                  <input
-                    id={`occLocation-${index}`}
-                    type="text"
-                    placeholder="e.g., Room 101, Online Link"
-                    className={`mt-1 block w-full appearance-none rounded-md text-black border ${
-                      errors.occurrences[index]?.location ? "border-red-500" : "border-gray-300"
-                    } px-3 py-2 placeholder-gray-400 shadow-sm focus:border-black focus:outline-none focus:ring-black sm:text-sm`}
-                    onChange={(e) => handleOccurrenceChange(index, "location", e.target.value)}
-                    value={occ.location}
-                  />
-                  {errors.occurrences[index]?.location && (
-                    <p className="mt-1 text-sm text-red-500">{errors.occurrences[index]?.location}</p>
-                  )}
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label htmlFor={`occLocation-${index}`} className="block text-xs font-medium text-gray-600 mb-1">
+                      Specific Location (Optional)
+                    </label>
+                    <input
+                      id={`occLocation-${index}`}
+                      type="text"
+                      placeholder="e.g., Room 101, Online Link"
+                      className={`mt-1 block w-full appearance-none rounded-md text-black border ${
+                        errors.occurrences[index]?.location ? "border-red-500" : "border-gray-300"
+                      } px-3 py-2 placeholder-gray-400 shadow-sm focus:border-black focus:outline-none focus:ring-black sm:text-sm`}
+                      onChange={(e) => handleOccurrenceChange(index, "location", e.target.value)}
+                      value={occ.location}
+                    />
+                    {errors.occurrences[index]?.location && (
+                      <p className="mt-1 text-sm text-red-500">{errors.occurrences[index]?.location}</p>
+                    )}
+                  </div>
+
+                  <div>
+                    <label htmlFor={`occCapacity-${index}`} className="block text-xs font-medium text-gray-600 mb-1">
+                      Session Capacity (Optional)
+                    </label>
+                    <input
+                      id={`occCapacity-${index}`}
+                      type="number"
+                      min="1"
+                      placeholder="e.g., 120"
+                      className={`mt-1 block w-full appearance-none rounded-md text-black border ${
+                        errors.occurrences[index]?.maxCapacity ? "border-red-500" : "border-gray-300"
+                      } px-3 py-2 placeholder-gray-400 shadow-sm focus:border-black focus:outline-none focus:ring-black sm:text-sm`}
+                      onChange={(e) => handleOccurrenceChange(index, "maxCapacity", e.target.value)}
+                      value={occ.maxCapacity}
+                    />
+                    {errors.occurrences[index]?.maxCapacity && (
+                      <p className="mt-1 text-sm text-red-500">{errors.occurrences[index]?.maxCapacity}</p>
+                    )}
+                  </div>
                 </div>
 
                 {formData.occurrences.length > 1 && (
@@ -576,6 +752,126 @@ export default function EditEventPage({ params }: { params: { id: string } }) {
           </p>
         </div>
       </div>
+
+      {/* Badge design, saved separately from the event details */}
+      <div className="z-10 mt-8 w-full max-w-5xl overflow-hidden rounded-2xl border border-gray-100 shadow-xl">
+        <div className="flex flex-col items-center justify-center space-y-3 border-b border-gray-200 bg-white px-4 py-6 pt-8 text-center sm:px-8">
+          <h3 className="text-xl font-semibold text-black">Badge Design</h3>
+          <p className="text-sm text-gray-500">How this event&apos;s printable passes look. Changes apply to passes printed after saving.</p>
+        </div>
+        <div className="bg-white px-8 py-6">
+          <BadgeDesigner eventId={id} />
+        </div>
+      </div>
+
+      {/* Schedule change confirmation */}
+      {pendingChange && (
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-75 flex items-center justify-center z-50">
+          <div className="bg-white p-8 rounded-lg shadow-xl w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+            <h3 className="text-lg font-semibold mb-4 text-black">Confirm Session Changes</h3>
+
+            <div className="space-y-3 text-sm text-black">
+              {pendingChange.diff.moved.length > 0 && (
+                <div>
+                  <p className="font-medium">Changed sessions</p>
+                  <ul className="mt-1 list-disc pl-5 text-gray-700">
+                    {pendingChange.diff.moved.map((m) => (
+                      <li key={m.id}>
+                        <span className="line-through">{describeSession(m.before)}</span> → {describeSession(m.after)}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+              {pendingChange.diff.removed.length > 0 && (
+                <div>
+                  <p className="font-medium">Removed sessions</p>
+                  <ul className="mt-1 list-disc pl-5 text-gray-700">
+                    {pendingChange.diff.removed.map((r, i) => (
+                      <li key={r.id || i}>{describeSession(r)}</li>
+                    ))}
+                  </ul>
+                  <p className="mt-1 text-xs text-red-600">
+                    Bookings on removed sessions are deleted along with them.
+                  </p>
+                </div>
+              )}
+              {pendingChange.diff.added.length > 0 && (
+                <div>
+                  <p className="font-medium">New sessions</p>
+                  <ul className="mt-1 list-disc pl-5 text-gray-700">
+                    {pendingChange.diff.added.map((a, i) => (
+                      <li key={i}>{describeSession(a)}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              <div>
+                <p className="font-medium">
+                  Affected attendees ({pendingChange.affected.length})
+                </p>
+                {pendingChange.affected.length === 0 ? (
+                  <p className="mt-1 text-gray-600">Nobody is booked on the changed sessions.</p>
+                ) : (
+                  <ul className="mt-1 max-h-60 overflow-y-auto divide-y divide-gray-100 rounded-md border border-gray-200">
+                    {pendingChange.affected.map((a) => (
+                      <li key={a.registrationId} className="px-3 py-2">
+                        <div className="flex justify-between gap-2">
+                          <span className="font-medium">{a.name || a.email}</span>
+                          <span className="text-xs text-gray-500">
+                            {a.passId} · {a.status}
+                          </span>
+                        </div>
+                        <div className="text-xs text-gray-600">{a.email}</div>
+                        <div className="text-xs text-gray-600">
+                          {a.changes.filter((c) => c.kind === "moved").length} changed,{" "}
+                          {a.changes.filter((c) => c.kind === "removed").length} removed
+                        </div>
+                        {a.sessionsLeft === 0 && (
+                          <div className="text-xs text-red-600">
+                            No sessions left on this registration after the change.
+                          </div>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+
+              {pendingChange.affected.length > 0 && (
+                <label className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={notifyAffected}
+                    onChange={(e) => setNotifyAffected(e.target.checked)}
+                  />
+                  Email affected attendees about the change
+                </label>
+              )}
+            </div>
+
+            <div className="mt-6 flex justify-end space-x-4">
+              <button
+                onClick={() => setPendingChange(null)}
+                disabled={saving}
+                className="px-4 py-2 rounded-md border border-gray-300 text-gray-700 hover:bg-gray-50"
+              >
+                Back to editing
+              </button>
+              <button
+                onClick={confirmScheduleChange}
+                disabled={saving}
+                className={`px-4 py-2 rounded-md text-white ${
+                  saving ? "bg-gray-400 cursor-not-allowed" : "bg-black hover:bg-gray-800"
+                }`}
+              >
+                {saving ? "Saving..." : "Save Changes"}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
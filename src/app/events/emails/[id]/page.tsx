@@ -0,0 +1,318 @@
+// src/app/events/emails/[id]/page.tsx
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import { toast } from "react-hot-toast";
+import axiosInstance from "@/lib/api";
+import { Eye, Loader2, Mails, RotateCcw, Save, Send } from "lucide-react";
+
+/* ---------------- Types ---------------- */
+interface Template {
+  type: string;
+  label: string;
+  subject: string;
+  body: string;
+  customized: boolean;
+  updatedAt: string | null;
+}
+
+interface TemplatesResponse {
+  event: { id: string; name: string };
+  templates: Template[];
+  placeholders: Record<string, string>;
+}
+
+interface PreviewResponse {
+  subject: string;
+  html: string;
+  sentTo: string | null;
+}
+
+/* ---------------- Component ---------------- */
+export default function EventEmailsPage({ params }: { params: { id: string } }) {
+  const { id } = params;
+
+  const [data, setData] = useState<TemplatesResponse | null>(null);
+  const [activeType, setActiveType] = useState("confirmation");
+  const [subject, setSubject] = useState("");
+  const [body, setBody] = useState("");
+  const [preview, setPreview] = useState<PreviewResponse | null>(null);
+  const [busy, setBusy] = useState<"save" | "reset" | "preview" | "send" | "resend" | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Placeholder chips insert into whichever field was focused last
+  const subjectRef = useRef<HTMLInputElement>(null);
+  const bodyRef = useRef<HTMLTextAreaElement>(null);
+  const lastFocused = useRef<"subject" | "body">("body");
+
+  const active = data?.templates.find((t) => t.type === activeType);
+  const dirty = !!active && (active.subject !== subject || active.body !== body);
+
+  useEffect(() => {
+    axiosInstance
+      .get<TemplatesResponse>(`/api/events/${id}/email-templates`)
+      .then((res) => {
+        setData(res.data);
+        const first = res.data.templates[0];
+        setActiveType(first.type);
+        setSubject(first.subject);
+        setBody(first.body);
+      })
+      .catch((err) => setError(err.response?.data?.error || "Failed to load email templates."));
+  }, [id]);
+
+  const selectType = (type: string) => {
+    if (dirty && !window.confirm("Discard your unsaved changes to this email?")) return;
+    const template = data?.templates.find((t) => t.type === type);
+    if (!template) return;
+    setActiveType(type);
+    setSubject(template.subject);
+    setBody(template.body);
+    setPreview(null);
+  };
+
+  const updateTemplate = (patch: Partial<Template>) => {
+    setData((prev) =>
+      prev ? { ...prev, templates: prev.templates.map((t) => (t.type === activeType ? { ...t, ...patch } : t)) } : prev
+    );
+  };
+
+  const insertPlaceholder = (name: string) => {
+    const token = `{{${name}}}`;
+    const field = lastFocused.current === "subject" ? subjectRef.current : bodyRef.current;
+    const value = lastFocused.current === "subject" ? subject : body;
+    const setValue = lastFocused.current === "subject" ? setSubject : setBody;
+    const start = field?.selectionStart ?? value.length;
+    const end = field?.selectionEnd ?? value.length;
+    setValue(value.slice(0, start) + token + value.slice(end));
+    // Put the cursor back after the inserted placeholder once React has re-rendered
+    requestAnimationFrame(() => {
+      field?.focus();
+      field?.setSelectionRange(start + token.length, start + token.length);
+    });
+  };
+
+  const handleSave = async () => {
+    setBusy("save");
+    try {
+      const res = await axiosInstance.put(`/api/events/${id}/email-templates/${activeType}`, { subject, body });
+      updateTemplate({ subject: res.data.subject, body: res.data.body, customized: true, updatedAt: res.data.updatedAt });
+      setSubject(res.data.subject);
+      toast.success("Email saved.");
+    } catch (err: any) {
+      toast.error(err.response?.data?.error || "Failed to save the email.");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleReset = async () => {
+    if (!window.confirm("Replace this email with the default wording?")) return;
+    setBusy("reset");
+    try {
+      const res = await axiosInstance.delete(`/api/events/${id}/email-templates/${activeType}`);
+      updateTemplate({ subject: res.data.subject, body: res.data.body, customized: false, updatedAt: null });
+      setSubject(res.data.subject);
+      setBody(res.data.body);
+      setPreview(null);
+      toast.success("Default wording restored.");
+    } catch (err: any) {
+      toast.error(err.response?.data?.error || "Failed to reset the email.");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handlePreview = async (send: boolean) => {
+    setBusy(send ? "send" : "preview");
+    try {
+      const res = await axiosInstance.post<PreviewResponse>(`/api/events/${id}/email-templates/${activeType}`, {
+        subject,
+        body,
+        send,
+      });
+      setPreview(res.data);
+      if (res.data.sentTo) toast.success(`Test email sent to ${res.data.sentTo}.`);
+    } catch (err: any) {
+      toast.error(err.response?.data?.error || "Failed to render the email.");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  // After `npm run backfill:pass-tokens`: older pass emails link to the pass by pass ID, which
+  // only staff can open, so attendees need the pass again with its new links
+  const handleResendPasses = async () => {
+    if (!window.confirm("Email every attendee with a valid pass their pass again, using the confirmation email?")) return;
+    setBusy("resend");
+    try {
+      const res = await axiosInstance.post<{ queued: number; failed: number }>(`/api/events/${id}/resend-passes`);
+      toast.success(`Queued ${res.data.queued} pass email(s).`);
+      if (res.data.failed) toast.error(`${res.data.failed} pass email(s) could not be queued; resend them from the registrations list.`);
+    } catch (err: any) {
+      toast.error(err.response?.data?.error || "Failed to resend the passes.");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  if (error) {
+    return (
+      <div className="min-h-screen bg-gray-50 p-8">
+        <div className="max-w-3xl mx-auto bg-white rounded-2xl border border-gray-100 shadow-xl p-8">
+          <p className="text-red-600">{error}</p>
+          <Link href="/events" className="text-sm text-blue-600 hover:underline">Back to events</Link>
+        </div>
+      </div>
+    );
+  }
+
+  if (!data) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="h-6 w-6 animate-spin text-gray-500" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-8">
+      <div className="w-full max-w-7xl mx-auto bg-white rounded-2xl border border-gray-100 shadow-xl p-8">
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h1 className="text-2xl font-semibold text-black">Emails</h1>
+            <p className="text-sm text-gray-500">{data.event.name}</p>
+          </div>
+          <div className="flex items-center gap-4">
+            <button
+              onClick={handleResendPasses}
+              disabled={!!busy}
+              className="inline-flex items-center gap-2 px-3 py-2 border border-gray-300 text-sm text-gray-700 rounded-md disabled:opacity-50"
+              title="Email every attendee with a valid pass their pass again, with its current links"
+            >
+              {busy === "resend" ? <Loader2 className="h-4 w-4 animate-spin" /> : <Mails className="h-4 w-4" />} Resend passes
+            </button>
+            <Link href="/events" className="text-sm text-blue-600 hover:underline">Back to events</Link>
+          </div>
+        </div>
+
+        {/* Email type tabs */}
+        <div className="flex flex-wrap gap-2 border-b mb-6">
+          {data.templates.map((t) => (
+            <button
+              key={t.type}
+              onClick={() => selectType(t.type)}
+              className={`px-3 py-2 text-sm -mb-px border-b-2 ${
+                t.type === activeType ? "border-black text-black font-medium" : "border-transparent text-gray-500 hover:text-black"
+              }`}
+            >
+              {t.label}
+              {t.customized && <span className="ml-1 text-xs text-blue-600">(custom)</span>}
+            </button>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+          {/* Editor */}
+          <div>
+            <label htmlFor="emailSubject" className="block text-sm font-medium text-gray-700 mb-1">Subject</label>
+            <input
+              id="emailSubject"
+              ref={subjectRef}
+              value={subject}
+              maxLength={200}
+              onChange={(e) => setSubject(e.target.value)}
+              onFocus={() => (lastFocused.current = "subject")}
+              className="w-full border rounded-md p-2 text-black mb-4"
+            />
+
+            <label htmlFor="emailBody" className="block text-sm font-medium text-gray-700 mb-1">Body (HTML)</label>
+            <textarea
+              id="emailBody"
+              ref={bodyRef}
+              value={body}
+              rows={18}
+              onChange={(e) => setBody(e.target.value)}
+              onFocus={() => (lastFocused.current = "body")}
+              className="w-full border rounded-md p-2 text-black font-mono text-sm mb-4"
+            />
+
+            <p className="text-sm font-medium text-gray-700 mb-2">Placeholders (click to insert)</p>
+            <div className="flex flex-wrap gap-2 mb-6">
+              {Object.entries(data.placeholders).map(([name, description]) => (
+                <button
+                  key={name}
+                  type="button"
+                  title={description}
+                  onClick={() => insertPlaceholder(name)}
+                  className="px-2 py-1 rounded-md bg-gray-100 text-xs font-mono text-gray-800 hover:bg-gray-200"
+                >
+                  {`{{${name}}}`}
+                </button>
+              ))}
+            </div>
+
+            <div className="flex flex-wrap items-center gap-3">
+              <button
+                onClick={handleSave}
+                disabled={!!busy || !dirty}
+                className="inline-flex items-center gap-2 px-4 py-2 bg-black text-white rounded-md disabled:opacity-50"
+              >
+                {busy === "save" ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />} Save
+              </button>
+              <button
+                onClick={() => handlePreview(false)}
+                disabled={!!busy}
+                className="inline-flex items-center gap-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-md disabled:opacity-50"
+              >
+                {busy === "preview" ? <Loader2 className="h-4 w-4 animate-spin" /> : <Eye className="h-4 w-4" />} Preview
+              </button>
+              <button
+                onClick={() => handlePreview(true)}
+                disabled={!!busy}
+                className="inline-flex items-center gap-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-md disabled:opacity-50"
+                title="Send this draft to your own email address"
+              >
+                {busy === "send" ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />} Send test to me
+              </button>
+              {active?.customized && (
+                <button
+                  onClick={handleReset}
+                  disabled={!!busy}
+                  className="inline-flex items-center gap-2 px-4 py-2 border border-gray-300 text-red-600 rounded-md disabled:opacity-50"
+                >
+                  {busy === "reset" ? <Loader2 className="h-4 w-4 animate-spin" /> : <RotateCcw className="h-4 w-4" />} Reset to default
+                </button>
+              )}
+            </div>
+            {active?.updatedAt && (
+              <p className="text-xs text-gray-500 mt-3">Last saved {new Date(active.updatedAt).toLocaleString()}</p>
+            )}
+          </div>
+
+          {/* Rendered preview */}
+          <div>
+            <p className="block text-sm font-medium text-gray-700 mb-1">Preview</p>
+            {preview ? (
+              <>
+                <p className="text-sm text-black mb-1">
+                  <span className="text-gray-500">Subject:</span> {preview.subject}
+                </p>
+                <p className="text-xs text-gray-500 mb-2">Filled in with a sample attendee.</p>
+                <iframe
+                  title="Email preview"
+                  srcDoc={preview.html}
+                  sandbox=""
+                  className="w-full h-[40rem] border rounded-md bg-white"
+                />
+              </>
+            ) : (
+              <p className="text-sm text-gray-500">Click Preview to see this email filled in with a sample attendee.</p>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
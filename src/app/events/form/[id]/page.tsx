@@ -0,0 +1,358 @@
+// src/app/events/form/[id]/page.tsx
+"use client";
+
+import React, { useEffect, useState } from "react";
+import Link from "next/link";
+import { toast } from "react-hot-toast";
+import axiosInstance from "@/lib/api";
+import { ArrowDown, ArrowUp, Loader2, Plus, Save, Trash2 } from "lucide-react";
+import {
+  FORM_FIELD_TYPE_LABELS,
+  FORM_FIELD_TYPES,
+  FormField,
+  FormFieldRules,
+  FormFieldType,
+  MAX_FORM_FIELDS,
+  rulesOf,
+} from "@/lib/formFields";
+
+/* ---------------- Types ---------------- */
+interface FormFieldsResponse {
+  id: string;
+  name: string;
+  formFields: FormField[];
+  attendeeTypes: { id: string; name: string }[];
+}
+
+// A field being edited. `key` tells rows apart before new fields have an id; options are
+// edited as one per line.
+interface DraftField {
+  key: string;
+  id?: string;
+  label: string;
+  type: FormFieldType;
+  required: boolean;
+  optionsText: string;
+  helpText: string;
+  rules: FormFieldRules;
+  showOnBadge: boolean;
+  attendeeTypeIds: string[]; // Empty: asked of everyone
+}
+
+let nextKey = 0;
+const newKey = () => `new-${++nextKey}`;
+
+const toDraft = (field: FormField): DraftField => ({
+  key: field.id,
+  id: field.id,
+  label: field.label,
+  type: field.type as FormFieldType,
+  required: field.required,
+  optionsText: field.options.join("\n"),
+  helpText: field.helpText ?? "",
+  rules: rulesOf(field),
+  showOnBadge: field.showOnBadge,
+  attendeeTypeIds: (field.attendeeTypes ?? []).map((t) => t.id),
+});
+
+const toPayload = (draft: DraftField) => ({
+  id: draft.id,
+  label: draft.label,
+  type: draft.type,
+  required: draft.required,
+  options: draft.optionsText.split("\n"),
+  helpText: draft.helpText,
+  rules: draft.rules,
+  showOnBadge: draft.showOnBadge,
+  attendeeTypeIds: draft.attendeeTypeIds,
+});
+
+const inputClass = "w-full border rounded-md p-2 text-sm text-black";
+
+/* ---------------- Component ---------------- */
+export default function EventFormFieldsPage({ params }: { params: { id: string } }) {
+  const { id } = params;
+
+  const [eventName, setEventName] = useState("");
+  const [attendeeTypes, setAttendeeTypes] = useState<FormFieldsResponse["attendeeTypes"]>([]);
+  const [fields, setFields] = useState<DraftField[] | null>(null);
+  const [saved, setSaved] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = (data: FormFieldsResponse) => {
+    const drafts = data.formFields.map(toDraft);
+    setEventName(data.name);
+    setAttendeeTypes(data.attendeeTypes);
+    setFields(drafts);
+    setSaved(JSON.stringify(drafts.map(toPayload)));
+  };
+
+  useEffect(() => {
+    axiosInstance
+      .get<FormFieldsResponse>(`/api/events/${id}/form-fields`)
+      .then((res) => load(res.data))
+      .catch((err) => setError(err.response?.data?.error || "Failed to load the registration form."));
+  }, [id]);
+
+  const dirty = !!fields && JSON.stringify(fields.map(toPayload)) !== saved;
+
+  const update = (key: string, patch: Partial<DraftField>) =>
+    setFields((prev) => prev && prev.map((f) => (f.key === key ? { ...f, ...patch } : f)));
+
+  const updateRule = (key: string, rule: keyof FormFieldRules, value: string) =>
+    setFields((prev) => prev && prev.map((f) => (f.key === key ? { ...f, rules: { ...f.rules, [rule]: value || undefined } } : f)));
+
+  const addField = () =>
+    setFields((prev) => [
+      ...(prev ?? []),
+      { key: newKey(), label: "", type: "text", required: false, optionsText: "", helpText: "", rules: {}, showOnBadge: false, attendeeTypeIds: [] },
+    ]);
+
+  const move = (index: number, by: number) =>
+    setFields((prev) => {
+      if (!prev || index + by < 0 || index + by >= prev.length) return prev;
+      const next = prev.slice();
+      [next[index], next[index + by]] = [next[index + by], next[index]];
+      return next;
+    });
+
+  const remove = (draft: DraftField) => {
+    if (draft.id && !window.confirm(`Remove "${draft.label}"? Answers already given will no longer be shown.`)) return;
+    setFields((prev) => prev && prev.filter((f) => f.key !== draft.key));
+  };
+
+  const handleSave = async () => {
+    if (!fields) return;
+    setSaving(true);
+    try {
+      const res = await axiosInstance.put<{ formFields: FormField[] }>(`/api/events/${id}/form-fields`, {
+        fields: fields.map(toPayload),
+      });
+      load({ id, name: eventName, formFields: res.data.formFields, attendeeTypes });
+      toast.success("Registration form saved.");
+    } catch (err: any) {
+      toast.error(err.response?.data?.error || "Failed to save the registration form.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (error) {
+    return (
+      <div className="min-h-screen bg-gray-50 p-8">
+        <div className="max-w-3xl mx-auto bg-white rounded-2xl border border-gray-100 shadow-xl p-8">
+          <p className="text-red-600">{error}</p>
+          <Link href="/events" className="text-sm text-blue-600 hover:underline">Back to events</Link>
+        </div>
+      </div>
+    );
+  }
+
+  if (!fields) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="h-6 w-6 animate-spin text-gray-500" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-8">
+      <div className="w-full max-w-4xl mx-auto bg-white rounded-2xl border border-gray-100 shadow-xl p-8">
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h1 className="text-2xl font-semibold text-black">Registration Form</h1>
+            <p className="text-sm text-gray-500">{eventName}</p>
+          </div>
+          <Link href="/events" className="text-sm text-blue-600 hover:underline">Back to events</Link>
+        </div>
+
+        <p className="text-sm text-gray-600 mb-6">
+          Attendees always give their name, email, phone, company and (optionally) job title. Add any other questions for
+          this event below; they appear on the public registration form in this order.
+        </p>
+
+        {fields.length === 0 && <p className="text-sm text-gray-500 mb-6">No extra questions yet.</p>}
+
+        <div className="space-y-4 mb-6">
+          {fields.map((field, index) => (
+            <div key={field.key} className="rounded-lg border border-gray-200 p-4">
+              <div className="flex flex-wrap items-end gap-3 mb-3">
+                <div className="flex-1 min-w-[14rem]">
+                  <label className="block text-xs font-medium text-gray-600 mb-1">Question</label>
+                  <input
+                    value={field.label}
+                    maxLength={200}
+                    onChange={(e) => update(field.key, { label: e.target.value })}
+                    className={inputClass}
+                    placeholder="e.g. Dietary requirements"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-600 mb-1">Type</label>
+                  <select
+                    value={field.type}
+                    onChange={(e) => update(field.key, { type: e.target.value as FormFieldType, rules: {} })}
+                    className={inputClass}
+                  >
+                    {FORM_FIELD_TYPES.map((type) => (
+                      <option key={type} value={type}>
+                        {FORM_FIELD_TYPE_LABELS[type]}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div className="flex gap-1">
+                  <button
+                    onClick={() => move(index, -1)}
+                    disabled={index === 0}
+                    className="inline-flex h-9 w-9 items-center justify-center rounded-md border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-40"
+                    title="Move up"
+                    aria-label="Move up"
+                  >
+                    <ArrowUp className="h-4 w-4" />
+                  </button>
+                  <button
+                    onClick={() => move(index, 1)}
+                    disabled={index === fields.length - 1}
+                    className="inline-flex h-9 w-9 items-center justify-center rounded-md border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-40"
+                    title="Move down"
+                    aria-label="Move down"
+                  >
+                    <ArrowDown className="h-4 w-4" />
+                  </button>
+                  <button
+                    onClick={() => remove(field)}
+                    className="inline-flex h-9 w-9 items-center justify-center rounded-md border border-gray-300 text-red-600 hover:bg-red-50"
+                    title="Remove"
+                    aria-label="Remove"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              </div>
+
+              {(field.type === "select" || field.type === "multi-select") && (
+                <div className="mb-3">
+                  <label className="block text-xs font-medium text-gray-600 mb-1">Options (one per line)</label>
+                  <textarea
+                    value={field.optionsText}
+                    rows={4}
+                    onChange={(e) => update(field.key, { optionsText: e.target.value })}
+                    className={inputClass}
+                  />
+                </div>
+              )}
+
+              {/* Validation rules for the type */}
+              {field.type === "text" && (
+                <div className="grid gap-3 sm:grid-cols-4 mb-3">
+                  <div>
+                    <label className="block text-xs font-medium text-gray-600 mb-1">Min length</label>
+                    <input type="number" min={0} value={field.rules.minLength ?? ""} onChange={(e) => updateRule(field.key, "minLength", e.target.value)} className={inputClass} />
+                  </div>
+                  <div>
+                    <label className="block text-xs font-medium text-gray-600 mb-1">Max length</label>
+                    <input type="number" min={0} value={field.rules.maxLength ?? ""} onChange={(e) => updateRule(field.key, "maxLength", e.target.value)} className={inputClass} />
+                  </div>
+                  <div>
+                    <label className="block text-xs font-medium text-gray-600 mb-1">Pattern (regex)</label>
+                    <input value={field.rules.pattern ?? ""} onChange={(e) => updateRule(field.key, "pattern", e.target.value)} className={`${inputClass} font-mono`} />
+                  </div>
+                  <div>
+                    <label className="block text-xs font-medium text-gray-600 mb-1">Pattern error message</label>
+                    <input value={field.rules.patternMessage ?? ""} onChange={(e) => updateRule(field.key, "patternMessage", e.target.value)} className={inputClass} />
+                  </div>
+                </div>
+              )}
+              {field.type === "multi-select" && (
+                <div className="grid gap-3 sm:grid-cols-4 mb-3">
+                  <div>
+                    <label className="block text-xs font-medium text-gray-600 mb-1">Min choices</label>
+                    <input type="number" min={0} value={field.rules.minChoices ?? ""} onChange={(e) => updateRule(field.key, "minChoices", e.target.value)} className={inputClass} />
+                  </div>
+                  <div>
+                    <label className="block text-xs font-medium text-gray-600 mb-1">Max choices</label>
+                    <input type="number" min={0} value={field.rules.maxChoices ?? ""} onChange={(e) => updateRule(field.key, "maxChoices", e.target.value)} className={inputClass} />
+                  </div>
+                </div>
+              )}
+              {field.type === "date" && (
+                <div className="grid gap-3 sm:grid-cols-4 mb-3">
+                  <div>
+                    <label className="block text-xs font-medium text-gray-600 mb-1">Earliest date</label>
+                    <input type="date" value={field.rules.minDate ?? ""} onChange={(e) => updateRule(field.key, "minDate", e.target.value)} className={inputClass} />
+                  </div>
+                  <div>
+                    <label className="block text-xs font-medium text-gray-600 mb-1">Latest date</label>
+                    <input type="date" value={field.rules.maxDate ?? ""} onChange={(e) => updateRule(field.key, "maxDate", e.target.value)} className={inputClass} />
+                  </div>
+                </div>
+              )}
+
+              <div className="mb-3">
+                <label className="block text-xs font-medium text-gray-600 mb-1">Help text (optional)</label>
+                <input value={field.helpText} onChange={(e) => update(field.key, { helpText: e.target.value })} className={inputClass} />
+              </div>
+
+              <div className="flex flex-wrap gap-6 text-sm text-gray-700">
+                <label className="inline-flex items-center gap-2">
+                  <input type="checkbox" checked={field.required} onChange={(e) => update(field.key, { required: e.target.checked })} />
+                  {field.type === "checkbox" ? "Must be ticked (e.g. consent)" : "Required"}
+                </label>
+                <label className="inline-flex items-center gap-2">
+                  <input type="checkbox" checked={field.showOnBadge} onChange={(e) => update(field.key, { showOnBadge: e.target.checked })} />
+                  Show the answer on the pass
+                </label>
+              </div>
+
+              {/* Form variants: a question can be limited to some attendee types */}
+              {attendeeTypes.length > 0 && (
+                <div className="mt-3 flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-gray-700">
+                  <span className="text-xs font-medium text-gray-600">
+                    Asked of{field.attendeeTypeIds.length ? "" : " everyone"}:
+                  </span>
+                  {attendeeTypes.map((type) => (
+                    <label key={type.id} className="inline-flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        checked={field.attendeeTypeIds.includes(type.id)}
+                        onChange={(e) =>
+                          update(field.key, {
+                            attendeeTypeIds: e.target.checked
+                              ? [...field.attendeeTypeIds, type.id]
+                              : field.attendeeTypeIds.filter((t) => t !== type.id),
+                          })
+                        }
+                      />
+                      {type.name}
+                    </label>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3">
+          <button
+            onClick={addField}
+            disabled={fields.length >= MAX_FORM_FIELDS}
+            className="inline-flex items-center gap-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-md disabled:opacity-50"
+          >
+            <Plus className="h-4 w-4" /> Add question
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={saving || !dirty}
+            className="inline-flex items-center gap-2 px-4 py-2 bg-black text-white rounded-md disabled:opacity-50"
+          >
+            {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />} Save
+          </button>
+          {dirty && <span className="text-sm text-gray-500">Unsaved changes</span>}
+        </div>
+      </div>
+    </div>
+  );
+}
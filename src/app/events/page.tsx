@@ -15,8 +15,12 @@ import {
   MapPin,
   Eye,
   QrCode, // <-- QR icon
+  BarChart3,
+  ListChecks,
+  Tags,
 } from "lucide-react";
 import QRCode from "qrcode"; // <-- npm i qrcode
+import AuditHistory from "@/app/components/AuditHistory";
 
 /* ---------------- Types ---------------- */
 interface EventOccurrence {
@@ -93,6 +97,10 @@ export default function EventsPage() {
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [eventToDelete, setEventToDelete] = useState<Event | null>(null);
   const [deleting, setDeleting] = useState(false);
+  const [deleteAffected, setDeleteAffected] = useState<
+    { registrationId: string; passId: string; name: string; email: string; status: string }[] | null
+  >(null);
+  const [notifyOnDelete, setNotifyOnDelete] = useState(true);
 
   // QR modal
   const [qrOpen, setQrOpen] = useState(false);
@@ -272,22 +280,47 @@ const formatTime = (iso: string) =>
     router.push(`/events/${id}`);
   };
 
+  const handleAttendance = (id: string) => {
+    router.push(`/events/${id}/attendance`);
+  };
+
   const handleEdit = (id: string) => {
     router.push(`/events/edit/${id}`);
   };
 
-  const handleDeleteClick = (ev: Event) => {
+  const handleEmails = (id: string) => {
+    router.push(`/events/emails/${id}`);
+  };
+
+  const handleForm = (id: string) => {
+    router.push(`/events/form/${id}`);
+  };
+
+  const handleTypes = (id: string) => {
+    router.push(`/events/types/${id}`);
+  };
+
+  const handleDeleteClick = async (ev: Event) => {
     setEventToDelete(ev);
+    setDeleteAffected(null);
+    setNotifyOnDelete(true);
     setShowDeleteConfirm(true);
+    try {
+      const res = await axiosInstance.delete(`/api/events/${ev.id}?dryRun=1`);
+      setDeleteAffected(res.data?.affected || []);
+    } catch (err) {
+      console.error("Failed to load registrations for event", err);
+      setDeleteAffected([]);
+    }
   };
 
   const confirmDelete = async () => {
     if (!eventToDelete) return;
     setDeleting(true);
     try {
-      await axiosInstance.delete(`/api/events/${eventToDelete.id}`);
+      await axiosInstance.delete(`/api/events/${eventToDelete.id}${notifyOnDelete ? "" : "?notify=0"}`);
       setEvents((prev) => prev.filter((e) => e.id !== eventToDelete.id));
-      toast.success("Event deleted successfully!");
+      toast.success("Event moved to the trash.");
       setShowDeleteConfirm(false);
       setEventToDelete(null);
     } catch (err: any) {
@@ -519,7 +552,7 @@ const formatTime = (iso: string) =>
                             <Users className="h-4 w-4 text-gray-500" />
                             {e.maxCapacity ? (
                               <span>
-                                {(e.registrations?.length || 0)} / {e.maxCapacity}
+                                {(e.registrations?.filter((r) => r.status === "registered" || r.status === "checked-in").length || 0)} / {e.maxCapacity}
                               </span>
                             ) : (
                               <span>—</span>
@@ -539,6 +572,15 @@ const formatTime = (iso: string) =>
                             >
                               <Eye className="h-4 w-4" />
                             </button>
+                            {/* LIVE ATTENDANCE */}
+                            <button
+                              onClick={() => handleAttendance(e.id)}
+                              className="inline-flex h-8 w-8 items-center justify-center rounded-md border border-gray-300 text-gray-700 hover:bg-gray-50"
+                              title="Live Attendance"
+                              aria-label="Live Attendance"
+                            >
+                              <BarChart3 className="h-4 w-4" />
+                            </button>
                             {/* EDIT */}
                             <button
                               onClick={() => handleEdit(e.id)}
@@ -548,6 +590,33 @@ const formatTime = (iso: string) =>
                             >
                               <Pencil className="h-4 w-4" />
                             </button>
+                            {/* EMAIL TEMPLATES */}
+                            <button
+                              onClick={() => handleEmails(e.id)}
+                              className="inline-flex h-8 w-8 items-center justify-center rounded-md border border-gray-300 text-gray-700 hover:bg-gray-50"
+                              title="Emails"
+                              aria-label="Emails"
+                            >
+                              <Mail className="h-4 w-4" />
+                            </button>
+                            {/* REGISTRATION FORM */}
+                            <button
+                              onClick={() => handleForm(e.id)}
+                              className="inline-flex h-8 w-8 items-center justify-center rounded-md border border-gray-300 text-gray-700 hover:bg-gray-50"
+                              title="Registration Form"
+                              aria-label="Registration Form"
+                            >
+                              <ListChecks className="h-4 w-4" />
+                            </button>
+                            {/* ATTENDEE TYPES */}
+                            <button
+                              onClick={() => handleTypes(e.id)}
+                              className="inline-flex h-8 w-8 items-center justify-center rounded-md border border-gray-300 text-gray-700 hover:bg-gray-50"
+                              title="Attendee Types"
+                              aria-label="Attendee Types"
+                            >
+                              <Tags className="h-4 w-4" />
+                            </button>
                             {/* QR CODE */}
                             <button
                               onClick={() => openQrForEvent(e)}
@@ -660,6 +729,11 @@ const formatTime = (iso: string) =>
                                   </div>
                                 </div>
                               </div>
+
+                              <div className="mt-5 mb-3 text-sm font-semibold text-gray-800">
+                                Change History
+                              </div>
+                              <AuditHistory entityType="event" entityId={e.id} />
                             </div>
                           </td>
                         </tr>
@@ -720,9 +794,37 @@ const formatTime = (iso: string) =>
             <h3 className="text-lg font-semibold mb-4 text-black">Delete Event</h3>
             <p className="mb-6 text-black">
               Are you sure you want to delete{" "}
-              <span className="font-semibold">{eventToDelete.name}</span>? This
-              action cannot be undone.
+              <span className="font-semibold">{eventToDelete.name}</span>? It will
+              be moved to the trash, where an admin can restore it.
             </p>
+            {deleteAffected === null ? (
+              <p className="mb-6 text-sm text-gray-600">Checking registrations...</p>
+            ) : deleteAffected.length > 0 ? (
+              <div className="mb-6 text-sm text-black">
+                <p className="font-medium">
+                  {deleteAffected.length} active registration{deleteAffected.length === 1 ? "" : "s"} will be
+                  cancelled:
+                </p>
+                <ul className="mt-2 max-h-40 overflow-y-auto divide-y divide-gray-100 rounded-md border border-gray-200">
+                  {deleteAffected.map((a) => (
+                    <li key={a.registrationId} className="px-3 py-1.5">
+                      <span className="font-medium">{a.name || a.email}</span>{" "}
+                      <span className="text-xs text-gray-500">
+                        {a.email} · {a.status}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+                <label className="mt-3 flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={notifyOnDelete}
+                    onChange={(e) => setNotifyOnDelete(e.target.checked)}
+                  />
+                  Email them a cancellation notice
+                </label>
+              </div>
+            ) : null}
             <div className="flex justify-end space-x-4">
               <button
                 onClick={() => {
@@ -0,0 +1,335 @@
+// src/app/events/types/[id]/page.tsx
+"use client";
+
+import React, { useEffect, useState } from "react";
+import Link from "next/link";
+import { toast } from "react-hot-toast";
+import axiosInstance from "@/lib/api";
+import { ArrowDown, ArrowUp, Loader2, Plus, Save, Trash2 } from "lucide-react";
+import { ATTENDEE_TYPE_PRESETS, AttendeeType, MAX_ATTENDEE_TYPES } from "@/lib/attendeeTypes";
+
+/* ---------------- Types ---------------- */
+type StoredType = AttendeeType & { _count: { registrations: number } };
+
+interface AttendeeTypesResponse {
+  id: string;
+  name: string;
+  occurrences: { id: string; startTime: string; endTime: string | null; location: string | null }[];
+  attendeeTypes: StoredType[];
+}
+
+// A type being edited. `key` tells rows apart before new types have an id; the quota is
+// kept as typed so an empty box means "no limit".
+interface DraftType {
+  key: string;
+  id?: string;
+  name: string;
+  badgeLabel: string;
+  badgeColor: string;
+  quotaText: string;
+  selfService: boolean;
+  sessionIds: string[]; // Empty: every session
+  registrations: number;
+}
+
+let nextKey = 0;
+const newKey = () => `new-${++nextKey}`;
+
+const toDraft = (type: StoredType): DraftType => ({
+  key: type.id,
+  id: type.id,
+  name: type.name,
+  badgeLabel: type.badgeLabel,
+  badgeColor: type.badgeColor,
+  quotaText: type.quota ? String(type.quota) : "",
+  selfService: type.selfService,
+  sessionIds: type.sessions.map((s) => s.id),
+  registrations: type._count.registrations,
+});
+
+const toPayload = (draft: DraftType) => ({
+  id: draft.id,
+  name: draft.name,
+  badgeLabel: draft.badgeLabel,
+  badgeColor: draft.badgeColor,
+  quota: draft.quotaText.trim() || null,
+  selfService: draft.selfService,
+  sessionIds: draft.sessionIds,
+});
+
+const formatSession = (occ: AttendeeTypesResponse["occurrences"][number]) =>
+  `${new Date(occ.startTime).toLocaleString("en-US", { dateStyle: "medium", timeStyle: "short" })}${occ.location ? ` (${occ.location})` : ""}`;
+
+const inputClass = "w-full border rounded-md p-2 text-sm text-black";
+
+/* ---------------- Component ---------------- */
+export default function EventAttendeeTypesPage({ params }: { params: { id: string } }) {
+  const { id } = params;
+
+  const [eventName, setEventName] = useState("");
+  const [occurrences, setOccurrences] = useState<AttendeeTypesResponse["occurrences"]>([]);
+  const [types, setTypes] = useState<DraftType[] | null>(null);
+  const [saved, setSaved] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = (data: Pick<AttendeeTypesResponse, "attendeeTypes">) => {
+    const drafts = data.attendeeTypes.map(toDraft);
+    setTypes(drafts);
+    setSaved(JSON.stringify(drafts.map(toPayload)));
+  };
+
+  useEffect(() => {
+    axiosInstance
+      .get<AttendeeTypesResponse>(`/api/events/${id}/attendee-types`)
+      .then((res) => {
+        setEventName(res.data.name);
+        setOccurrences(res.data.occurrences);
+        load(res.data);
+      })
+      .catch((err) => setError(err.response?.data?.error || "Failed to load the attendee types."));
+  }, [id]);
+
+  const dirty = !!types && JSON.stringify(types.map(toPayload)) !== saved;
+
+  const update = (key: string, patch: Partial<DraftType>) =>
+    setTypes((prev) => prev && prev.map((t) => (t.key === key ? { ...t, ...patch } : t)));
+
+  const addType = (presetName: string) => {
+    const preset = ATTENDEE_TYPE_PRESETS.find((p) => p.name === presetName);
+    setTypes((prev) => [
+      ...(prev ?? []),
+      {
+        key: newKey(),
+        name: preset?.name ?? "",
+        badgeLabel: preset?.badgeLabel ?? "",
+        badgeColor: preset?.badgeColor ?? "#1a1a66",
+        quotaText: "",
+        selfService: preset?.selfService ?? true,
+        sessionIds: [],
+        registrations: 0,
+      },
+    ]);
+  };
+
+  const move = (index: number, by: number) =>
+    setTypes((prev) => {
+      if (!prev || index + by < 0 || index + by >= prev.length) return prev;
+      const next = prev.slice();
+      [next[index], next[index + by]] = [next[index + by], next[index]];
+      return next;
+    });
+
+  const remove = (draft: DraftType) => {
+    if (draft.id && !window.confirm(`Remove "${draft.name}"? Cancelled registrations of this type will lose it.`)) return;
+    setTypes((prev) => prev && prev.filter((t) => t.key !== draft.key));
+  };
+
+  const handleSave = async () => {
+    if (!types) return;
+    setSaving(true);
+    try {
+      const res = await axiosInstance.put<{ attendeeTypes: StoredType[] }>(`/api/events/${id}/attendee-types`, {
+        types: types.map(toPayload),
+      });
+      load(res.data);
+      toast.success("Attendee types saved.");
+    } catch (err: any) {
+      toast.error(err.response?.data?.error || "Failed to save the attendee types.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (error) {
+    return (
+      <div className="min-h-screen bg-gray-50 p-8">
+        <div className="max-w-3xl mx-auto bg-white rounded-2xl border border-gray-100 shadow-xl p-8">
+          <p className="text-red-600">{error}</p>
+          <Link href="/events" className="text-sm text-blue-600 hover:underline">Back to events</Link>
+        </div>
+      </div>
+    );
+  }
+
+  if (!types) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="h-6 w-6 animate-spin text-gray-500" />
+      </div>
+    );
+  }
+
+  const unusedPresets = ATTENDEE_TYPE_PRESETS.filter((p) => !types.some((t) => t.name.trim().toLowerCase() === p.name.toLowerCase()));
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-8">
+      <div className="w-full max-w-4xl mx-auto bg-white rounded-2xl border border-gray-100 shadow-xl p-8">
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h1 className="text-2xl font-semibold text-black">Attendee Types</h1>
+            <p className="text-sm text-gray-500">{eventName}</p>
+          </div>
+          <Link href="/events" className="text-sm text-blue-600 hover:underline">Back to events</Link>
+        </div>
+
+        <p className="text-sm text-gray-600 mb-6">
+          Each type prints its own label and colour on the pass. Attendees choose among the self-service types when they
+          register; staff assign the others from the registrations list, an import or the public form while signed in. The
+          registration form can ask different questions per type (see Registration Form).
+        </p>
+
+        {types.length === 0 && <p className="text-sm text-gray-500 mb-6">No attendee types yet; every attendee gets the same badge.</p>}
+
+        <div className="space-y-4 mb-6">
+          {types.map((type, index) => (
+            <div key={type.key} className="rounded-lg border border-gray-200 p-4">
+              <div className="flex flex-wrap items-end gap-3 mb-3">
+                <div className="flex-1 min-w-[12rem]">
+                  <label className="block text-xs font-medium text-gray-600 mb-1">Name</label>
+                  <input
+                    value={type.name}
+                    maxLength={60}
+                    onChange={(e) => update(type.key, { name: e.target.value })}
+                    className={inputClass}
+                    placeholder="e.g. Speaker"
+                  />
+                </div>
+                <div className="w-40">
+                  <label className="block text-xs font-medium text-gray-600 mb-1">Badge label</label>
+                  <input
+                    value={type.badgeLabel}
+                    maxLength={30}
+                    onChange={(e) => update(type.key, { badgeLabel: e.target.value })}
+                    className={inputClass}
+                    placeholder="Empty for none"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-600 mb-1">Colour</label>
+                  <input
+                    type="color"
+                    value={type.badgeColor}
+                    onChange={(e) => update(type.key, { badgeColor: e.target.value })}
+                    className="h-9 w-14 border rounded-md"
+                  />
+                </div>
+                <div className="w-28">
+                  <label className="block text-xs font-medium text-gray-600 mb-1">Quota</label>
+                  <input
+                    type="number"
+                    min={1}
+                    value={type.quotaText}
+                    onChange={(e) => update(type.key, { quotaText: e.target.value })}
+                    className={inputClass}
+                    placeholder="No limit"
+                  />
+                </div>
+                <div className="flex gap-1">
+                  <button
+                    onClick={() => move(index, -1)}
+                    disabled={index === 0}
+                    className="inline-flex h-9 w-9 items-center justify-center rounded-md border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-40"
+                    title="Move up"
+                    aria-label="Move up"
+                  >
+                    <ArrowUp className="h-4 w-4" />
+                  </button>
+                  <button
+                    onClick={() => move(index, 1)}
+                    disabled={index === types.length - 1}
+                    className="inline-flex h-9 w-9 items-center justify-center rounded-md border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-40"
+                    title="Move down"
+                    aria-label="Move down"
+                  >
+                    <ArrowDown className="h-4 w-4" />
+                  </button>
+                  <button
+                    onClick={() => remove(type)}
+                    disabled={type.registrations > 0}
+                    className="inline-flex h-9 w-9 items-center justify-center rounded-md border border-gray-300 text-red-600 hover:bg-red-50 disabled:opacity-40"
+                    title={type.registrations > 0 ? "Move its registrations to another type first" : "Remove"}
+                    aria-label="Remove"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              </div>
+
+              <div className="flex flex-wrap items-center gap-6 text-sm text-gray-700 mb-3">
+                <label className="inline-flex items-center gap-2">
+                  <input type="checkbox" checked={type.selfService} onChange={(e) => update(type.key, { selfService: e.target.checked })} />
+                  Attendees can choose this type themselves
+                </label>
+                {type.id && (
+                  <span className="text-gray-500">
+                    {type.registrations} registration{type.registrations === 1 ? "" : "s"}
+                    {type.quotaText && ` of ${type.quotaText}`}
+                  </span>
+                )}
+              </div>
+
+              {occurrences.length > 1 && (
+                <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-gray-700">
+                  <span className="text-xs font-medium text-gray-600">
+                    Sessions{type.sessionIds.length ? "" : ": all"}:
+                  </span>
+                  {occurrences.map((occ) => (
+                    <label key={occ.id} className="inline-flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        checked={type.sessionIds.includes(occ.id)}
+                        onChange={(e) =>
+                          update(type.key, {
+                            sessionIds: e.target.checked
+                              ? [...type.sessionIds, occ.id]
+                              : type.sessionIds.filter((s) => s !== occ.id),
+                          })
+                        }
+                      />
+                      {formatSession(occ)}
+                    </label>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3">
+          <button
+            onClick={() => addType("")}
+            disabled={types.length >= MAX_ATTENDEE_TYPES}
+            className="inline-flex items-center gap-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-md disabled:opacity-50"
+          >
+            <Plus className="h-4 w-4" /> Add type
+          </button>
+          {unusedPresets.length > 0 && (
+            <select
+              value=""
+              onChange={(e) => e.target.value && addType(e.target.value)}
+              disabled={types.length >= MAX_ATTENDEE_TYPES}
+              className="border border-gray-300 rounded-md px-3 py-2 text-sm text-gray-700 disabled:opacity-50"
+              aria-label="Add a preset type"
+            >
+              <option value="">Add preset…</option>
+              {unusedPresets.map((p) => (
+                <option key={p.name} value={p.name}>
+                  {p.name}
+                </option>
+              ))}
+            </select>
+          )}
+          <button
+            onClick={handleSave}
+            disabled={saving || !dirty}
+            className="inline-flex items-center gap-2 px-4 py-2 bg-black text-white rounded-md disabled:opacity-50"
+          >
+            {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />} Save
+          </button>
+          {dirty && <span className="text-sm text-gray-500">Unsaved changes</span>}
+        </div>
+      </div>
+    </div>
+  );
+}
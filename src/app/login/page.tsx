@@ -1,5 +1,4 @@
 "use client";
-import Link from "next/link";
 import React, { useEffect, useState, useCallback } from "react"; // Import useCallback
 import { useRouter } from "next/navigation";
 import { AxiosError } from "axios";
@@ -19,6 +18,7 @@ export default function LoginPage() {
   const [apiError, setApiError] = useState("");
   const [buttonDisabled, setButtonDisabled] = useState(true);
   const [loading, setLoading] = useState(false);
+  const [usePin, setUsePin] = useState(false); // Staff with a PIN can sign in with it instead of the password
 
 
   const validateEmail = (email: string) => {
@@ -39,9 +39,12 @@ export default function LoginPage() {
     }
 
     if (!user.password) {
-      formErrors.password = "Password is required.";
+      formErrors.password = usePin ? "PIN is required." : "Password is required.";
       isValid = false;
-    } else if (user.password.length < 5) {
+    } else if (usePin && !/^[0-9]{4,8}$/.test(user.password)) {
+      formErrors.password = "PIN must be 4 to 8 digits.";
+      isValid = false;
+    } else if (!usePin && user.password.length < 5) {
       formErrors.password = "Password must be at least 5 characters.";
       isValid = false;
     }
@@ -49,7 +52,7 @@ export default function LoginPage() {
     setErrors(formErrors);
     setButtonDisabled(!isValid);
     return isValid;
-  }, [user]); // Add user as a dependency for useCallback
+  }, [user, usePin]); // Add user as a dependency for useCallback
 
   const onLogin = async () => {
     setApiError("");
@@ -61,10 +64,11 @@ export default function LoginPage() {
     try {
       setLoading(true);
       // Use axiosInstance for the login API call
-      const response = await axiosInstance.post("/api/login", user);
+      const payload = usePin ? { email: user.email, pin: user.password } : user;
+      const response = await axiosInstance.post("/api/login", payload);
       console.log("Login success", response.data);
 
-      router.push("/profile"); // Redirect after successful login
+      router.push("/"); // Redirect to the dashboard after successful login
     } catch (error: unknown) {
       const axiosError = error as AxiosError;
       console.error("Login failed", axiosError);
@@ -96,7 +100,7 @@ export default function LoginPage() {
         <div className="flex flex-col items-center justify-center space-y-3 border-b border-gray-200 bg-white px-4 py-6 pt-8 text-center sm:px-8">
           <h3 className="text-xl font-semibold text-black">SIGN IN</h3>
           <p className="text-sm text-gray-500">
-            Use your email and password to sign in
+            Use your email and {usePin ? "PIN" : "password"} to sign in
           </p>
         </div>
         <div className="flex flex-col space-y-4 px-8 pt-4">
@@ -125,13 +129,14 @@ export default function LoginPage() {
             )}
           </div>
           <div>
-            <label htmlFor="password" className="sr-only">Password</label>
+            <label htmlFor="password" className="sr-only">{usePin ? "PIN" : "Password"}</label>
             <input
               id="password"
               name="password"
               type="password"
-              placeholder="Password"
-              autoComplete="current-password"
+              inputMode={usePin ? "numeric" : undefined}
+              placeholder={usePin ? "PIN" : "Password"}
+              autoComplete={usePin ? "off" : "current-password"}
               required
               className={`mt-1 block w-full appearance-none rounded-md text-black border ${errors.password ? 'border-red-500' : 'border-gray-300'} px-3 py-2 placeholder-gray-400 shadow-sm focus:border-black focus:outline-none focus:ring-black sm:text-sm`}
               onChange={(e) => setUser({ ...user, password: e.target.value })}
@@ -163,12 +168,18 @@ export default function LoginPage() {
               {loading ? 'Loading' : 'Submit form'}
             </span>
           </button>
+          <button
+            type="button"
+            onClick={() => {
+              setUsePin(!usePin);
+              setUser({ ...user, password: "" });
+            }}
+            className="text-center text-sm font-semibold text-black hover:underline"
+          >
+            {usePin ? "Sign in with password instead" : "Sign in with PIN instead"}
+          </button>
           <p className="text-center text-sm text-gray-600">
-            Don&apos;t have an account?{" "}
-            <Link href="/signup" className="font-semibold text-black hover:underline">
-              Sign up
-            </Link>{" "}
-            for free.
+            Don&apos;t have an account? Ask an administrator to create one for you.
           </p>
         </div>
       </div>
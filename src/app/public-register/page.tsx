@@ -1,10 +1,12 @@
 "use client";
-import React, { useEffect, useState, useCallback } from "react";
+import React, { useEffect, useMemo, useState, useCallback } from "react";
 import { useRouter, useSearchParams } from "next/navigation";
 import { toast } from "react-hot-toast";
 import axiosInstance from "@/lib/api";
 import Image from "next/image";
 import { MapPin } from "lucide-react";
+import { AnswerValue, answerError, fieldsForType, FormField, rulesOf } from "@/lib/formFields";
+import { AttendeeType, typeOffersSession } from "@/lib/attendeeTypes";
 
 interface EventOccurrence {
   id: string;
@@ -24,6 +26,8 @@ interface Event {
   contactPhone: string;
   maxCapacity: number | null;
   occurrences: EventOccurrence[];
+  formFields: FormField[];
+  attendeeTypes: AttendeeType[]; // Self-service ones, or all of them for signed-in organizers
 }
 
 export default function PublicRegisterPage() {
@@ -36,10 +40,16 @@ export default function PublicRegisterPage() {
     email: "",
     phone: "",
     company: "",
+    position: "", // Job title, optional
     eventId: "",
+    attendeeTypeId: "",
     selectedOccurrenceIds: [] as string[], // multi-select
   });
 
+  // Answers to the selected event's own form fields, by field id
+  const [answers, setAnswers] = useState<Record<string, AnswerValue>>({});
+  const [touchedAnswers, setTouchedAnswers] = useState<Record<string, boolean>>({});
+
   const [errors, setErrors] = useState({
     firstName: "",
     lastName: "",
@@ -47,6 +57,7 @@ export default function PublicRegisterPage() {
     phone: "",
     company: "",
     eventId: "",
+    attendeeTypeId: "",
     selectedOccurrenceIds: "",
   });
 
@@ -58,6 +69,7 @@ export default function PublicRegisterPage() {
     phone: false,
     company: false,
     eventId: false,
+    attendeeTypeId: false,
     selectedOccurrenceIds: false,
   });
   const [submitted, setSubmitted] = useState(false);
@@ -75,6 +87,19 @@ export default function PublicRegisterPage() {
   const [selectedEventDetails, setSelectedEventDetails] = useState<Event | null>(null);
   const [initialDataLoading, setInitialDataLoading] = useState(true);
 
+  const attendeeTypes = selectedEventDetails?.attendeeTypes ?? [];
+  const selectedType = attendeeTypes.find((t) => t.id === formData.attendeeTypeId) ?? null;
+  const sessionsOffered = (selectedEventDetails?.occurrences ?? []).filter((occ) => !selectedType || typeOffersSession(selectedType, occ.id));
+  // Memoised: handleValidation depends on it, and a new array every render would loop
+  const formFields = useMemo(
+    () => fieldsForType(selectedEventDetails?.formFields ?? [], formData.attendeeTypeId || null),
+    [selectedEventDetails, formData.attendeeTypeId]
+  );
+  const showAnswerErr = (field: FormField) =>
+    (submitted || touchedAnswers[field.id]) && Boolean(answerError(field, answers[field.id]));
+  const touchAnswer = (fieldId: string) => setTouchedAnswers((t) => ({ ...t, [fieldId]: true }));
+  const setAnswer = (fieldId: string, value: AnswerValue) => setAnswers((a) => ({ ...a, [fieldId]: value }));
+
   // Fetch all events and preselect from URL if present
   useEffect(() => {
     const fetchAllEvents = async () => {
@@ -105,7 +130,11 @@ export default function PublicRegisterPage() {
   useEffect(() => {
     const current = events.find((e) => e.id === formData.eventId) || null;
     setSelectedEventDetails(current);
-    setFormData((p) => ({ ...p, selectedOccurrenceIds: [] }));
+    // With a single type on offer there is nothing to choose
+    const onlyType = current?.attendeeTypes.length === 1 ? current.attendeeTypes[0].id : "";
+    setFormData((p) => ({ ...p, attendeeTypeId: onlyType, selectedOccurrenceIds: [] }));
+    setAnswers({});
+    setTouchedAnswers({});
   }, [formData.eventId, events]);
 
   const validateEmail = (email: string) => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email);
@@ -119,6 +148,7 @@ export default function PublicRegisterPage() {
       phone: "",
       company: "",
       eventId: "",
+      attendeeTypeId: "",
       selectedOccurrenceIds: "",
     };
     let ok = true;
@@ -134,12 +164,16 @@ export default function PublicRegisterPage() {
 
     if (!formData.company.trim()) { formErrors.company = "Company/Organization is required."; ok = false; }
     if (!formData.eventId) { formErrors.eventId = "Event is required."; ok = false; }
+    if ((selectedEventDetails?.attendeeTypes.length ?? 0) > 1 && !formData.attendeeTypeId) {
+      formErrors.attendeeTypeId = "Please choose how you are attending."; ok = false;
+    }
     if (!formData.selectedOccurrenceIds.length) { formErrors.selectedOccurrenceIds = "Please select at least one session."; ok = false; }
+    if (formFields.some((f) => answerError(f, answers[f.id]))) ok = false;
 
     setErrors(formErrors);
     setButtonDisabled(!ok);
     return ok;
-  }, [formData]);
+  }, [formData, answers, selectedEventDetails, formFields]);
 
   useEffect(() => {
     if (!initialDataLoading) handleValidation();
@@ -165,7 +199,7 @@ export default function PublicRegisterPage() {
     try {
       setLoading(true);
        const urlEventId = searchParams.get("eventId");
-      const payload = { ...formData };
+      const payload = { ...formData, answers };
       const res = await axiosInstance.post("/api/public-register", payload);
       toast.success(res.data.message || "Registration successful! Check your email for pass details.");
       router.push(`/events/${urlEventId}`);
@@ -345,6 +379,16 @@ export default function PublicRegisterPage() {
             {showErr("company") && <p className="mt-1 text-sm text-red-500">{errors.company}</p>}
           </div>
 
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Job Title</label>
+            <input
+              type="text"
+              className="w-full rounded-md border border-gray-300 px-3 py-2 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+              value={formData.position}
+              onChange={(e) => setFormData({ ...formData, position: e.target.value })}
+            />
+          </div>
+
           {/* Event Selector (if not pre-selected) */}
           {!searchParams.get("eventId") && (
             <div>
@@ -368,8 +412,40 @@ export default function PublicRegisterPage() {
             </div>
           )}
 
+          {/* Attendee type, when the event offers a choice */}
+          {attendeeTypes.length > 1 && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Attending as <span className="text-red-500">*</span>
+              </label>
+              <select
+                onBlur={() => touch("attendeeTypeId")}
+                className={`w-full rounded-md border ${showErr("attendeeTypeId") ? "border-red-500" : "border-gray-300"} px-3 py-2 shadow-sm focus:border-blue-500 focus:ring-blue-500`}
+                value={formData.attendeeTypeId}
+                onChange={(e) => {
+                  const type = attendeeTypes.find((t) => t.id === e.target.value);
+                  // Drop sessions the new type can't book
+                  setFormData((p) => ({
+                    ...p,
+                    attendeeTypeId: e.target.value,
+                    selectedOccurrenceIds: p.selectedOccurrenceIds.filter((id) => !type || typeOffersSession(type, id)),
+                  }));
+                }}
+              >
+                <option value="">-- Choose --</option>
+                {attendeeTypes.map((type) => (
+                  <option key={type.id} value={type.id}>
+                    {type.name}
+                    {type.selfService ? "" : " (staff only)"}
+                  </option>
+                ))}
+              </select>
+              {showErr("attendeeTypeId") && <p className="mt-1 text-sm text-red-500">{errors.attendeeTypeId}</p>}
+            </div>
+          )}
+
           {/* Occurrence checkboxes (multi-select, one-line + mobile responsive) */}
-          {selectedEventDetails && selectedEventDetails.occurrences.length > 0 && (
+          {selectedEventDetails && sessionsOffered.length > 0 && (
             <div className="bg-gray-100 p-4 rounded-lg shadow-inner">
               <div className="flex items-baseline justify-between mb-3">
                 <h3 className="text-lg font-semibold text-gray-800">
@@ -381,7 +457,7 @@ export default function PublicRegisterPage() {
               </div>
 
               <div className="space-y-2">
-                {selectedEventDetails.occurrences
+                {sessionsOffered
                   .slice()
                   .sort((a, b) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime())
                   .map((occ) => {
@@ -424,6 +500,97 @@ export default function PublicRegisterPage() {
               )}
             </div>
           )}
+
+          {/* The event's own questions */}
+          {formFields.map((field) => {
+            const value = answers[field.id];
+            const rules = rulesOf(field);
+            return (
+              <div key={field.id}>
+                {field.type === "checkbox" ? (
+                  <label className="flex items-start gap-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      className="mt-0.5 h-5 w-5 flex-shrink-0 text-blue-600 rounded focus:ring-blue-500"
+                      checked={value === true}
+                      onChange={(e) => { touchAnswer(field.id); setAnswer(field.id, e.target.checked); }}
+                    />
+                    <span>
+                      {field.label} {field.required && <span className="text-red-500">*</span>}
+                    </span>
+                  </label>
+                ) : (
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    {field.label} {field.required && <span className="text-red-500">*</span>}
+                  </label>
+                )}
+
+                {field.type === "text" && (
+                  <input
+                    type="text"
+                    onBlur={() => touchAnswer(field.id)}
+                    maxLength={rules.maxLength}
+                    className={`w-full rounded-md border ${showAnswerErr(field) ? "border-red-500" : "border-gray-300"} px-3 py-2 shadow-sm focus:border-blue-500 focus:ring-blue-500`}
+                    value={typeof value === "string" ? value : ""}
+                    onChange={(e) => setAnswer(field.id, e.target.value)}
+                  />
+                )}
+
+                {field.type === "date" && (
+                  <input
+                    type="date"
+                    onBlur={() => touchAnswer(field.id)}
+                    min={rules.minDate}
+                    max={rules.maxDate}
+                    className={`w-full rounded-md border ${showAnswerErr(field) ? "border-red-500" : "border-gray-300"} px-3 py-2 shadow-sm focus:border-blue-500 focus:ring-blue-500`}
+                    value={typeof value === "string" ? value : ""}
+                    onChange={(e) => setAnswer(field.id, e.target.value)}
+                  />
+                )}
+
+                {field.type === "select" && (
+                  <select
+                    onBlur={() => touchAnswer(field.id)}
+                    className={`w-full rounded-md border ${showAnswerErr(field) ? "border-red-500" : "border-gray-300"} px-3 py-2 shadow-sm focus:border-blue-500 focus:ring-blue-500`}
+                    value={typeof value === "string" ? value : ""}
+                    onChange={(e) => setAnswer(field.id, e.target.value)}
+                  >
+                    <option value="">-- Choose --</option>
+                    {field.options.map((option) => (
+                      <option key={option} value={option}>
+                        {option}
+                      </option>
+                    ))}
+                  </select>
+                )}
+
+                {field.type === "multi-select" && (
+                  <div className="flex flex-wrap gap-x-6 gap-y-2">
+                    {field.options.map((option) => {
+                      const chosen = Array.isArray(value) ? value : [];
+                      return (
+                        <label key={option} className="inline-flex items-center gap-2 text-sm text-gray-700">
+                          <input
+                            type="checkbox"
+                            className="h-4 w-4 text-blue-600 rounded focus:ring-blue-500"
+                            checked={chosen.includes(option)}
+                            onChange={() => {
+                              touchAnswer(field.id);
+                              setAnswer(field.id, chosen.includes(option) ? chosen.filter((o) => o !== option) : [...chosen, option]);
+                            }}
+                          />
+                          {option}
+                        </label>
+                      );
+                    })}
+                  </div>
+                )}
+
+                {field.helpText && <p className="mt-1 text-xs text-gray-500">{field.helpText}</p>}
+                {showAnswerErr(field) && <p className="mt-1 text-sm text-red-500">{answerError(field, value)}</p>}
+              </div>
+            );
+          })}
         </div>
 
         {/* Submit */}
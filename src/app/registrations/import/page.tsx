@@ -0,0 +1,316 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import Link from "next/link";
+import { toast } from "react-hot-toast";
+import axiosInstance from "@/lib/api";
+import { Upload, Loader2 } from "lucide-react";
+
+/* ========================= */
+/* Types shared with backend */
+/* ========================= */
+type FieldKey = "firstName" | "lastName" | "email" | "phone" | "company";
+type Mapping = Partial<Record<FieldKey, string>>;
+
+interface ApiEvent {
+  id: string;
+  name: string;
+  occurrences: { id: string; startTime: string; endTime: string | null; location: string | null }[];
+  attendeeTypes: { id: string; name: string }[];
+}
+
+interface PreviewRow {
+  rowNumber: number;
+  fields: Record<FieldKey, string>;
+  errors: string[];
+  duplicate: "file" | "registered" | null;
+}
+
+interface PreviewResponse {
+  headers: string[];
+  fields: Record<FieldKey, string>;
+  mapping: Mapping;
+  unmapped: FieldKey[];
+  rows: PreviewRow[];
+  summary: { total: number; valid: number; invalid: number; duplicates: number };
+}
+
+interface ImportResponse {
+  results: { rowNumber: number; status: "registered" | "waitlisted" | "skipped" | "failed"; passId?: string; message?: string }[];
+  summary: { registered: number; waitlisted: number; skipped: number; failed: number };
+  emailed: number;
+}
+
+export default function ImportRegistrationsPage() {
+  const [events, setEvents] = useState<ApiEvent[]>([]);
+  const [eventId, setEventId] = useState("");
+  const [occurrenceIds, setOccurrenceIds] = useState<string[]>([]);
+  const [attendeeTypeId, setAttendeeTypeId] = useState("");
+  const [file, setFile] = useState<File | null>(null);
+  const [mapping, setMapping] = useState<Mapping | null>(null); // null = let the server guess
+  const [preview, setPreview] = useState<PreviewResponse | null>(null);
+  const [sendEmails, setSendEmails] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [result, setResult] = useState<ImportResponse | null>(null);
+
+  useEffect(() => {
+    axiosInstance
+      .get<ApiEvent[]>("/api/events")
+      .then((res) => setEvents(res.data))
+      .catch(() => toast.error("Failed to load events."));
+  }, []);
+
+  const selectedEvent = events.find((e) => e.id === eventId);
+
+  const buildForm = (mode: "preview" | "commit", withMapping: Mapping | null) => {
+    const form = new FormData();
+    form.append("file", file as File);
+    form.append("eventId", eventId);
+    form.append("occurrenceIds", JSON.stringify(occurrenceIds));
+    if (attendeeTypeId) form.append("attendeeTypeId", attendeeTypeId);
+    form.append("mode", mode);
+    if (withMapping) form.append("mapping", JSON.stringify(withMapping));
+    if (mode === "commit") form.append("sendEmails", String(sendEmails));
+    return form;
+  };
+
+  const runPreview = async (withMapping: Mapping | null) => {
+    if (!file || !eventId || !occurrenceIds.length) {
+      toast.error("Choose an event, at least one session and a file.");
+      return;
+    }
+    setBusy(true);
+    setResult(null);
+    try {
+      const res = await axiosInstance.post<PreviewResponse>("/api/registrations/import", buildForm("preview", withMapping));
+      setPreview(res.data);
+      setMapping(res.data.mapping);
+    } catch (err: any) {
+      setPreview(null);
+      toast.error(err.response?.data?.error || "Failed to read the file.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const runImport = async () => {
+    if (!preview) return;
+    setBusy(true);
+    try {
+      const res = await axiosInstance.post<ImportResponse>("/api/registrations/import", buildForm("commit", mapping));
+      setResult(res.data);
+      setPreview(null);
+      const { registered, waitlisted } = res.data.summary;
+      toast.success(`Imported ${registered + waitlisted} attendee(s).`);
+    } catch (err: any) {
+      toast.error(err.response?.data?.error || "Import failed.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const changeMapping = (field: FieldKey, header: string) => {
+    const next = { ...mapping, [field]: header || undefined };
+    setMapping(next);
+    runPreview(next);
+  };
+
+  const rowTone = (row: PreviewRow) =>
+    row.errors.length ? "bg-red-50" : row.duplicate ? "bg-amber-50" : "";
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-8">
+      <div className="w-full max-w-6xl mx-auto bg-white rounded-2xl border border-gray-100 shadow-xl p-8">
+        <div className="flex items-center justify-between mb-6">
+          <h1 className="text-2xl font-semibold text-black">Import Attendees</h1>
+          <Link href="/registrations" className="text-sm text-blue-600 hover:underline">Back to registrations</Link>
+        </div>
+
+        {/* Step 1: event, sessions, file */}
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+          <div>
+            <label htmlFor="importEvent" className="block text-sm font-medium text-gray-700 mb-1">Event</label>
+            <select
+              id="importEvent"
+              value={eventId}
+              onChange={(e) => {
+                setEventId(e.target.value);
+                setOccurrenceIds(events.find((ev) => ev.id === e.target.value)?.occurrences.map((o) => o.id) ?? []);
+                setAttendeeTypeId("");
+                setPreview(null);
+              }}
+              className="w-full border rounded-md p-2 text-black"
+            >
+              <option value="">Select an event</option>
+              {events.map((ev) => (
+                <option key={ev.id} value={ev.id}>{ev.name}</option>
+              ))}
+            </select>
+            {!!selectedEvent?.attendeeTypes.length && (
+              <>
+                <label htmlFor="importType" className="block text-sm font-medium text-gray-700 mt-3 mb-1">Attendee type</label>
+                <select
+                  id="importType"
+                  value={attendeeTypeId}
+                  onChange={(e) => setAttendeeTypeId(e.target.value)}
+                  className="w-full border rounded-md p-2 text-black"
+                >
+                  <option value="">None</option>
+                  {selectedEvent.attendeeTypes.map((type) => (
+                    <option key={type.id} value={type.id}>{type.name}</option>
+                  ))}
+                </select>
+              </>
+            )}
+          </div>
+          <div>
+            <span className="block text-sm font-medium text-gray-700 mb-1">Sessions</span>
+            {!selectedEvent && <p className="text-sm text-gray-500">Select an event first.</p>}
+            {selectedEvent?.occurrences.map((occ) => (
+              <label key={occ.id} className="flex items-center gap-2 text-sm text-black">
+                <input
+                  type="checkbox"
+                  checked={occurrenceIds.includes(occ.id)}
+                  onChange={(e) =>
+                    setOccurrenceIds((prev) => (e.target.checked ? [...prev, occ.id] : prev.filter((id) => id !== occ.id)))
+                  }
+                />
+                {new Date(occ.startTime).toLocaleString("en-US", { dateStyle: "medium", timeStyle: "short" })}
+                {occ.location ? ` (${occ.location})` : ""}
+              </label>
+            ))}
+          </div>
+          <div>
+            <label htmlFor="importFile" className="block text-sm font-medium text-gray-700 mb-1">Spreadsheet (CSV or XLSX)</label>
+            <input
+              id="importFile"
+              type="file"
+              accept=".csv,.xlsx,.xls,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+              onChange={(e) => {
+                setFile(e.target.files?.[0] ?? null);
+                setMapping(null);
+                setPreview(null);
+              }}
+              className="w-full text-sm text-black"
+            />
+          </div>
+        </div>
+
+        <button
+          onClick={() => runPreview(mapping)}
+          disabled={busy || !file || !eventId || !occurrenceIds.length}
+          className="inline-flex items-center gap-2 px-4 py-2 bg-black text-white rounded-md disabled:opacity-50 mb-8"
+        >
+          {busy ? <Loader2 className="h-4 w-4 animate-spin" /> : <Upload className="h-4 w-4" />} Preview
+        </button>
+
+        {/* Step 2: column mapping and per-row validation */}
+        {preview && (
+          <>
+            <h2 className="text-lg font-semibold text-black mb-3">Column mapping</h2>
+            <div className="grid grid-cols-1 md:grid-cols-5 gap-4 mb-6">
+              {(Object.keys(preview.fields) as FieldKey[]).map((field) => (
+                <div key={field}>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">{preview.fields[field]}</label>
+                  <select
+                    value={mapping?.[field] ?? ""}
+                    onChange={(e) => changeMapping(field, e.target.value)}
+                    className={`w-full border rounded-md p-2 text-black ${preview.unmapped.includes(field) ? "border-red-500" : ""}`}
+                  >
+                    <option value="">Not mapped</option>
+                    {preview.headers.map((h) => (
+                      <option key={h} value={h}>{h}</option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+
+            {preview.unmapped.length > 0 ? (
+              <p className="text-sm text-red-600 mb-6">
+                Map a column to {preview.unmapped.map((f) => preview.fields[f]).join(", ")} to validate the rows.
+              </p>
+            ) : (
+              <>
+                <p className="text-sm text-gray-700 mb-3">
+                  {preview.summary.total} rows: <span className="text-green-700">{preview.summary.valid} ready</span>,{" "}
+                  <span className="text-red-600">{preview.summary.invalid} with errors</span>,{" "}
+                  <span className="text-amber-600">{preview.summary.duplicates} duplicates</span>. Only ready rows are imported.
+                </p>
+                <div className="overflow-x-auto max-h-[28rem] overflow-y-auto border rounded-md mb-6">
+                  <table className="min-w-full divide-y divide-gray-200 text-sm">
+                    <thead className="bg-gray-50 sticky top-0">
+                      <tr>
+                        <th className="px-3 py-2 text-left font-medium text-gray-500">Row</th>
+                        {(Object.keys(preview.fields) as FieldKey[]).map((f) => (
+                          <th key={f} className="px-3 py-2 text-left font-medium text-gray-500">{preview.fields[f]}</th>
+                        ))}
+                        <th className="px-3 py-2 text-left font-medium text-gray-500">Status</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200 text-black">
+                      {preview.rows.map((row) => (
+                        <tr key={row.rowNumber} className={rowTone(row)}>
+                          <td className="px-3 py-2">{row.rowNumber}</td>
+                          {(Object.keys(preview.fields) as FieldKey[]).map((f) => (
+                            <td key={f} className="px-3 py-2">{row.fields[f]}</td>
+                          ))}
+                          <td className="px-3 py-2">
+                            {row.errors.length ? (
+                              <span className="text-red-600">{row.errors.join(" ")}</span>
+                            ) : row.duplicate === "registered" ? (
+                              <span className="text-amber-600">Already registered</span>
+                            ) : row.duplicate === "file" ? (
+                              <span className="text-amber-600">Duplicate email in file</span>
+                            ) : (
+                              <span className="text-green-700">Ready</span>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+
+                <div className="flex items-center gap-6">
+                  <label className="flex items-center gap-2 text-sm text-black">
+                    <input type="checkbox" checked={sendEmails} onChange={(e) => setSendEmails(e.target.checked)} />
+                    Email each imported attendee their pass
+                  </label>
+                  <button
+                    onClick={runImport}
+                    disabled={busy || preview.summary.valid === 0}
+                    className="inline-flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-md disabled:opacity-50"
+                  >
+                    {busy && <Loader2 className="h-4 w-4 animate-spin" />}
+                    Import {preview.summary.valid} attendee(s)
+                  </button>
+                </div>
+              </>
+            )}
+          </>
+        )}
+
+        {/* Step 3: outcome */}
+        {result && (
+          <div className="mt-6">
+            <h2 className="text-lg font-semibold text-black mb-2">Import complete</h2>
+            <p className="text-sm text-gray-700 mb-3">
+              {result.summary.registered} registered, {result.summary.waitlisted} waitlisted, {result.summary.skipped} skipped,{" "}
+              {result.summary.failed} failed{result.emailed ? `; ${result.emailed} email(s) sent` : ""}.
+            </p>
+            <ul className="text-sm space-y-1">
+              {result.results
+                .filter((r) => r.status === "skipped" || r.status === "failed")
+                .map((r) => (
+                  <li key={r.rowNumber} className={r.status === "failed" ? "text-red-600" : "text-amber-600"}>
+                    Row {r.rowNumber}: {r.message}
+                  </li>
+                ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
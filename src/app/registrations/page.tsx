@@ -4,8 +4,10 @@ import React, { useEffect, useMemo, useState, useCallback } from "react";
 import Link from "next/link";
 import { toast } from "react-hot-toast";
 import axiosInstance from "@/lib/api";
-import * as XLSX from "xlsx";
-import { ChevronDown, Mail, Pencil, Trash2, Loader2, Download } from "lucide-react";
+import { ChevronDown, Mail, Pencil, Trash2, Loader2, Download, Upload, Printer } from "lucide-react";
+import AuditHistory from "@/app/components/AuditHistory";
+import { answerLines, FormField } from "@/lib/formFields";
+import { BADGE_SHEET_LAYOUTS, BADGE_SORT_ORDERS, BadgeSheetLayoutId, BadgeSortOrder } from "@/lib/badgeTemplates";
 
 /* ========================= */
 /* Types shared with backend */
@@ -20,8 +22,11 @@ interface EventOccurrence {
 interface Registration {
   id: string;
   passId: string;
+  passVersion: number;
+  passRevokedAt: string | null;
   registrationDate: string;
   status: string;
+  waitlistPosition: number | null;
   user: {
     id: string;
     firstName: string | null;
@@ -29,121 +34,44 @@ interface Registration {
     email: string;
     phone: string | null;
     company: string | null;
+    position: string | null;
   };
   event: {
     id: string;
     name: string;
     location: string;
+    formFields: FormField[];
   };
+  answers: Record<string, unknown> | null;
+  attendeeType: { id: string; name: string; badgeColor: string } | null;
   selectedOccurrences: {
     id: string;
     occurrence: EventOccurrence;
   }[];
 }
 
+interface EmailLogEntry {
+  id: string;
+  type: string;
+  toEmail: string;
+  subject: string;
+  status: "queued" | "sending" | "sent" | "failed";
+  attempts: number;
+  nextAttemptAt: string;
+  lastError: string | null;
+  createdAt: string;
+  sentAt: string | null;
+}
+
 interface SortConfig {
   key: keyof Registration | "user.firstName" | "user.email" | "event.name";
   direction: "ascending" | "descending";
 }
 
-/* ------------ Parent constants ------------ */
-const STORAGE_KEY = "registrationsAccess";
-
-/* ========================= */
-/* Parent: PIN gate wrapper  */
-/* ========================= */
+/* ============================================================ */
+/* Access is enforced by src/middleware.ts and the API routes.  */
+/* ============================================================ */
 export default function RegistrationsPage() {
-  const [pin, setPin] = useState("");
-  const [pinError, setPinError] = useState("");
-  const [pinLoading, setPinLoading] = useState(true);
-  const [accessGranted, setAccessGranted] = useState(false);
-
-  useEffect(() => {
-    try {
-      if (sessionStorage.getItem(STORAGE_KEY) === "granted") setAccessGranted(true);
-    } catch {}
-    setPinLoading(false);
-  }, []);
-
-  const handlePinSubmit = async () => {
-    setPinLoading(true);
-    setPinError("");
-    try {
-      const res = await fetch("/api/pin/verify", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ pin }),
-      });
-      const data = await res.json();
-      if (data.ok) {
-        setAccessGranted(true);
-        sessionStorage.setItem(STORAGE_KEY, "granted");
-        toast.success("Access granted!");
-      } else {
-        setAccessGranted(false);
-        setPinError("Invalid PIN. Please try again.");
-        toast.error("Invalid PIN.");
-      }
-    } catch {
-      setPinError("Failed to verify PIN.");
-      toast.error("Failed to verify PIN.");
-    } finally {
-      setPinLoading(false);
-    }
-  };
-
-  if (pinLoading) {
-    return (
-      <div className="flex h-screen w-screen items-center justify-center bg-gray-50">
-        <div className="text-xl font-semibold text-black">Checking access…</div>
-      </div>
-    );
-  }
-
-  if (!accessGranted) {
-    return (
-      <div className="flex h-screen w-screen items-center justify-center p-4 bg-gray-50">
-        <div className="w-full max-w-sm bg-white rounded-xl shadow-2xl overflow-hidden p-8 text-gray-800">
-          <div className="text-center mb-6">
-            <h1 className="text-2xl font-bold text-blue-800 mb-2">Registrations Access</h1>
-            <p className="text-sm text-gray-600">Please enter the access PIN to proceed.</p>
-          </div>
-          <div className="space-y-4">
-            <input
-              id="pin"
-              type="password"
-              placeholder="Enter PIN"
-              className={`w-full rounded-md border ${pinError ? "border-red-500" : "border-gray-300"} px-4 py-2 text-lg text-center shadow-sm focus:border-blue-500 focus:ring-blue-500`}
-              value={pin}
-              onChange={(e) => {
-                setPin(e.target.value);
-                setPinError("");
-              }}
-              disabled={pinLoading}
-            />
-            {pinError && <p className="text-sm text-red-500 text-center">{pinError}</p>}
-            <button
-              onClick={handlePinSubmit}
-              disabled={pinLoading || pin.length === 0}
-              className={`w-full py-2 px-4 rounded-md text-white font-semibold transition-colors ${
-                pinLoading || pin.length === 0 ? "bg-gray-400" : "bg-blue-600 hover:bg-blue-700"
-              }`}
-            >
-              {pinLoading ? "Verifying…" : "Access Dashboard"}
-            </button>
-          </div>
-        </div>
-      </div>
-    );
-  }
-
-  return <RegistrationsContent />;
-}
-
-/* ===================================== */
-/* Child: all data hooks live down here  */
-/* ===================================== */
-function RegistrationsContent() {
   /* ---- Event API types ---- */
   type ApiEvent = {
     id: string;
@@ -154,11 +82,13 @@ function RegistrationsContent() {
       endTime: string | null;
       location: string | null;
     }[];
+    attendeeTypes?: { id: string; name: string }[];
   };
   interface EventItem {
     id: string;
     name: string;
     occurrences: ApiEvent["occurrences"];
+    attendeeTypes: { id: string; name: string }[];
   }
 
   /* ---- Filters (client-side only) ---- */
@@ -166,6 +96,7 @@ function RegistrationsContent() {
     status: string;
     eventId: string;
     sessionId: string;
+    attendeeTypeId: string; // "none" for registrations without a type
   }
 
   /* ---- State ---- */
@@ -179,27 +110,41 @@ function RegistrationsContent() {
   const [itemsPerPage, setItemsPerPage] = useState(10000);
 
   // Filters / Sorting (client-side)
-  const [filters, setFilters] = useState<FilterConfig>({ status: "", eventId: "", sessionId: "" });
+  const [filters, setFilters] = useState<FilterConfig>({ status: "", eventId: "", sessionId: "", attendeeTypeId: "" });
   const [sortConfig, setSortConfig] = useState<SortConfig>({ key: "registrationDate", direction: "descending" });
 
   // Live search
   const [searchInput, setSearchInput] = useState("");
 
+  // Export
+  const [exportFormat, setExportFormat] = useState<"xlsx" | "csv" | "json">("xlsx");
+
+  // Batch badge printing
+  const [showBadgesModal, setShowBadgesModal] = useState(false);
+  const [badgeLayout, setBadgeLayout] = useState<BadgeSheetLayoutId>("a4-4up");
+  const [badgeSort, setBadgeSort] = useState<BadgeSortOrder>("surname");
+  const [badgeCutMarks, setBadgeCutMarks] = useState(!BADGE_SHEET_LAYOUTS["a4-4up"].preCut);
+
   // Jump box
   const [jumpPassId, setJumpPassId] = useState("");
   const [jumpBusy, setJumpBusy] = useState(false);
 
   // Row UI
   const [expandedRowId, setExpandedRowId] = useState<string | null>(null);
-  const toggleExpand = (id: string) => setExpandedRowId((prev) => (prev === id ? null : id));
+  const toggleExpand = (id: string) => {
+    setExpandedRowId((prev) => (prev === id ? null : id));
+    if (expandedRowId !== id) loadEmailHistory(id);
+  };
   const [resendingEmailId, setResendingEmailId] = useState<string | null>(null);
+  const [emailHistory, setEmailHistory] = useState<Record<string, EmailLogEntry[] | "loading">>({});
+  const [passActionId, setPassActionId] = useState<string | null>(null);
 
   // Edit/Delete modals
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [registrationToDelete, setRegistrationToDelete] = useState<string | null>(null);
   const [showEditModal, setShowEditModal] = useState(false);
   const [editingRegistration, setEditingRegistration] = useState<Registration | null>(null);
-  const [editFormData, setEditFormData] = useState<{ status?: string }>({});
+  const [editFormData, setEditFormData] = useState<{ status?: string; attendeeTypeId?: string }>({});
   const [editErrors, setEditErrors] = useState<{ status?: string }>({});
 
   /* ---- Helpers (robust normalization) ---- */
@@ -230,8 +175,9 @@ function RegistrationsContent() {
         occurrences: (e.occurrences ?? []).sort(
           (a, b) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime()
         ),
+        attendeeTypes: e.attendeeTypes ?? [],
       }));
-      setEvents([{ id: "", name: "All events", occurrences: [] }, ...mapped]);
+      setEvents([{ id: "", name: "All events", occurrences: [], attendeeTypes: [] }, ...mapped]);
     } catch {
       toast.error("Failed to load events.");
     }
@@ -279,6 +225,16 @@ function RegistrationsContent() {
     }
   }, [sessionOptions, filters.sessionId]);
 
+  /* ---- Attendee type options from selected event ---- */
+  const typeOptions = useMemo(() => {
+    const selectedEvent = events.find((e) => e.id === filters.eventId);
+    return [
+      { id: "", label: "All types" },
+      ...(selectedEvent?.attendeeTypes ?? []).map((t) => ({ id: t.id, label: t.name })),
+      { id: "none", label: "No type" },
+    ];
+  }, [events, filters.eventId]);
+
   /* ---- Client-side filter + live search + sort ---- */
   const filteredSorted = useMemo(() => {
     let data = [...allRows];
@@ -289,6 +245,11 @@ function RegistrationsContent() {
     if (filters.sessionId) {
       data = data.filter((r) => r.selectedOccurrences.some((so) => so.occurrence.id === filters.sessionId));
     }
+    if (filters.attendeeTypeId) {
+      data = data.filter((r) =>
+        filters.attendeeTypeId === "none" ? !r.attendeeType : r.attendeeType?.id === filters.attendeeTypeId
+      );
+    }
 
     // Live search (as-you-type)
     const rawQuery = stripInvisibles(searchInput);
@@ -333,6 +294,9 @@ function RegistrationsContent() {
             name.includes(q) ||
             (r.user.email?.toLowerCase() ?? "").includes(q) ||
             (r.user.company?.toLowerCase() ?? "").includes(q) ||
+            (r.user.position?.toLowerCase() ?? "").includes(q) ||
+            answerLines(r.event.formFields, r.answers).some((line) => line.toLowerCase().includes(q)) ||
+            (r.attendeeType?.name.toLowerCase() ?? "").includes(q) ||
             r.event.name.toLowerCase().includes(q) ||
             r.event.location?.toLowerCase().includes(q) ||
             sessionsStr.includes(q) ||
@@ -395,7 +359,7 @@ function RegistrationsContent() {
   const handleFilterChange = (e: React.ChangeEvent<HTMLSelectElement | HTMLInputElement>) => {
     const { name, value } = e.target;
     if (name === "eventId") {
-      setFilters((prev) => ({ ...prev, eventId: value, sessionId: "" }));
+      setFilters((prev) => ({ ...prev, eventId: value, sessionId: "", attendeeTypeId: "" }));
     } else {
       setFilters((prev) => ({ ...prev, [name]: value }));
     }
@@ -409,12 +373,25 @@ function RegistrationsContent() {
     setCurrentPage(1);
   };
 
-  // Resend email
+  // Email delivery log for the expanded row
+  const loadEmailHistory = async (registrationId: string) => {
+    setEmailHistory((prev) => ({ ...prev, [registrationId]: prev[registrationId] ?? "loading" }));
+    try {
+      const res = await axiosInstance.get<EmailLogEntry[]>(`/api/registrations/${registrationId}/emails`);
+      setEmailHistory((prev) => ({ ...prev, [registrationId]: res.data }));
+    } catch {
+      setEmailHistory((prev) => ({ ...prev, [registrationId]: [] }));
+      toast.error("Failed to load email history.");
+    }
+  };
+
+  // Resend email (queued like every other email, so it appears in the history)
   const handleResendEmail = async (registrationId: string) => {
     setResendingEmailId(registrationId);
     try {
       const res = await axiosInstance.post("/api/registrations/resend-email", { registrationId });
-      toast.success(res.data.message || "Email resent successfully!");
+      toast.success(res.data.message || "Email queued for sending.");
+      if (expandedRowId === registrationId) loadEmailHistory(registrationId);
     } catch (err: any) {
       toast.error(err?.response?.data?.error || "Failed to resend email.");
     } finally {
@@ -422,6 +399,28 @@ function RegistrationsContent() {
     }
   };
 
+  // Revoke a lost or copied pass, or reissue it with a new code (which emails the attendee)
+  const handlePassAction = async (reg: Registration, action: "revoke" | "reissue") => {
+    const confirmText =
+      action === "revoke"
+        ? `Revoke pass ${reg.passId}? Its QR code and barcode will be refused at check-in until the pass is reissued.`
+        : `Reissue pass ${reg.passId}? Every earlier copy stops working and the attendee is emailed the new pass.`;
+    if (!window.confirm(confirmText)) return;
+    setPassActionId(reg.id);
+    try {
+      const res = await axiosInstance.post<{ passVersion: number; passRevokedAt: string | null }>(`/api/registrations/${reg.id}/pass`, { action });
+      setAllRows((prev) =>
+        prev.map((r) => (r.id === reg.id ? { ...r, passVersion: res.data.passVersion, passRevokedAt: res.data.passRevokedAt } : r))
+      );
+      toast.success(action === "revoke" ? `${reg.passId} revoked` : `${reg.passId} reissued`);
+      if (action === "reissue" && expandedRowId === reg.id) loadEmailHistory(reg.id);
+    } catch (err: any) {
+      toast.error(err?.response?.data?.error || `Failed to ${action} the pass.`);
+    } finally {
+      setPassActionId(null);
+    }
+  };
+
   // Delete flow
   const handleDeleteClick = (registrationId: string) => {
     setRegistrationToDelete(registrationId);
@@ -434,7 +433,7 @@ function RegistrationsContent() {
       setAllRows((prev) => prev.filter((r) => r.id !== registrationToDelete));
       setShowDeleteConfirm(false);
       setRegistrationToDelete(null);
-      toast.success("Registration deleted");
+      toast.success("Registration moved to the trash");
     } catch (e: any) {
       toast.error(e?.response?.data?.error || "Failed to delete");
     }
@@ -443,7 +442,7 @@ function RegistrationsContent() {
   // Edit flow
   const handleEditClick = (registration: Registration) => {
     setEditingRegistration(registration);
-    setEditFormData({ status: registration.status });
+    setEditFormData({ status: registration.status, attendeeTypeId: registration.attendeeType?.id ?? "" });
     setEditErrors({});
     setShowEditModal(true);
   };
@@ -458,10 +457,19 @@ function RegistrationsContent() {
 
     try {
       const id = editingRegistration?.id as string;
-      await axiosInstance.patch(`/api/registrations/${id}`, { status: editFormData.status });
+      const payload: { status?: string; attendeeTypeId?: string | null } = { status: editFormData.status };
+      // Only managers may change the type, so leave it out unless it was changed
+      if ((editingRegistration?.attendeeType?.id ?? "") !== editFormData.attendeeTypeId) {
+        payload.attendeeTypeId = editFormData.attendeeTypeId || null;
+      }
+      const res = await axiosInstance.patch(`/api/registrations/${id}`, payload);
 
       setAllRows((prev) =>
-        prev.map((r) => (r.id === id ? { ...r, status: editFormData.status as string } : r))
+        prev.map((r) =>
+          r.id === id
+            ? { ...r, status: res.data.status ?? editFormData.status, attendeeType: res.data.attendeeType ?? null }
+            : r
+        )
       );
 
       toast.success("Registration updated");
@@ -476,7 +484,7 @@ function RegistrationsContent() {
   /* ===== Jump to Pass ID → auto check-in → open PDF ===== */
   const checkInAndOpen = async (reg: Registration, indexInAll: number) => {
     // ensure row is visible in the table
-    setFilters({ status: "", eventId: "", sessionId: "" });
+    setFilters({ status: "", eventId: "", sessionId: "", attendeeTypeId: "" });
     setSearchInput(stripInvisibles(reg.passId));
     const page = Math.floor(indexInAll / itemsPerPage) + 1;
     setCurrentPage(page);
@@ -523,68 +531,35 @@ function RegistrationsContent() {
     await checkInAndOpen(allRows[idx], idx);
   }, [jumpPassId, allRows, itemsPerPage]);
 
-  // Excel export (CURRENT filtered list)
-  const exportExcel = () => {
-    try {
-      const regs = filteredSorted;
-
-      const registrationsSheet = regs.map((r) => ({
-        Event: r.event.name,
-        EventLocation: r.event.location ?? "",
-        Name: `${r.user.firstName ?? ""} ${r.user.lastName ?? ""}`.trim(),
-        Email: r.user.email,
-        Phone: r.user.phone ?? "",
-        Company: r.user.company ?? "",
-        RegistrationDate: new Date(r.registrationDate).toLocaleString(),
-        Status: r.status,
-        PassID: r.passId,
-        Sessions: r.selectedOccurrences
-          .map(
-            (so) =>
-              new Date(so.occurrence.startTime).toLocaleString("en-US", {
-                dateStyle: "short",
-                timeStyle: "short",
-              }) + (so.occurrence.location ? ` (${so.occurrence.location})` : "")
-          )
-          .join(" | "),
-      }));
-
-      const sessionsRows = regs.flatMap((r) =>
-        r.selectedOccurrences.map((so) => ({
-          Event: r.event.name,
-          SessionStart: new Date(so.occurrence.startTime).toLocaleString("en-US", {
-            dateStyle: "short",
-            timeStyle: "short",
-          }),
-          SessionEnd: so.occurrence.endTime
-            ? new Date(so.occurrence.endTime).toLocaleTimeString("en-US", { timeStyle: "short" })
-            : "",
-          SessionLocation: so.occurrence.location ?? "",
-          Name: `${r.user.firstName ?? ""} ${r.user.lastName ?? ""}`.trim(),
-          Email: r.user.email,
-          Company: r.user.company ?? "",
-          Phone: r.user.phone ?? "",
-          Status: r.status,
-          PassID: r.passId,
-          RegistrationDate: new Date(r.registrationDate).toLocaleString(),
-        }))
-      );
-
-      const wb = XLSX.utils.book_new();
-      XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(registrationsSheet), "Registrations");
-      XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(sessionsRows), "Sessions");
-
-      const selectedEvent = events.find((e) => e.id === filters.eventId)?.name ?? "AllEvents";
-      const selectedSessionLabel =
-        (filters.sessionId &&
-          sessionOptions.find((s) => s.id === filters.sessionId)?.label?.replace(/[^\w\- ]+/g, "")) ||
-        "AllSessions";
+  // Export (CURRENT filters) — generated and streamed by the server
+  const exportRegistrations = () => {
+    const params = new URLSearchParams({ format: exportFormat });
+    if (filters.status) params.set("status", filters.status);
+    if (filters.eventId) params.set("eventId", filters.eventId);
+    if (filters.sessionId) params.set("sessionId", filters.sessionId);
+    if (filters.attendeeTypeId) params.set("attendeeTypeId", filters.attendeeTypeId);
+    const search = stripInvisibles(searchInput);
+    if (search) params.set("searchTerm", search);
+    params.set("sortBy", sortConfig.key);
+    params.set("sortDirection", sortConfig.direction);
+
+    // A plain navigation lets the browser stream the file straight to disk
+    const link = document.createElement("a");
+    link.href = `/api/registrations/export?${params.toString()}`;
+    link.download = "";
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+  };
 
-      XLSX.writeFile(wb, `registrations_${selectedEvent}_${selectedSessionLabel}.xlsx`);
-    } catch (err) {
-      console.error("Export failed", err);
-      toast.error("Failed to export Excel.");
-    }
+  // Badges for the current event, session, status and type filters, as one PDF
+  const printBadges = () => {
+    const params = new URLSearchParams({ layout: badgeLayout, sort: badgeSort, cutMarks: badgeCutMarks ? "1" : "0" });
+    if (filters.sessionId) params.set("sessionId", filters.sessionId);
+    if (filters.status) params.set("status", filters.status);
+    if (filters.attendeeTypeId) params.set("attendeeTypeId", filters.attendeeTypeId);
+    window.open(`/api/events/${filters.eventId}/badges?${params.toString()}`, "_blank", "noopener,noreferrer");
+    setShowBadgesModal(false);
   };
 
   /* ---- Render guards ---- */
@@ -604,6 +579,7 @@ function RegistrationsContent() {
   }
 
   const totalPages = Math.ceil(total / itemsPerPage);
+  const editTypes = events.find((e) => e.id === editingRegistration?.event.id)?.attendeeTypes ?? [];
   const goToPage = (page: number) => page >= 1 && page <= totalPages && setCurrentPage(page);
 
   /* ---- UI ---- */
@@ -612,12 +588,38 @@ function RegistrationsContent() {
       <div className="w-full mx-auto bg-white rounded-2xl border border-gray-100 shadow-xl p-8">
         <div className="flex items-center justify-between mb-6">
           <h1 className="text-2xl font-semibold text-black">Event Registrations</h1>
-          <button
-            onClick={exportExcel}
-            className="inline-flex items-center gap-2 rounded-md border border-gray-300 px-4 py-2 text-sm text-gray-700 hover:bg-gray-50"
-          >
-            <Download className="h-4 w-4" /> Export {filters.sessionId ? "(Selected Session)" : ""}
-          </button>
+          <div className="flex items-center gap-2">
+            <select
+              value={exportFormat}
+              onChange={(e) => setExportFormat(e.target.value as "xlsx" | "csv" | "json")}
+              className="rounded-md border border-gray-300 p-2 text-sm text-black"
+              aria-label="Export format"
+            >
+              <option value="xlsx">Excel (.xlsx)</option>
+              <option value="csv">CSV</option>
+              <option value="json">JSON</option>
+            </select>
+            <Link
+              href="/registrations/import"
+              className="inline-flex items-center gap-2 rounded-md border border-gray-300 px-4 py-2 text-sm text-gray-700 hover:bg-gray-50"
+            >
+              <Upload className="h-4 w-4" /> Import
+            </Link>
+            <button
+              onClick={exportRegistrations}
+              className="inline-flex items-center gap-2 rounded-md border border-gray-300 px-4 py-2 text-sm text-gray-700 hover:bg-gray-50"
+            >
+              <Download className="h-4 w-4" /> Export {filters.sessionId ? "(Selected Session)" : ""}
+            </button>
+            <button
+              onClick={() => setShowBadgesModal(true)}
+              disabled={!filters.eventId}
+              className="inline-flex items-center gap-2 rounded-md border border-gray-300 px-4 py-2 text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+              title={filters.eventId ? "Print badges for the filtered registrations" : "Choose an event to print its badges"}
+            >
+              <Printer className="h-4 w-4" /> Print Badges
+            </button>
+          </div>
         </div>
 
         {/* Top controls */}
@@ -641,7 +643,7 @@ function RegistrationsContent() {
         </div>
 
         {/* Filters & Live Search */}
-        <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-4 mb-6">
           <div>
             <label className="block text-sm font-medium text-gray-700">Event</label>
             <select
@@ -674,6 +676,22 @@ function RegistrationsContent() {
             </select>
           </div>
 
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Attendee type</label>
+            <select
+              name="attendeeTypeId"
+              value={filters.attendeeTypeId}
+              onChange={handleFilterChange}
+              className="mt-1 block w-full rounded-md border p-2 text-black border-gray-300 shadow-sm focus:border-black focus:ring-black sm:text-sm"
+            >
+              {typeOptions.map((t) => (
+                <option key={t.id || "all"} value={t.id}>
+                  {t.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
           <div>
             <label className="block text-sm font-medium text-gray-700">Status</label>
             <select
@@ -686,6 +704,7 @@ function RegistrationsContent() {
               <option value="registered">Registered</option>
               <option value="checked-in">Checked-in</option>
               <option value="cancelled">Cancelled</option>
+              <option value="waitlisted">Waitlisted</option>
             </select>
           </div>
 
@@ -786,7 +805,17 @@ function RegistrationsContent() {
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                           {reg.user.company || "N/A"}
                         </td>
-                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{reg.event.name}</td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                          {reg.event.name}
+                          {reg.attendeeType && (
+                            <span
+                              className="ml-2 inline-flex items-center rounded-full px-2 py-0.5 text-xs font-semibold text-white"
+                              style={{ backgroundColor: reg.attendeeType.badgeColor }}
+                            >
+                              {reg.attendeeType.name}
+                            </span>
+                          )}
+                        </td>
 
                         <td className="px-6 py-4 text-sm text-gray-500">
                           <div className="flex items-center gap-2 max-w-xs whitespace-nowrap overflow-hidden text-ellipsis">
@@ -798,19 +827,17 @@ function RegistrationsContent() {
                               </span>
                             )}
 
-                            {count > 0 && (
-                              <button
-                                type="button"
-                                onClick={() => toggleExpand(reg.id)}
-                                className="ml-1 inline-flex h-7 w-7 items-center justify-center rounded-md border border-gray-300 text-gray-700 hover:bg-gray-50"
-                                aria-expanded={expandedRowId === reg.id}
-                                title={expandedRowId === reg.id ? "Collapse details" : "Expand details"}
-                              >
-                                <ChevronDown
-                                  className={`h-4 w-4 transition-transform ${expandedRowId === reg.id ? "rotate-180" : ""}`}
-                                />
-                              </button>
-                            )}
+                            <button
+                              type="button"
+                              onClick={() => toggleExpand(reg.id)}
+                              className="ml-1 inline-flex h-7 w-7 items-center justify-center rounded-md border border-gray-300 text-gray-700 hover:bg-gray-50"
+                              aria-expanded={expandedRowId === reg.id}
+                              title={expandedRowId === reg.id ? "Collapse details" : "Expand details"}
+                            >
+                              <ChevronDown
+                                className={`h-4 w-4 transition-transform ${expandedRowId === reg.id ? "rotate-180" : ""}`}
+                              />
+                            </button>
                           </div>
                         </td>
 
@@ -825,10 +852,13 @@ function RegistrationsContent() {
                                 ? "bg-blue-100 text-blue-800"
                                 : reg.status === "checked-in"
                                 ? "bg-green-100 text-green-800"
+                                : reg.status === "waitlisted"
+                                ? "bg-yellow-100 text-yellow-800"
                                 : "bg-red-100 text-red-800"
                             }`}
                           >
                             {reg.status}
+                            {reg.status === "waitlisted" && reg.waitlistPosition ? ` #${reg.waitlistPosition}` : ""}
                           </span>
                         </td>
 
@@ -841,6 +871,11 @@ function RegistrationsContent() {
                           >
                             {reg.passId}
                           </Link>
+                          {reg.passRevokedAt && (
+                            <span className="ml-2 px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-red-100 text-red-800">
+                              revoked
+                            </span>
+                          )}
                         </td>
 
                         <td className="px-6 py-4 whitespace-nowrap text-left text-sm font-medium">
@@ -902,6 +937,88 @@ function RegistrationsContent() {
                                   );
                                 })}
                               </ul>
+
+                              {(reg.user.position || answerLines(reg.event.formFields, reg.answers).length > 0) && (
+                                <>
+                                  <div className="mt-5 mb-3 text-sm font-semibold text-gray-800">Form Answers</div>
+                                  <ul className="space-y-1 text-sm text-gray-700">
+                                    {reg.user.position && <li>Job Title: {reg.user.position}</li>}
+                                    {answerLines(reg.event.formFields, reg.answers).map((line) => (
+                                      <li key={line}>{line}</li>
+                                    ))}
+                                  </ul>
+                                </>
+                              )}
+
+                              <div className="mt-5 mb-3 text-sm font-semibold text-gray-800">Pass</div>
+                              <div className="flex flex-wrap items-center gap-3 text-sm text-gray-700">
+                                <span>
+                                  {reg.passRevokedAt
+                                    ? `Revoked ${new Date(reg.passRevokedAt).toLocaleString()}; its codes are refused at check-in.`
+                                    : reg.passVersion > 1
+                                    ? `Reissued ${reg.passVersion - 1} time${reg.passVersion === 2 ? "" : "s"}; only the latest copy is accepted.`
+                                    : "Original pass."}
+                                </span>
+                                {!reg.passRevokedAt && (
+                                  <button
+                                    onClick={() => handlePassAction(reg, "revoke")}
+                                    disabled={passActionId === reg.id}
+                                    className="px-3 py-1 border border-red-300 text-red-600 rounded-md hover:bg-red-50 disabled:opacity-50"
+                                  >
+                                    Revoke
+                                  </button>
+                                )}
+                                <button
+                                  onClick={() => handlePassAction(reg, "reissue")}
+                                  disabled={passActionId === reg.id || reg.status === "cancelled"}
+                                  className="px-3 py-1 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 disabled:opacity-50"
+                                  title={reg.status === "cancelled" ? "Reinstate the registration first" : undefined}
+                                >
+                                  Reissue
+                                </button>
+                              </div>
+
+                              <div className="mt-5 mb-3 text-sm font-semibold text-gray-800">Email History</div>
+                              {emailHistory[reg.id] === "loading" || !emailHistory[reg.id] ? (
+                                <Loader2 className="h-4 w-4 animate-spin text-gray-500" />
+                              ) : (emailHistory[reg.id] as EmailLogEntry[]).length === 0 ? (
+                                <p className="text-sm text-gray-500">No emails sent yet.</p>
+                              ) : (
+                                <ul className="space-y-2">
+                                  {(emailHistory[reg.id] as EmailLogEntry[]).map((email) => (
+                                    <li key={email.id} className="text-sm text-gray-700">
+                                      <div className="flex flex-wrap items-center gap-2">
+                                        <span
+                                          className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
+                                            email.status === "sent"
+                                              ? "bg-green-100 text-green-800"
+                                              : email.status === "failed"
+                                              ? "bg-red-100 text-red-800"
+                                              : "bg-yellow-100 text-yellow-800"
+                                          }`}
+                                        >
+                                          {email.status}
+                                        </span>
+                                        <span className="font-medium">{email.subject}</span>
+                                        <span className="text-gray-500">
+                                          to {email.toEmail}, queued {new Date(email.createdAt).toLocaleString()}
+                                          {email.sentAt && `, sent ${new Date(email.sentAt).toLocaleString()}`}
+                                          {email.status === "queued" && email.attempts > 0 &&
+                                            `, retry ${email.attempts + 1} at ${new Date(email.nextAttemptAt).toLocaleTimeString()}`}
+                                        </span>
+                                      </div>
+                                      {email.lastError && email.status !== "sent" && (
+                                        <div className="text-xs text-red-600 mt-1">
+                                          {email.attempts} attempt(s); last error: {email.lastError}
+                                        </div>
+                                      )}
+                                    </li>
+                                  ))}
+                                </ul>
+                              )}
+
+                              <div className="mt-5 mb-3 text-sm font-semibold text-gray-800">Change History</div>
+                              <AuditHistory entityType="registration" entityId={reg.id} />
                             </div>
                           </td>
                         </tr>
@@ -955,7 +1072,7 @@ function RegistrationsContent() {
           <div className="bg-white w-full max-w-sm rounded-xl shadow-2xl p-6">
             <h3 className="text-lg font-semibold mb-2 text-black">Confirm Deletion</h3>
             <p className="text-sm text-gray-600 mb-6">
-              Are you sure you want to delete this registration? This action cannot be undone.
+              Are you sure you want to delete this registration? It will be moved to the trash, where an admin can restore it.
             </p>
             <div className="flex justify-end gap-3">
               <button
@@ -972,6 +1089,76 @@ function RegistrationsContent() {
         </div>
       )}
 
+      {/* Print Badges Modal */}
+      {showBadgesModal && (
+        <div className="fixed inset-0 z-[9999] bg-black/30 backdrop-blur-sm flex items-center justify-center">
+          <div className="bg-white w-full max-w-md rounded-xl shadow-2xl p-6">
+            <h3 className="text-lg font-semibold mb-2 text-black">Print Badges</h3>
+            <p className="text-sm text-gray-600 mb-4">
+              One PDF with a badge for every registration matching the event, session, status and type filters (all
+              registered and checked-in attendees when no status is chosen), after a manifest page.
+            </p>
+
+            <div className="space-y-4">
+              <div>
+                <label htmlFor="badgeLayout" className="block text-sm font-medium text-gray-700 mb-1">
+                  Sheet layout
+                </label>
+                <select
+                  id="badgeLayout"
+                  value={badgeLayout}
+                  onChange={(e) => {
+                    const layout = e.target.value as BadgeSheetLayoutId;
+                    setBadgeLayout(layout);
+                    setBadgeCutMarks(!BADGE_SHEET_LAYOUTS[layout].preCut);
+                  }}
+                  className="mt-1 block w-full text-black rounded-md border border-gray-300 px-3 py-2 shadow-sm focus:border-black focus:ring-black sm:text-sm"
+                >
+                  {(Object.keys(BADGE_SHEET_LAYOUTS) as BadgeSheetLayoutId[]).map((id) => (
+                    <option key={id} value={id}>
+                      {BADGE_SHEET_LAYOUTS[id].label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="badgeSort" className="block text-sm font-medium text-gray-700 mb-1">
+                  Order
+                </label>
+                <select
+                  id="badgeSort"
+                  value={badgeSort}
+                  onChange={(e) => setBadgeSort(e.target.value as BadgeSortOrder)}
+                  className="mt-1 block w-full text-black rounded-md border border-gray-300 px-3 py-2 shadow-sm focus:border-black focus:ring-black sm:text-sm"
+                >
+                  {(Object.keys(BADGE_SORT_ORDERS) as BadgeSortOrder[]).map((id) => (
+                    <option key={id} value={id}>
+                      {BADGE_SORT_ORDERS[id]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <label className="inline-flex items-center gap-2 text-sm text-gray-700">
+                <input type="checkbox" checked={badgeCutMarks} onChange={(e) => setBadgeCutMarks(e.target.checked)} />
+                Cut marks
+              </label>
+            </div>
+
+            <div className="flex justify-end gap-3 mt-6">
+              <button
+                onClick={() => setShowBadgesModal(false)}
+                className="px-4 py-2 rounded-md border border-gray-300 text-gray-700 hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button onClick={printBadges} className="px-4 py-2 rounded-md bg-black text-white hover:bg-gray-800">
+                Open PDF
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Edit Modal */}
       {showEditModal && editingRegistration && (
         <div className="fixed inset-0 z-[9999] bg-black/30 backdrop-blur-sm flex items-center justify-center">
@@ -995,9 +1182,32 @@ function RegistrationsContent() {
                   <option value="registered">Registered</option>
                   <option value="checked-in">Checked-in</option>
                   <option value="cancelled">Cancelled</option>
+                  <option value="waitlisted">Waitlisted</option>
                 </select>
                 {editErrors.status && <p className="mt-1 text-sm text-red-500">{editErrors.status}</p>}
               </div>
+
+              {(editTypes.length > 0 || editingRegistration.attendeeType) && (
+                <div>
+                  <label htmlFor="editAttendeeType" className="block text-sm font-medium text-gray-700 mb-1">
+                    Attendee type
+                  </label>
+                  <select
+                    id="editAttendeeType"
+                    name="attendeeTypeId"
+                    value={editFormData.attendeeTypeId || ""}
+                    onChange={handleEditFormChange}
+                    className="mt-1 block w-full text-black rounded-md border border-gray-300 px-3 py-2 shadow-sm focus:border-black focus:ring-black sm:text-sm"
+                  >
+                    <option value="">No type</option>
+                    {editTypes.map((t) => (
+                      <option key={t.id} value={t.id}>
+                        {t.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
             </div>
 
             <div className="flex justify-end gap-3 mt-6">
@@ -18,6 +18,7 @@ export default function SignupPage() {
     const [user, setUser] = useState({
         email: "",
         password: "",
+        pin: "", // Optional quick-login PIN for staff
         role: "", // Default role for new signups
     });
     const [buttonDisabled, setButtonDisabled] = useState(true);
@@ -28,6 +29,7 @@ export default function SignupPage() {
     const [formErrors, setFormErrors] = useState({
         email: "",
         password: "",
+        pin: "",
         role: "",
     });
 
@@ -38,7 +40,7 @@ export default function SignupPage() {
 
     // Client-side Form Validation Function
     const validateForm = () => {
-        let errors = { email: "", password: "", role: "" };
+        let errors = { email: "", password: "", pin: "", role: "" };
         let isValid = true;
 
         // Email validation
@@ -59,6 +61,12 @@ export default function SignupPage() {
             isValid = false;
         }
 
+        // PIN validation (optional)
+        if (user.pin && !/^[0-9]{4,8}$/.test(user.pin)) {
+            errors.pin = "PIN must be 4 to 8 digits.";
+            isValid = false;
+        }
+
         // Role validation
         if (!user.role) {
             errors.role = "Role is required."; // Should rarely hit if default is 'user'
@@ -71,7 +79,7 @@ export default function SignupPage() {
 
     const onSignup = async () => {
         setApiError(""); // Clear any previous API errors before a new attempt
-        setFormErrors({ email: "", password: "", role: "" }); // Clear form errors as well
+        setFormErrors({ email: "", password: "", pin: "", role: "" }); // Clear form errors as well
 
         // Run client-side validation first
         if (!validateForm()) {
@@ -173,6 +181,25 @@ export default function SignupPage() {
                         )}
                     </div>
 
+                    <div>
+                        <label htmlFor="pin" className="block text-sm font-medium text-gray-700 mb-1">
+                            PIN (Optional):
+                        </label>
+                        <input
+                            className={`mt-1 block w-full rounded-md text-black border ${formErrors.pin ? 'border-red-500' : 'border-gray-300'} shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm p-2`}
+                            id="pin"
+                            type="password"
+                            inputMode="numeric"
+                            value={user.pin}
+                            onChange={(e) => setUser({ ...user, pin: e.target.value })}
+                            placeholder="4-8 digits, for quick sign-in at the door"
+                            onBlur={validateForm}
+                        />
+                        {formErrors.pin && (
+                            <p className="mt-1 text-sm text-red-500">{formErrors.pin}</p>
+                        )}
+                    </div>
+
                     <div>
                         <label htmlFor="role" className="block text-sm font-medium text-gray-700 mb-1">
                             Select Role:
@@ -185,10 +212,10 @@ export default function SignupPage() {
                             onBlur={validateForm}
                         >
                             <option value=""></option>
-                           <option value="admin">Admin</option>
-                            <option value="role1">Role 1</option>
-                            <option value="role2">Role 2</option>
-                            <option value="role3">Role 3</option>
+                            <option value="admin">Admin</option>
+                            <option value="organizer">Organizer</option>
+                            <option value="checkin">Check-in Staff</option>
+                            <option value="attendee">Attendee</option>
                         </select>
                         {formErrors.role && (
                             <p className="mt-1 text-sm text-red-500">{formErrors.role}</p>
@@ -0,0 +1,216 @@
+// src/app/trash/page.tsx
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { toast } from "react-hot-toast";
+import axiosInstance from "@/lib/api";
+import { Loader2, RotateCcw, Trash2 } from "lucide-react";
+
+/* ---------------- Types ---------------- */
+type TrashKind = "event" | "occurrence" | "registration";
+
+interface TrashedEvent {
+  id: string;
+  name: string;
+  location: string;
+  deletedAt: string;
+  purgeAfter: string;
+  _count: { registrations: number; occurrences: number };
+}
+
+interface TrashedOccurrence {
+  id: string;
+  startTime: string;
+  endTime: string | null;
+  location: string | null;
+  deletedAt: string;
+  purgeAfter: string;
+  event: { id: string; name: string };
+  _count: { registrations: number };
+}
+
+interface TrashedRegistration {
+  id: string;
+  passId: string;
+  status: string;
+  deletedAt: string;
+  purgeAfter: string;
+  user: { firstName: string | null; lastName: string | null; email: string };
+  event: { id: string; name: string };
+}
+
+interface TrashResponse {
+  retentionDays: number;
+  events: TrashedEvent[];
+  occurrences: TrashedOccurrence[];
+  registrations: TrashedRegistration[];
+}
+
+// Session times are wall-clock values, so show them as stored
+const sessionTime = (iso: string) => iso.slice(0, 16).replace("T", " ");
+const when = (iso: string) => new Date(iso).toLocaleString();
+
+/* ---------------- Component ---------------- */
+export default function TrashPage() {
+  const [data, setData] = useState<TrashResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const load = async () => {
+    try {
+      const res = await axiosInstance.get<TrashResponse>("/api/trash");
+      setData(res.data);
+    } catch (err: any) {
+      setError(err.response?.data?.error || "Failed to load the trash.");
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  const act = async (kind: TrashKind, id: string, action: "restore" | "purge") => {
+    if (action === "purge" && !window.confirm("Delete this permanently? This cannot be undone.")) return;
+    setBusyId(id);
+    try {
+      const res =
+        action === "restore"
+          ? await axiosInstance.post(`/api/trash/${kind}/${id}`)
+          : await axiosInstance.delete(`/api/trash/${kind}/${id}`);
+      toast.success(res.data?.message || "Done.");
+      await load();
+    } catch (err: any) {
+      toast.error(err.response?.data?.error || "Something went wrong.");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const actions = (kind: TrashKind, id: string) => (
+    <div className="flex justify-end gap-2">
+      <button
+        onClick={() => act(kind, id, "restore")}
+        disabled={busyId === id}
+        className="inline-flex items-center gap-1 px-3 py-1 text-sm rounded-md border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+      >
+        <RotateCcw className="h-4 w-4" /> Restore
+      </button>
+      <button
+        onClick={() => act(kind, id, "purge")}
+        disabled={busyId === id}
+        className="inline-flex items-center gap-1 px-3 py-1 text-sm rounded-md text-white bg-red-600 hover:bg-red-700 disabled:opacity-50"
+      >
+        <Trash2 className="h-4 w-4" /> Delete forever
+      </button>
+    </div>
+  );
+
+  if (error) {
+    return (
+      <div className="min-h-screen bg-gray-50 p-8">
+        <div className="max-w-3xl mx-auto bg-white rounded-2xl border border-gray-100 shadow-xl p-8">
+          <p className="text-red-600">{error}</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!data) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="h-6 w-6 animate-spin text-gray-500" />
+      </div>
+    );
+  }
+
+  const empty = !data.events.length && !data.occurrences.length && !data.registrations.length;
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-8">
+      <div className="w-full max-w-7xl mx-auto bg-white rounded-2xl border border-gray-100 shadow-xl p-8">
+        <div className="mb-6">
+          <h1 className="text-2xl font-semibold text-black">Trash</h1>
+          <p className="text-sm text-gray-500">
+            Deleted events, sessions and registrations are kept for {data.retentionDays} days, then deleted permanently.
+          </p>
+        </div>
+
+        {empty && <p className="text-sm text-gray-600">The trash is empty.</p>}
+
+        {data.events.length > 0 && (
+          <section className="mb-8">
+            <h2 className="text-lg font-semibold text-black mb-2">Events</h2>
+            <div className="divide-y divide-gray-100 border border-gray-200 rounded-md">
+              {data.events.map((ev) => (
+                <div key={ev.id} className="flex items-center justify-between gap-4 px-4 py-3">
+                  <div className="text-sm">
+                    <div className="font-medium text-black">{ev.name}</div>
+                    <div className="text-gray-500">
+                      {ev.location} · {ev._count.occurrences} session{ev._count.occurrences === 1 ? "" : "s"} ·{" "}
+                      {ev._count.registrations} registration{ev._count.registrations === 1 ? "" : "s"}
+                    </div>
+                    <div className="text-xs text-gray-400">
+                      Deleted {when(ev.deletedAt)} · purged after {when(ev.purgeAfter)}
+                    </div>
+                  </div>
+                  {actions("event", ev.id)}
+                </div>
+              ))}
+            </div>
+          </section>
+        )}
+
+        {data.occurrences.length > 0 && (
+          <section className="mb-8">
+            <h2 className="text-lg font-semibold text-black mb-2">Sessions</h2>
+            <div className="divide-y divide-gray-100 border border-gray-200 rounded-md">
+              {data.occurrences.map((occ) => (
+                <div key={occ.id} className="flex items-center justify-between gap-4 px-4 py-3">
+                  <div className="text-sm">
+                    <div className="font-medium text-black">
+                      {sessionTime(occ.startTime)}
+                      {occ.endTime ? ` – ${sessionTime(occ.endTime).slice(11)}` : ""}
+                      {occ.location ? ` (${occ.location})` : ""}
+                    </div>
+                    <div className="text-gray-500">
+                      {occ.event.name} · {occ._count.registrations} booking{occ._count.registrations === 1 ? "" : "s"}
+                    </div>
+                    <div className="text-xs text-gray-400">
+                      Deleted {when(occ.deletedAt)} · purged after {when(occ.purgeAfter)}
+                    </div>
+                  </div>
+                  {actions("occurrence", occ.id)}
+                </div>
+              ))}
+            </div>
+          </section>
+        )}
+
+        {data.registrations.length > 0 && (
+          <section>
+            <h2 className="text-lg font-semibold text-black mb-2">Registrations</h2>
+            <div className="divide-y divide-gray-100 border border-gray-200 rounded-md">
+              {data.registrations.map((reg) => (
+                <div key={reg.id} className="flex items-center justify-between gap-4 px-4 py-3">
+                  <div className="text-sm">
+                    <div className="font-medium text-black">
+                      {`${reg.user.firstName || ""} ${reg.user.lastName || ""}`.trim() || reg.user.email}{" "}
+                      <span className="text-gray-500 font-normal">{reg.user.email}</span>
+                    </div>
+                    <div className="text-gray-500">
+                      {reg.event.name} · {reg.passId} · {reg.status}
+                    </div>
+                    <div className="text-xs text-gray-400">
+                      Deleted {when(reg.deletedAt)} · purged after {when(reg.purgeAfter)}
+                    </div>
+                  </div>
+                  {actions("registration", reg.id)}
+                </div>
+              ))}
+            </div>
+          </section>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,383 @@
+// src/app/view-pass/[token]/page.tsx
+"use client";
+import React, { useEffect, useState } from "react";
+import { useSearchParams } from "next/navigation";
+import { toast } from "react-hot-toast";
+import axios from "axios"; // Using standard axios for public endpoint
+import Link from "next/link";
+import Image from "next/image"; // Import Next.js Image component
+import QRCode from "qrcode";
+
+interface EventOccurrence {
+  id: string;
+  startTime: string;
+  endTime: string | null;
+  location: string | null;
+}
+
+// What /api/public-pass/[token] returns (see publicPass() in src/lib/passAccess.ts)
+interface EventPassDetails {
+  passId: string;
+  status: string;
+  waitlistPosition: number | null;
+  revoked: boolean;
+  passCode: string | null; // Shown as the QR code; null while the pass admits nobody
+  attendee: { firstName: string | null; lastName: string | null };
+  attendeeType: string | null;
+  event: {
+    name: string;
+    description: string | null;
+    location: string;
+    googleMapsLink: string | null;
+    contactEmail: string | null;
+    contactPhone: string | null;
+  };
+  sessions: EventOccurrence[];
+  // Only present when the page is opened from the manage link in the pass email
+  accessToken?: string | null;
+  eventSessions?: EventOccurrence[];
+  seatsLeft?: Record<string, number | null>;
+  canChange?: boolean;
+}
+
+export default function ViewPassPage({ params }: { params: { token: string } }) {
+  // The pass's access token; manage links from before access tokens carry the pass ID here instead
+  const { token } = params;
+  const searchParams = useSearchParams();
+  const manageToken = searchParams.get("token"); // Signed link from the pass email
+
+  const [passDetails, setPassDetails] = useState<EventPassDetails | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [qrCodeImgSrc, setQrCodeImgSrc] = useState<string | null>(null);
+  const [selectedSessionIds, setSelectedSessionIds] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [reloadKey, setReloadKey] = useState(0); // Bumped to re-fetch after a change
+
+  useEffect(() => {
+    const fetchPassDetails = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const response = manageToken
+          ? await axios.get<EventPassDetails>(`/api/manage-registration?token=${encodeURIComponent(manageToken)}`)
+          : await axios.get<EventPassDetails>(`/api/public-pass/${encodeURIComponent(token)}`);
+        setPassDetails(response.data);
+        setSelectedSessionIds(response.data.sessions.map((occ) => occ.id));
+        // Drawn in the browser, so the code never leaves the page
+        setQrCodeImgSrc(response.data.passCode ? await QRCode.toDataURL(response.data.passCode, { width: 256, margin: 1 }) : null);
+      } catch (err: any) {
+        console.error("Failed to fetch pass details:", err);
+        setError(err.response?.data?.error || "Failed to load event pass.");
+        toast.error(err.response?.data?.error || "Failed to load event pass.");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    if (token) {
+      fetchPassDetails();
+    }
+  }, [token, manageToken, reloadKey]);
+
+  const toggleSession = (occurrenceId: string) => {
+    setSelectedSessionIds((prev) =>
+      prev.includes(occurrenceId) ? prev.filter((id) => id !== occurrenceId) : [...prev, occurrenceId]
+    );
+  };
+
+  const handleSaveSessions = async () => {
+    if (!manageToken) return;
+    if (selectedSessionIds.length === 0) {
+      toast.error("Please select at least one session.");
+      return;
+    }
+    setSaving(true);
+    try {
+      const res = await axios.patch(`/api/manage-registration?token=${encodeURIComponent(manageToken)}`, {
+        selectedOccurrenceIds: selectedSessionIds,
+      });
+      toast.success(res.data.message || "Sessions updated.");
+      setReloadKey((k) => k + 1);
+    } catch (err: any) {
+      toast.error(err.response?.data?.error || "Failed to update your sessions.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCancelRegistration = async () => {
+    if (!manageToken) return;
+    if (!window.confirm("Cancel your registration? Your pass will stop working and your seat may be given to someone on the waitlist.")) {
+      return;
+    }
+    setSaving(true);
+    try {
+      const res = await axios.delete(`/api/manage-registration?token=${encodeURIComponent(manageToken)}`);
+      toast.success(res.data.message || "Registration cancelled.");
+      setReloadKey((k) => k + 1);
+    } catch (err: any) {
+      toast.error(err.response?.data?.error || "Failed to cancel your registration.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex h-screen w-screen items-center justify-center bg-gray-50">
+        <div className="text-xl font-semibold text-black">Loading Pass Details...</div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="flex h-screen w-screen flex-col items-center justify-center bg-gray-50 text-black">
+        <div className="text-xl font-semibold text-red-600 mb-4">{error}</div>
+        <Link href="/request-pass" className="px-4 py-2 bg-black text-white rounded-md hover:bg-gray-800 transition-colors">
+            Request Your Pass
+        </Link>
+      </div>
+    );
+  }
+
+  if (!passDetails) {
+    return (
+      <div className="flex h-screen w-screen flex-col items-center justify-center bg-gray-50 text-black">
+        <div className="text-xl font-semibold text-gray-700 mb-4">Pass not found.</div>
+        <Link href="/request-pass" className="px-4 py-2 bg-black text-white rounded-md hover:bg-gray-800 transition-colors">
+            Request Your Pass
+        </Link>
+      </div>
+    );
+  }
+
+  const userFullName = `${passDetails.attendee.firstName || ''} ${passDetails.attendee.lastName || ''}`.trim();
+  // Manage links load the pass through the signed token, which also tells the page its access token
+  const accessToken = manageToken ? passDetails.accessToken : token;
+
+  return (
+    <div className="min-h-screen w-screen flex items-center justify-center p-4"
+         style={{ background: 'linear-gradient(to bottom right, #1a2a6c, #b21f1f, #fdbb2d)' }}>
+      <div className="w-full max-w-2xl bg-white bg-opacity-95 rounded-xl shadow-2xl overflow-hidden p-8 sm:p-12 text-gray-800"
+           style={{ fontFamily: '"Inter", sans-serif' }}>
+        {/* Branding Area */}
+        <div className="flex justify-between items-center mb-8">
+          <div className="flex space-x-1">
+            <div className="w-2 h-2 rounded-full bg-blue-600"></div>
+            <div className="w-2 h-2 rounded-full bg-blue-600"></div>
+            <div className="w-2 h-2 rounded-full bg-blue-600"></div>
+          </div>
+          <div className="text-center">
+            <h1 className="text-xl font-bold text-gray-900 uppercase">BLUE RHINE INDUSTRIES</h1>
+          </div>
+          <div className="flex space-x-1">
+            <div className="w-2 h-2 rounded-full bg-blue-600"></div>
+            <div className="w-2 h-2 rounded-full bg-blue-600"></div>
+            <div className="w-2 h-2 rounded-full bg-blue-600"></div>
+          </div>
+        </div>
+
+        {/* Pass Title */}
+        <div className="text-center mb-8">
+          <p className="text-lg text-gray-600 mb-2">YOUR EVENT PASS FOR</p>
+          <h2 className="text-4xl sm:text-5xl font-extrabold text-blue-800 leading-tight">
+            {passDetails.event.name.toUpperCase()}
+          </h2>
+        </div>
+
+        {/* Attendee Details */}
+        <div className="bg-gray-100 p-6 rounded-lg mb-8 shadow-inner text-center">
+          <p className="text-2xl font-bold text-gray-900 mb-2">{userFullName}</p>
+          {passDetails.attendeeType && <p className="text-md text-gray-700 mb-1">{passDetails.attendeeType}</p>}
+          <p className="text-md text-gray-700">Pass ID: <span className="font-semibold text-blue-700">{passDetails.passId}</span></p>
+          <p className="text-sm text-gray-600 mt-2">Status: <span className={`font-semibold ${passDetails.status === 'registered' ? 'text-blue-600' : passDetails.status === 'cancelled' ? 'text-red-600' : 'text-green-600'}`}>{passDetails.status.toUpperCase()}</span></p>
+        </div>
+
+        {/* QR Code and Instructions */}
+        {qrCodeImgSrc && (
+          <div className="text-center mb-8">
+            <p className="text-lg font-semibold text-gray-800 mb-4">Scan for Quick Check-in</p>
+            <div className="relative mx-auto w-48 h-48 sm:w-64 sm:h-64 rounded-lg shadow-md border-4 border-white overflow-hidden">
+              {/* Changed from <img> to <Image /> component */}
+              <Image
+                src={qrCodeImgSrc}
+                alt="QR Code for Event Pass"
+                fill // Use fill to make image cover the parent
+                style={{ objectFit: 'contain' }} // Maintain aspect ratio
+                quality={100} // High quality for QR code
+                sizes="(max-width: 640px) 150px, 250px" // Responsive sizes
+                className="rounded-md"
+              />
+            </div>
+            <p className="text-sm text-gray-600 mt-4">Present this QR code at the event for entry.</p>
+          </div>
+        )}
+
+        {passDetails.revoked && (
+          <p className="text-center text-red-600 font-semibold mb-8">
+            This pass has been revoked. Please contact the organizer for a new one.
+          </p>
+        )}
+
+        {/* Selected Session Details */}
+        {passDetails.sessions.length > 0 && (
+            <div className="bg-blue-50 p-6 rounded-lg mb-8 shadow-inner text-blue-800">
+                <h3 className="text-lg font-semibold text-center mb-3">Your Session Details:</h3>
+                {passDetails.sessions.map((occ) => {
+                    const startTime = new Date(occ.startTime);
+                    const endTime = occ.endTime ? new Date(occ.endTime) : null;
+                    return (
+                        <div key={occ.id} className="text-center mb-2 last:mb-0">
+                            <p className="font-bold text-lg">
+                                {startTime.toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric', year: 'numeric' })}
+                            </p>
+                            <p className="text-md">
+                                {startTime.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                                {endTime ? ` - ${endTime.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}` : ''}
+                            </p>
+                            {occ.location && <p className="text-sm text-blue-700">{occ.location}</p>}
+                        </div>
+                    );
+                })}
+            </div>
+        )}
+
+        {/* Call to Action: Download PDF Pass */}
+        {accessToken && (
+          <div className="text-center mb-8">
+            {!passDetails.revoked && (
+              <>
+                <p className="text-lg font-semibold text-gray-800 mb-4">Need a printable pass?</p>
+                <a
+                  href={`/api/public-pass/${accessToken}/pdf`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="inline-flex items-center justify-center px-8 py-4 border border-transparent text-xl font-bold rounded-full shadow-lg text-white bg-red-600 hover:bg-red-700 focus:outline-none focus:ring-4 focus:ring-red-300 transition-all duration-300 transform hover:scale-105"
+                >
+                  Download PDF Pass
+                </a>
+              </>
+            )}
+            {/* The feed is rebuilt on every request, so a subscribed calendar follows session changes */}
+            <p className="text-sm text-gray-600 mt-4">
+              Add your sessions to your calendar:{" "}
+              <a
+                href={`webcal://${window.location.host}/api/public-pass/${accessToken}/calendar.ics`}
+                className="text-blue-600 hover:underline"
+              >
+                Subscribe
+              </a>{" "}
+              or{" "}
+              <a href={`/api/public-pass/${accessToken}/calendar.ics`} download className="text-blue-600 hover:underline">
+                download .ics
+              </a>
+            </p>
+          </div>
+        )}
+
+        {/* Self-service: change sessions or cancel (manage link only) */}
+        {manageToken && passDetails.seatsLeft && (
+          <div className="border border-gray-200 p-6 rounded-lg mb-8">
+            <h3 className="text-lg font-semibold text-center text-gray-900 mb-4">Manage Your Registration</h3>
+            {passDetails.canChange ? (
+              <>
+                <p className="text-sm text-gray-600 mb-3">Choose the sessions you will attend:</p>
+                <div className="space-y-2 mb-6">
+                  {(passDetails.eventSessions ?? []).map((occ) => {
+                    const start = new Date(occ.startTime);
+                    const left = passDetails.seatsLeft?.[occ.id];
+                    const selected = selectedSessionIds.includes(occ.id);
+                    const wasSelected = passDetails.sessions.some((s) => s.id === occ.id);
+                    const full = left === 0 && !wasSelected;
+                    return (
+                      <label
+                        key={occ.id}
+                        className={`flex items-center justify-between rounded-md border px-3 py-2 text-sm ${full ? "border-gray-200 text-gray-400" : "border-gray-300 text-gray-800 cursor-pointer"}`}
+                      >
+                        <span className="flex items-center gap-2">
+                          <input
+                            type="checkbox"
+                            checked={selected}
+                            disabled={saving || (full && passDetails.status !== "waitlisted")}
+                            onChange={() => toggleSession(occ.id)}
+                          />
+                          {start.toLocaleDateString("en-US", { weekday: "short", month: "short", day: "numeric" })}{" "}
+                          {start.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}
+                          {occ.location ? ` · ${occ.location}` : ""}
+                        </span>
+                        {left !== null && left !== undefined && (
+                          <span className="text-xs">{left === 0 ? "Full" : `${left} seat${left === 1 ? "" : "s"} left`}</span>
+                        )}
+                      </label>
+                    );
+                  })}
+                </div>
+                <div className="flex flex-col sm:flex-row gap-3 justify-center">
+                  <button
+                    onClick={handleSaveSessions}
+                    disabled={saving}
+                    className="px-6 py-2 rounded-md bg-blue-600 text-white font-semibold hover:bg-blue-700 disabled:opacity-50"
+                  >
+                    {saving ? "Saving..." : "Save Sessions"}
+                  </button>
+                  <button
+                    onClick={handleCancelRegistration}
+                    disabled={saving}
+                    className="px-6 py-2 rounded-md border border-red-600 text-red-600 font-semibold hover:bg-red-50 disabled:opacity-50"
+                  >
+                    Cancel Registration
+                  </button>
+                </div>
+              </>
+            ) : (
+              <p className="text-sm text-gray-600 text-center">
+                {passDetails.status === "cancelled"
+                  ? "This registration has been cancelled."
+                  : "You have already been checked in, so this registration can no longer be changed."}
+              </p>
+            )}
+          </div>
+        )}
+
+        {/* Event Details Section */}
+        <div className="text-center text-sm text-gray-600 space-y-1 mb-8">
+          <p>
+            <strong>Event Location:</strong> {passDetails.event.location}
+            {passDetails.event.googleMapsLink && (
+              <>
+                {" "}
+                (<a href={passDetails.event.googleMapsLink} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">View on Map</a>)
+              </>
+            )}
+          </p>
+          {passDetails.event.contactEmail && (
+            <p>
+              <strong>Contact:</strong>{" "}
+              <a href={`mailto:${passDetails.event.contactEmail}`} className="text-blue-600 hover:underline">
+                {passDetails.event.contactEmail}
+              </a>
+              {passDetails.event.contactPhone && (
+                <>
+                  {" "}
+                  |{" "}
+                  <a href={`tel:${passDetails.event.contactPhone}`} className="text-blue-600 hover:underline">
+                    {passDetails.event.contactPhone}
+                  </a>
+                </>
+              )}
+            </p>
+          )}
+        </div>
+
+        {/* Footer Link */}
+        <div className="text-center mt-6">
+            <Link href="/events" className="text-sm text-gray-600 hover:underline">
+                Back to All Events
+            </Link>
+        </div>
+      </div>
+    </div>
+  );
+}
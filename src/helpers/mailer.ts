@@ -1,46 +1,48 @@
 import nodemailer from 'nodemailer';
-import User from "@/models/userModel";
-import bcryptjs from 'bcryptjs';
+import crypto from 'crypto';
+import prisma from '@/lib/prisma';
 
+const VERIFY_TOKEN_TTL_MS = 60 * 60 * 1000; // 1 hour
 
-export const sendEmail = async({email, emailType, userId}:any) => {
+// Sends the account verification link. The token is stored in the Prisma VerificationToken
+// table (identifier = the user's email) and consumed by /api/verifyemail.
+export const sendEmail = async ({ email, emailType }: { email: string; emailType: "VERIFY" }) => {
     try {
-        // create a hased token
-        const hashedToken = await bcryptjs.hash(userId.toString(), 10)
+        const token = crypto.randomBytes(32).toString('hex');
 
         if (emailType === "VERIFY") {
-            await User.findByIdAndUpdate(userId, 
-                {verifyToken: hashedToken, verifyTokenExpiry: Date.now() + 3600000})
-        } else if (emailType === "RESET"){
-            await User.findByIdAndUpdate(userId, 
-                {forgotPasswordToken: hashedToken, forgotPasswordTokenExpiry: Date.now() + 3600000})
+            // Only the most recent link should work
+            await prisma.verificationToken.deleteMany({ where: { identifier: email } });
+            await prisma.verificationToken.create({
+                data: { identifier: email, token, expires: new Date(Date.now() + VERIFY_TOKEN_TTL_MS) },
+            });
         }
 
-        var transport = nodemailer.createTransport({
-            host: "sandbox.smtp.mailtrap.io",
-            port: 2525,
+        const transport = nodemailer.createTransport({
+            host: process.env.EMAIL_HOST,
+            port: parseInt(process.env.EMAIL_PORT || '587'),
+            secure: process.env.EMAIL_SECURE === 'true',
             auth: {
-              user: "3fd364695517df",
-              pass: "7383d58fd399cf"
-              //TODO: add these credentials to .env file
-            }
-          });
+                user: process.env.EMAIL_USER,
+                pass: process.env.EMAIL_PASS,
+            },
+        });
 
+        const link = `${process.env.DOMAIN}/verifyemail?token=${token}`;
 
         const mailOptions = {
-            from: 'hitesh@gmail.com',
+            from: process.env.EMAIL_FROM,
             to: email,
-            subject: emailType === "VERIFY" ? "Verify your email" : "Reset your password",
-            html: `<p>Click <a href="${process.env.DOMAIN}/verifyemail?token=${hashedToken}">here</a> to ${emailType === "VERIFY" ? "verify your email" : "reset your password"}
-            or copy and paste the link below in your browser. <br> ${process.env.DOMAIN}/verifyemail?token=${hashedToken}
+            subject: "Verify your email",
+            html: `<p>Click <a href="${link}">here</a> to verify your email
+            or copy and paste the link below in your browser. <br> ${link}
             </p>`
         }
 
-        const mailresponse = await transport.sendMail
-        (mailOptions);
+        const mailresponse = await transport.sendMail(mailOptions);
         return mailresponse;
 
     } catch (error:any) {
         throw new Error(error.message);
     }
-}
\ No newline at end of file
+}
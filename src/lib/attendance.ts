@@ -0,0 +1,163 @@
+// src/lib/attendance.ts
+import { EventEmitter } from 'events';
+import prisma from '@/lib/prisma';
+import { holdsSeat } from '@/lib/capacity';
+
+const BUCKET_MS = 15 * 60 * 1000;
+const TOP_COMPANIES = 10;
+
+export interface AttendanceCounts {
+  registered: number; // Holding a seat (registered or checked in)
+  checkedIn: number;
+  noShow: number; // Holding a seat, never checked in, and the session is over
+  cancelled: number;
+  waitlisted: number;
+}
+
+export interface AttendanceBreakdown extends AttendanceCounts {
+  arrivals: { start: string; count: number }[]; // Check-ins per 15-minute bucket, oldest first
+  topCompanies: { company: string; count: number }[]; // Among checked-in attendees
+}
+
+export interface AttendanceStats {
+  eventId: string;
+  eventName: string;
+  event: AttendanceBreakdown;
+  // One row per attendee type, in the event's order, then "No type" if any registration has none
+  byType: (AttendanceCounts & { id: string | null; name: string; badgeColor: string | null })[];
+  occurrences: (AttendanceBreakdown & {
+    id: string;
+    startTime: Date;
+    endTime: Date | null;
+    location: string | null;
+  })[];
+}
+
+function arrivalsByBucket(times: Date[]) {
+  const buckets = new Map<number, number>();
+  for (const t of times) {
+    const start = Math.floor(t.getTime() / BUCKET_MS) * BUCKET_MS;
+    buckets.set(start, (buckets.get(start) ?? 0) + 1);
+  }
+  return Array.from(buckets.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([start, count]) => ({ start: new Date(start).toISOString(), count }));
+}
+
+function topCompanies(companies: (string | null)[]) {
+  const counts = new Map<string, number>();
+  for (const raw of companies) {
+    const company = raw?.trim();
+    if (company) counts.set(company, (counts.get(company) ?? 0) + 1);
+  }
+  return Array.from(counts.entries())
+    .sort(([a, x], [b, y]) => y - x || a.localeCompare(b))
+    .slice(0, TOP_COMPANIES)
+    .map(([company, count]) => ({ company, count }));
+}
+
+/** Attendance numbers for one event and each of its sessions, or null if the event doesn't exist. */
+export async function attendanceStats(eventId: string): Promise<AttendanceStats | null> {
+  const event = await prisma.event.findUnique({
+    where: { id: eventId, deletedAt: null },
+    select: {
+      id: true,
+      name: true,
+      occurrences: { where: { deletedAt: null }, select: { id: true, startTime: true, endTime: true, location: true }, orderBy: { startTime: 'asc' } },
+      attendeeTypes: { select: { id: true, name: true, badgeColor: true }, orderBy: { position: 'asc' } },
+      registrations: {
+        where: { deletedAt: null },
+        select: {
+          status: true,
+          attendeeTypeId: true,
+          user: { select: { company: true } },
+          selectedOccurrences: { where: { occurrence: { deletedAt: null } }, select: { occurrenceId: true, checkedInAt: true } },
+        },
+      },
+    },
+  });
+  if (!event) return null;
+
+  const now = new Date();
+  // A session with no end time counts as over once it has started
+  const ended = new Set(event.occurrences.filter((o) => (o.endTime ?? o.startTime) < now).map((o) => o.id));
+
+  const registrations = event.registrations.map((r) => {
+    const arrivals = r.selectedOccurrences.flatMap((so) => (so.checkedInAt ? [so.checkedInAt] : []));
+    return {
+      ...r,
+      // Status alone covers check-ins made from the registrations list, which record no time
+      checkedIn: r.status === 'checked-in' || arrivals.length > 0,
+      firstArrival: arrivals.length ? new Date(Math.min(...arrivals.map((t) => t.getTime()))) : null,
+    };
+  });
+  const checkedIn = registrations.filter((r) => r.checkedIn);
+
+  const countsOf = (rows: typeof registrations): AttendanceCounts => ({
+    registered: rows.filter((r) => holdsSeat(r.status)).length,
+    checkedIn: rows.filter((r) => r.checkedIn).length,
+    noShow: rows.filter(
+      (r) => holdsSeat(r.status) && !r.checkedIn && r.selectedOccurrences.every((so) => ended.has(so.occurrenceId))
+    ).length,
+    cancelled: rows.filter((r) => r.status === 'cancelled').length,
+    waitlisted: rows.filter((r) => r.status === 'waitlisted').length,
+  });
+
+  const eventBreakdown: AttendanceBreakdown = {
+    ...countsOf(registrations),
+    arrivals: arrivalsByBucket(checkedIn.flatMap((r) => (r.firstArrival ? [r.firstArrival] : []))),
+    topCompanies: topCompanies(checkedIn.map((r) => r.user.company)),
+  };
+
+  const occurrences = event.occurrences.map((occurrence) => {
+    const rows = registrations.flatMap((r) => {
+      const so = r.selectedOccurrences.find((s) => s.occurrenceId === occurrence.id);
+      return so ? [{ status: r.status, company: r.user.company, checkedInAt: so.checkedInAt }] : [];
+    });
+    const arrived = rows.filter((row) => row.checkedInAt);
+    return {
+      ...occurrence,
+      registered: rows.filter((row) => holdsSeat(row.status)).length,
+      checkedIn: arrived.length,
+      noShow: ended.has(occurrence.id) ? rows.filter((row) => holdsSeat(row.status) && !row.checkedInAt).length : 0,
+      cancelled: rows.filter((row) => row.status === 'cancelled').length,
+      waitlisted: rows.filter((row) => row.status === 'waitlisted').length,
+      arrivals: arrivalsByBucket(arrived.map((row) => row.checkedInAt as Date)),
+      topCompanies: topCompanies(arrived.map((row) => row.company)),
+    };
+  });
+
+  const byType: AttendanceStats['byType'] = event.attendeeTypes.map((type) => ({
+    ...type,
+    ...countsOf(registrations.filter((r) => r.attendeeTypeId === type.id)),
+  }));
+  const untyped = registrations.filter((r) => !r.attendeeTypeId);
+  if (event.attendeeTypes.length && untyped.length) {
+    byType.push({ id: null, name: 'No type', badgeColor: null, ...countsOf(untyped) });
+  }
+
+  return { eventId: event.id, eventName: event.name, event: eventBreakdown, byType, occurrences };
+}
+
+// In-process change feed for the live dashboard. Kept on globalThis so every route bundle
+// shares one emitter; the dashboard stream also polls, which covers changes made by other
+// server instances.
+const globalForAttendance = globalThis as unknown as { attendanceEvents?: EventEmitter };
+const attendanceEvents =
+  globalForAttendance.attendanceEvents ?? (globalForAttendance.attendanceEvents = new EventEmitter().setMaxListeners(0));
+
+/** Tell open dashboards for `eventId` that its check-ins or registrations changed. */
+export function notifyAttendanceChanged(eventId: string) {
+  attendanceEvents.emit('change', eventId);
+}
+
+/** Subscribe to changes for one event; returns the unsubscribe function. */
+export function onAttendanceChanged(eventId: string, listener: () => void) {
+  const handler = (changed: string) => {
+    if (changed === eventId) listener();
+  };
+  attendanceEvents.on('change', handler);
+  return () => {
+    attendanceEvents.off('change', handler);
+  };
+}
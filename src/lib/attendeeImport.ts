@@ -0,0 +1,188 @@
+// src/lib/attendeeImport.ts
+import * as XLSX from 'xlsx';
+import prisma from '@/lib/prisma';
+import { PrismaClientKnownRequestError } from '@prisma/client/runtime/library';
+import { ATTENDEE_FIELD_LABELS, AttendeeFields, attendeeTypeError, createRegistration, trashedRegistrationError, validateAttendee } from '@/lib/registrations';
+import { lockEventForCapacity } from '@/lib/capacity';
+import { findUserByEmail, normalizeEmail } from '@/lib/userEmail';
+import type { AuditActor } from '@/lib/audit';
+import type { AttendeeType } from '@/lib/attendeeTypes';
+
+export const MAX_IMPORT_ROWS = 5000;
+
+/** Which spreadsheet column (by header) feeds each attendee field. */
+export type ColumnMapping = Partial<Record<keyof AttendeeFields, string>>;
+
+export interface ParsedSheet {
+  headers: string[];
+  rows: Record<string, string>[];
+}
+
+export interface PreviewRow {
+  rowNumber: number; // As shown in the spreadsheet, counting the header row
+  fields: AttendeeFields;
+  errors: string[];
+  duplicate: 'file' | 'registered' | null; // Repeated earlier in the file, or already registered for the event
+}
+
+export interface ImportResult {
+  rowNumber: number;
+  status: 'registered' | 'waitlisted' | 'skipped' | 'failed';
+  registrationId?: string;
+  passId?: string;
+  message?: string;
+}
+
+const FIELDS = Object.keys(ATTENDEE_FIELD_LABELS) as (keyof AttendeeFields)[];
+
+// Header spellings recognised without manual mapping, compared lowercase with punctuation removed
+const HEADER_ALIASES: Record<keyof AttendeeFields, string[]> = {
+  firstName: ['firstname', 'first', 'givenname', 'forename'],
+  lastName: ['lastname', 'last', 'surname', 'familyname'],
+  email: ['email', 'emailaddress', 'mail'],
+  phone: ['phone', 'phonenumber', 'mobile', 'mobilenumber', 'telephone', 'tel', 'cell'],
+  company: ['company', 'companyname', 'organisation', 'organization', 'employer'],
+};
+
+const normalizeHeader = (h: string) => h.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/** Read the first sheet of a CSV or XLSX file. Every cell comes back as trimmed text. */
+export function parseSpreadsheet(data: Buffer): ParsedSheet {
+  // raw: keep CSV cells as typed, so phone numbers keep their leading zeros and "+"
+  const workbook = XLSX.read(data, { type: 'buffer', raw: true });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!sheet) return { headers: [], rows: [] };
+
+  const table = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, raw: false, defval: '', blankrows: false });
+  if (!table.length) return { headers: [], rows: [] };
+
+  // Blank or repeated headers still need a unique name to be mappable
+  const seen = new Set<string>();
+  const headers = table[0].map((cell, i) => {
+    let header = String(cell ?? '').trim() || `Column ${i + 1}`;
+    while (seen.has(header)) header = `${header} (${i + 1})`;
+    seen.add(header);
+    return header;
+  });
+
+  const rows = table
+    .slice(1)
+    .map((cells) => Object.fromEntries(headers.map((h, i) => [h, String(cells[i] ?? '').trim()])))
+    .filter((row) => Object.values(row).some(Boolean));
+  return { headers, rows };
+}
+
+/** Map the columns whose headers look like a known field. */
+export function guessMapping(headers: string[]): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  for (const field of FIELDS) {
+    const match = headers.find((h) => HEADER_ALIASES[field].includes(normalizeHeader(h)));
+    if (match) mapping[field] = match;
+  }
+  return mapping;
+}
+
+/** Fields with no column mapped, or mapped to a column the file doesn't have. */
+export function unmappedFields(mapping: ColumnMapping, headers: string[]): (keyof AttendeeFields)[] {
+  return FIELDS.filter((field) => !mapping[field] || !headers.includes(mapping[field] as string));
+}
+
+/**
+ * Validate every row with the /public-register rules and flag duplicates: an email seen
+ * earlier in the file, or one whose user is already registered for the event (the
+ * EventRegistration userId/eventId unique constraint).
+ */
+export async function previewImport(sheet: ParsedSheet, mapping: ColumnMapping, eventId: string): Promise<PreviewRow[]> {
+  const rows = sheet.rows.map((row, i) => {
+    const fields = Object.fromEntries(FIELDS.map((f) => [f, mapping[f] ? row[mapping[f] as string] ?? '' : ''])) as unknown as AttendeeFields;
+    // Emails are matched without regard to case, in the file and against existing users
+    fields.email = normalizeEmail(fields.email);
+    return { rowNumber: i + 2, fields, errors: validateAttendee(fields), duplicate: null } as PreviewRow;
+  });
+
+  const emails = Array.from(new Set(rows.map((r) => r.fields.email).filter(Boolean)));
+  const registered = await prisma.user.findMany({
+    where: { email: { in: emails, mode: 'insensitive' }, events: { some: { eventId, deletedAt: null } } },
+    select: { email: true },
+  });
+  const alreadyRegistered = new Set(registered.map((u) => u.email.toLowerCase()));
+
+  const seenInFile = new Set<string>();
+  for (const row of rows) {
+    const key = row.fields.email;
+    if (!key) continue;
+    if (alreadyRegistered.has(key)) row.duplicate = 'registered';
+    else if (seenInFile.has(key)) row.duplicate = 'file';
+    seenInFile.add(key);
+  }
+  return rows;
+}
+
+/**
+ * Register every valid, non-duplicate row. Each row is its own transaction, like a
+ * /public-register submission, so one bad row doesn't undo the rest; capacity still
+ * applies and overflow goes to the waitlist. Every row gets `attendeeType` when given;
+ * rows past its quota are skipped.
+ */
+export async function commitImport(
+  rows: PreviewRow[],
+  event: { id: string; passIdPrefix: string | null; passIdStart: number | null },
+  occurrenceIds: string[],
+  actor: AuditActor,
+  attendeeType: AttendeeType | null = null
+): Promise<ImportResult[]> {
+  const results: ImportResult[] = [];
+
+  for (const row of rows) {
+    if (row.errors.length) {
+      results.push({ rowNumber: row.rowNumber, status: 'skipped', message: row.errors.join(' ') });
+      continue;
+    }
+    if (row.duplicate) {
+      const message = row.duplicate === 'file' ? 'Duplicate email in this file.' : 'Already registered for this event.';
+      results.push({ rowNumber: row.rowNumber, status: 'skipped', message });
+      continue;
+    }
+
+    const { firstName, lastName, email, phone, company } = row.fields;
+    try {
+      const registration = await prisma.$transaction(async (tx) => {
+        if (attendeeType) {
+          await lockEventForCapacity(tx, event.id);
+          const typeError = await attendeeTypeError(tx, attendeeType, occurrenceIds);
+          if (typeError) return typeError;
+        }
+        // Same linking as /public-register: reuse the user by email and refresh their details
+        const existing = await findUserByEmail(email, tx);
+        const trashedError = existing && (await trashedRegistrationError(tx, existing.id, event.id));
+        if (trashedError) return trashedError;
+        const user = existing
+          ? await tx.user.update({ where: { id: existing.id }, data: { firstName, lastName, phone, company } })
+          : await tx.user.create({ data: { email, firstName, lastName, phone, company } });
+        return createRegistration(tx, event, user.id, occurrenceIds, actor, undefined, attendeeType?.id);
+      }, {
+        maxWait: 10000,
+        timeout: 20000,
+      });
+      if (typeof registration === 'string') {
+        results.push({ rowNumber: row.rowNumber, status: 'skipped', message: registration });
+        continue;
+      }
+      results.push({
+        rowNumber: row.rowNumber,
+        status: registration.status === 'waitlisted' ? 'waitlisted' : 'registered',
+        registrationId: registration.id,
+        passId: registration.passId,
+      });
+    } catch (error) {
+      if (error instanceof PrismaClientKnownRequestError && error.code === 'P2002') {
+        results.push({ rowNumber: row.rowNumber, status: 'skipped', message: 'Already registered for this event.' });
+        continue;
+      }
+      console.error(`Import row ${row.rowNumber} failed:`, error);
+      results.push({ rowNumber: row.rowNumber, status: 'failed', message: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  }
+
+  return results;
+}
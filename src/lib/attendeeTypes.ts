@@ -0,0 +1,114 @@
+// src/lib/attendeeTypes.ts
+// Per-event attendee categories (Visitor, Speaker, ...). Kept free of server-only imports so
+// the type editor and /public-register share the presets and checks with the API.
+
+/** Starting points offered by the type editor; organizers can rename and recolour them. */
+export const ATTENDEE_TYPE_PRESETS: Omit<AttendeeTypeInput, 'sessionIds'>[] = [
+  { name: 'Visitor', badgeLabel: 'VISITOR', badgeColor: '#1a1a66', quota: null, selfService: true },
+  { name: 'Speaker', badgeLabel: 'SPEAKER', badgeColor: '#b91c1c', quota: null, selfService: false },
+  { name: 'Exhibitor', badgeLabel: 'EXHIBITOR', badgeColor: '#047857', quota: null, selfService: false },
+  { name: 'VIP', badgeLabel: 'VIP', badgeColor: '#b45309', quota: null, selfService: false },
+  { name: 'Staff', badgeLabel: 'STAFF', badgeColor: '#374151', quota: null, selfService: false },
+];
+
+export const MAX_ATTENDEE_TYPES = 20;
+const MAX_NAME_LENGTH = 60;
+const MAX_BADGE_LABEL_LENGTH = 30;
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+/** What to load with an AttendeeType: the ids of the sessions it is limited to. */
+export const ATTENDEE_TYPE_INCLUDE = { sessions: { select: { id: true } } } as const;
+
+/** An attendee type as stored (with ATTENDEE_TYPE_INCLUDE) and as sent to the browser. */
+export interface AttendeeType {
+  id: string;
+  name: string;
+  badgeLabel: string;
+  badgeColor: string;
+  quota: number | null;
+  selfService: boolean;
+  sessions: { id: string }[]; // Empty: every session
+}
+
+/** A type as submitted by the type editor; new types have no id yet. */
+export interface AttendeeTypeInput {
+  id?: string;
+  name: string;
+  badgeLabel: string;
+  badgeColor: string;
+  quota: number | null;
+  selfService: boolean;
+  sessionIds: string[];
+}
+
+/** Whether attendees of this type may book the session. */
+export const typeOffersSession = (type: Pick<AttendeeType, 'sessions'>, occurrenceId: string) =>
+  !type.sessions.length || type.sessions.some((s) => s.id === occurrenceId);
+
+/**
+ * The type a new registration gets. `requestedId` must be one of the event's types, and
+ * one staff assign only (selfService off) unless `byStaff`. With nothing requested the only
+ * self-service type is used; events without types, or without self-service types, leave
+ * the registration untyped for staff to assign later.
+ */
+export function chooseAttendeeType<T extends Pick<AttendeeType, 'id' | 'name' | 'selfService'>>(
+  types: T[],
+  requestedId: unknown,
+  byStaff: boolean
+): { type: T | null; error: null } | { type?: undefined; error: string } {
+  if (requestedId) {
+    const type = types.find((t) => t.id === requestedId);
+    if (!type || (!type.selfService && !byStaff)) return { error: 'Please choose one of the listed attendee types.' };
+    return { type, error: null };
+  }
+  const offered = types.filter((t) => t.selfService);
+  if (offered.length > 1) return { error: 'Please choose how you are attending.' };
+  return { type: offered[0] ?? null, error: null };
+}
+
+/** Check the type editor's list against the event's sessions. Types keep their submitted order. */
+export function validateAttendeeTypes(
+  input: unknown,
+  sessionIds: string[]
+): { types: AttendeeTypeInput[]; error: null } | { types?: undefined; error: string } {
+  if (!Array.isArray(input)) return { error: 'types must be a list.' };
+  if (input.length > MAX_ATTENDEE_TYPES) return { error: `An event can have at most ${MAX_ATTENDEE_TYPES} attendee types.` };
+
+  const types: AttendeeTypeInput[] = [];
+  const names = new Set<string>();
+  for (let index = 0; index < input.length; index++) {
+    const raw = input[index];
+    const name = typeof raw?.name === 'string' ? raw.name.trim() : '';
+    const label = name || `Type ${index + 1}`;
+    if (!name) return { error: `${label}: a name is required.` };
+    if (name.length > MAX_NAME_LENGTH) return { error: `${label}: the name must be at most ${MAX_NAME_LENGTH} characters.` };
+    if (names.has(name.toLowerCase())) return { error: `${label}: two types have this name.` };
+    names.add(name.toLowerCase());
+
+    const badgeLabel = typeof raw.badgeLabel === 'string' ? raw.badgeLabel.trim() : '';
+    if (badgeLabel.length > MAX_BADGE_LABEL_LENGTH) return { error: `${label}: the badge label must be at most ${MAX_BADGE_LABEL_LENGTH} characters.` };
+    if (!HEX_COLOR.test(raw.badgeColor ?? '')) return { error: `${label}: the badge colour must be in #rrggbb form.` };
+
+    let quota: number | null = null;
+    if (raw.quota !== undefined && raw.quota !== null && raw.quota !== '') {
+      quota = Number(raw.quota);
+      if (!Number.isInteger(quota) || quota < 1) return { error: `${label}: the quota must be a positive whole number.` };
+    }
+
+    const chosen: unknown[] = Array.isArray(raw.sessionIds) ? raw.sessionIds : [];
+    if (chosen.some((id) => typeof id !== 'string' || !sessionIds.includes(id))) {
+      return { error: `${label}: one or more sessions are not part of this event.` };
+    }
+
+    types.push({
+      id: typeof raw.id === 'string' && raw.id ? raw.id : undefined,
+      name,
+      badgeLabel,
+      badgeColor: raw.badgeColor.toLowerCase(),
+      quota,
+      selfService: raw.selfService === true,
+      sessionIds: Array.from(new Set(chosen as string[])),
+    });
+  }
+  return { types, error: null };
+}
@@ -0,0 +1,122 @@
+// src/lib/audit.ts
+import { Prisma } from '@prisma/client';
+import prisma from '@/lib/prisma';
+
+export const AUDIT_ENTITY_TYPES = ['event', 'occurrence', 'registration'] as const;
+export type AuditEntityType = (typeof AUDIT_ENTITY_TYPES)[number];
+
+export const isAuditEntityType = (value: unknown): value is AuditEntityType =>
+  AUDIT_ENTITY_TYPES.includes(value as AuditEntityType);
+
+/** Who made a change: staff, an attendee acting on their own registration, or null for the system. */
+export type AuditActor = { id: string; email: string; role: string } | null;
+
+export type AuditSnapshot = Record<string, unknown>;
+export type AuditChanges = Record<string, { before: unknown; after: unknown }>;
+
+export interface AuditEntry {
+  actor: AuditActor;
+  entityType: AuditEntityType;
+  entityId: string;
+  eventId?: string | null;
+  action: string;
+  before?: AuditSnapshot | null; // null/omitted for a create
+  after?: AuditSnapshot | null; // null/omitted for a delete
+}
+
+const normalize = (value: unknown): unknown =>
+  value instanceof Date ? value.toISOString() : Array.isArray(value) ? value.map(normalize) : value ?? null;
+
+/** Field-by-field differences between two snapshots; unchanged fields are left out. */
+export function diffSnapshots(before?: AuditSnapshot | null, after?: AuditSnapshot | null): AuditChanges {
+  const changes: AuditChanges = {};
+  const keys = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+  for (const key of Array.from(keys)) {
+    const b = normalize(before?.[key]);
+    const a = normalize(after?.[key]);
+    if (JSON.stringify(b) !== JSON.stringify(a)) changes[key] = { before: b, after: a };
+  }
+  return changes;
+}
+
+// Session times are wall-clock values stored as UTC, so they are logged without a zone
+const wallClock = (d: Date) => d.toISOString().slice(0, 16).replace('T', ' ');
+
+/** One line per session, e.g. "2025-06-19 15:00-16:45, Hall A, 40 seats". */
+export function sessionLabel(o: { startTime: Date; endTime: Date | null; location: string | null; maxCapacity?: number | null }) {
+  const time = o.endTime ? `${wallClock(o.startTime)}-${wallClock(o.endTime).slice(11)}` : wallClock(o.startTime);
+  return [time, o.location, o.maxCapacity ? `${o.maxCapacity} seats` : null].filter(Boolean).join(', ');
+}
+
+type SessionFields = { startTime: Date; endTime: Date | null; location: string | null; maxCapacity?: number | null };
+
+/** The audited fields of an event; pass live sessions only. */
+export function eventSnapshot(event: {
+  name: string;
+  description: string;
+  location: string;
+  googleMapsLink: string | null;
+  contactEmail: string | null;
+  contactPhone: string | null;
+  maxCapacity: number | null;
+  passIdPrefix: string | null;
+  passIdStart: number | null;
+  occurrences?: SessionFields[];
+}): AuditSnapshot {
+  const { name, description, location, googleMapsLink, contactEmail, contactPhone, maxCapacity, passIdPrefix, passIdStart } = event;
+  return {
+    name, description, location, googleMapsLink, contactEmail, contactPhone, maxCapacity, passIdPrefix, passIdStart,
+    ...(event.occurrences ? { sessions: event.occurrences.map(sessionLabel).sort() } : {}),
+  };
+}
+
+/** The audited fields of a registration; pass live sessions only. */
+export function registrationSnapshot(registration: {
+  status: string;
+  waitlistPosition: number | null;
+  passId: string;
+  attendeeType?: { name: string } | null;
+  selectedOccurrences?: { occurrence: SessionFields }[];
+}): AuditSnapshot {
+  const { status, waitlistPosition, passId } = registration;
+  return {
+    passId, status, waitlistPosition,
+    ...(registration.attendeeType !== undefined ? { attendeeType: registration.attendeeType?.name ?? null } : {}),
+    ...(registration.selectedOccurrences ? { sessions: registration.selectedOccurrences.map((so) => sessionLabel(so.occurrence)).sort() } : {}),
+  };
+}
+
+/**
+ * Append an entry to the audit log. Pass the transaction client when the change runs in a
+ * transaction, so the entry is written exactly when the change commits. An update that
+ * changed nothing is not logged.
+ */
+export async function recordAudit(entry: AuditEntry, db: Prisma.TransactionClient = prisma) {
+  const changes = diffSnapshots(entry.before, entry.after);
+  if (entry.action === 'update' && !Object.keys(changes).length) return;
+
+  await db.auditLog.create({
+    data: {
+      actorId: entry.actor?.id ?? null,
+      actorEmail: entry.actor?.email ?? null,
+      actorRole: entry.actor?.role ?? null,
+      entityType: entry.entityType,
+      entityId: entry.entityId,
+      eventId: entry.eventId ?? null,
+      action: entry.action,
+      changes: changes as Prisma.InputJsonObject,
+    },
+  });
+}
+
+/**
+ * Like recordAudit() for changes that have already been saved outside a transaction: a
+ * failure is logged rather than turned into an error for a change that did happen.
+ */
+export async function recordAuditSafely(entry: AuditEntry) {
+  try {
+    await recordAudit(entry);
+  } catch (error) {
+    console.error(`Failed to write audit entry (${entry.action} ${entry.entityType} ${entry.entityId}):`, error);
+  }
+}
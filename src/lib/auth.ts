@@ -0,0 +1,184 @@
+// src/lib/auth.ts
+import { NextResponse } from 'next/server';
+import crypto from 'crypto';
+import bcryptjs from 'bcryptjs';
+import jwt from 'jsonwebtoken';
+import prisma from '@/lib/prisma';
+import { CHECK_IN_STAFF, isRole, Role } from '@/lib/roles';
+import { findUserByEmail } from '@/lib/userEmail';
+
+export const AUTH_COOKIE = 'token';
+const SESSION_TTL_SECONDS = 60 * 60 * 8; // one working shift
+
+// Lockout: this many wrong passwords/PINs in a row locks the account for LOCKOUT_MINUTES
+const MAX_FAILED_LOGINS = 5;
+const LOCKOUT_MINUTES = 15;
+
+export const PIN_REGEX = /^[0-9]{4,8}$/;
+
+export interface SessionUser {
+  id: string;
+  email: string;
+  role: Role;
+}
+
+export const hashPassword = (password: string) => bcryptjs.hash(password, 10);
+
+export const verifyPassword = (password: string, hash: string) => bcryptjs.compare(password, hash);
+
+export type AuthenticateResult = { user: SessionUser } | { error: string; status: number };
+
+/**
+ * Check a staff member's password or PIN, applying the failed-attempt lockout.
+ * Unknown email and wrong secret give the same message so accounts can't be probed.
+ */
+export async function authenticate(
+  email: string,
+  secret: { password?: string; pin?: string }
+): Promise<AuthenticateResult> {
+  const invalid = { error: 'Invalid email or credentials.', status: 401 };
+
+  const user = await findUserByEmail(email);
+  if (!user) return invalid;
+
+  if (user.lockedUntil && user.lockedUntil > new Date()) {
+    const minutes = Math.ceil((user.lockedUntil.getTime() - Date.now()) / 60000);
+    return { error: `Too many failed attempts. Try again in ${minutes} minute(s).`, status: 423 };
+  }
+
+  const hash = secret.pin !== undefined ? user.pinHash : user.password;
+  const candidate = secret.pin !== undefined ? secret.pin : secret.password;
+  const ok = Boolean(hash && candidate) && (await verifyPassword(String(candidate), hash as string));
+
+  if (!ok) {
+    const updated = await prisma.user.update({
+      where: { id: user.id },
+      data: { failedLoginAttempts: { increment: 1 } },
+      select: { failedLoginAttempts: true },
+    });
+    if (updated.failedLoginAttempts >= MAX_FAILED_LOGINS) {
+      await prisma.user.update({
+        where: { id: user.id },
+        data: { failedLoginAttempts: 0, lockedUntil: new Date(Date.now() + LOCKOUT_MINUTES * 60000) },
+      });
+      return { error: `Too many failed attempts. Try again in ${LOCKOUT_MINUTES} minute(s).`, status: 423 };
+    }
+    return invalid;
+  }
+
+  if (!user.emailVerified) {
+    return { error: 'Please verify your email before signing in.', status: 403 };
+  }
+  if (!isRole(user.role) || !CHECK_IN_STAFF.includes(user.role)) {
+    return { error: 'This account does not have staff access.', status: 403 };
+  }
+
+  if (user.failedLoginAttempts || user.lockedUntil) {
+    await prisma.user.update({ where: { id: user.id }, data: { failedLoginAttempts: 0, lockedUntil: null } });
+  }
+
+  return { user: { id: user.id, email: user.email, role: user.role } };
+}
+
+/**
+ * Start a server-side session (a row in the Session table) and set the auth cookie on `res`.
+ * The cookie is an HS256 JWT carrying the session token, so `src/middleware.ts` can
+ * check it on the edge while API routes check the session row itself.
+ */
+export async function startSession(res: NextResponse, user: SessionUser) {
+  const sessionToken = crypto.randomBytes(32).toString('hex');
+  await prisma.session.create({
+    data: { sessionToken, userId: user.id, expires: new Date(Date.now() + SESSION_TTL_SECONDS * 1000) },
+  });
+
+  const token = jwt.sign({ id: user.id, email: user.email, role: user.role, sid: sessionToken }, process.env.TOKEN_SECRET!, {
+    algorithm: 'HS256',
+    expiresIn: SESSION_TTL_SECONDS,
+  });
+  res.cookies.set(AUTH_COOKIE, token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    maxAge: SESSION_TTL_SECONDS,
+  });
+}
+
+/** Delete the request's session row (if any) and clear the cookie on `res`. */
+export async function endSession(req: Request, res: NextResponse) {
+  const decoded = decodeToken(readToken(req));
+  if (decoded?.sid) {
+    await prisma.session.deleteMany({ where: { sessionToken: decoded.sid } });
+  }
+  res.cookies.set(AUTH_COOKIE, '', { httpOnly: true, path: '/', maxAge: 0 });
+}
+
+function readToken(req: Request): string {
+  const header = req.headers.get('authorization');
+  if (header?.startsWith('Bearer ')) return header.slice(7);
+
+  const cookie = req.headers.get('cookie') || '';
+  const match = cookie.split(/;\s*/).find((c) => c.startsWith(`${AUTH_COOKIE}=`));
+  return match ? decodeURIComponent(match.slice(AUTH_COOKIE.length + 1)) : '';
+}
+
+function decodeToken(token: string): { id: string; sid: string } | null {
+  if (!token) return null;
+  try {
+    return jwt.verify(token, process.env.TOKEN_SECRET!, { algorithms: ['HS256'] }) as { id: string; sid: string };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The signed-in user for this request, or null. The session row must still exist and be
+ * unexpired (logout deletes it), and the role is re-read from the database so a demoted
+ * user loses access immediately.
+ */
+export async function getSessionUser(req: Request): Promise<SessionUser | null> {
+  const decoded = decodeToken(readToken(req));
+  if (!decoded?.sid) return null;
+
+  const session = await prisma.session.findUnique({
+    where: { sessionToken: decoded.sid },
+    include: { user: { select: { id: true, email: true, role: true } } },
+  });
+  if (!session || session.userId !== decoded.id) return null;
+  if (session.expires < new Date()) {
+    await prisma.session.deleteMany({ where: { id: session.id } });
+    return null;
+  }
+  if (!isRole(session.user.role)) return null;
+  return { id: session.user.id, email: session.user.email, role: session.user.role };
+}
+
+/**
+ * Guard for API route handlers. Returns the session user, or a 401/403 response
+ * that the handler should return as-is:
+ *
+ *   const auth = await requireRole(req, EVENT_MANAGERS);
+ *   if (auth instanceof NextResponse) return auth;
+ */
+export async function requireRole(req: Request, roles: Role[]): Promise<SessionUser | NextResponse> {
+  const user = await getSessionUser(req);
+  if (!user) {
+    return NextResponse.json({ error: 'Authentication required.' }, { status: 401 });
+  }
+  if (!roles.includes(user.role)) {
+    return NextResponse.json({ error: 'You do not have permission to perform this action.' }, { status: 403 });
+  }
+  return user;
+}
+
+/**
+ * True when the request carries "Authorization: Bearer <CRON_SECRET>", as sent by Vercel Cron
+ * and scripts/cron-worker.mjs. Always false while CRON_SECRET is unset.
+ */
+export function isCronRequest(req: Request): boolean {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) return false;
+  const given = Buffer.from(req.headers.get('authorization') ?? '');
+  const expected = Buffer.from(`Bearer ${secret}`);
+  return given.length === expected.length && crypto.timingSafeEqual(given, expected);
+}
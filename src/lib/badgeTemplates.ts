@@ -0,0 +1,275 @@
+// src/lib/badgeTemplates.ts
+// Per-event pass designs. Kept free of server-only imports so the designer in the event
+// editor shares the defaults and checks with the API.
+
+export const BADGE_FIELDS = {
+  name: 'Full name',
+  firstName: 'First name',
+  lastName: 'Last name',
+  company: 'Company',
+  position: 'Job title',
+  email: 'Email',
+  answers: 'Form answers marked for the pass',
+} as const;
+export type BadgeField = keyof typeof BADGE_FIELDS;
+
+export const BADGE_ALIGNMENTS = ['left', 'center', 'right'] as const;
+export type BadgeAlignment = (typeof BADGE_ALIGNMENTS)[number];
+
+export const QR_POSITIONS = ['right', 'left', 'center'] as const;
+export type QrPosition = (typeof QR_POSITIONS)[number];
+
+/** Filled in from the event when the pass is drawn. */
+export const BADGE_PLACEHOLDERS: Record<string, string> = {
+  eventName: 'Event name',
+  eventDates: 'First to last session date, e.g. "19–20 June 2025"',
+  eventLocation: 'Event location',
+};
+
+export interface BadgeFieldPlacement {
+  field: BadgeField;
+  size: number; // Font size in points
+  align: BadgeAlignment;
+  bold: boolean;
+  uppercase: boolean;
+}
+
+export interface BadgeDesign {
+  title: string;
+  subtitle: string;
+  headerImage: string | null;
+  accentColor: string;
+  headerTextColor: string;
+  textColor: string;
+  roleLabel: string;
+  fields: BadgeFieldPlacement[];
+  qrPosition: QrPosition;
+  showBarcode: boolean;
+}
+
+// The look of the original hard-coded pass, with the event's own name and dates
+export const DEFAULT_BADGE_DESIGN: BadgeDesign = {
+  title: '{{eventName}}',
+  subtitle: '{{eventDates}}',
+  headerImage: null,
+  accentColor: '#1a1a66',
+  headerTextColor: '#ffffff',
+  textColor: '#000000',
+  roleLabel: 'VISITOR',
+  fields: [
+    { field: 'name', size: 18, align: 'center', bold: true, uppercase: true },
+    { field: 'company', size: 14, align: 'center', bold: false, uppercase: true },
+    { field: 'answers', size: 10, align: 'center', bold: false, uppercase: false },
+  ],
+  qrPosition: 'right',
+  showBarcode: true,
+};
+
+export const MIN_FONT_SIZE = 8;
+export const MAX_FONT_SIZE = 32;
+const MAX_BADGE_FIELDS = 8;
+const MAX_TEXT_LENGTH = 200;
+const MAX_ROLE_LABEL_LENGTH = 30;
+export const MAX_HEADER_IMAGE_BYTES = 1024 * 1024;
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+const IMAGE_DATA_URL = /^data:image\/(png|jpeg);base64,[A-Za-z0-9+/]+=*$/;
+
+/** The design stored for an event, or the default when it has none. */
+export function badgeDesignOf(stored: (Omit<BadgeDesign, 'fields' | 'qrPosition'> & { fields: unknown; qrPosition: string }) | null | undefined): BadgeDesign {
+  if (!stored) return DEFAULT_BADGE_DESIGN;
+  return {
+    title: stored.title,
+    subtitle: stored.subtitle,
+    headerImage: stored.headerImage,
+    accentColor: stored.accentColor,
+    headerTextColor: stored.headerTextColor,
+    textColor: stored.textColor,
+    roleLabel: stored.roleLabel,
+    fields: stored.fields as BadgeFieldPlacement[],
+    qrPosition: stored.qrPosition as QrPosition,
+    showBarcode: stored.showBarcode,
+  };
+}
+
+const MONTHS = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+
+/**
+ * "19 June 2025", "19–20 June 2025", "30 June – 2 July 2025" or "30 Dec 2025 – 2 Jan 2026"
+ * style range over the sessions. Session times are wall-clock values stored as UTC.
+ */
+export function eventDates(occurrences: { startTime: Date | string }[]): string {
+  if (!occurrences.length) return '';
+  const days = occurrences.map((o) => new Date(o.startTime)).sort((a, b) => a.getTime() - b.getTime());
+  const [first, last] = [days[0], days[days.length - 1]];
+  const day = (d: Date) => d.getUTCDate();
+  const month = (d: Date) => MONTHS[d.getUTCMonth()];
+  const year = (d: Date) => d.getUTCFullYear();
+
+  if (year(first) !== year(last)) return `${day(first)} ${month(first)} ${year(first)} – ${day(last)} ${month(last)} ${year(last)}`;
+  if (month(first) !== month(last)) return `${day(first)} ${month(first)} – ${day(last)} ${month(last)} ${year(last)}`;
+  if (day(first) !== day(last)) return `${day(first)}–${day(last)} ${month(last)} ${year(last)}`;
+  return `${day(first)} ${month(first)} ${year(first)}`;
+}
+
+/** Replace {{placeholders}} with the event's details; unknown ones are left as typed. */
+export function fillBadgeText(text: string, event: { name: string; location: string; occurrences?: { startTime: Date | string }[] }) {
+  const values: Record<string, string> = {
+    eventName: event.name,
+    eventDates: eventDates(event.occurrences ?? []),
+    eventLocation: event.location,
+  };
+  return text.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) => values[name] ?? match);
+}
+
+/** Check a design sent by the designer. Returns the cleaned design or an error message. */
+export function validateBadgeDesign(input: any): { design: BadgeDesign; error: null } | { design?: undefined; error: string } {
+  if (!input || typeof input !== 'object') return { error: 'A badge design is required.' };
+
+  const text = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+  const title = text(input.title);
+  const subtitle = text(input.subtitle);
+  const roleLabel = text(input.roleLabel);
+  if (title.length > MAX_TEXT_LENGTH || subtitle.length > MAX_TEXT_LENGTH) {
+    return { error: `The title and subtitle must be at most ${MAX_TEXT_LENGTH} characters.` };
+  }
+  if (roleLabel.length > MAX_ROLE_LABEL_LENGTH) return { error: `The role label must be at most ${MAX_ROLE_LABEL_LENGTH} characters.` };
+
+  for (const key of ['accentColor', 'headerTextColor', 'textColor'] as const) {
+    if (!HEX_COLOR.test(input[key] ?? '')) return { error: 'Colours must be in #rrggbb form.' };
+  }
+
+  const headerImage = input.headerImage || null;
+  if (headerImage !== null) {
+    if (typeof headerImage !== 'string' || !IMAGE_DATA_URL.test(headerImage)) return { error: 'The header image must be a PNG or JPEG.' };
+    // Base64 grows the file by a third
+    if (headerImage.length * 0.75 > MAX_HEADER_IMAGE_BYTES) return { error: 'The header image must be at most 1 MB.' };
+  }
+
+  if (!Array.isArray(input.fields) || input.fields.length > MAX_BADGE_FIELDS) {
+    return { error: `Choose up to ${MAX_BADGE_FIELDS} attendee details to print.` };
+  }
+  const fields: BadgeFieldPlacement[] = [];
+  for (const raw of input.fields) {
+    if (!raw || !Object.hasOwn(BADGE_FIELDS, raw.field)) return { error: 'Unknown attendee detail on the badge.' };
+    const size = Number(raw.size);
+    if (!Number.isInteger(size) || size < MIN_FONT_SIZE || size > MAX_FONT_SIZE) {
+      return { error: `Font sizes must be whole numbers from ${MIN_FONT_SIZE} to ${MAX_FONT_SIZE}.` };
+    }
+    if (!BADGE_ALIGNMENTS.includes(raw.align)) return { error: 'Unknown text alignment.' };
+    fields.push({ field: raw.field, size, align: raw.align, bold: raw.bold === true, uppercase: raw.uppercase === true });
+  }
+
+  if (!QR_POSITIONS.includes(input.qrPosition)) return { error: 'Unknown QR code position.' };
+
+  return {
+    design: {
+      title,
+      subtitle,
+      headerImage,
+      accentColor: input.accentColor.toLowerCase(),
+      headerTextColor: input.headerTextColor.toLowerCase(),
+      textColor: input.textColor.toLowerCase(),
+      roleLabel,
+      fields,
+      qrPosition: input.qrPosition,
+      showBarcode: input.showBarcode !== false,
+    },
+    error: null,
+  };
+}
+
+const MM = 72 / 25.4;
+const INCH = 72;
+
+/** A sheet that batch printing fills with badges, in PDF points; margins are from the top left. */
+export interface BadgeSheetLayout {
+  label: string;
+  pageSize: [number, number];
+  columns: number;
+  rows: number;
+  cellWidth: number;
+  cellHeight: number;
+  marginLeft: number;
+  marginTop: number;
+  gapX: number;
+  gapY: number;
+  preCut: boolean; // Label stock and single-badge pages: no cut marks unless asked for
+}
+
+// Badges keep their proportions and are centred in each cell, so landscape label stock
+// prints a smaller badge
+export const BADGE_SHEET_LAYOUTS = {
+  'a4-4up': {
+    label: 'A4 paper, 4 per sheet',
+    pageSize: [210 * MM, 297 * MM],
+    columns: 2,
+    rows: 2,
+    cellWidth: 95 * MM,
+    cellHeight: 138.5 * MM,
+    marginLeft: 10 * MM,
+    marginTop: 10 * MM,
+    gapX: 0,
+    gapY: 0,
+    preCut: false,
+  },
+  a6: {
+    label: 'A6, 1 per sheet',
+    pageSize: [105 * MM, 148 * MM],
+    columns: 1,
+    rows: 1,
+    cellWidth: 105 * MM,
+    cellHeight: 148 * MM,
+    marginLeft: 0,
+    marginTop: 0,
+    gapX: 0,
+    gapY: 0,
+    preCut: true,
+  },
+  'label-4x6': {
+    label: '4 × 6" label (thermal label printers)',
+    pageSize: [4 * INCH, 6 * INCH],
+    columns: 1,
+    rows: 1,
+    cellWidth: 4 * INCH,
+    cellHeight: 6 * INCH,
+    marginLeft: 0,
+    marginTop: 0,
+    gapX: 0,
+    gapY: 0,
+    preCut: true,
+  },
+  'avery-5392': {
+    label: 'Avery 5392 / 5384: 4 × 3" badges, 6 per Letter sheet',
+    pageSize: [8.5 * INCH, 11 * INCH],
+    columns: 2,
+    rows: 3,
+    cellWidth: 4 * INCH,
+    cellHeight: 3 * INCH,
+    marginLeft: 0.25 * INCH,
+    marginTop: 1 * INCH,
+    gapX: 0,
+    gapY: 0,
+    preCut: true,
+  },
+  'avery-5390': {
+    label: 'Avery 5390: 3½ × 2¼" badges, 8 per Letter sheet',
+    pageSize: [8.5 * INCH, 11 * INCH],
+    columns: 2,
+    rows: 4,
+    cellWidth: 3.5 * INCH,
+    cellHeight: 2.25 * INCH,
+    marginLeft: 0.75 * INCH,
+    marginTop: 1 * INCH,
+    gapX: 0,
+    gapY: 0,
+    preCut: true,
+  },
+} satisfies Record<string, BadgeSheetLayout>;
+export type BadgeSheetLayoutId = keyof typeof BADGE_SHEET_LAYOUTS;
+
+export const BADGE_SORT_ORDERS = {
+  surname: 'Surname',
+  company: 'Company, then surname',
+} as const;
+export type BadgeSortOrder = keyof typeof BADGE_SORT_ORDERS;
@@ -0,0 +1,93 @@
+// src/lib/calendar.ts
+import { CalendarEvent } from '@/lib/ics';
+import { passPageLink } from '@/lib/passAccess';
+
+interface CalendarEventDetails {
+  id: string;
+  name: string;
+  description: string | null;
+  location: string;
+  googleMapsLink: string | null;
+  contactEmail: string | null;
+  contactPhone: string | null;
+}
+
+interface CalendarOccurrence {
+  id: string;
+  startTime: Date;
+  endTime: Date | null;
+  location: string | null;
+  sequence?: number;
+}
+
+/** The registration fields the calendar entries are built from. */
+export interface CalendarRegistration {
+  id: string;
+  passId: string;
+  accessToken: string | null;
+  status?: string;
+  event: CalendarEventDetails;
+  selectedOccurrences: { occurrence: CalendarOccurrence }[];
+}
+
+// Feeds are generated on request, so subscribers see session changes on their next poll
+export const CALENDAR_REFRESH_MINUTES = 60;
+
+export const eventCalendarUrl = (eventId: string) => `https://bri-event.vercel.app/api/events/${eventId}/calendar.ics`;
+export const passCalendarUrl = (accessToken: string) => `https://bri-event.vercel.app/api/public-pass/${accessToken}/calendar.ics`;
+
+function describeEvent(event: CalendarEventDetails, extra: string[] = []) {
+  return [
+    event.description,
+    event.googleMapsLink ? `Map: ${event.googleMapsLink}` : '',
+    event.contactEmail || event.contactPhone
+      ? `Contact: ${[event.contactEmail, event.contactPhone].filter(Boolean).join(', ')}`
+      : '',
+    ...extra,
+  ]
+    .filter(Boolean)
+    .join('\n\n');
+}
+
+function occurrenceEntry(event: CalendarEventDetails, occ: CalendarOccurrence, uid: string, description: string): CalendarEvent {
+  return {
+    uid,
+    start: occ.startTime,
+    end: occ.endTime,
+    summary: event.name,
+    location: occ.location || event.location,
+    description,
+    url: event.googleMapsLink,
+    organizer: event.contactEmail ? { name: event.name, email: event.contactEmail } : null,
+    sequence: occ.sequence,
+  };
+}
+
+const byStart = (a: CalendarOccurrence, b: CalendarOccurrence) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime();
+
+/** Every session of the event, for the public event feed. */
+export function eventCalendarEvents(event: CalendarEventDetails & { occurrences: CalendarOccurrence[] }): CalendarEvent[] {
+  const description = describeEvent(event);
+  return [...event.occurrences].sort(byStart).map((occ) => occurrenceEntry(event, occ, `${occ.id}@bri-event.vercel.app`, description));
+}
+
+/**
+ * One entry per session the registrant selected. Waitlisted registrations show as tentative
+ * and cancelled ones as cancelled, so a subscribed calendar follows the registration too.
+ */
+export function sessionCalendarEvents(registration: CalendarRegistration): CalendarEvent[] {
+  const { event } = registration;
+  const passLines = [`Pass ID: ${registration.passId}`, ...(registration.accessToken ? [`Pass: ${passPageLink(registration.accessToken)}`] : [])];
+  const description = describeEvent(event, passLines);
+  const status =
+    registration.status === 'cancelled' ? 'CANCELLED' : registration.status === 'waitlisted' ? 'TENTATIVE' : 'CONFIRMED';
+
+  return registration.selectedOccurrences
+    .map((so) => so.occurrence)
+    .sort(byStart)
+    .map((occ) => ({
+      // Stable per registration and session, so a re-sent file updates the entry instead of duplicating it
+      ...occurrenceEntry(event, occ, `${registration.id}-${occ.id}@bri-event.vercel.app`, description),
+      status,
+    }));
+}
@@ -0,0 +1,187 @@
+// src/lib/capacity.ts
+import { Prisma } from '@prisma/client';
+import prisma from '@/lib/prisma';
+import { PassEmailType, queueEventPassEmail, queueWaitlistEmail } from '@/lib/emailService';
+import { recordAudit } from '@/lib/audit';
+
+// Statuses that occupy a seat against Event.maxCapacity / EventOccurrence.maxCapacity.
+// "waitlisted" and "cancelled" registrations never count, and neither does anything in the trash.
+export const SEAT_HOLDING_STATUSES = ['registered', 'checked-in'];
+
+export const holdsSeat = (status: string | null | undefined) =>
+  SEAT_HOLDING_STATUSES.includes(String(status));
+
+/**
+ * Take a row lock on the event so capacity checks and waitlist promotions for the same
+ * event run one at a time. Must be called inside an interactive transaction.
+ */
+export async function lockEventForCapacity(tx: Prisma.TransactionClient, eventId: string) {
+  await tx.$queryRaw`SELECT "id" FROM "Event" WHERE "id" = ${eventId} FOR UPDATE`;
+}
+
+/**
+ * Returns true when there is a free seat at the event level AND in every one of the
+ * given occurrences. `excludeRegistrationId` lets a registration be re-checked without
+ * counting its own seat.
+ */
+export async function hasSeatFor(
+  tx: Prisma.TransactionClient,
+  eventId: string,
+  occurrenceIds: string[],
+  excludeRegistrationId?: string
+): Promise<boolean> {
+  const notSelf = excludeRegistrationId ? { NOT: { id: excludeRegistrationId } } : {};
+
+  const event = await tx.event.findUnique({ where: { id: eventId }, select: { maxCapacity: true } });
+  if (!event) return false;
+
+  if (event.maxCapacity) {
+    const taken = await tx.eventRegistration.count({
+      where: { eventId, status: { in: SEAT_HOLDING_STATUSES }, deletedAt: null, ...notSelf },
+    });
+    if (taken >= event.maxCapacity) return false;
+  }
+
+  if (occurrenceIds.length) {
+    const limited = await tx.eventOccurrence.findMany({
+      where: { id: { in: occurrenceIds }, maxCapacity: { not: null }, deletedAt: null },
+      select: { id: true, maxCapacity: true },
+    });
+    for (const occ of limited) {
+      const taken = await tx.eventOccurrenceRegistration.count({
+        where: {
+          occurrenceId: occ.id,
+          registration: { status: { in: SEAT_HOLDING_STATUSES }, deletedAt: null, ...notSelf },
+        },
+      });
+      if (taken >= (occ.maxCapacity as number)) return false;
+    }
+  }
+
+  return true;
+}
+
+/** Position for a registrant joining the back of the event's waitlist. */
+export async function nextWaitlistPosition(tx: Prisma.TransactionClient, eventId: string): Promise<number> {
+  const last = await tx.eventRegistration.aggregate({
+    where: { eventId, status: 'waitlisted', deletedAt: null },
+    _max: { waitlistPosition: true },
+  });
+  return (last._max.waitlistPosition ?? 0) + 1;
+}
+
+/** Re-number the waitlist 1..n (keeping queue order) after someone leaves it. */
+export async function compactWaitlist(tx: Prisma.TransactionClient, eventId: string) {
+  const queue = await tx.eventRegistration.findMany({
+    where: { eventId, status: 'waitlisted', deletedAt: null },
+    orderBy: [{ waitlistPosition: 'asc' }, { registrationDate: 'asc' }],
+    select: { id: true, waitlistPosition: true },
+  });
+  for (let i = 0; i < queue.length; i++) {
+    if (queue[i].waitlistPosition !== i + 1) {
+      await tx.eventRegistration.update({ where: { id: queue[i].id }, data: { waitlistPosition: i + 1 } });
+    }
+  }
+}
+
+/**
+ * Walk the event's waitlist in queue order and promote everyone who now fits.
+ * A registrant whose sessions are still full is skipped, so someone further back
+ * with different sessions can still move up. Returns the promoted registration IDs.
+ */
+export async function promoteFromWaitlist(tx: Prisma.TransactionClient, eventId: string): Promise<string[]> {
+  await lockEventForCapacity(tx, eventId);
+
+  const queue = await tx.eventRegistration.findMany({
+    where: { eventId, status: 'waitlisted', deletedAt: null },
+    orderBy: [{ waitlistPosition: 'asc' }, { registrationDate: 'asc' }],
+    select: { id: true, selectedOccurrences: { where: { occurrence: { deletedAt: null } }, select: { occurrenceId: true } } },
+  });
+
+  const promoted: string[] = [];
+  for (const reg of queue) {
+    const occurrenceIds = reg.selectedOccurrences.map((so) => so.occurrenceId);
+    if (await hasSeatFor(tx, eventId, occurrenceIds, reg.id)) {
+      await tx.eventRegistration.update({
+        where: { id: reg.id },
+        data: { status: 'registered', waitlistPosition: null },
+      });
+      await recordAudit(
+        {
+          actor: null,
+          entityType: 'registration',
+          entityId: reg.id,
+          eventId,
+          action: 'waitlist-promotion',
+          before: { status: 'waitlisted' },
+          after: { status: 'registered' },
+        },
+        tx
+      );
+      promoted.push(reg.id);
+    }
+  }
+
+  if (promoted.length) await compactWaitlist(tx, eventId);
+  return promoted;
+}
+
+/**
+ * Seats still free in each of the event's sessions, for showing to attendees.
+ * `null` means the session has no limit.
+ */
+export async function seatsLeftByOccurrence(
+  tx: Prisma.TransactionClient,
+  eventId: string
+): Promise<Record<string, number | null>> {
+  const occurrences = await tx.eventOccurrence.findMany({
+    where: { eventId, deletedAt: null },
+    select: { id: true, maxCapacity: true },
+  });
+  const left: Record<string, number | null> = {};
+  for (const occ of occurrences) {
+    if (!occ.maxCapacity) {
+      left[occ.id] = null;
+      continue;
+    }
+    const taken = await tx.eventOccurrenceRegistration.count({
+      where: { occurrenceId: occ.id, registration: { status: { in: SEAT_HOLDING_STATUSES }, deletedAt: null } },
+    });
+    left[occ.id] = Math.max(0, occ.maxCapacity - taken);
+  }
+  return left;
+}
+
+/**
+ * (Re-)send the email that matches the registration's current status: the pass (as the
+ * given kind of pass email) for a seat holder, the waitlist notice for a waitlisted registrant.
+ * Runs after the transaction commits and only queues the email; a failure is logged and does
+ * not undo the change that triggered it.
+ */
+export async function sendStatusEmail(registrationId: string, passEmail: PassEmailType = 'confirmation') {
+  try {
+    const registration = await prisma.eventRegistration.findUnique({
+      where: { id: registrationId, deletedAt: null },
+      include: {
+        user: true,
+        event: { include: { occurrences: { where: { deletedAt: null } } } },
+        selectedOccurrences: { where: { occurrence: { deletedAt: null } }, include: { occurrence: true } },
+      },
+    });
+    if (!registration) return;
+    if (holdsSeat(registration.status)) {
+      await queueEventPassEmail(registration.user.email, registration, passEmail);
+    } else if (registration.status === 'waitlisted') {
+      await queueWaitlistEmail(registration.user.email, registration);
+    }
+  } catch (error) {
+    console.error(`Failed to send status email for registration ${registrationId}:`, error);
+  }
+}
+
+/** Send the pass email to registrants promoted off the waitlist. */
+export async function notifyPromoted(registrationIds: string[]) {
+  for (const id of registrationIds) {
+    await sendStatusEmail(id, 'waitlist-promotion');
+  }
+}
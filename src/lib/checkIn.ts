@@ -0,0 +1,380 @@
+// src/lib/checkIn.ts
+import prisma from '@/lib/prisma';
+import { currentOccurrence, readPassCode, SessionRow } from '@/lib/checkInRules';
+import { passCodeError } from '@/lib/passCode';
+import { notifyAttendanceChanged } from '@/lib/attendance';
+import { recordAudit, recordAuditSafely, sessionLabel } from '@/lib/audit';
+import type { SessionUser } from '@/lib/auth';
+
+export type CheckInResult =
+  | 'ok'
+  | 'already'
+  | 'wrong-event'
+  | 'cancelled'
+  | 'waitlisted'
+  | 'not-today'
+  | 'not-checked-in'
+  | 'invalid-code'
+  | 'revoked'
+  | 'not-found';
+
+export interface CheckInOutcome {
+  result: CheckInResult;
+  message: string;
+  registration?: {
+    id: string;
+    passId: string;
+    name: string;
+    company: string | null;
+    eventName: string;
+  };
+  session?: {
+    occurrenceId: string;
+    startTime: Date;
+    location: string | null;
+    checkedInAt: Date | null;
+    checkedOutAt: Date | null;
+  };
+}
+
+interface CheckInRequest {
+  code: string; // As scanned; must be the pass's current signed code unless `manual`
+  manual?: boolean; // A pass ID typed in by staff, e.g. from a damaged badge; only revocation is checked
+  eventId?: string;
+  occurrenceId?: string; // Station locked to one session; otherwise worked out from the clock
+  tzOffsetMinutes?: number;
+  staff?: SessionUser; // Recorded on the session row and in the audit log
+  station?: string;
+}
+
+async function loadForScan(opts: CheckInRequest) {
+  const scanned = readPassCode(opts.code);
+  const registration = await prisma.eventRegistration.findUnique({
+    where: { passId: scanned.passId, deletedAt: null },
+    include: {
+      user: { select: { firstName: true, lastName: true, company: true } },
+      event: { select: { id: true, name: true } },
+      selectedOccurrences: {
+        where: { occurrence: { deletedAt: null } },
+        select: {
+          id: true,
+          checkedInAt: true,
+          checkedOutAt: true,
+          occurrence: { select: { id: true, startTime: true, endTime: true, location: true } },
+        },
+      },
+    },
+  });
+  if (!registration) {
+    return { error: { result: 'not-found', message: `No registration found for pass ${scanned.passId}.` } as CheckInOutcome };
+  }
+
+  const summary = {
+    id: registration.id,
+    passId: registration.passId,
+    name: `${registration.user.firstName || ''} ${registration.user.lastName || ''}`.trim(),
+    company: registration.user.company,
+    eventName: registration.event.name,
+  };
+
+  const codeError = opts.manual
+    ? registration.passRevokedAt
+      ? { result: 'revoked' as const, message: 'This pass has been revoked.' }
+      : null
+    : passCodeError(scanned, registration);
+  if (codeError) {
+    return { error: { ...codeError, registration: summary } as CheckInOutcome };
+  }
+  if (opts.eventId && registration.eventId !== opts.eventId) {
+    return { error: { result: 'wrong-event', message: `This pass is for ${registration.event.name}.`, registration: summary } as CheckInOutcome };
+  }
+  if (registration.status === 'cancelled') {
+    return { error: { result: 'cancelled', message: 'This registration has been cancelled.', registration: summary } as CheckInOutcome };
+  }
+  if (registration.status === 'waitlisted') {
+    return { error: { result: 'waitlisted', message: 'This attendee is still on the waitlist.', registration: summary } as CheckInOutcome };
+  }
+
+  const sessions = registration.selectedOccurrences;
+  const session = opts.occurrenceId
+    ? sessions.find((s) => s.occurrence.id === opts.occurrenceId) ?? null
+    : currentOccurrence(sessions, opts.tzOffsetMinutes ?? 0);
+  if (!session) {
+    const message = opts.occurrenceId ? 'Not registered for this session.' : "Not registered for any of today's sessions.";
+    return { error: { result: 'not-today', message, registration: summary } as CheckInOutcome };
+  }
+
+  return { error: null, registration, summary, session };
+}
+
+const sessionSummary = (session: SessionRow) => ({
+  occurrenceId: session.occurrence.id,
+  startTime: session.occurrence.startTime,
+  location: session.occurrence.location,
+  checkedInAt: session.checkedInAt,
+  checkedOutAt: session.checkedOutAt,
+});
+
+/**
+ * Check the holder of the scanned pass in to the current (or given) session, recording the time,
+ * the staff user and the station on that session's EventOccurrenceRegistration row.
+ * The registration's status becomes "checked-in" on its first check-in.
+ */
+export async function checkInByCode(opts: CheckInRequest): Promise<CheckInOutcome> {
+  const loaded = await loadForScan(opts);
+  if (loaded.error) return loaded.error;
+  const { registration, summary, session } = loaded;
+
+  const now = new Date();
+
+  if (session.checkedInAt && !session.checkedOutAt) {
+    return { result: 'already', message: 'Already checked in.', registration: summary, session: sessionSummary(session) };
+  }
+
+  // Conditional updates, so two stations scanning the same pass can't both report success
+  const { count } = session.checkedOutAt
+    ? // Re-entry after a check-out keeps the original arrival time
+      await prisma.eventOccurrenceRegistration.updateMany({
+        where: { id: session.id, checkedOutAt: { not: null } },
+        data: { checkedOutAt: null },
+      })
+    : await prisma.eventOccurrenceRegistration.updateMany({
+        where: { id: session.id, checkedInAt: null },
+        data: { checkedInAt: now, checkedInById: opts.staff?.id ?? null, checkInStation: opts.station || null },
+      });
+  if (count === 0) {
+    return { result: 'already', message: 'Already checked in.', registration: summary, session: sessionSummary(session) };
+  }
+
+  if (registration.status === 'registered') {
+    await prisma.eventRegistration.updateMany({
+      where: { id: registration.id, status: 'registered' },
+      data: { status: 'checked-in' },
+    });
+  }
+  notifyAttendanceChanged(registration.eventId);
+  await recordAuditSafely({
+    actor: opts.staff ?? null,
+    entityType: 'registration',
+    entityId: registration.id,
+    eventId: registration.eventId,
+    action: 'check-in',
+    after: {
+      session: sessionLabel(session.occurrence),
+      station: opts.station || null,
+      at: now,
+      reentry: !!session.checkedOutAt,
+      ...(opts.manual ? { manual: true } : {}),
+    },
+  });
+
+  const updated = { ...session, checkedInAt: session.checkedInAt ?? now, checkedOutAt: null };
+  return {
+    result: 'ok',
+    message: session.checkedOutAt ? 'Welcome back.' : 'Checked in.',
+    registration: summary,
+    session: sessionSummary(updated),
+  };
+}
+
+/** Record that the holder of the scanned pass left the current (or given) session. */
+export async function checkOutByCode(opts: CheckInRequest): Promise<CheckInOutcome> {
+  const loaded = await loadForScan(opts);
+  if (loaded.error) return loaded.error;
+  const { registration, summary, session } = loaded;
+
+  const now = new Date();
+  const { count } = await prisma.eventOccurrenceRegistration.updateMany({
+    where: { id: session.id, checkedInAt: { not: null }, checkedOutAt: null },
+    data: { checkedOutAt: now },
+  });
+  if (count === 0) {
+    const message = session.checkedOutAt ? 'Already checked out.' : 'Not checked in to this session.';
+    return { result: 'not-checked-in', message, registration: summary, session: sessionSummary(session) };
+  }
+  notifyAttendanceChanged(registration.eventId);
+  await recordAuditSafely({
+    actor: opts.staff ?? null,
+    entityType: 'registration',
+    entityId: registration.id,
+    eventId: registration.eventId,
+    action: 'check-out',
+    after: { session: sessionLabel(session.occurrence), station: opts.station || null, at: now, ...(opts.manual ? { manual: true } : {}) },
+  });
+
+  return { result: 'ok', message: 'Checked out.', registration: summary, session: sessionSummary({ ...session, checkedOutAt: now }) };
+}
+
+/** A check-in or check-out made at a station while it was offline, replayed on reconnect. */
+export interface OfflineCheckInOp {
+  id: string; // Generated by the station; echoed back so it can drop the op from its queue
+  passId: string;
+  code?: string; // The scanned pass code, checked again in case the pass was revoked meanwhile
+  manual?: boolean; // Pass ID typed in by staff; only revocation is checked again
+  occurrenceId: string;
+  mode: 'check-in' | 'check-out';
+  at: string; // ISO time of the scan at the station
+  station?: string;
+}
+
+export interface OfflineSyncResult {
+  opId: string;
+  status: 'applied' | 'conflict' | 'rejected';
+  message: string;
+  conflict?: {
+    passId: string;
+    name: string;
+    occurrenceId: string;
+    kept: { at: Date; station: string | null };
+    discarded: { at: Date; station: string | null };
+  };
+}
+
+// Latest scan time accepted from a station clock; anything later is treated as "now"
+const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+/**
+ * Did check-in A happen before check-in B? Earliest time wins; equal times fall back to the
+ * station label so every server and station agrees on the same winner whatever the replay order.
+ */
+const checkedInFirst = (a: { at: Date; station: string | null }, b: { at: Date; station: string | null }) =>
+  a.at.getTime() !== b.at.getTime() ? a.at < b.at : (a.station ?? '') < (b.station ?? '');
+
+/**
+ * Apply one queued offline op. Two stations checking the same person in to the same session
+ * is a conflict: the earliest check-in is kept (with its operator and station) and the other
+ * is reported back so staff can see it.
+ */
+export async function applyOfflineOp(op: OfflineCheckInOp, staff: SessionUser): Promise<OfflineSyncResult> {
+  const at = new Date(op.at);
+  if (isNaN(at.getTime())) {
+    return { opId: op.id, status: 'rejected', message: 'Invalid scan time.' };
+  }
+  const scannedAt = at.getTime() > Date.now() + MAX_CLOCK_SKEW_MS ? new Date() : at;
+  const station = op.station?.trim().slice(0, 100) || null;
+
+  let eventId: string | null = null;
+  const result = await prisma.$transaction(async (tx): Promise<OfflineSyncResult> => {
+    const row = await tx.eventOccurrenceRegistration.findFirst({
+      where: { occurrenceId: op.occurrenceId, occurrence: { deletedAt: null }, registration: { passId: op.passId, deletedAt: null } },
+      select: { id: true, registration: { select: { eventId: true } } },
+    });
+    if (!row) {
+      return { opId: op.id, status: 'rejected', message: `${op.passId} is not registered for that session.` };
+    }
+    eventId = row.registration.eventId;
+
+    // Serialise replays of the same session row from several stations
+    await tx.$queryRaw`SELECT "id" FROM "EventOccurrenceRegistration" WHERE "id" = ${row.id} FOR UPDATE`;
+    const session = await tx.eventOccurrenceRegistration.findUniqueOrThrow({
+      where: { id: row.id },
+      include: {
+        occurrence: { select: { startTime: true, endTime: true, location: true } },
+        registration: {
+          select: {
+            id: true,
+            status: true,
+            passId: true,
+            eventId: true,
+            passVersion: true,
+            passRevokedAt: true,
+            legacyPassCode: true,
+            user: { select: { firstName: true, lastName: true } },
+          },
+        },
+      },
+    });
+    const { registration } = session;
+    const name = `${registration.user.firstName || ''} ${registration.user.lastName || ''}`.trim();
+    const audit = (action: 'check-in' | 'check-out', details: Record<string, unknown> = {}) =>
+      recordAudit(
+        {
+          actor: staff,
+          entityType: 'registration',
+          entityId: registration.id,
+          eventId: row.registration.eventId,
+          action,
+          after: { session: sessionLabel(session.occurrence), station, at: scannedAt, offline: true, ...(op.manual ? { manual: true } : {}), ...details },
+        },
+        tx
+      );
+
+    if (registration.status === 'cancelled' || registration.status === 'waitlisted') {
+      return { opId: op.id, status: 'rejected', message: `${op.passId} is ${registration.status}.` };
+    }
+    // Whatever the op carries, a revoked pass is refused
+    if (registration.passRevokedAt) {
+      return { opId: op.id, status: 'rejected', message: `${op.passId}: This pass has been revoked.` };
+    }
+    // Manual entries and ops queued before stations sent the code along have no code to check
+    if (!op.manual && op.code !== undefined) {
+      const scanned = readPassCode(op.code);
+      const codeError = scanned.passId === op.passId ? passCodeError(scanned, registration) : { message: 'The scanned code is for another pass.' };
+      if (codeError) {
+        return { opId: op.id, status: 'rejected', message: `${op.passId}: ${codeError.message}` };
+      }
+    }
+
+    if (op.mode === 'check-out') {
+      if (!session.checkedInAt || scannedAt < session.checkedInAt) {
+        return { opId: op.id, status: 'rejected', message: `${op.passId} was not checked in to that session.` };
+      }
+      // Latest departure wins
+      if (!session.checkedOutAt || scannedAt > session.checkedOutAt) {
+        await tx.eventOccurrenceRegistration.update({ where: { id: session.id }, data: { checkedOutAt: scannedAt } });
+        await audit('check-out');
+      }
+      return { opId: op.id, status: 'applied', message: `${op.passId} checked out.` };
+    }
+
+    if (!session.checkedInAt) {
+      await tx.eventOccurrenceRegistration.update({
+        where: { id: session.id },
+        data: { checkedInAt: scannedAt, checkedInById: staff.id, checkInStation: station },
+      });
+      if (registration.status === 'registered') {
+        await tx.eventRegistration.update({ where: { id: registration.id }, data: { status: 'checked-in' } });
+      }
+      await audit('check-in');
+      return { opId: op.id, status: 'applied', message: `${op.passId} checked in.` };
+    }
+
+    // Re-entry after a recorded check-out
+    if (session.checkedOutAt && scannedAt > session.checkedOutAt) {
+      await tx.eventOccurrenceRegistration.update({ where: { id: session.id }, data: { checkedOutAt: null } });
+      await audit('check-in', { reentry: true });
+      return { opId: op.id, status: 'applied', message: `${op.passId} re-entered.` };
+    }
+
+    const existing = { at: session.checkedInAt, station: session.checkInStation };
+    const incoming = { at: scannedAt, station };
+    // The same op replayed after a dropped response
+    if (existing.at.getTime() === incoming.at.getTime() && existing.station === incoming.station) {
+      return { opId: op.id, status: 'applied', message: `${op.passId} checked in.` };
+    }
+
+    const incomingWins = checkedInFirst(incoming, existing);
+    if (incomingWins) {
+      await tx.eventOccurrenceRegistration.update({
+        where: { id: session.id },
+        data: { checkedInAt: scannedAt, checkedInById: staff.id, checkInStation: station },
+      });
+      await audit('check-in', { replaced: existing });
+    }
+    return {
+      opId: op.id,
+      status: 'conflict',
+      message: `${name || op.passId} was checked in at two stations; the earlier check-in was kept.`,
+      conflict: {
+        passId: op.passId,
+        name,
+        occurrenceId: op.occurrenceId,
+        kept: incomingWins ? incoming : existing,
+        discarded: incomingWins ? existing : incoming,
+      },
+    };
+  });
+
+  if (eventId && result.status !== 'rejected') notifyAttendanceChanged(eventId);
+  return result;
+}
@@ -0,0 +1,75 @@
+// src/lib/checkInRules.ts
+// Check-in rules shared by the server and the offline check-in station, so keep this file
+// free of server-only imports.
+
+/** Most queued offline scans a station may send in one sync request; larger queues go in chunks. */
+export const MAX_OPS_PER_SYNC = 500;
+
+// Doors open this long before a session starts
+const EARLY_CHECK_IN_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** What the scanner read: the pass it names and, for signed codes, the version and signature. */
+export interface ScannedPassCode {
+  passId: string;
+  version: number | null;
+  signature: string | null;
+}
+
+// "BRI-1188.2.Xk3_9aQ-", see passCode() in src/lib/passCode.ts
+const SIGNED_PASS_CODE = /^([A-Za-z0-9-]+)\.(\d{1,9})\.([A-Za-z0-9_-]+)$/;
+
+/**
+ * Read whatever the scanner picked up. Current passes carry a signed code in the QR code and
+ * barcode; older ones carry the bare pass ID, or the pass URL whose last path segment is the
+ * pass ID. Those are read too, so the station can say which pass was refused.
+ */
+export function readPassCode(raw: string): ScannedPassCode {
+  const code = raw.trim();
+  const signed = code.match(SIGNED_PASS_CODE);
+  if (signed) return { passId: signed[1], version: Number(signed[2]), signature: signed[3] };
+  const fromUrl = code.match(/\/(?:event-pass-pdf|view-pass)\/([^/?#\s]+)/);
+  return { passId: fromUrl ? decodeURIComponent(fromUrl[1]) : code, version: null, signature: null };
+}
+
+/**
+ * Start and end of "today" at the check-in station. `tzOffsetMinutes` is the browser's
+ * Date#getTimezoneOffset(), so the server agrees with the station about which day it is.
+ */
+function stationDay(tzOffsetMinutes: number, now = Date.now()) {
+  const offsetMs = tzOffsetMinutes * 60 * 1000;
+  const start = Math.floor((now - offsetMs) / DAY_MS) * DAY_MS + offsetMs;
+  return { start, end: start + DAY_MS };
+}
+
+export type SessionRow = {
+  id: string;
+  checkedInAt: Date | null;
+  checkedOutAt: Date | null;
+  occurrence: { id: string; startTime: Date; endTime: Date | null; location: string | null };
+};
+
+/**
+ * Pick the session a scan right now belongs to: one that is running (or opens within the
+ * hour), otherwise any of the registrant's sessions later today. Among several candidates,
+ * the one that started most recently wins.
+ */
+export function currentOccurrence<T extends SessionRow>(sessions: T[], tzOffsetMinutes: number, now = Date.now()): T | null {
+  const { start: dayStart, end: dayEnd } = stationDay(tzOffsetMinutes, now);
+  const byLatestStart = (a: T, b: T) => b.occurrence.startTime.getTime() - a.occurrence.startTime.getTime();
+
+  const running = sessions
+    .filter((s) => {
+      const start = s.occurrence.startTime.getTime();
+      // A session without an end time runs until the end of its day
+      const end = s.occurrence.endTime ? s.occurrence.endTime.getTime() : stationDay(tzOffsetMinutes, start).end;
+      return start - EARLY_CHECK_IN_MS <= now && now <= end;
+    })
+    .sort(byLatestStart);
+  if (running.length) return running[0];
+
+  const laterToday = sessions
+    .filter((s) => s.occurrence.startTime.getTime() >= dayStart && s.occurrence.startTime.getTime() < dayEnd)
+    .sort((a, b) => a.occurrence.startTime.getTime() - b.occurrence.startTime.getTime());
+  return laterToday[0] ?? null;
+}
@@ -0,0 +1,167 @@
+// src/lib/emailOutbox.ts
+import nodemailer from 'nodemailer';
+import type Mail from 'nodemailer/lib/mailer';
+import { Prisma } from '@prisma/client';
+import prisma from '@/lib/prisma';
+import { passAttachments } from '@/lib/passAttachments';
+
+// Retry schedule: 1, 2, 4, 8 ... minutes after each failure, capped at an hour.
+// After MAX_ATTEMPTS failures the email is marked "failed" and left for a human.
+const MAX_ATTEMPTS = 8;
+const BASE_RETRY_MS = 60_000;
+const MAX_RETRY_MS = 60 * 60_000;
+// A "sending" claim older than this is assumed dead (crashed or frozen function) and retried
+const CLAIM_TIMEOUT_MS = 10 * 60_000;
+const BATCH_SIZE = 20;
+
+export interface QueuedEmail {
+  toEmail: string;
+  subject: string;
+  html: string;
+  type: string;
+  registrationId?: string | null;
+  attachPass?: boolean;
+}
+
+export interface OutboxRunResult {
+  sent: number;
+  retrying: number;
+  failed: number;
+}
+
+// Configure your nodemailer transporter
+// You should store these credentials securely, e.g., in environment variables.
+const transporter = nodemailer.createTransport({
+  host: process.env.EMAIL_HOST,
+  port: parseInt(process.env.EMAIL_PORT || '587'), // Default to 587 if not set
+  secure: process.env.EMAIL_SECURE === 'true', // Use 'true' for 465, 'false' for 587 or 25
+  auth: {
+    user: process.env.EMAIL_USER,
+    pass: process.env.EMAIL_PASS,
+  },
+});
+
+/** Send right away, bypassing the outbox. Only for interactive sends such as a template test. */
+export const sendRenderedEmail = async (toEmail: string, subject: string, html: string, attachments: Mail.Attachment[] = []) => {
+  await transporter.sendMail({ from: process.env.EMAIL_FROM, to: toEmail, subject, html, attachments });
+};
+
+export const retryDelayMs = (attempts: number) => Math.min(BASE_RETRY_MS * 2 ** (attempts - 1), MAX_RETRY_MS);
+
+/**
+ * Store an email in the outbox and start delivering it in the background. Resolves once the
+ * row is saved, so callers never wait on (or fail because of) the mail server. Pass a
+ * transaction client to queue the email only if the transaction commits; call kickOutbox()
+ * afterwards to send it straight away.
+ */
+export async function queueEmail(email: QueuedEmail, db: Prisma.TransactionClient = prisma) {
+  const row = await db.outboundEmail.create({
+    data: {
+      toEmail: email.toEmail,
+      subject: email.subject,
+      html: email.html,
+      type: email.type,
+      registrationId: email.registrationId ?? null,
+      attachPass: !!email.attachPass,
+    },
+    select: { id: true },
+  });
+  kickOutbox();
+  return row;
+}
+
+// One background run per server process at a time; a request arriving mid-run asks for another pass
+let running: Promise<void> | null = null;
+let rerun = false;
+
+/**
+ * Deliver due emails without blocking the caller. On serverless hosts the process may be
+ * frozen once the response is sent; anything left is picked up by /api/cron/email-outbox.
+ */
+export function kickOutbox() {
+  if (running) {
+    rerun = true;
+    return;
+  }
+  running = (async () => {
+    do {
+      rerun = false;
+      await processOutbox().catch((error) => console.error('Email outbox run failed:', error));
+    } while (rerun);
+    running = null;
+  })();
+}
+
+/**
+ * Send every due email once. Each row is claimed with a conditional update before sending,
+ * so concurrent runs (several instances, cron plus a request) never send the same row twice.
+ */
+export async function processOutbox(now = new Date()): Promise<OutboxRunResult> {
+  const result: OutboxRunResult = { sent: 0, retrying: 0, failed: 0 };
+
+  const due = await prisma.outboundEmail.findMany({
+    where: { status: { in: ['queued', 'sending'] }, nextAttemptAt: { lte: now } },
+    orderBy: { nextAttemptAt: 'asc' },
+    take: BATCH_SIZE,
+  });
+
+  for (const email of due) {
+    const claim = await prisma.outboundEmail.updateMany({
+      where: { id: email.id, status: email.status, nextAttemptAt: email.nextAttemptAt },
+      data: {
+        status: 'sending',
+        attempts: { increment: 1 },
+        nextAttemptAt: new Date(Date.now() + CLAIM_TIMEOUT_MS),
+      },
+    });
+    if (claim.count === 0) continue;
+    const attempts = email.attempts + 1;
+
+    try {
+      const attachments = email.attachPass && email.registrationId ? await passAttachments(email.registrationId, email.html) : [];
+      await sendRenderedEmail(email.toEmail, email.subject, email.html, attachments);
+      await prisma.outboundEmail.update({
+        where: { id: email.id },
+        data: { status: 'sent', sentAt: new Date(), lastError: null },
+      });
+      console.log(`Email ${email.type} sent to ${email.toEmail} (attempt ${attempts})`);
+      result.sent++;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const giveUp = attempts >= MAX_ATTEMPTS;
+      await prisma.outboundEmail.update({
+        where: { id: email.id },
+        data: {
+          status: giveUp ? 'failed' : 'queued',
+          lastError: message.slice(0, 1000),
+          nextAttemptAt: new Date(Date.now() + (giveUp ? 0 : retryDelayMs(attempts))),
+        },
+      });
+      console.error(`Email ${email.type} to ${email.toEmail} failed (attempt ${attempts}/${MAX_ATTEMPTS}):`, message);
+      if (giveUp) result.failed++;
+      else result.retrying++;
+    }
+  }
+
+  return result;
+}
+
+/** Delivery log for one registration, newest first, without the message bodies. */
+export function emailHistory(registrationId: string) {
+  return prisma.outboundEmail.findMany({
+    where: { registrationId },
+    orderBy: { createdAt: 'desc' },
+    select: {
+      id: true,
+      type: true,
+      toEmail: true,
+      subject: true,
+      status: true,
+      attempts: true,
+      nextAttemptAt: true,
+      lastError: true,
+      createdAt: true,
+      sentAt: true,
+    },
+  });
+}
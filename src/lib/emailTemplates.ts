@@ -0,0 +1,390 @@
+// src/lib/emailTemplates.ts
+import QRCode from 'qrcode';
+import prisma from '@/lib/prisma';
+import { manageLink } from '@/lib/manageToken';
+import { passCode } from '@/lib/passCode';
+import { passPdfLink } from '@/lib/passAccess';
+
+export const EMAIL_TEMPLATE_TYPES = [
+  'confirmation',
+  'reminder',
+  'update',
+  'schedule-change',
+  'waitlist',
+  'waitlist-promotion',
+  'cancellation',
+] as const;
+export type EmailTemplateType = (typeof EMAIL_TEMPLATE_TYPES)[number];
+
+export const isEmailTemplateType = (value: unknown): value is EmailTemplateType =>
+  EMAIL_TEMPLATE_TYPES.includes(value as EmailTemplateType);
+
+export const EMAIL_TEMPLATE_LABELS: Record<EmailTemplateType, string> = {
+  confirmation: 'Registration confirmation',
+  reminder: 'Reminder',
+  update: 'Registration updated',
+  'schedule-change': 'Schedule changed',
+  waitlist: 'Added to waitlist',
+  'waitlist-promotion': 'Promoted from waitlist',
+  cancellation: 'Cancellation',
+};
+
+/** Everything a template can use, as {{name}}. */
+export const EMAIL_PLACEHOLDERS: Record<string, string> = {
+  'attendee.firstName': "Attendee's first name",
+  'attendee.lastName': "Attendee's last name",
+  'attendee.fullName': "Attendee's full name",
+  'attendee.email': "Attendee's email address",
+  'attendee.company': "Attendee's company",
+  'event.name': 'Event name',
+  'event.description': 'Event description',
+  'event.location': 'Main event location',
+  'event.mapLink': 'Google Maps link (may be empty)',
+  'event.contactEmail': 'Organiser contact email (may be empty)',
+  'event.contactPhone': 'Organiser contact phone (may be empty)',
+  'event.details': 'Box with the event name, location, map and contact details',
+  'event.contact': '"Questions? Contact us at ..." line, empty when the event has no contact details',
+  'sessions.list': "List of the attendee's sessions with date, time and location",
+  'sessions.first.date': 'Date of the first session',
+  'sessions.first.time': 'Start and end time of the first session',
+  'sessions.first.location': 'Location of the first session',
+  'pass.id': 'Pass ID, e.g. BRI-1188',
+  'pass.qrCode': 'QR code image for check-in',
+  'pass.pdfLink': 'Link to download the PDF pass',
+  'pass.manageLink': 'Link where the attendee can change sessions or cancel',
+  'waitlist.position': 'Waitlist position (waitlist emails only)',
+  'changes.list': 'What changed in the sessions the attendee booked (schedule change emails only)',
+};
+
+// These expand to ready-made HTML, so they are inserted as-is; every other value is escaped
+const HTML_PLACEHOLDERS = ['event.details', 'event.contact', 'sessions.list', 'pass.qrCode', 'changes.list'];
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([\w.]+)\s*\}\}/g;
+
+/** Placeholder names used in `text` that don't exist, so a typo is caught when saving. */
+export function unknownPlaceholders(text: string): string[] {
+  const names = Array.from(text.matchAll(PLACEHOLDER_PATTERN), (m) => m[1]);
+  return Array.from(new Set(names.filter((name) => !Object.hasOwn(EMAIL_PLACEHOLDERS, name))));
+}
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+
+function renderTemplate(text: string, vars: Record<string, string>, html: boolean) {
+  return text.replace(PLACEHOLDER_PATTERN, (_, name: string) => {
+    const value = Object.hasOwn(vars, name) ? vars[name] : '';
+    if (!html) return value.replace(/<[^>]*>/g, '').replace(/\s+/g, ' ').trim();
+    return HTML_PLACEHOLDERS.includes(name) ? value : escapeHtml(value);
+  });
+}
+
+/** The registration fields templates draw on; a Prisma registration with user, event and sessions fits. */
+export interface TemplateRegistration {
+  id: string;
+  passId: string;
+  eventId: string;
+  passVersion: number;
+  passRevokedAt?: Date | null;
+  accessToken: string | null;
+  waitlistPosition?: number | null;
+  user: { firstName: string | null; lastName: string | null; email: string; company?: string | null };
+  event: {
+    name: string;
+    description: string | null;
+    location: string;
+    googleMapsLink: string | null;
+    contactEmail: string | null;
+    contactPhone: string | null;
+  };
+  selectedOccurrences?: { occurrence: { startTime: Date; endTime: Date | null; location: string | null } }[];
+  // Only for schedule-change emails: the edits to this attendee's sessions
+  scheduleChanges?: { kind: 'moved' | 'removed'; before: SessionTime; after?: SessionTime }[];
+}
+
+type SessionTime = { startTime: Date; endTime: Date | null; location: string | null };
+
+// Session times are stored as the event's wall-clock time in UTC
+const formatDate = (d: Date) =>
+  new Date(d).toLocaleDateString('en-US', { weekday: 'short', year: 'numeric', month: 'short', day: 'numeric', timeZone: 'UTC' });
+const formatTime = (d: Date) =>
+  new Date(d).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', hour12: true, timeZone: 'UTC' });
+const formatTimeRange = (o: { startTime: Date; endTime: Date | null }) =>
+  `${formatTime(o.startTime)}${o.endTime ? ` – ${formatTime(o.endTime)}` : ''}`;
+
+
+function eventDetailsHtml(event: TemplateRegistration['event']) {
+  const row = (icon: string, label: string, value: string) => `
+              <li style="margin-bottom: 8px; font-size: 15px; color: #555555;">
+                <strong style="color: #007bff;">${icon} ${label}:</strong> ${value}
+              </li>`;
+  const link = (href: string, text: string) =>
+    `<a href="${escapeHtml(href)}" style="color: #007bff; text-decoration: none; word-break: break-all;">${escapeHtml(text)}</a>`;
+  return `
+      <table width="100%" cellpadding="0" cellspacing="0" border="0" style="margin-bottom: 30px;">
+        <tr>
+          <td style="padding: 15px; border-left: 5px solid #ffc107; background-color: #fffde7; border-radius: 8px;">
+            <p style="font-size: 18px; font-weight: bold; color: #333333; margin-bottom: 10px;">Event Details:</p>
+            <ul style="list-style: none; padding: 0; margin: 0;">${[
+              row('&#128197;', 'Event Name', escapeHtml(event.name)),
+              row('&#128205;', 'Main Location', escapeHtml(event.location)),
+              event.googleMapsLink ? row('&#128279;', 'View on Map', link(event.googleMapsLink, event.googleMapsLink)) : '',
+              event.contactEmail ? row('&#9993;', 'Contact Email', link(`mailto:${event.contactEmail}`, event.contactEmail)) : '',
+              event.contactPhone ? row('&#128222;', 'Contact Phone', escapeHtml(event.contactPhone)) : '',
+            ].join('')}
+            </ul>
+          </td>
+        </tr>
+      </table>`;
+}
+
+function eventContactHtml(event: TemplateRegistration['event']) {
+  const parts = [
+    event.contactEmail
+      ? `<a href="mailto:${escapeHtml(event.contactEmail)}" style="color: #007bff; text-decoration: none;">${escapeHtml(event.contactEmail)}</a>`
+      : '',
+    event.contactPhone ? escapeHtml(event.contactPhone) : '',
+  ].filter(Boolean);
+  return parts.length ? `<p style="font-size: 15px; line-height: 1.6; color: #555555;">Questions? Contact us at ${parts.join(' or ')}.</p>` : '';
+}
+
+function sessionsHtml(registration: TemplateRegistration) {
+  const sessions = (registration.selectedOccurrences ?? [])
+    .map((so) => so.occurrence)
+    .sort((a, b) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime());
+  if (!sessions.length) return '';
+  const items = sessions
+    .map((occ) => {
+      const locationDetail = occ.location && occ.location !== registration.event.location ? ` (${escapeHtml(occ.location)})` : '';
+      return `
+            <li style="margin-bottom: 10px; font-size: 14px; color: #555555; line-height: 1.5;">
+              <strong style="color: #007bff;">&#9200; Date & Time:</strong> ${formatDate(occ.startTime)}, ${formatTimeRange(occ)}<br/>
+              <strong style="color: #007bff;">&#128205; Location:</strong> ${escapeHtml(registration.event.location)}${locationDetail}
+            </li>`;
+    })
+    .join('');
+  return `
+      <p style="font-size: 16px; color: #333333; margin-bottom: 15px; font-weight: bold;">Your Registered Sessions:</p>
+      <table width="100%" cellpadding="0" cellspacing="0" border="0" style="margin-bottom: 20px;">
+        <tr>
+          <td style="padding: 10px; background-color: #f9f9f9; border-radius: 8px;">
+            <ul style="list-style: none; padding: 0; margin: 0;">${items}
+            </ul>
+          </td>
+        </tr>
+      </table>`;
+}
+
+/** Content-ID of the inline QR image attached to queued pass emails (see src/lib/passAttachments.ts). */
+export const PASS_QR_CID = 'pass-qr@bri-event';
+
+function changesHtml(registration: TemplateRegistration) {
+  const changes = registration.scheduleChanges ?? [];
+  if (!changes.length) return '';
+  const describe = (s: SessionTime) =>
+    `${formatDate(s.startTime)}, ${formatTimeRange(s)} (${escapeHtml(s.location || registration.event.location)})`;
+  const items = changes
+    .map((change) =>
+      change.kind === 'moved' && change.after
+        ? `
+            <li style="margin-bottom: 10px; font-size: 14px; color: #555555; line-height: 1.5;">
+              <strong style="color: #17a2b8;">Moved:</strong> <s>${describe(change.before)}</s><br/>now ${describe(change.after)}
+            </li>`
+        : `
+            <li style="margin-bottom: 10px; font-size: 14px; color: #555555; line-height: 1.5;">
+              <strong style="color: #dc3545;">Cancelled:</strong> ${describe(change.before)}
+            </li>`
+    )
+    .join('');
+  return `
+      <table width="100%" cellpadding="0" cellspacing="0" border="0" style="margin-bottom: 20px;">
+        <tr>
+          <td style="padding: 10px; border-left: 5px solid #17a2b8; background-color: #e8f7fa; border-radius: 8px;">
+            <ul style="list-style: none; padding: 0; margin: 0;">${items}
+            </ul>
+          </td>
+        </tr>
+      </table>`;
+}
+
+async function templateVariables(
+  registration: TemplateRegistration,
+  usesQrCode: boolean,
+  qrAsCid: boolean
+): Promise<Record<string, string>> {
+  const { user, event } = registration;
+  const first = (registration.selectedOccurrences ?? [])
+    .map((so) => so.occurrence)
+    .sort((a, b) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime())[0];
+  // Many mail clients block data: images, so real sends reference an attached image instead.
+  // A revoked pass has no code to show until it is reissued.
+  const qrCode =
+    !usesQrCode || registration.passRevokedAt ? '' : qrAsCid ? `cid:${PASS_QR_CID}` : await QRCode.toDataURL(passCode(registration));
+
+  return {
+    'attendee.firstName': user.firstName || '',
+    'attendee.lastName': user.lastName || '',
+    'attendee.fullName': `${user.firstName || ''} ${user.lastName || ''}`.trim(),
+    'attendee.email': user.email,
+    'attendee.company': user.company || '',
+    'event.name': event.name,
+    'event.description': event.description || '',
+    'event.location': event.location,
+    'event.mapLink': event.googleMapsLink || '',
+    'event.contactEmail': event.contactEmail || '',
+    'event.contactPhone': event.contactPhone || '',
+    'event.details': eventDetailsHtml(event),
+    'event.contact': eventContactHtml(event),
+    'sessions.list': sessionsHtml(registration),
+    'sessions.first.date': first ? formatDate(first.startTime) : '',
+    'sessions.first.time': first ? formatTimeRange(first) : '',
+    'sessions.first.location': first ? first.location || event.location : '',
+    'pass.id': registration.passId,
+    'pass.qrCode': qrCode
+      ? `<img src="${qrCode}" alt="QR Code for Event Pass" style="width: 180px; height: 180px; border: 4px solid #007bff; border-radius: 10px; display: block; margin: 0 auto;">`
+      : '',
+    'pass.pdfLink': registration.accessToken ? passPdfLink(registration.accessToken) : '',
+    'pass.manageLink': manageLink(registration),
+    'waitlist.position': registration.waitlistPosition ? String(registration.waitlistPosition) : '',
+    'changes.list': changesHtml(registration),
+  };
+}
+
+const P = 'style="font-size: 16px; line-height: 1.6; margin-bottom: 20px;"';
+const SIGN_OFF = `<p ${P}>Best regards,<br/>The {{event.name}} team</p>`;
+const PASS_BLOCK = `
+<p style="font-size: 16px; color: #333333; margin-top: 25px; margin-bottom: 15px; text-align: center; font-weight: bold;">Your Event Pass:</p>
+<div style="text-align: center; margin-bottom: 30px;">
+  <p style="font-size: 15px; color: #555555; margin-bottom: 10px;">Please present this QR code at the entrance for quick check-in:</p>
+  {{pass.qrCode}}
+  <p style="font-size: 14px; color: #555555; margin-top: 15px;"><strong>Pass ID:</strong> <span style="color: #007bff;">{{pass.id}}</span></p>
+  <a href="{{pass.pdfLink}}" style="display: inline-block; background-color: #dc3545; color: #ffffff; padding: 12px 25px; border-radius: 8px; text-decoration: none; font-weight: bold; margin-top: 20px;">Download PDF Pass</a>
+  <p style="font-size: 14px; color: #555555; margin-top: 20px;">
+    Need to change your sessions or can't make it?
+    <a href="{{pass.manageLink}}" style="color: #007bff; text-decoration: none;">Manage your registration</a>
+  </p>
+</div>`;
+
+/** Built-in wording, used until an organiser saves their own for the event. */
+export const DEFAULT_EMAIL_TEMPLATES: Record<EmailTemplateType, { subject: string; body: string }> = {
+  confirmation: {
+    subject: 'Your registration for {{event.name}} is confirmed',
+    body: `<p ${P}>Dear {{attendee.fullName}},</p>
+<p ${P}>Thank you for registering for <strong>{{event.name}}</strong>. Your place is confirmed and we're excited to have you join us!</p>
+{{event.details}}
+{{sessions.list}}
+${PASS_BLOCK}
+<p ${P}>If you have any questions, please don't hesitate to reach out.</p>
+${SIGN_OFF}`,
+  },
+  reminder: {
+    subject: 'Reminder: {{event.name}} is coming up',
+    body: `<p ${P}>Dear {{attendee.fullName}},</p>
+<p ${P}>This is a friendly reminder about your registration for <strong>{{event.name}}</strong>. Your session is on {{sessions.first.date}} at {{sessions.first.time}}.</p>
+{{event.details}}
+{{sessions.list}}
+${PASS_BLOCK}
+<p ${P}>We can't wait to see you!</p>
+${SIGN_OFF}`,
+  },
+  update: {
+    subject: 'Your registration for {{event.name}} has been updated',
+    body: `<p ${P}>Dear {{attendee.fullName}},</p>
+<p ${P}>Your registration for <strong>{{event.name}}</strong> has been updated. Here are your sessions now:</p>
+{{sessions.list}}
+${PASS_BLOCK}
+{{event.contact}}
+${SIGN_OFF}`,
+  },
+  'schedule-change': {
+    subject: 'Schedule change for {{event.name}}',
+    body: `<p ${P}>Dear {{attendee.fullName}},</p>
+<p ${P}>The organisers have changed the schedule for <strong>{{event.name}}</strong>, and it affects the sessions you booked:</p>
+{{changes.list}}
+<p ${P}>Here is your schedule now. If it no longer works for you, you can pick other sessions or cancel using the link below.</p>
+{{sessions.list}}
+${PASS_BLOCK}
+{{event.contact}}
+${SIGN_OFF}`,
+  },
+  waitlist: {
+    subject: "You're on the waitlist for {{event.name}}",
+    body: `<p ${P}>Dear {{attendee.fullName}},</p>
+<p ${P}>Thank you for registering for <strong>{{event.name}}</strong>. The event (or one of the sessions you selected) is currently full,
+so we have added you to the waitlist at position <strong>#{{waitlist.position}}</strong>.</p>
+<p ${P}>If a place becomes available you will be moved up automatically and we will email you your event pass.</p>
+<p ${P}>No longer able to attend? <a href="{{pass.manageLink}}" style="color: #007bff; text-decoration: none;">Leave the waitlist or change your sessions</a>.</p>
+{{event.contact}}
+${SIGN_OFF}`,
+  },
+  'waitlist-promotion': {
+    subject: 'Good news: a place has opened up at {{event.name}}',
+    body: `<p ${P}>Dear {{attendee.fullName}},</p>
+<p ${P}>A place has become available and you have been moved off the waitlist for <strong>{{event.name}}</strong>. Your registration is now confirmed.</p>
+{{event.details}}
+{{sessions.list}}
+${PASS_BLOCK}
+${SIGN_OFF}`,
+  },
+  cancellation: {
+    subject: 'Your registration for {{event.name}} has been cancelled',
+    body: `<p ${P}>Dear {{attendee.fullName}},</p>
+<p ${P}>Your registration for <strong>{{event.name}}</strong> (Pass ID <strong>{{pass.id}}</strong>) has been cancelled
+and your pass is no longer valid. We hope to see you at a future event.</p>
+{{event.contact}}
+${SIGN_OFF}`,
+  },
+};
+
+// Header colour per kind of email
+const ACCENTS: Record<EmailTemplateType, { background: string; text: string }> = {
+  confirmation: { background: '#007bff', text: '#ffffff' },
+  reminder: { background: '#007bff', text: '#ffffff' },
+  update: { background: '#17a2b8', text: '#ffffff' },
+  'schedule-change': { background: '#17a2b8', text: '#ffffff' },
+  waitlist: { background: '#ffc107', text: '#333333' },
+  'waitlist-promotion': { background: '#28a745', text: '#ffffff' },
+  cancellation: { background: '#6c757d', text: '#ffffff' },
+};
+
+function wrapEmailHtml(type: EmailTemplateType, eventName: string, body: string) {
+  const accent = ACCENTS[type];
+  return `
+        <div style="font-family: 'Helvetica Neue', Helvetica, Arial, sans-serif; max-width: 600px; margin: auto; border: 1px solid #e0e0e0; border-radius: 12px; overflow: hidden; background-color: #ffffff;">
+          <div style="background-color: ${accent.background}; padding: 25px; text-align: center;">
+            <h1 style="color: ${accent.text}; font-size: 26px; margin: 0; line-height: 1.2;">${escapeHtml(eventName)}</h1>
+          </div>
+          <div style="padding: 30px 25px; text-align: left; color: #333333;">
+            ${body}
+          </div>
+          <div style="background-color: #f4f4f4; padding: 20px; text-align: center; font-size: 12px; color: #777777; border-top: 1px solid #e0e0e0;">
+            This is an automated email. Please do not reply to this message.
+          </div>
+        </div>
+      `;
+}
+
+/** The event's saved template for `type`, or the built-in default. */
+export async function loadEmailTemplate(eventId: string, type: EmailTemplateType) {
+  const saved = await prisma.emailTemplate.findUnique({ where: { eventId_type: { eventId, type } } });
+  return saved
+    ? { subject: saved.subject, body: saved.body, customized: true, updatedAt: saved.updatedAt }
+    : { ...DEFAULT_EMAIL_TEMPLATES[type], customized: false, updatedAt: null };
+}
+
+/**
+ * Subject and full HTML for one email to one registrant. `draft` renders unsaved wording
+ * instead of the stored template (for the editor's preview and test send). With `qrAsCid`
+ * the QR code points at an inline attachment instead of embedding a data URL.
+ */
+export async function renderEmail(
+  type: EmailTemplateType,
+  registration: TemplateRegistration,
+  options: { draft?: { subject: string; body: string }; qrAsCid?: boolean } = {}
+) {
+  const template = options.draft ?? (await loadEmailTemplate(registration.eventId, type));
+  const vars = await templateVariables(registration, template.body.includes('pass.qrCode'), !!options.qrAsCid);
+  return {
+    subject: renderTemplate(template.subject, vars, false),
+    html: wrapEmailHtml(type, registration.event.name, renderTemplate(template.body, vars, true)),
+  };
+}
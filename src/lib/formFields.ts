@@ -0,0 +1,245 @@
+// src/lib/formFields.ts
+// Per-event registration form questions. Kept free of server-only imports so /public-register
+// can check answers with the same rules as the API.
+
+export const FORM_FIELD_TYPES = ['text', 'select', 'multi-select', 'checkbox', 'date'] as const;
+export type FormFieldType = (typeof FORM_FIELD_TYPES)[number];
+
+export const isFormFieldType = (value: unknown): value is FormFieldType => FORM_FIELD_TYPES.includes(value as FormFieldType);
+
+export const FORM_FIELD_TYPE_LABELS: Record<FormFieldType, string> = {
+  text: 'Text',
+  select: 'Dropdown',
+  'multi-select': 'Multiple choice',
+  checkbox: 'Checkbox',
+  date: 'Date',
+};
+
+export const MAX_FORM_FIELDS = 30;
+const MAX_LABEL_LENGTH = 200;
+const MAX_OPTIONS = 50;
+const MAX_TEXT_ANSWER_LENGTH = 2000;
+
+/** Validation rules. Each one applies to the type noted; the rest are dropped on save. */
+export interface FormFieldRules {
+  minLength?: number; // text
+  maxLength?: number; // text
+  pattern?: string; // text: regular expression the whole answer must match
+  patternMessage?: string; // text: shown when the pattern doesn't match
+  minDate?: string; // date, YYYY-MM-DD
+  maxDate?: string; // date, YYYY-MM-DD
+  minChoices?: number; // multi-select
+  maxChoices?: number; // multi-select
+}
+
+/** A form field as stored (EventFormField) and as sent to the browser. */
+export interface FormField {
+  id: string;
+  label: string;
+  type: string; // One of FORM_FIELD_TYPES
+  required: boolean;
+  options: string[];
+  helpText: string | null;
+  rules: unknown; // FormFieldRules, stored as JSON
+  showOnBadge: boolean;
+  attendeeTypes?: { id: string }[]; // Only asked of these attendee types; empty for everyone
+}
+
+/** A field as submitted by the form builder; new fields have no id yet. */
+export type FormFieldInput = Omit<FormField, 'id' | 'rules' | 'attendeeTypes'> & {
+  id?: string;
+  type: FormFieldType;
+  rules: FormFieldRules | null;
+  attendeeTypeIds: string[];
+};
+
+export type AnswerValue = string | string[] | boolean;
+export type FormAnswers = Record<string, AnswerValue>;
+
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+const isDay = (value: unknown): value is string => typeof value === 'string' && DATE_REGEX.test(value) && !Number.isNaN(Date.parse(value));
+const isCount = (value: unknown): value is number => Number.isInteger(value) && (value as number) >= 0;
+
+export const rulesOf = (field: Pick<FormField, 'rules'>) => (field.rules ?? {}) as FormFieldRules;
+
+function fullMatch(pattern: string) {
+  try {
+    return new RegExp(`^(?:${pattern})$`);
+  } catch {
+    return null;
+  }
+}
+
+const isEmpty = (value: unknown) =>
+  value === undefined || value === null || value === false || (typeof value === 'string' && !value.trim()) || (Array.isArray(value) && !value.length);
+
+/** What is wrong with one answer, or null if it is fine. A blank optional answer is fine. */
+export function answerError(field: FormField, value: unknown): string | null {
+  if (isEmpty(value)) {
+    if (!field.required) return null;
+    return field.type === 'checkbox' ? `Please tick "${field.label}".` : `${field.label} is required.`;
+  }
+  const rules = rulesOf(field);
+
+  switch (field.type) {
+    case 'text': {
+      if (typeof value !== 'string') return `${field.label} must be text.`;
+      const text = value.trim();
+      const maxLength = Math.min(rules.maxLength ?? MAX_TEXT_ANSWER_LENGTH, MAX_TEXT_ANSWER_LENGTH);
+      if (rules.minLength && text.length < rules.minLength) return `${field.label} must be at least ${rules.minLength} characters.`;
+      if (text.length > maxLength) return `${field.label} must be at most ${maxLength} characters.`;
+      if (rules.pattern && !fullMatch(rules.pattern)?.test(text)) return rules.patternMessage || `${field.label} is not in the expected format.`;
+      return null;
+    }
+    case 'select':
+      return typeof value === 'string' && field.options.includes(value) ? null : `Choose one of the options for ${field.label}.`;
+    case 'multi-select': {
+      if (!Array.isArray(value) || !value.every((v) => typeof v === 'string' && field.options.includes(v))) {
+        return `Choose from the options for ${field.label}.`;
+      }
+      if (rules.minChoices && value.length < rules.minChoices) return `Choose at least ${rules.minChoices} for ${field.label}.`;
+      if (rules.maxChoices && value.length > rules.maxChoices) return `Choose at most ${rules.maxChoices} for ${field.label}.`;
+      return null;
+    }
+    case 'checkbox':
+      return value === true ? null : `${field.label} must be ticked or left blank.`;
+    case 'date':
+      if (!isDay(value)) return `${field.label} must be a date.`;
+      if (rules.minDate && value < rules.minDate) return `${field.label} must be on or after ${rules.minDate}.`;
+      if (rules.maxDate && value > rules.maxDate) return `${field.label} must be on or before ${rules.maxDate}.`;
+      return null;
+    default:
+      return null;
+  }
+}
+
+/** The fields asked of one attendee type (or of an untyped registration: the unrestricted ones). */
+export const fieldsForType = (fields: FormField[], attendeeTypeId: string | null | undefined) =>
+  fields.filter((field) => !field.attendeeTypes?.length || field.attendeeTypes.some((t) => t.id === attendeeTypeId));
+
+/**
+ * Check submitted answers against the event's fields. Answers to unknown fields and blank
+ * answers are dropped, text is trimmed, and multi-select answers are de-duplicated.
+ */
+export function validateAnswers(fields: FormField[], input: unknown): { answers: FormAnswers; errors: string[] } {
+  const submitted = input && typeof input === 'object' && !Array.isArray(input) ? (input as Record<string, unknown>) : {};
+  const answers: FormAnswers = {};
+  const errors: string[] = [];
+
+  for (const field of fields) {
+    let value = submitted[field.id];
+    if (typeof value === 'string') value = value.trim();
+    if (Array.isArray(value)) value = Array.from(new Set(value));
+
+    const error = answerError(field, value);
+    if (error) errors.push(error);
+    else if (!isEmpty(value)) answers[field.id] = value as AnswerValue;
+  }
+  return { answers, errors };
+}
+
+/** An answer as text, for tables, exports and the pass. */
+export function formatAnswer(field: Pick<FormField, 'type'>, value: unknown): string {
+  if (value === undefined || value === null) return '';
+  if (field.type === 'checkbox') return value === true ? 'Yes' : '';
+  if (Array.isArray(value)) return value.join(', ');
+  return String(value);
+}
+
+/** "Label: answer" for each answered field, in form order. */
+export function answerLines(fields: FormField[], answers: unknown, options: { badgeOnly?: boolean } = {}): string[] {
+  const stored = (answers ?? {}) as Record<string, unknown>;
+  return fields
+    .filter((field) => !options.badgeOnly || field.showOnBadge)
+    .map((field) => ({ field, text: formatAnswer(field, stored[field.id]) }))
+    .filter(({ text }) => text)
+    .map(({ field, text }) => `${field.label}: ${text}`);
+}
+
+function validateRules(type: FormFieldType, raw: unknown, label: string): { rules: FormFieldRules | null; error: string | null } {
+  const input = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+  const rules: FormFieldRules = {};
+  const count = (key: keyof FormFieldRules) => {
+    const value = input[key];
+    if (value === undefined || value === null || value === '') return undefined;
+    if (!isCount(Number(value))) throw new Error(`${label}: ${key} must be a whole number.`);
+    return Number(value);
+  };
+
+  try {
+    if (type === 'text') {
+      rules.minLength = count('minLength');
+      rules.maxLength = count('maxLength');
+      if (typeof input.pattern === 'string' && input.pattern.trim()) {
+        if (!fullMatch(input.pattern.trim())) throw new Error(`${label}: the pattern is not a valid regular expression.`);
+        rules.pattern = input.pattern.trim();
+        if (typeof input.patternMessage === 'string' && input.patternMessage.trim()) rules.patternMessage = input.patternMessage.trim();
+      }
+      if (rules.minLength !== undefined && rules.maxLength !== undefined && rules.minLength > rules.maxLength) {
+        throw new Error(`${label}: the minimum length is more than the maximum.`);
+      }
+    } else if (type === 'multi-select') {
+      rules.minChoices = count('minChoices');
+      rules.maxChoices = count('maxChoices');
+      if (rules.minChoices !== undefined && rules.maxChoices !== undefined && rules.minChoices > rules.maxChoices) {
+        throw new Error(`${label}: the minimum number of choices is more than the maximum.`);
+      }
+    } else if (type === 'date') {
+      for (const key of ['minDate', 'maxDate'] as const) {
+        const value = input[key];
+        if (value === undefined || value === null || value === '') continue;
+        if (!isDay(value)) throw new Error(`${label}: ${key === 'minDate' ? 'earliest' : 'latest'} date must be YYYY-MM-DD.`);
+        rules[key] = value;
+      }
+      if (rules.minDate && rules.maxDate && rules.minDate > rules.maxDate) throw new Error(`${label}: the earliest date is after the latest.`);
+    }
+  } catch (error) {
+    return { rules: null, error: (error as Error).message };
+  }
+
+  const kept = Object.fromEntries(Object.entries(rules).filter(([, value]) => value !== undefined)) as FormFieldRules;
+  return { rules: Object.keys(kept).length ? kept : null, error: null };
+}
+
+/** Check the form builder's field list. Fields keep the order they were submitted in. */
+export function validateFormFields(input: unknown): { fields: FormFieldInput[]; error: null } | { fields?: undefined; error: string } {
+  if (!Array.isArray(input)) return { error: 'fields must be a list.' };
+  if (input.length > MAX_FORM_FIELDS) return { error: `A form can have at most ${MAX_FORM_FIELDS} fields.` };
+
+  const fields: FormFieldInput[] = [];
+  for (let index = 0; index < input.length; index++) {
+    const raw = input[index];
+    const label = typeof raw?.label === 'string' ? raw.label.trim() : '';
+    const name = label || `Field ${index + 1}`;
+    if (!label) return { error: `${name}: a label is required.` };
+    if (label.length > MAX_LABEL_LENGTH) return { error: `${name}: the label must be at most ${MAX_LABEL_LENGTH} characters.` };
+    if (!isFormFieldType(raw.type)) return { error: `${name}: unknown field type.` };
+
+    let options: string[] = [];
+    if (raw.type === 'select' || raw.type === 'multi-select') {
+      options = Array.isArray(raw.options)
+        ? Array.from(new Set<string>(raw.options.filter((o: unknown) => typeof o === 'string').map((o: string) => o.trim()).filter(Boolean)))
+        : [];
+      if (!options.length) return { error: `${name}: add at least one option.` };
+      if (options.length > MAX_OPTIONS) return { error: `${name}: at most ${MAX_OPTIONS} options.` };
+    }
+
+    const { rules, error } = validateRules(raw.type, raw.rules, name);
+    if (error) return { error };
+
+    fields.push({
+      id: typeof raw.id === 'string' && raw.id ? raw.id : undefined,
+      label,
+      type: raw.type,
+      required: raw.required === true,
+      options,
+      helpText: typeof raw.helpText === 'string' && raw.helpText.trim() ? raw.helpText.trim() : null,
+      rules,
+      showOnBadge: raw.showOnBadge === true,
+      attendeeTypeIds: Array.isArray(raw.attendeeTypeIds)
+        ? Array.from(new Set<string>(raw.attendeeTypeIds.filter((id: unknown) => typeof id === 'string')))
+        : [],
+    });
+  }
+  return { fields, error: null };
+}
@@ -0,0 +1,74 @@
+// src/lib/ics.ts
+// Minimal iCalendar (RFC 5545) writer for session calendar files.
+
+export interface CalendarEvent {
+  uid: string;
+  start: Date;
+  end?: Date | null;
+  summary: string;
+  location?: string | null;
+  description?: string | null;
+  url?: string | null;
+  organizer?: { name: string; email: string } | null;
+  status?: 'CONFIRMED' | 'TENTATIVE' | 'CANCELLED';
+  sequence?: number; // Must go up whenever the entry changes, or calendars keep the old copy
+}
+
+const escapeText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// Session times are stored as the event's wall-clock time in UTC, so they are written as
+// "floating" local times (no Z): a 09:00 session shows at 09:00 wherever the reader is.
+const floatingTime = (d: Date) => new Date(d).toISOString().replace(/[-:]/g, '').slice(0, 15);
+const utcTime = (d: Date) => new Date(d).toISOString().replace(/[-:]/g, '').slice(0, 15) + 'Z';
+
+// Content lines are folded at 75 octets, continuing with a leading space
+function fold(line: string): string {
+  const bytes = Buffer.from(line, 'utf8');
+  if (bytes.length <= 75) return line;
+  const parts: string[] = [];
+  let current = '';
+  let size = 0;
+  for (const char of Array.from(line)) {
+    const charSize = Buffer.byteLength(char, 'utf8');
+    const limit = parts.length ? 74 : 75; // Continuation lines spend one octet on the space
+    if (size + charSize > limit) {
+      parts.push(current);
+      current = '';
+      size = 0;
+    }
+    current += char;
+    size += charSize;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+/**
+ * A complete VCALENDAR with one VEVENT per entry. `refreshMinutes` marks it as a
+ * subscribable feed and suggests how often calendar apps should poll it.
+ */
+export function buildCalendar(events: CalendarEvent[], options: { name?: string; refreshMinutes?: number } = {}): string {
+  const stamp = utcTime(new Date());
+  const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', 'PRODID:-//BRI Event//Registrations//EN', 'CALSCALE:GREGORIAN', 'METHOD:PUBLISH'];
+  if (options.name) lines.push(`X-WR-CALNAME:${escapeText(options.name)}`);
+  if (options.refreshMinutes) {
+    lines.push(`REFRESH-INTERVAL;VALUE=DURATION:PT${options.refreshMinutes}M`, `X-PUBLISHED-TTL:PT${options.refreshMinutes}M`);
+  }
+
+  for (const event of events) {
+    lines.push('BEGIN:VEVENT', `UID:${event.uid}`, `DTSTAMP:${stamp}`, `SEQUENCE:${event.sequence ?? 0}`, `DTSTART:${floatingTime(event.start)}`);
+    if (event.end) lines.push(`DTEND:${floatingTime(event.end)}`);
+    lines.push(`SUMMARY:${escapeText(event.summary)}`);
+    if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+    if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    if (event.url) lines.push(`URL:${event.url}`);
+    if (event.organizer) {
+      lines.push(`ORGANIZER;CN="${event.organizer.name.replace(/"/g, "'")}":mailto:${event.organizer.email}`);
+    }
+    lines.push(`STATUS:${event.status ?? 'CONFIRMED'}`, 'END:VEVENT');
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(fold).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,34 @@
+// src/lib/manageToken.ts
+import jwt from 'jsonwebtoken';
+
+// Links in emails must keep working until well after the event
+const MANAGE_TOKEN_TTL = '180d';
+
+/**
+ * Signed token that lets an attendee change or cancel their own registration without an account.
+ * The `purpose` claim keeps it from being accepted anywhere a staff session token is expected (and vice versa).
+ */
+export function signManageToken(registrationId: string): string {
+  return jwt.sign({ rid: registrationId, purpose: 'manage' }, process.env.TOKEN_SECRET!, {
+    algorithm: 'HS256',
+    expiresIn: MANAGE_TOKEN_TTL,
+  });
+}
+
+/** Returns the registration ID the token was issued for, or null if it is invalid or expired. */
+export function verifyManageToken(token: string | null | undefined): string | null {
+  if (!token) return null;
+  try {
+    const decoded = jwt.verify(token, process.env.TOKEN_SECRET!, { algorithms: ['HS256'] }) as { rid?: string; purpose?: string };
+    return decoded.purpose === 'manage' && decoded.rid ? decoded.rid : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Link to the attendee's pass page with the management controls unlocked. The page loads
+ * everything through the token, so links to rows not yet given an access token still work.
+ */
+export const manageLink = (registration: { id: string; passId: string; accessToken: string | null }) =>
+  `https://bri-event.vercel.app/view-pass/${registration.accessToken ?? registration.passId}?token=${signManageToken(registration.id)}`;
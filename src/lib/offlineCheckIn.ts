@@ -0,0 +1,219 @@
+// src/lib/offlineCheckIn.ts
+// Browser-only: the check-in station's offline copy of an event's roster and its queue of
+// scans waiting to be synced. Both live in IndexedDB so they survive a reload while offline.
+import { currentOccurrence, readPassCode } from '@/lib/checkInRules';
+import type { CheckInOutcome as ServerCheckInOutcome, CheckInResult } from '@/lib/checkIn';
+
+export type { CheckInResult };
+
+type ServerSession = NonNullable<ServerCheckInOutcome['session']>;
+
+/** The check-in API's response, as the station sees it (dates as ISO strings). */
+export interface CheckInOutcome extends Omit<ServerCheckInOutcome, 'session'> {
+  session?: Omit<ServerSession, 'startTime' | 'checkedInAt' | 'checkedOutAt'> & {
+    startTime: string;
+    checkedInAt: string | null;
+    checkedOutAt: string | null;
+  };
+}
+
+export interface Roster {
+  event: {
+    id: string;
+    name: string;
+    occurrences: { id: string; startTime: string; endTime: string | null; location: string | null }[];
+  };
+  downloadedAt: string;
+  registrations: {
+    id: string;
+    passId: string;
+    passCode: string | null; // The pass's current signed code; null once revoked
+    legacyPassCode: boolean; // Issued before signed codes, so its bare pass ID or pass URL is accepted too
+    status: string;
+    name: string;
+    company: string | null;
+    sessions: { id: string; occurrenceId: string; checkedInAt: string | null; checkedOutAt: string | null }[];
+  }[];
+}
+
+export interface QueuedOp {
+  id: string;
+  passId: string;
+  code: string; // As scanned, so the server can verify it again when the op is synced
+  manual?: boolean; // Pass ID typed in by staff rather than scanned
+  occurrenceId: string;
+  mode: 'check-in' | 'check-out';
+  at: string;
+  station?: string;
+}
+
+/** The sync API's per-op result, as returned to the station. */
+export interface SyncResult {
+  opId: string;
+  status: 'applied' | 'conflict' | 'rejected';
+  message: string;
+  conflict?: {
+    passId: string;
+    name: string;
+    occurrenceId: string;
+    kept: { at: string; station: string | null };
+    discarded: { at: string; station: string | null };
+  };
+}
+
+const DB_NAME = 'bri-check-in';
+const ROSTERS = 'rosters';
+const QUEUE = 'queue';
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(ROSTERS, { keyPath: 'event.id' });
+      request.result.createObjectStore(QUEUE, { keyPath: 'id' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(name: string, mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const tx = db.transaction(name, mode);
+      const request = run(tx.objectStore(name));
+      tx.oncomplete = () => resolve(request.result);
+      tx.onerror = () => reject(tx.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+export const saveRoster = (roster: Roster) => withStore(ROSTERS, 'readwrite', (s) => s.put(roster));
+
+export const getRoster = (eventId: string) =>
+  withStore<Roster | undefined>(ROSTERS, 'readonly', (s) => s.get(eventId));
+
+export const getRosters = () => withStore<Roster[]>(ROSTERS, 'readonly', (s) => s.getAll());
+
+export const queueOp = (op: QueuedOp) => withStore(QUEUE, 'readwrite', (s) => s.put(op));
+
+export const getQueuedOps = () => withStore<QueuedOp[]>(QUEUE, 'readonly', (s) => s.getAll());
+
+export async function removeQueuedOps(ids: string[]) {
+  for (const id of ids) await withStore(QUEUE, 'readwrite', (s) => s.delete(id));
+}
+
+/**
+ * Check a pass in (or out) against the downloaded roster, following the same rules as
+ * `checkInByCode` on the server. On success the roster copy is updated and the op to
+ * replay later is returned; the caller saves both.
+ */
+export function checkInOffline(
+  roster: Roster,
+  opts: { code: string; manual?: boolean; occurrenceId?: string; mode: 'check-in' | 'check-out'; station?: string }
+): { outcome: CheckInOutcome; op?: QueuedOp } {
+  const scanned = readPassCode(opts.code);
+  const registration = roster.registrations.find((r) => r.passId === scanned.passId);
+  if (!registration) {
+    // The roster only holds the selected event, so an unknown pass may just be for another one
+    return { outcome: { result: 'not-found', message: `Pass ${scanned.passId} is not on the ${roster.event.name} roster.` } };
+  }
+
+  const summary = {
+    id: registration.id,
+    passId: registration.passId,
+    name: registration.name,
+    company: registration.company,
+    eventName: roster.event.name,
+  };
+  // The station holds no signing key, only each pass's expected code, so the checks of
+  // passCodeError() come down to comparing against it. A pass ID typed in by staff skips them.
+  const signed = scanned.version !== null && !!scanned.signature;
+  if (!signed && !opts.manual && !registration.legacyPassCode) {
+    const message = 'This is not a signed pass code. Ask for the current pass from the confirmation email.';
+    return { outcome: { result: 'invalid-code', message, registration: summary } };
+  }
+  const code = signed ? `${scanned.passId}.${scanned.version}.${scanned.signature}` : scanned.passId;
+  if (!registration.passCode) {
+    return { outcome: { result: 'revoked', message: 'This pass has been revoked.', registration: summary } };
+  }
+  if (signed && !opts.manual && code !== registration.passCode) {
+    return registration.passCode.startsWith(`${scanned.passId}.${scanned.version}.`)
+      ? { outcome: { result: 'invalid-code', message: 'This pass code is not genuine.', registration: summary } }
+      : { outcome: { result: 'revoked', message: 'This pass has been replaced by a newer one.', registration: summary } };
+  }
+  if (registration.status === 'cancelled') {
+    return { outcome: { result: 'cancelled', message: 'This registration has been cancelled.', registration: summary } };
+  }
+  if (registration.status === 'waitlisted') {
+    return { outcome: { result: 'waitlisted', message: 'This attendee is still on the waitlist.', registration: summary } };
+  }
+
+  const sessions = registration.sessions.flatMap((s) => {
+    const occurrence = roster.event.occurrences.find((o) => o.id === s.occurrenceId);
+    if (!occurrence) return [];
+    return [{
+      row: s,
+      id: s.id,
+      checkedInAt: s.checkedInAt ? new Date(s.checkedInAt) : null,
+      checkedOutAt: s.checkedOutAt ? new Date(s.checkedOutAt) : null,
+      occurrence: {
+        id: occurrence.id,
+        startTime: new Date(occurrence.startTime),
+        endTime: occurrence.endTime ? new Date(occurrence.endTime) : null,
+        location: occurrence.location,
+      },
+    }];
+  });
+  const session = opts.occurrenceId
+    ? sessions.find((s) => s.occurrence.id === opts.occurrenceId) ?? null
+    : currentOccurrence(sessions, new Date().getTimezoneOffset());
+  if (!session) {
+    const message = opts.occurrenceId ? 'Not registered for this session.' : "Not registered for any of today's sessions.";
+    return { outcome: { result: 'not-today', message, registration: summary } };
+  }
+
+  const { row } = session;
+  const sessionSummary = () => ({
+    occurrenceId: session.occurrence.id,
+    startTime: session.occurrence.startTime.toISOString(),
+    location: session.occurrence.location,
+    checkedInAt: row.checkedInAt,
+    checkedOutAt: row.checkedOutAt,
+  });
+  const at = new Date().toISOString();
+  const op: QueuedOp = {
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`,
+    passId: registration.passId,
+    code,
+    manual: opts.manual || undefined,
+    occurrenceId: session.occurrence.id,
+    mode: opts.mode,
+    at,
+    station: opts.station || undefined,
+  };
+
+  if (opts.mode === 'check-out') {
+    if (!row.checkedInAt || row.checkedOutAt) {
+      const message = row.checkedOutAt ? 'Already checked out.' : 'Not checked in to this session.';
+      return { outcome: { result: 'not-checked-in', message, registration: summary, session: sessionSummary() } };
+    }
+    row.checkedOutAt = at;
+    return { outcome: { result: 'ok', message: 'Checked out.', registration: summary, session: sessionSummary() }, op };
+  }
+
+  if (row.checkedInAt && !row.checkedOutAt) {
+    return { outcome: { result: 'already', message: 'Already checked in.', registration: summary, session: sessionSummary() } };
+  }
+  const reentry = Boolean(row.checkedOutAt);
+  row.checkedInAt = row.checkedInAt ?? at;
+  row.checkedOutAt = null;
+  if (registration.status === 'registered') registration.status = 'checked-in';
+  return {
+    outcome: { result: 'ok', message: reentry ? 'Welcome back.' : 'Checked in.', registration: summary, session: sessionSummary() },
+    op,
+  };
+}
@@ -0,0 +1,57 @@
+// src/lib/passAccess.ts
+import crypto from 'crypto';
+import { Prisma } from '@prisma/client';
+import { passCode } from '@/lib/passCode';
+
+/**
+ * A new access token for a registration's public pass links. Pass IDs are sequential and
+ * printed on badges, so only this token (192 random bits) opens the pass page, its PDF and
+ * its calendar feed without signing in.
+ */
+export const newPassAccessToken = () => crypto.randomBytes(24).toString('base64url');
+
+// Old pass emails linked to the pass by pass ID; those links now end up here
+export const PASS_LINK_NOT_FOUND = 'Pass not found. If this link is from an older pass email, use the one in your latest pass email.';
+
+export const passPageLink = (accessToken: string) => `https://bri-event.vercel.app/view-pass/${accessToken}`;
+export const passPdfLink = (accessToken: string) => `https://bri-event.vercel.app/api/public-pass/${accessToken}/pdf`;
+
+/** What to load for publicPass(). */
+export const PUBLIC_PASS_SELECT = {
+  passId: true,
+  eventId: true,
+  passVersion: true,
+  passRevokedAt: true,
+  status: true,
+  waitlistPosition: true,
+  user: { select: { firstName: true, lastName: true } },
+  attendeeType: { select: { name: true } },
+  event: { select: { name: true, description: true, location: true, googleMapsLink: true, contactEmail: true, contactPhone: true } },
+  selectedOccurrences: {
+    where: { occurrence: { deletedAt: null } },
+    select: { occurrence: { select: { id: true, startTime: true, endTime: true, location: true } } },
+    orderBy: { occurrence: { startTime: 'asc' } },
+  },
+} satisfies Prisma.EventRegistrationSelect;
+
+type PublicPassRegistration = Prisma.EventRegistrationGetPayload<{ select: typeof PUBLIC_PASS_SELECT }>;
+
+/**
+ * The pass as shown to whoever holds its link: the attendee's name and sessions, but none of
+ * their contact details, answers or internal IDs. The check-in code is only included while
+ * the pass admits its holder.
+ */
+export function publicPass(registration: PublicPassRegistration) {
+  const admits = !registration.passRevokedAt && (registration.status === 'registered' || registration.status === 'checked-in');
+  return {
+    passId: registration.passId,
+    status: registration.status,
+    waitlistPosition: registration.waitlistPosition,
+    revoked: !!registration.passRevokedAt,
+    passCode: admits ? passCode(registration) : null,
+    attendee: { firstName: registration.user.firstName, lastName: registration.user.lastName },
+    attendeeType: registration.attendeeType?.name ?? null,
+    event: registration.event,
+    sessions: registration.selectedOccurrences.map((so) => so.occurrence),
+  };
+}
@@ -0,0 +1,52 @@
+// src/lib/passAttachments.ts
+import QRCode from 'qrcode';
+import type Mail from 'nodemailer/lib/mailer';
+import prisma from '@/lib/prisma';
+import { buildCalendar } from '@/lib/ics';
+import { sessionCalendarEvents } from '@/lib/calendar';
+import { PASS_EVENT_INCLUDE, renderPassPdf } from '@/lib/passPdf';
+import { PASS_QR_CID } from '@/lib/emailTemplates';
+import { passCode } from '@/lib/passCode';
+
+/**
+ * Attachments for a pass email, built when the email is actually sent so they match the
+ * registration at that moment: the PDF pass, an .ics file with the selected sessions, and
+ * the QR code as an inline image when the rendered HTML references it. Empty when the
+ * registration no longer exists; a revoked pass only gets the .ics file.
+ */
+export async function passAttachments(registrationId: string, html: string): Promise<Mail.Attachment[]> {
+  const registration = await prisma.eventRegistration.findUnique({
+    where: { id: registrationId, deletedAt: null },
+    include: {
+      user: true,
+      attendeeType: true,
+      event: { include: PASS_EVENT_INCLUDE },
+      selectedOccurrences: { where: { occurrence: { deletedAt: null } }, include: { occurrence: true } },
+    },
+  });
+  if (!registration) return [];
+
+  const attachments: Mail.Attachment[] = [
+    {
+      filename: 'event.ics',
+      content: buildCalendar(sessionCalendarEvents(registration)),
+      contentType: 'text/calendar; charset=utf-8; method=PUBLISH',
+    },
+  ];
+  if (registration.passRevokedAt) return attachments;
+
+  attachments.unshift({
+    filename: `event-pass-${registration.passId}.pdf`,
+    content: Buffer.from(await renderPassPdf(registration)),
+    contentType: 'application/pdf',
+  });
+  if (html.includes(`cid:${PASS_QR_CID}`)) {
+    attachments.push({
+      filename: 'pass-qr.png',
+      content: await QRCode.toBuffer(passCode(registration), { width: 360 }),
+      contentType: 'image/png',
+      cid: PASS_QR_CID,
+    });
+  }
+  return attachments;
+}
@@ -0,0 +1,66 @@
+// src/lib/passId.ts
+import { Prisma } from '@prisma/client';
+
+export const DEFAULT_PASS_ID_PREFIX = 'BRI-';
+export const DEFAULT_PASS_ID_START = 1001;
+
+// Letters, digits and dashes only, so the prefix is safe inside a LIKE pattern and on a Code128 barcode
+export const PASS_ID_PREFIX_REGEX = /^[A-Za-z0-9-]{1,12}$/;
+
+/**
+ * Highest number already issued under `prefix`, compared numerically
+ * (so BRI-10000 beats BRI-9999). Used once, to seed a new counter row
+ * without reissuing numbers handed out before the counter existed.
+ */
+async function highestIssuedNumber(tx: Prisma.TransactionClient, prefix: string): Promise<number> {
+  const rows = await tx.$queryRaw<{ max: bigint | null }[]>`
+    SELECT MAX(CAST(SUBSTRING("passId" FROM ${prefix.length + 1}) AS BIGINT)) AS "max"
+    FROM "EventRegistration"
+    WHERE "passId" LIKE ${`${prefix}%`}
+      AND SUBSTRING("passId" FROM ${prefix.length + 1}) ~ '^[0-9]+$'
+  `;
+  return rows[0]?.max != null ? Number(rows[0].max) : 0;
+}
+
+/**
+ * Issue the next pass ID for an event, e.g. "BRI-1188".
+ *
+ * Must run inside the transaction that creates the registration: the counter row
+ * stays locked until commit, so concurrent registrations queue up behind it, and
+ * a rolled-back registration also rolls back its number (no gaps).
+ */
+export async function nextPassId(
+  tx: Prisma.TransactionClient,
+  event: { passIdPrefix: string | null; passIdStart: number | null }
+): Promise<string> {
+  const prefix = event.passIdPrefix || DEFAULT_PASS_ID_PREFIX;
+  const start = event.passIdStart ?? DEFAULT_PASS_ID_START;
+
+  const existing = await tx.passIdSequence.findUnique({ where: { prefix } });
+
+  let value: number;
+  if (existing) {
+    const row = await tx.passIdSequence.update({
+      where: { prefix },
+      data: { lastValue: { increment: 1 } },
+    });
+    value = row.lastValue;
+    // An organiser may have raised the starting number after the prefix was already in use
+    if (value < start) {
+      await tx.passIdSequence.update({ where: { prefix }, data: { lastValue: start } });
+      value = start;
+    }
+  } else {
+    const seed = Math.max(start, (await highestIssuedNumber(tx, prefix)) + 1);
+    // Native upsert (INSERT ... ON CONFLICT DO UPDATE): if another registration creates
+    // the row first, this one increments it instead of failing.
+    const row = await tx.passIdSequence.upsert({
+      where: { prefix },
+      create: { prefix, lastValue: seed },
+      update: { lastValue: { increment: 1 } },
+    });
+    value = row.lastValue;
+  }
+
+  return `${prefix}${value}`;
+}
@@ -0,0 +1,545 @@
+// src/lib/passPdf.ts
+import {
+  PDFDocument,
+  PDFFont,
+  PDFImage,
+  PDFPage,
+  rgb,
+  StandardFonts,
+  PageSizes,
+  degrees,
+  pushGraphicsState,
+  popGraphicsState,
+  concatTransformationMatrix,
+} from 'pdf-lib';
+import QRCode from 'qrcode';
+import bwipjs from 'bwip-js';
+import { Prisma } from '@prisma/client';
+import { answerLines, FormField } from '@/lib/formFields';
+import {
+  BadgeAlignment,
+  BadgeDesign,
+  BadgeFieldPlacement,
+  BadgeSheetLayout,
+  badgeDesignOf,
+  fillBadgeText,
+} from '@/lib/badgeTemplates';
+import { passCode } from '@/lib/passCode';
+
+/** What to load with a registration's event so its pass can be drawn. */
+export const PASS_EVENT_INCLUDE = {
+  formFields: { orderBy: { position: 'asc' } },
+  badgeTemplate: true,
+  occurrences: { where: { deletedAt: null }, orderBy: { startTime: 'asc' } },
+} satisfies Prisma.EventInclude;
+
+/** The registration fields printed on the pass. */
+export interface PassPdfRegistration {
+  passId: string;
+  eventId: string;
+  passVersion: number;
+  user: { firstName: string | null; lastName: string | null; company: string | null; position?: string | null; email?: string };
+  answers?: unknown;
+  attendeeType?: { name?: string; badgeLabel: string; badgeColor: string } | null;
+  event: {
+    name: string;
+    location: string;
+    occurrences?: { startTime: Date }[];
+    formFields?: FormField[];
+    badgeTemplate?: Parameters<typeof badgeDesignOf>[0];
+  };
+}
+
+// The standard PDF fonts only cover Latin-1 plus a few typographic marks; anything else
+// (emoji, other scripts) would make pdf-lib throw, so it is replaced
+const printable = (text: string) => text.replace(/[^\x20-\x7E\xA0-\xFF\u2013\u2014\u2018\u2019\u201C\u201D\u2022\u2026\u20AC]/g, '?');
+
+const hexColor = (hex: string) =>
+  rgb(parseInt(hex.slice(1, 3), 16) / 255, parseInt(hex.slice(3, 5), 16) / 255, parseInt(hex.slice(5, 7), 16) / 255);
+
+// Shorten a line with an ellipsis until it fits
+function fitText(text: string, font: PDFFont, size: number, maxWidth: number) {
+  if (font.widthOfTextAtSize(text, size) <= maxWidth) return text;
+  let fitted = text;
+  while (fitted.length > 1 && font.widthOfTextAtSize(`${fitted}…`, size) > maxWidth) fitted = fitted.slice(0, -1);
+  return `${fitted.trimEnd()}…`;
+}
+
+/** The lines one placement prints for this registration; several for form answers. */
+function fieldLines(placement: BadgeFieldPlacement, reg: PassPdfRegistration): string[] {
+  const { user } = reg;
+  const values: Record<Exclude<BadgeFieldPlacement['field'], 'answers'>, string | null | undefined> = {
+    name: `${user.firstName || ''} ${user.lastName || ''}`.trim(),
+    firstName: user.firstName,
+    lastName: user.lastName,
+    company: user.company,
+    position: user.position,
+    email: user.email,
+  };
+  const lines = placement.field === 'answers' ? answerLines(reg.event.formFields ?? [], reg.answers, { badgeOnly: true }) : [values[placement.field] || ''];
+  return lines.filter(Boolean).map((line) => printable(placement.uppercase ? line.toUpperCase() : line));
+}
+
+/** A badge's size as drawn: a quarter of an A4 page. Batch layouts scale it to their cells. */
+export const BADGE_WIDTH = PageSizes.A4[0] / 2;
+export const BADGE_HEIGHT = PageSizes.A4[1] / 2;
+
+/**
+ * Embed what every badge drawn from `template` shares (fonts, header artwork) into `pdfDoc`,
+ * and return a function that draws one registration's badge into a box on one of its pages.
+ * The registration's attendee type, if any, sets the role label and accent colour.
+ */
+async function badgeDrawer(pdfDoc: PDFDocument, template: BadgeDesign) {
+  const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+  const boldFont = await pdfDoc.embedFont(StandardFonts.HelveticaBold);
+
+  // The template's header artwork; without one, drawBadge draws a coloured band with the title
+  let headerImage: PDFImage | null = null;
+  if (template.headerImage) {
+    const [meta, data] = template.headerImage.split(',');
+    const bytes = Uint8Array.from(Buffer.from(data, 'base64'));
+    try {
+      headerImage = meta.includes('image/png') ? await pdfDoc.embedPng(bytes) : await pdfDoc.embedJpg(bytes);
+    } catch (e) {
+      console.warn('Failed to read the badge header image; drawing the plain header instead.', e);
+    }
+  }
+
+  // QR code and barcode per pass, so a pass drawn twice embeds them once
+  const codeImages = new Map<string, { qrImage: PDFImage; barcodeImage: PDFImage }>();
+  const embedCodes = async (registration: PassPdfRegistration) => {
+    const code = passCode(registration);
+    const cached = codeImages.get(code);
+    if (cached) return cached;
+
+    // QR Code as a PNG image buffer, encoding the signed pass code
+    const qrCodeImageBuffer = await QRCode.toBuffer(code, {
+      errorCorrectionLevel: 'H',
+      type: 'png',
+      scale: 8,
+    });
+
+    // Barcode as a PNG image buffer using bwip-js
+    let barcodeImageBuffer: Buffer;
+    try {
+      barcodeImageBuffer = await bwipjs.toBuffer({
+        bcid: 'code128',
+        text: code,
+        scaleX: 2,
+        scaleY: 2,
+        height: 10,
+        includetext: false,
+        textxalign: 'center',
+      });
+    } catch (e) {
+      console.error("Error generating barcode:", e);
+      barcodeImageBuffer = await bwipjs.toBuffer({ bcid: 'code128', text: 'ERROR', scaleX: 1, scaleY: 1, height: 5, includetext: false });
+    }
+
+    // Convert Node.js Buffer to Uint8Array for pdf-lib compatibility
+    const images = {
+      qrImage: await pdfDoc.embedPng(Uint8Array.from(qrCodeImageBuffer)),
+      barcodeImage: await pdfDoc.embedPng(Uint8Array.from(barcodeImageBuffer)),
+    };
+    codeImages.set(code, images);
+    return images;
+  };
+
+  // Draw a single badge within a given bounding box (bottom-left corner and size)
+  const drawBadge = async (
+    registration: PassPdfRegistration,
+    targetPage: PDFPage,
+    offsetX: number,
+    offsetY: number,
+    badgeQuadWidth: number,
+    badgeQuadHeight: number
+  ) => {
+    const { attendeeType } = registration;
+    const badge = attendeeType ? { ...template, roleLabel: attendeeType.badgeLabel, accentColor: attendeeType.badgeColor } : template;
+    const { qrImage, barcodeImage } = await embedCodes(registration);
+
+    const accent = hexColor(badge.accentColor);
+    const title = printable(fillBadgeText(badge.title, registration.event));
+    const subtitle = printable(fillBadgeText(badge.subtitle, registration.event));
+
+    const internalPadding = 10;
+    const innerWidth = badgeQuadWidth - 2 * internalPadding;
+    const top = offsetY + badgeQuadHeight - internalPadding;
+
+    const drawLine = (text: string, y: number, lineFont: PDFFont, size: number, color: ReturnType<typeof rgb>, align: BadgeAlignment = 'center') => {
+      const fitted = fitText(text, lineFont, size, innerWidth - 2 * internalPadding);
+      const textWidth = lineFont.widthOfTextAtSize(fitted, size);
+      const x =
+        align === 'left'
+          ? offsetX + 2 * internalPadding
+          : align === 'right'
+          ? offsetX + badgeQuadWidth - 2 * internalPadding - textWidth
+          : offsetX + badgeQuadWidth / 2 - textWidth / 2;
+      targetPage.drawText(fitted, { x, y, font: lineFont, size, color });
+    };
+
+    // Header: the artwork scaled to fit, or a band in the accent colour with the title
+    const headerImageHeightDesired = 70;
+    if (headerImage) {
+      const scaled = headerImage.scaleToFit(innerWidth, headerImageHeightDesired);
+      targetPage.drawImage(headerImage, {
+        x: offsetX + badgeQuadWidth / 2 - scaled.width / 2,
+        y: top - headerImageHeightDesired + (headerImageHeightDesired - scaled.height) / 2,
+        width: scaled.width,
+        height: scaled.height,
+      });
+    } else {
+      targetPage.drawRectangle({
+        x: offsetX + internalPadding,
+        y: top - headerImageHeightDesired,
+        width: innerWidth,
+        height: headerImageHeightDesired,
+        color: accent,
+      });
+      const headerText = hexColor(badge.headerTextColor);
+      const titleSize = title.length > 40 ? 10 : 13;
+      if (title && subtitle) {
+        drawLine(title, top - headerImageHeightDesired / 2 + 4, boldFont, titleSize, headerText);
+        drawLine(subtitle, top - headerImageHeightDesired / 2 - 14, font, 9, headerText);
+      } else if (title || subtitle) {
+        drawLine(title || subtitle, top - headerImageHeightDesired / 2 - titleSize / 3, title ? boldFont : font, titleSize, headerText);
+      }
+    }
+
+    // Attendee details, top to bottom as placed in the template
+    let currentY = top - headerImageHeightDesired - 40;
+    const textColor = hexColor(badge.textColor);
+    for (const placement of badge.fields) {
+      for (const line of fieldLines(placement, registration)) {
+        drawLine(line, currentY, placement.bold ? boldFont : font, placement.size, textColor, placement.align);
+        currentY -= placement.size + 7;
+      }
+    }
+    currentY -= 15;
+
+    // QR code, with the barcode beside it unless the QR code is centred
+    const qrCodeSize = 100;
+    const barcodeWidthDesired = 140; // Wide enough for a signed code's bars to scan
+    const barcodeHeightDesired = 20;
+    const withBarcode = badge.showBarcode && badge.qrPosition !== 'center';
+    const combinedWidth = withBarcode ? qrCodeSize + barcodeWidthDesired + 20 : qrCodeSize;
+    const startXCombined = offsetX + badgeQuadWidth / 2 - combinedWidth / 2;
+    const qrX = badge.qrPosition === 'left' || !withBarcode ? startXCombined : startXCombined + barcodeWidthDesired + 20;
+
+    targetPage.drawImage(qrImage, {
+      x: qrX,
+      y: currentY - qrCodeSize,
+      width: qrCodeSize,
+      height: qrCodeSize,
+    });
+
+    const passIdText = printable(registration.passId);
+    const passIdTextWidth = font.widthOfTextAtSize(passIdText, 10);
+    if (withBarcode) {
+      const barcodeX = badge.qrPosition === 'left' ? startXCombined + qrCodeSize + 20 : startXCombined;
+      const barcodeY = currentY - barcodeHeightDesired - 35;
+      targetPage.drawImage(barcodeImage, {
+        x: barcodeX,
+        y: barcodeY,
+        width: barcodeWidthDesired,
+        height: barcodeHeightDesired,
+      });
+      // Pass ID text below the barcode
+      targetPage.drawText(passIdText, {
+        x: barcodeX + barcodeWidthDesired / 2 - passIdTextWidth / 2,
+        y: barcodeY - 15,
+        font,
+        size: 10,
+        color: rgb(0, 0, 0),
+      });
+    } else {
+      targetPage.drawText(passIdText, {
+        x: qrX + qrCodeSize / 2 - passIdTextWidth / 2,
+        y: currentY - qrCodeSize - 14,
+        font,
+        size: 10,
+        color: rgb(0, 0, 0),
+      });
+    }
+
+    // Role label at the bottom, e.g. VISITOR
+    if (badge.roleLabel) {
+      drawLine(printable(badge.roleLabel), offsetY + internalPadding + 30, boldFont, 28, accent);
+    }
+  };
+
+  return { drawBadge, font, boldFont };
+}
+
+/**
+ * Render the printable A4 pass: two badges side by side in the top half, with cut and fold
+ * guides. The badge follows the event's template (see src/lib/badgeTemplates.ts); `design`
+ * overrides it, for previewing a draft. Served by /api/event-pass-pdf/[passId] to staff and
+ * /api/public-pass/[token]/pdf to attendees, and attached to pass emails.
+ */
+export async function renderPassPdf(registration: PassPdfRegistration, design?: BadgeDesign): Promise<Uint8Array> {
+  const pdfDoc = await PDFDocument.create();
+  const page = pdfDoc.addPage(PageSizes.A4);
+  const { width, height } = page.getSize();
+  const { drawBadge, boldFont } = await badgeDrawer(pdfDoc, design ?? badgeDesignOf(registration.event.badgeTemplate));
+
+  // Calculate dimensions for each quarter
+  const quarterWidth = width / 2;
+  const quarterHeight = height / 2;
+
+  // Draw the main background white rectangle for the entire page
+  page.drawRectangle({
+    x: 0,
+    y: 0,
+    width: width,
+    height: height,
+    color: rgb(1, 1, 1),
+    borderWidth: 0,
+  });
+
+  // --- Draw the two passes in the top half ---
+  // Pass 1 (Top-Left Quarter)
+  await drawBadge(registration, page, 0, height - quarterHeight, quarterWidth, quarterHeight);
+
+  // Pass 2 (Top-Right Quarter)
+  await drawBadge(registration, page, quarterWidth, height - quarterHeight, quarterWidth, quarterHeight);
+
+
+  // --- Draw the cut lines (dashed) ---
+  const cutLineColor = rgb(0.7, 0.7, 0.7);
+  const cutLineThickness = 1;
+  const cutLineDashArray = [5, 5];
+  const cutLineOpacity = 0.7;
+
+  // Horizontal dashed line in the middle
+  page.drawLine({
+    start: { x: 0, y: height / 2 },
+    end: { x: width, y: height / 2 },
+    color: cutLineColor,
+    thickness: cutLineThickness,
+    dashArray: cutLineDashArray,
+    opacity: cutLineOpacity,
+  });
+
+  // Vertical dashed line in the middle
+  page.drawLine({
+    start: { x: width / 2, y: 0 },
+    end: { x: width / 2, y: height },
+    color: cutLineColor,
+    thickness: cutLineThickness,
+    dashArray: cutLineDashArray,
+    opacity: cutLineOpacity,
+  });
+
+  // --- Add "FRONT", "BACK", "FOLD" text and arrow ---
+  const indicatorFontSize = 8;
+  const indicatorColor = rgb(0.5, 0.5, 0.5); // Gray color
+  const textGap = 5; // Gap between text and line
+
+  // "FRONT" text (top-left of the cross area)
+  page.drawText('FRONT', {
+    x: width / 2 - 55, // Adjust X to position it on the left of vertical line
+    y: height / 2 + textGap, // Adjust Y to position it above horizontal line
+    font: boldFont,
+    size: indicatorFontSize,
+    color: indicatorColor
+  });
+
+  // "BACK" text (bottom-left of the cross area, rotated 180 degrees)
+  const backText = 'BACK';
+  const backTextWidth = boldFont.widthOfTextAtSize(backText, indicatorFontSize );
+  const backTextHeight = boldFont.heightAtSize(indicatorFontSize);
+  
+  page.drawText(backText, {
+      x: (width / 2 - 7) - backTextWidth,
+      y: (height / 2 - 5),
+      font: boldFont,
+      size: indicatorFontSize,
+      color: indicatorColor,
+      rotate: degrees(180)
+  });
+
+
+  // "FOLD" text (top-right of the cross area, rotated 90 degrees)
+  const foldText = 'FOLD';
+  const foldTextWidth = boldFont.widthOfTextAtSize(foldText, indicatorFontSize);
+  const foldTextHeight = boldFont.heightAtSize(indicatorFontSize);
+
+  page.drawText(foldText, {
+      x: width / 2 + textGap + foldTextHeight - 10,
+      y: height / 2 + (foldTextWidth / 2) - foldTextWidth + 15,
+      font: boldFont,
+      size: indicatorFontSize,
+      color: indicatorColor,
+      rotate: degrees(90)
+  });
+
+
+  // Arrow pointing to the right (near FOLD text)
+  const arrowStartX = width / 2 + 10;
+  const arrowStartY = height / 2 + 15;
+  const arrowSize = 5;
+  page.drawLine({
+      start: { x: arrowStartX, y: arrowStartY },
+      end: { x: arrowStartX + 15, y: arrowStartY },
+      color: indicatorColor,
+      thickness: 1,
+  });
+  // Arrowhead (right-pointing)
+  page.drawLine({
+      start: { x: arrowStartX + 15, y: arrowStartY },
+      end: { x: arrowStartX + 10, y: arrowStartY + arrowSize },
+      color: indicatorColor,
+      thickness: 1,
+  });
+  page.drawLine({
+      start: { x: arrowStartX + 15, y: arrowStartY },
+      end: { x: arrowStartX + 10, y: arrowStartY - arrowSize },
+      color: indicatorColor,
+      thickness: 1,
+  });
+
+
+  return pdfDoc.save();
+}
+
+/** What a batch of badges is printed on, and how the manifest describes it. */
+export interface BadgeSheetOptions {
+  layout: BadgeSheetLayout;
+  cutMarks: boolean;
+  title: string; // Manifest heading, e.g. the event name
+  details: string[]; // Manifest lines, e.g. the filters and sort order used
+}
+
+// Bottom-left corner of a cell; slots run left to right, then top to bottom
+function cellOrigin(layout: BadgeSheetLayout, slot: number) {
+  const column = slot % layout.columns;
+  const row = Math.floor(slot / layout.columns);
+  return {
+    x: layout.marginLeft + column * (layout.cellWidth + layout.gapX),
+    y: layout.pageSize[1] - layout.marginTop - row * (layout.cellHeight + layout.gapY) - layout.cellHeight,
+  };
+}
+
+// Crop marks in the sheet margins, in line with every cell edge. Marks need a margin to go
+// in, so layouts whose cells run to the edge of the sheet get none.
+function drawCutMarks(page: PDFPage, layout: BadgeSheetLayout) {
+  const [pageWidth, pageHeight] = layout.pageSize;
+  const gap = 3;
+  const length = 12;
+  const mark = { thickness: 0.5, color: rgb(0, 0, 0) };
+
+  const cells = Array.from({ length: layout.columns * layout.rows }, (_, slot) => cellOrigin(layout, slot));
+  const xs = Array.from(new Set(cells.flatMap((c) => [c.x, c.x + layout.cellWidth])));
+  const ys = Array.from(new Set(cells.flatMap((c) => [c.y, c.y + layout.cellHeight])));
+  const [left, right] = [Math.min(...xs), Math.max(...xs)];
+  const [bottom, top] = [Math.min(...ys), Math.max(...ys)];
+
+  for (const x of xs) {
+    if (pageHeight - top > gap) page.drawLine({ start: { x, y: top + gap }, end: { x, y: Math.min(top + gap + length, pageHeight) }, ...mark });
+    if (bottom > gap) page.drawLine({ start: { x, y: bottom - gap }, end: { x, y: Math.max(bottom - gap - length, 0) }, ...mark });
+  }
+  for (const y of ys) {
+    if (left > gap) page.drawLine({ start: { x: left - gap, y }, end: { x: Math.max(left - gap - length, 0), y }, ...mark });
+    if (pageWidth - right > gap) page.drawLine({ start: { x: right + gap, y }, end: { x: Math.min(right + gap + length, pageWidth), y }, ...mark });
+  }
+}
+
+// The manifest: what was printed, then one row per badge with where to find it
+function drawManifest(pdfDoc: PDFDocument, registrations: PassPdfRegistration[], options: BadgeSheetOptions, font: PDFFont, boldFont: PDFFont) {
+  const { layout } = options;
+  const [pageWidth, pageHeight] = layout.pageSize;
+  const perSheet = layout.columns * layout.rows;
+  const margin = Math.min(36, pageWidth / 12);
+  const size = pageWidth < 400 ? 6.5 : 9;
+  const rowHeight = size + 5;
+  const tableWidth = pageWidth - 2 * margin;
+  const columns = [
+    { heading: '#', width: 0.07 },
+    { heading: 'Sheet / pos.', width: 0.12 },
+    { heading: 'Name', width: 0.27 },
+    { heading: 'Company', width: 0.24 },
+    { heading: 'Type', width: 0.13 },
+    { heading: 'Pass ID', width: 0.17 },
+  ];
+
+  let page = pdfDoc.addPage(layout.pageSize);
+  let y = pageHeight - margin - size * 1.6;
+  page.drawText(fitText(printable(`Badge manifest: ${options.title}`), boldFont, size * 1.6, tableWidth), { x: margin, y, font: boldFont, size: size * 1.6 });
+  y -= rowHeight * 1.5;
+  for (const line of options.details) {
+    page.drawText(fitText(printable(line), font, size, tableWidth), { x: margin, y, font, size });
+    y -= rowHeight;
+  }
+  y -= rowHeight / 2;
+
+  const drawRow = (cells: string[], rowFont: PDFFont) => {
+    if (y < margin) {
+      page = pdfDoc.addPage(layout.pageSize);
+      y = pageHeight - margin - size;
+    }
+    let x = margin;
+    cells.forEach((cell, i) => {
+      const width = columns[i].width * tableWidth;
+      page.drawText(fitText(printable(cell), rowFont, size, width - 4), { x, y, font: rowFont, size });
+      x += width;
+    });
+    y -= rowHeight;
+  };
+
+  drawRow(columns.map((c) => c.heading), boldFont);
+  registrations.forEach((reg, index) => {
+    drawRow(
+      [
+        String(index + 1),
+        `${Math.floor(index / perSheet) + 1} / ${(index % perSheet) + 1}`,
+        [reg.user.lastName, reg.user.firstName].filter(Boolean).join(', '),
+        reg.user.company || '',
+        reg.attendeeType?.name || '',
+        reg.passId,
+      ],
+      font
+    );
+  });
+}
+
+/**
+ * Render a batch of badges, in the given order, onto sheets of `options.layout`, after a
+ * manifest listing each badge's sheet and position. Badges keep the quarter-A4 proportions of
+ * the single pass and are scaled to fit their cells. The registrations must all belong to one
+ * event, whose badge template is used. Served by /api/events/[id]/badges.
+ */
+export async function renderBadgeSheetsPdf(registrations: PassPdfRegistration[], options: BadgeSheetOptions): Promise<Uint8Array> {
+  const { layout } = options;
+  const pdfDoc = await PDFDocument.create();
+  const { drawBadge, font, boldFont } = await badgeDrawer(pdfDoc, badgeDesignOf(registrations[0]?.event.badgeTemplate));
+
+  drawManifest(pdfDoc, registrations, options, font, boldFont);
+
+  const perSheet = layout.columns * layout.rows;
+  const sheets = Math.ceil(registrations.length / perSheet);
+  const scale = Math.min(layout.cellWidth / BADGE_WIDTH, layout.cellHeight / BADGE_HEIGHT);
+  const bottomMargin = cellOrigin(layout, perSheet - 1).y;
+
+  for (let sheet = 0; sheet < sheets; sheet++) {
+    const page = pdfDoc.addPage(layout.pageSize);
+    if (options.cutMarks) drawCutMarks(page, layout);
+    // Sheet number in the bottom margin, to match the manifest
+    if (bottomMargin >= 14) {
+      page.drawText(`Sheet ${sheet + 1} of ${sheets}`, { x: layout.marginLeft, y: bottomMargin / 2 - 3, font, size: 7, color: rgb(0.5, 0.5, 0.5) });
+    }
+
+    const onSheet = registrations.slice(sheet * perSheet, (sheet + 1) * perSheet);
+    for (const [slot, registration] of Array.from(onSheet.entries())) {
+      // Draw the badge at its own size, scaled and centred into the cell
+      const cell = cellOrigin(layout, slot);
+      const x = cell.x + (layout.cellWidth - BADGE_WIDTH * scale) / 2;
+      const y = cell.y + (layout.cellHeight - BADGE_HEIGHT * scale) / 2;
+      page.pushOperators(pushGraphicsState(), concatTransformationMatrix(scale, 0, 0, scale, x, y));
+      await drawBadge(registration, page, 0, 0, BADGE_WIDTH, BADGE_HEIGHT);
+      page.pushOperators(popGraphicsState());
+    }
+  }
+
+  return pdfDoc.save();
+}
@@ -0,0 +1,212 @@
+// src/lib/registrationExport.ts
+import * as XLSX from 'xlsx';
+import { Prisma } from '@prisma/client';
+import prisma from '@/lib/prisma';
+import { answerLines, FormField, formatAnswer } from '@/lib/formFields';
+
+export const EXPORT_FORMATS = ['csv', 'xlsx', 'json'] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+// Rows are read from the database this many at a time, so memory stays flat for large events
+const BATCH_SIZE = 500;
+
+const exportInclude = {
+  user: { select: { firstName: true, lastName: true, email: true, phone: true, company: true, position: true } },
+  event: { select: { name: true, location: true, formFields: { orderBy: { position: 'asc' } } } },
+  attendeeType: { select: { name: true } },
+  selectedOccurrences: {
+    where: { occurrence: { deletedAt: null } },
+    select: {
+      checkedInAt: true,
+      checkedOutAt: true,
+      checkInStation: true,
+      occurrence: { select: { startTime: true, endTime: true, location: true } },
+    },
+    orderBy: { occurrence: { startTime: 'asc' } },
+  },
+} satisfies Prisma.EventRegistrationInclude;
+
+type ExportRow = Prisma.EventRegistrationGetPayload<{ include: typeof exportInclude }>;
+type Cell = string | number | null;
+type ExportColumns = Record<string, { header: string; value: (r: ExportRow) => Cell }>;
+
+const iso = (d: Date | null | undefined) => (d ? d.toISOString() : null);
+
+const sessionLabel = (o: { startTime: Date; location: string | null }) =>
+  `${o.startTime.toISOString()}${o.location ? ` (${o.location})` : ''}`;
+
+const firstCheckIn = (r: ExportRow) =>
+  r.selectedOccurrences.reduce<Date | null>(
+    (first, so) => (so.checkedInAt && (!first || so.checkedInAt < first) ? so.checkedInAt : first),
+    null
+  );
+
+/** Columns that can be requested with ?columns=a,b,c. */
+export const EXPORT_COLUMNS: ExportColumns = {
+  event: { header: 'Event', value: (r) => r.event.name },
+  eventLocation: { header: 'Event Location', value: (r) => r.event.location },
+  name: { header: 'Name', value: (r) => `${r.user.firstName ?? ''} ${r.user.lastName ?? ''}`.trim() },
+  firstName: { header: 'First Name', value: (r) => r.user.firstName },
+  lastName: { header: 'Last Name', value: (r) => r.user.lastName },
+  email: { header: 'Email', value: (r) => r.user.email },
+  phone: { header: 'Phone', value: (r) => r.user.phone },
+  company: { header: 'Company', value: (r) => r.user.company },
+  position: { header: 'Job Title', value: (r) => r.user.position },
+  registrationDate: { header: 'Registration Date', value: (r) => iso(r.registrationDate) },
+  status: { header: 'Status', value: (r) => r.status },
+  attendeeType: { header: 'Attendee Type', value: (r) => r.attendeeType?.name ?? null },
+  waitlistPosition: { header: 'Waitlist Position', value: (r) => r.waitlistPosition },
+  passId: { header: 'Pass ID', value: (r) => r.passId },
+  sessions: { header: 'Sessions', value: (r) => r.selectedOccurrences.map((so) => sessionLabel(so.occurrence)).join(' | ') },
+  checkedInAt: { header: 'First Check-in', value: (r) => iso(firstCheckIn(r)) },
+  answers: { header: 'Form Answers', value: (r) => answerLines(r.event.formFields, r.answers).join(' | ') },
+};
+
+export const DEFAULT_EXPORT_COLUMNS = [
+  'event', 'eventLocation', 'name', 'email', 'phone', 'company', 'registrationDate', 'status', 'attendeeType', 'passId', 'sessions', 'answers',
+];
+
+/**
+ * The columns for an export of one event: EXPORT_COLUMNS plus a `field:<id>` column per
+ * question on its registration form, which replace the combined `answers` column by default.
+ */
+export function eventExportColumns(fields: FormField[]): { catalog: ExportColumns; defaults: string[] } {
+  const catalog: ExportColumns = { ...EXPORT_COLUMNS };
+  for (const field of fields) {
+    catalog[`field:${field.id}`] = {
+      header: field.label,
+      value: (r) => formatAnswer(field, ((r.answers ?? {}) as Record<string, unknown>)[field.id]) || null,
+    };
+  }
+  const defaults = fields.length
+    ? [...DEFAULT_EXPORT_COLUMNS.filter((c) => c !== 'answers'), ...fields.map((f) => `field:${f.id}`)]
+    : DEFAULT_EXPORT_COLUMNS;
+  return { catalog, defaults };
+}
+
+/** Parse ?columns=..., keeping the caller's order. Unknown names are returned as `unknown`. */
+export function parseExportColumns(
+  raw: string | null,
+  catalog: ExportColumns = EXPORT_COLUMNS,
+  defaults: string[] = DEFAULT_EXPORT_COLUMNS
+): { columns: string[]; unknown: string[] } {
+  if (!raw || !raw.trim()) return { columns: defaults, unknown: [] };
+  const requested = Array.from(new Set(raw.split(',').map((c) => c.trim()).filter(Boolean)));
+  return {
+    columns: requested.filter((c) => Object.hasOwn(catalog, c)),
+    unknown: requested.filter((c) => !Object.hasOwn(catalog, c)),
+  };
+}
+
+function fetchBatch(where: Prisma.EventRegistrationWhereInput, orderBy: any, skip: number) {
+  return prisma.eventRegistration.findMany({
+    where,
+    // id as a tie-breaker keeps paging stable when the sort key has duplicates
+    orderBy: [orderBy, { id: 'asc' }],
+    skip,
+    take: BATCH_SIZE,
+    include: exportInclude,
+  });
+}
+
+// Spreadsheet apps run cells starting with these as formulas; attendee input must stay text
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function csvCell(value: Cell) {
+  if (value === null || value === undefined) return '';
+  let text = String(value);
+  if (typeof value === 'string' && FORMULA_PREFIX.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+const csvLine = (cells: Cell[]) => `${cells.map(csvCell).join(',')}\r\n`;
+
+/**
+ * CSV or JSON export as a stream. Each pull reads the next batch from the database, so the
+ * response starts right away and a slow client slows the reads instead of filling memory.
+ */
+export function registrationExportStream(
+  format: 'csv' | 'json',
+  columns: string[],
+  where: Prisma.EventRegistrationWhereInput,
+  orderBy: any,
+  catalog: ExportColumns = EXPORT_COLUMNS
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  let skip = 0;
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      // The BOM makes Excel read the CSV as UTF-8
+      controller.enqueue(encoder.encode(format === 'csv' ? `\uFEFF${csvLine(columns.map((c) => catalog[c].header))}` : '['));
+    },
+    async pull(controller) {
+      try {
+        const batch = await fetchBatch(where, orderBy, skip);
+        const chunk = batch
+          .map((r, i) => {
+            if (format === 'csv') return csvLine(columns.map((c) => catalog[c].value(r)));
+            const record = Object.fromEntries(columns.map((c) => [c, catalog[c].value(r)]));
+            return `${skip + i === 0 ? '' : ','}\n${JSON.stringify(record)}`;
+          })
+          .join('');
+        skip += batch.length;
+        if (chunk) controller.enqueue(encoder.encode(chunk));
+        if (batch.length < BATCH_SIZE) {
+          if (format === 'json') controller.enqueue(encoder.encode('\n]\n'));
+          controller.close();
+        }
+      } catch (error) {
+        console.error('Error streaming registration export:', error);
+        controller.error(error);
+      }
+    },
+  });
+}
+
+/**
+ * XLSX export: a Registrations sheet with the chosen columns plus a Sessions sheet with one
+ * row per registration and session. A zip can't be written before all rows are known, so the
+ * workbook is built on the server from batched reads and sent once complete.
+ */
+export async function registrationExportWorkbook(
+  columns: string[],
+  where: Prisma.EventRegistrationWhereInput,
+  orderBy: any,
+  catalog: ExportColumns = EXPORT_COLUMNS
+): Promise<Buffer> {
+  const registrations: Cell[][] = [columns.map((c) => catalog[c].header)];
+  const sessions: Cell[][] = [[
+    'Event', 'Session Start', 'Session End', 'Session Location', 'Name', 'Email', 'Company',
+    'Status', 'Pass ID', 'Checked In At', 'Checked Out At', 'Check-in Station',
+  ]];
+
+  for (let skip = 0; ; skip += BATCH_SIZE) {
+    const batch = await fetchBatch(where, orderBy, skip);
+    for (const r of batch) {
+      registrations.push(columns.map((c) => catalog[c].value(r)));
+      for (const so of r.selectedOccurrences) {
+        sessions.push([
+          r.event.name,
+          iso(so.occurrence.startTime),
+          iso(so.occurrence.endTime),
+          so.occurrence.location,
+          EXPORT_COLUMNS.name.value(r),
+          r.user.email,
+          r.user.company,
+          r.status,
+          r.passId,
+          iso(so.checkedInAt),
+          iso(so.checkedOutAt),
+          so.checkInStation,
+        ]);
+      }
+    }
+    if (batch.length < BATCH_SIZE) break;
+  }
+
+  const wb = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet(registrations), 'Registrations');
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet(sessions), 'Sessions');
+  return XLSX.write(wb, { type: 'buffer', bookType: 'xlsx', compression: true });
+}
@@ -0,0 +1,77 @@
+// src/lib/registrationQuery.ts
+// Query-string filters and sorting shared by the registrations list and export endpoints.
+
+const SORT_MAP = {
+  registrationDate: { path: "registrationDate" as const },
+  status: { path: "status" as const },
+  "user.firstName": { path: "user" as const, key: "firstName" as const },
+  "user.lastName":  { path: "user" as const, key: "lastName" as const },
+  "user.email":     { path: "user" as const, key: "email" as const },
+  "user.company":   { path: "user" as const, key: "company" as const },
+  "event.name":     { path: "event" as const, key: "name" as const },
+};
+
+function parseSearchDateRange(raw: string) {
+  const ts = Date.parse(raw);
+  if (Number.isNaN(ts)) return null;
+  const start = new Date(ts); start.setHours(0,0,0,0);
+  const end = new Date(start); end.setDate(end.getDate() + 1);
+  return { gte: start, lt: end };
+}
+
+/**
+ * Prisma `where` for EventRegistration from ?status, ?searchTerm, ?eventId, ?sessionId and
+ * ?attendeeTypeId ("none" for registrations without a type). searchTerm matches pass,
+ * attendee, attendee type, event and session fields, or a registration date.
+ */
+export function buildWhere(params: URLSearchParams) {
+  const status     = (params.get("status")     || "").trim();
+  const search     = (params.get("searchTerm") || "").trim();
+  const eventId    = (params.get("eventId")    || "").trim();
+  const sessionId  = (params.get("sessionId")  || "").trim();
+  const typeId     = (params.get("attendeeTypeId") || "").trim();
+
+  const where: any = { deletedAt: null }; // Trashed registrations only show up in the trash
+
+  if (status) where.status = status;
+  if (eventId) (where.event ??= {}), (where.event.id = eventId);
+  if (sessionId) where.selectedOccurrences = { some: { occurrenceId: sessionId } };
+  if (typeId) where.attendeeTypeId = typeId === "none" ? null : typeId;
+
+  if (search) {
+    const dateRange = parseSearchDateRange(search);
+    const or: any[] = [
+      { status: { contains: search, mode: "insensitive" } },
+      { passId: { contains: search, mode: "insensitive" } },
+      { qrCodeData: { contains: search, mode: "insensitive" } },
+      { event: { name: { contains: search, mode: "insensitive" } } },
+      { event: { location: { contains: search, mode: "insensitive" } } },
+      { user:  { firstName: { contains: search, mode: "insensitive" } } },
+      { user:  { lastName:  { contains: search, mode: "insensitive" } } },
+      { user:  { email:     { contains: search, mode: "insensitive" } } },
+      { user:  { phone:     { contains: search, mode: "insensitive" } } },
+      { user:  { company:   { contains: search, mode: "insensitive" } } },
+      { attendeeType: { name: { contains: search, mode: "insensitive" } } },
+      { selectedOccurrences: { some: { occurrence: { location: { contains: search, mode: "insensitive" } } } } },
+    ];
+    if (dateRange) or.push({ registrationDate: dateRange });
+    where.AND = [...(where.AND ?? []), { OR: or }];
+  }
+
+  return where;
+}
+
+export function buildOrderBy(sortBy: string, sortDirection: "asc" | "desc") {
+  let orderBy: any = { registrationDate: "desc" };
+  const mapping = SORT_MAP[sortBy as keyof typeof SORT_MAP];
+  if (mapping) {
+    if (mapping.path === "registrationDate" || mapping.path === "status") {
+      orderBy = { [mapping.path]: sortDirection };
+    } else if (mapping.path === "user" && mapping.key) {
+      orderBy = { user: { [mapping.key]: sortDirection } };
+    } else if (mapping.path === "event" && mapping.key) {
+      orderBy = { event: { [mapping.key]: sortDirection } };
+    }
+  }
+  return orderBy;
+}
@@ -0,0 +1,144 @@
+// src/lib/registrations.ts
+import QRCode from 'qrcode';
+import { Prisma } from '@prisma/client';
+import { hasSeatFor, lockEventForCapacity, nextWaitlistPosition } from '@/lib/capacity';
+import { nextPassId } from '@/lib/passId';
+import { passCode } from '@/lib/passCode';
+import { newPassAccessToken } from '@/lib/passAccess';
+import { AuditActor, recordAudit, registrationSnapshot } from '@/lib/audit';
+import type { FormAnswers } from '@/lib/formFields';
+import { AttendeeType, typeOffersSession } from '@/lib/attendeeTypes';
+
+// Attendee field rules shared by /public-register and the bulk import
+export const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+export const PHONE_REGEX = /^[0-9\s\-\+()]+$/; // digits, spaces, +, -, parentheses
+
+export interface AttendeeFields {
+  firstName: string;
+  lastName: string;
+  email: string;
+  phone: string;
+  company: string;
+}
+
+export const ATTENDEE_FIELD_LABELS: Record<keyof AttendeeFields, string> = {
+  firstName: 'First Name',
+  lastName: 'Last Name',
+  email: 'Email',
+  phone: 'Phone',
+  company: 'Company',
+};
+
+/** Every problem with one attendee's details, in form order; empty when valid. */
+export function validateAttendee(fields: Partial<AttendeeFields>): string[] {
+  const errors: string[] = [];
+  for (const key of Object.keys(ATTENDEE_FIELD_LABELS) as (keyof AttendeeFields)[]) {
+    if (!fields[key]?.trim()) errors.push(`${ATTENDEE_FIELD_LABELS[key]} is required.`);
+  }
+  if (fields.email?.trim() && !EMAIL_REGEX.test(fields.email.trim())) errors.push('Invalid email format.');
+  if (fields.phone?.trim() && !PHONE_REGEX.test(fields.phone.trim())) errors.push('Invalid phone number format.');
+  return errors;
+}
+
+/**
+ * Why a registration can't be of this attendee type, or null if it can: a session the type
+ * isn't open to, or the type's quota is used up. Call it after lockEventForCapacity() so two
+ * registrations can't both take the last place. `excludeRegistrationId` re-checks a
+ * registration without counting itself.
+ */
+export async function attendeeTypeError(
+  tx: Prisma.TransactionClient,
+  type: AttendeeType,
+  occurrenceIds: string[],
+  excludeRegistrationId?: string
+): Promise<string | null> {
+  if (occurrenceIds.some((id) => !typeOffersSession(type, id))) {
+    return `One or more selected sessions are not open to ${type.name} attendees.`;
+  }
+  if (type.quota) {
+    const taken = await tx.eventRegistration.count({
+      where: {
+        attendeeTypeId: type.id,
+        status: { not: 'cancelled' },
+        deletedAt: null,
+        ...(excludeRegistrationId ? { NOT: { id: excludeRegistrationId } } : {}),
+      },
+    });
+    if (taken >= type.quota) return `All ${type.quota} ${type.name} places are taken.`;
+  }
+  return null;
+}
+
+/**
+ * Why `userId` can't register for the event again, or null if they can: an earlier
+ * registration of theirs is in the trash and still holds their one place per event. It is
+ * left for an admin to restore or delete for good rather than purged here.
+ */
+export async function trashedRegistrationError(tx: Prisma.TransactionClient, userId: string, eventId: string) {
+  const trashed = await tx.eventRegistration.findFirst({ where: { userId, eventId, deletedAt: { not: null } }, select: { id: true } });
+  return trashed
+    ? 'An earlier registration for this event is in the trash. An admin needs to restore it or delete it permanently before registering again.'
+    : null;
+}
+
+/**
+ * Create a registration for `userId` in the chosen sessions, inside the caller's transaction.
+ * Capacity is checked under a lock on the event row, so two concurrent registrations can't
+ * both take the last seat; overflow goes to the waitlist. The pass ID comes from the
+ * per-prefix counter in the same transaction, so it is unique and contiguous even under load.
+ * `actor` is whoever is registering them, for the audit log. `answers` must already be
+ * checked with validateAnswers(), the attendee type with attendeeTypeError(), and an earlier
+ * trashed registration with trashedRegistrationError().
+ */
+export async function createRegistration(
+  tx: Prisma.TransactionClient,
+  event: { id: string; passIdPrefix: string | null; passIdStart: number | null },
+  userId: string,
+  occurrenceIds: string[],
+  actor: AuditActor,
+  answers?: FormAnswers,
+  attendeeTypeId?: string | null
+) {
+  await lockEventForCapacity(tx, event.id);
+  const seatAvailable = await hasSeatFor(tx, event.id, occurrenceIds);
+  const waitlistPosition = seatAvailable ? null : await nextWaitlistPosition(tx, event.id);
+
+  const passId = await nextPassId(tx, event);
+  const qrCodeDataUrl = await QRCode.toDataURL(passCode({ passId, eventId: event.id, passVersion: 1 }));
+
+  const registration = await tx.eventRegistration.create({
+    data: {
+      userId,
+      eventId: event.id,
+      passId,
+      qrCodeData: qrCodeDataUrl,
+      accessToken: newPassAccessToken(),
+      legacyPassCode: false,
+      status: seatAvailable ? 'registered' : 'waitlisted',
+      waitlistPosition,
+      answers,
+      attendeeTypeId,
+      selectedOccurrences: {
+        create: occurrenceIds.map((occId) => ({ occurrence: { connect: { id: occId } } })),
+      },
+    },
+    include: {
+      user: true,
+      attendeeType: true,
+      event: { include: { occurrences: { where: { deletedAt: null } } } },
+      selectedOccurrences: { include: { occurrence: true } },
+    },
+  });
+  await recordAudit(
+    {
+      actor,
+      entityType: 'registration',
+      entityId: registration.id,
+      eventId: event.id,
+      action: 'create',
+      after: registrationSnapshot(registration),
+    },
+    tx
+  );
+  return registration;
+}
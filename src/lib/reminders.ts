@@ -0,0 +1,113 @@
+// src/lib/reminders.ts
+import prisma from '@/lib/prisma';
+import { PrismaClientKnownRequestError } from '@prisma/client/runtime/library';
+import { SEAT_HOLDING_STATUSES } from '@/lib/capacity';
+import { queueEventPassEmail } from '@/lib/emailService';
+
+const UNIT_MS: Record<string, number> = { m: 60_000, h: 3_600_000, d: 86_400_000 };
+const DEFAULT_WINDOWS = '7d,24h,2h';
+
+export interface ReminderWindow {
+  label: string; // As written in REMINDER_WINDOWS, e.g. "24h"; stored on SessionReminder
+  ms: number;
+}
+
+export interface ReminderRunResult {
+  queued: number;
+  failed: number;
+}
+
+/**
+ * Reminder windows from REMINDER_WINDOWS ("7d,24h,2h" by default), widest first.
+ * Each entry is a number followed by m, h or d; anything else is ignored with a warning.
+ */
+export function reminderWindows(config = process.env.REMINDER_WINDOWS || DEFAULT_WINDOWS): ReminderWindow[] {
+  const windows: ReminderWindow[] = [];
+  for (const raw of config.split(',')) {
+    const label = raw.trim().toLowerCase();
+    const match = label.match(/^(\d+)([mhd])$/);
+    if (!match || Number(match[1]) === 0) {
+      if (label) console.warn(`Ignoring reminder window "${label}"; use e.g. 30m, 24h or 7d.`);
+      continue;
+    }
+    if (!windows.some((w) => w.label === label)) {
+      windows.push({ label, ms: Number(match[1]) * UNIT_MS[match[2]] });
+    }
+  }
+  return windows.sort((a, b) => b.ms - a.ms);
+}
+
+/**
+ * The window a session reminder is due for right now, or null. Only the narrowest window
+ * that has opened counts, so someone who registers the day before gets the 24h reminder
+ * but not a late 7d one. A window is also skipped when the attendee signed up after it
+ * opened, since their confirmation email is still fresh.
+ */
+export function dueWindow(
+  windows: ReminderWindow[],
+  startTime: Date,
+  registeredAt: Date,
+  now = Date.now()
+): ReminderWindow | null {
+  const untilStart = startTime.getTime() - now;
+  if (untilStart <= 0) return null;
+  const open = windows.filter((w) => untilStart <= w.ms);
+  if (!open.length) return null;
+  const narrowest = open[open.length - 1];
+  return registeredAt.getTime() <= startTime.getTime() - narrowest.ms ? narrowest : null;
+}
+
+/**
+ * Queue every reminder that is due. Safe to run as often as you like, and from several
+ * places at once: a SessionReminder row is claimed (unique per session registration and
+ * window) before the email is queued, and released again if queueing fails so the next run
+ * retries it. Delivery retries are the outbox's job.
+ */
+export async function queueDueReminders(now = new Date()): Promise<ReminderRunResult> {
+  const windows = reminderWindows();
+  const result: ReminderRunResult = { queued: 0, failed: 0 };
+  if (!windows.length) return result;
+
+  const candidates = await prisma.eventOccurrenceRegistration.findMany({
+    where: {
+      occurrence: { startTime: { gt: now, lte: new Date(now.getTime() + windows[0].ms) }, deletedAt: null },
+      registration: { status: { in: SEAT_HOLDING_STATUSES }, deletedAt: null },
+    },
+    include: {
+      occurrence: true,
+      reminders: { select: { window: true } },
+      registration: { include: { user: true, event: true } },
+    },
+    orderBy: { occurrence: { startTime: 'asc' } },
+  });
+
+  for (const row of candidates) {
+    const window = dueWindow(windows, row.occurrence.startTime, row.registeredAt, now.getTime());
+    if (!window || row.reminders.some((r) => r.window === window.label)) continue;
+
+    let claimId: string;
+    try {
+      const claim = await prisma.sessionReminder.create({
+        data: { occurrenceRegistrationId: row.id, window: window.label },
+      });
+      claimId = claim.id;
+    } catch (error) {
+      // Another run claimed it first
+      if (error instanceof PrismaClientKnownRequestError && error.code === 'P2002') continue;
+      throw error;
+    }
+
+    try {
+      // The reminder is about this one session, so that is the only one the template sees
+      const registration = { ...row.registration, selectedOccurrences: [{ occurrence: row.occurrence }] };
+      await queueEventPassEmail(row.registration.user.email, registration, 'reminder');
+      result.queued++;
+    } catch (error) {
+      console.error(`Reminder ${window.label} for session registration ${row.id} failed:`, error);
+      await prisma.sessionReminder.delete({ where: { id: claimId } }).catch(() => undefined);
+      result.failed++;
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,12 @@
+// src/lib/roles.ts
+// Kept free of Node-only imports so src/middleware.ts (edge runtime) can use it too.
+
+export const ROLES = ['admin', 'organizer', 'checkin', 'attendee'] as const;
+export type Role = (typeof ROLES)[number];
+
+// Who may do what. Admins can do everything; attendees have no staff access.
+export const EVENT_MANAGERS: Role[] = ['admin', 'organizer'];
+export const CHECK_IN_STAFF: Role[] = ['admin', 'organizer', 'checkin'];
+export const USER_ADMINS: Role[] = ['admin'];
+
+export const isRole = (value: unknown): value is Role => ROLES.includes(value as Role);
@@ -0,0 +1,120 @@
+// src/lib/scheduleChanges.ts
+import { Prisma } from '@prisma/client';
+import prisma from '@/lib/prisma';
+import { queueEventPassEmail } from '@/lib/emailService';
+
+export interface OccurrenceSnapshot {
+  id?: string;
+  startTime: Date;
+  endTime: Date | null;
+  location: string | null;
+}
+
+/** What an event edit does to its sessions. "moved" covers a new time, end time or location. */
+export interface ScheduleDiff {
+  added: OccurrenceSnapshot[];
+  moved: { id: string; before: OccurrenceSnapshot; after: OccurrenceSnapshot }[];
+  removed: (OccurrenceSnapshot & { id: string })[];
+}
+
+/** One change to a session the attendee is booked on, as shown in the schedule-change email. */
+export interface ScheduleChange {
+  kind: 'moved' | 'removed';
+  before: OccurrenceSnapshot;
+  after?: OccurrenceSnapshot;
+}
+
+export interface AffectedRegistrant {
+  registrationId: string;
+  passId: string;
+  name: string;
+  email: string;
+  status: string;
+  changes: ScheduleChange[];
+  sessionsLeft: number; // Booked sessions that survive the edit
+}
+
+const sameTime = (a: Date | null, b: Date | null) => (a?.getTime() ?? null) === (b?.getTime() ?? null);
+
+/**
+ * Compare the stored sessions with the ones submitted by the editor. Incoming sessions are
+ * matched by id; ones without an id are new, and stored ones missing from the payload are
+ * removed (PUT /api/events/[id] moves them to the trash).
+ */
+export function diffOccurrences(existing: (OccurrenceSnapshot & { id: string })[], incoming: OccurrenceSnapshot[]): ScheduleDiff {
+  const diff: ScheduleDiff = { added: [], moved: [], removed: [] };
+  const incomingIds = new Set(incoming.filter((o) => o.id).map((o) => o.id));
+
+  for (const occ of incoming) {
+    const before = occ.id ? existing.find((e) => e.id === occ.id) : undefined;
+    if (!before) {
+      diff.added.push(occ);
+      continue;
+    }
+    if (!sameTime(before.startTime, occ.startTime) || !sameTime(before.endTime, occ.endTime) || before.location !== occ.location) {
+      diff.moved.push({ id: before.id, before, after: occ });
+    }
+  }
+  diff.removed = existing.filter((e) => !incomingIds.has(e.id));
+  return diff;
+}
+
+/**
+ * Registrations (other than cancelled ones) booked on a session the edit moves or removes.
+ * Must run before the edit is applied, while the removed sessions are still live.
+ */
+export async function affectedRegistrants(
+  eventId: string,
+  diff: ScheduleDiff,
+  db: Prisma.TransactionClient = prisma
+): Promise<AffectedRegistrant[]> {
+  const changedIds = [...diff.moved.map((m) => m.id), ...diff.removed.map((r) => r.id)];
+  if (!changedIds.length) return [];
+
+  const registrations = await db.eventRegistration.findMany({
+    where: {
+      eventId,
+      status: { not: 'cancelled' },
+      deletedAt: null,
+      selectedOccurrences: { some: { occurrenceId: { in: changedIds } } },
+    },
+    include: { user: true, selectedOccurrences: { where: { occurrence: { deletedAt: null } }, select: { occurrenceId: true } } },
+    orderBy: { registrationDate: 'asc' },
+  });
+
+  return registrations.map((reg) => {
+    const booked = new Set(reg.selectedOccurrences.map((so) => so.occurrenceId));
+    const changes: ScheduleChange[] = [
+      ...diff.moved.filter((m) => booked.has(m.id)).map((m) => ({ kind: 'moved' as const, before: m.before, after: m.after })),
+      ...diff.removed.filter((r) => booked.has(r.id)).map((r) => ({ kind: 'removed' as const, before: r })),
+    ];
+    return {
+      registrationId: reg.id,
+      passId: reg.passId,
+      name: `${reg.user.firstName || ''} ${reg.user.lastName || ''}`.trim(),
+      email: reg.user.email,
+      status: reg.status,
+      changes,
+      sessionsLeft: booked.size - diff.removed.filter((r) => booked.has(r.id)).length,
+    };
+  });
+}
+
+/**
+ * Email each affected registrant what changed and their schedule as it now stands. Runs
+ * after the edit is committed; failures to queue are logged per registrant.
+ */
+export async function notifyScheduleChanges(affected: AffectedRegistrant[]) {
+  for (const entry of affected) {
+    try {
+      const registration = await prisma.eventRegistration.findUnique({
+        where: { id: entry.registrationId, deletedAt: null },
+        include: { user: true, event: true, selectedOccurrences: { where: { occurrence: { deletedAt: null } }, include: { occurrence: true } } },
+      });
+      if (!registration) continue;
+      await queueEventPassEmail(registration.user.email, { ...registration, scheduleChanges: entry.changes }, 'schedule-change');
+    } catch (error) {
+      console.error(`Failed to queue schedule change email for registration ${entry.registrationId}:`, error);
+    }
+  }
+}
@@ -0,0 +1,149 @@
+// src/lib/trash.ts
+import { Prisma } from '@prisma/client';
+import prisma from '@/lib/prisma';
+import { hasSeatFor, holdsSeat, lockEventForCapacity, nextWaitlistPosition } from '@/lib/capacity';
+
+// Deleted events, sessions and registrations are only marked with deletedAt. They can be
+// restored from the trash until /api/cron/purge-trash removes them for good.
+const DEFAULT_RETENTION_DAYS = 30;
+
+export const TRASH_KINDS = ['event', 'occurrence', 'registration'] as const;
+export type TrashKind = (typeof TRASH_KINDS)[number];
+
+export const isTrashKind = (value: unknown): value is TrashKind => TRASH_KINDS.includes(value as TrashKind);
+
+// eventId is set when a restore changes the event's live registrations
+export type TrashActionResult = { error: string; status: number } | { error: null; message: string; eventId?: string };
+
+export interface PurgeResult {
+  events: number;
+  occurrences: number;
+  registrations: number;
+}
+
+/** Days an item stays in the trash, from TRASH_RETENTION_DAYS (default 30). */
+export function trashRetentionDays(config = process.env.TRASH_RETENTION_DAYS): number {
+  const days = Number(config);
+  return Number.isFinite(days) && days > 0 ? days : DEFAULT_RETENTION_DAYS;
+}
+
+export const purgeDate = (deletedAt: Date) => new Date(deletedAt.getTime() + trashRetentionDays() * 86_400_000);
+
+/**
+ * Move an event to the trash together with its live sessions and registrations. They all
+ * get the same timestamp, which is how restoreEvent() tells them from items that were
+ * already in the trash on their own.
+ */
+export async function trashEvent(tx: Prisma.TransactionClient, eventId: string, now = new Date()) {
+  await tx.event.update({ where: { id: eventId }, data: { deletedAt: now } });
+  await tx.eventOccurrence.updateMany({ where: { eventId, deletedAt: null }, data: { deletedAt: now } });
+  await tx.eventRegistration.updateMany({ where: { eventId, deletedAt: null }, data: { deletedAt: now } });
+}
+
+async function restoreEvent(id: string): Promise<TrashActionResult> {
+  return prisma.$transaction(async (tx) => {
+    const event = await tx.event.findUnique({ where: { id }, select: { name: true, deletedAt: true } });
+    if (!event?.deletedAt) return { error: 'Event not found in the trash.', status: 404 };
+
+    const withEvent = { eventId: id, deletedAt: event.deletedAt };
+    await tx.event.update({ where: { id }, data: { deletedAt: null } });
+    await tx.eventOccurrence.updateMany({ where: withEvent, data: { deletedAt: null } });
+    const { count } = await tx.eventRegistration.updateMany({ where: withEvent, data: { deletedAt: null } });
+    return { error: null, message: `Restored ${event.name} with ${count} registration${count === 1 ? '' : 's'}.`, eventId: id };
+  });
+}
+
+async function restoreOccurrence(id: string): Promise<TrashActionResult> {
+  return prisma.$transaction(async (tx) => {
+    const occurrence = await tx.eventOccurrence.findUnique({
+      where: { id },
+      select: { eventId: true, deletedAt: true, event: { select: { deletedAt: true } } },
+    });
+    if (!occurrence?.deletedAt) return { error: 'Session not found in the trash.', status: 404 };
+    if (occurrence.event.deletedAt) return { error: 'Restore the event first.', status: 409 };
+
+    // Calendars dropped the session when it was removed; a new SEQUENCE makes them take it back
+    await tx.eventOccurrence.update({ where: { id }, data: { deletedAt: null, sequence: { increment: 1 } } });
+    return { error: null, message: 'Session restored with its bookings.', eventId: occurrence.eventId };
+  });
+}
+
+/**
+ * Bring a registration back. Its seat may have gone to someone else in the meantime, so a
+ * seat holder that no longer fits joins the back of the waitlist instead.
+ */
+async function restoreRegistration(id: string): Promise<TrashActionResult> {
+  return prisma.$transaction(async (tx) => {
+    const registration = await tx.eventRegistration.findUnique({
+      where: { id },
+      select: {
+        eventId: true,
+        status: true,
+        deletedAt: true,
+        event: { select: { deletedAt: true } },
+        selectedOccurrences: { where: { occurrence: { deletedAt: null } }, select: { occurrenceId: true } },
+      },
+    });
+    if (!registration?.deletedAt) return { error: 'Registration not found in the trash.', status: 404 };
+    if (registration.event.deletedAt) return { error: 'Restore the event first.', status: 409 };
+
+    await lockEventForCapacity(tx, registration.eventId);
+    const occurrenceIds = registration.selectedOccurrences.map((so) => so.occurrenceId);
+    const data: Prisma.EventRegistrationUpdateInput = { deletedAt: null };
+    let message = 'Registration restored.';
+
+    if (registration.status === 'waitlisted') {
+      data.waitlistPosition = await nextWaitlistPosition(tx, registration.eventId);
+      message = 'Registration restored to the back of the waitlist.';
+    } else if (holdsSeat(registration.status) && !(await hasSeatFor(tx, registration.eventId, occurrenceIds, id))) {
+      data.status = 'waitlisted';
+      data.waitlistPosition = await nextWaitlistPosition(tx, registration.eventId);
+      message = 'The event is full now, so the registration was restored to the waitlist.';
+    }
+
+    await tx.eventRegistration.update({ where: { id }, data });
+    return { error: null, message, eventId: registration.eventId };
+  });
+}
+
+export function restoreFromTrash(kind: TrashKind, id: string): Promise<TrashActionResult> {
+  if (kind === 'event') return restoreEvent(id);
+  if (kind === 'occurrence') return restoreOccurrence(id);
+  return restoreRegistration(id);
+}
+
+/** Delete one trashed item for good. Live items are never touched. */
+export async function purgeFromTrash(kind: TrashKind, id: string): Promise<TrashActionResult> {
+  const inTrash = { id, deletedAt: { not: null } };
+
+  if (kind === 'event') {
+    const event = await prisma.event.findFirst({ where: inTrash, select: { id: true } });
+    if (!event) return { error: 'Event not found in the trash.', status: 404 };
+    await prisma.$transaction([
+      // Registrations don't cascade with their event; sessions, bookings and templates do
+      prisma.eventRegistration.deleteMany({ where: { eventId: id } }),
+      prisma.event.delete({ where: { id } }),
+    ]);
+    return { error: null, message: 'Event deleted permanently.' };
+  }
+
+  const { count } =
+    kind === 'occurrence'
+      ? await prisma.eventOccurrence.deleteMany({ where: inTrash })
+      : await prisma.eventRegistration.deleteMany({ where: inTrash });
+  if (!count) return { error: `${kind === 'occurrence' ? 'Session' : 'Registration'} not found in the trash.`, status: 404 };
+  return { error: null, message: `${kind === 'occurrence' ? 'Session' : 'Registration'} deleted permanently.` };
+}
+
+/** Permanently delete everything that has been in the trash longer than the retention period. */
+export async function purgeExpiredTrash(now = new Date()): Promise<PurgeResult> {
+  const expired = { deletedAt: { lt: new Date(now.getTime() - trashRetentionDays() * 86_400_000) } };
+
+  const [withEvents, registrations, occurrences, events] = await prisma.$transaction([
+    prisma.eventRegistration.deleteMany({ where: { event: expired } }),
+    prisma.eventRegistration.deleteMany({ where: expired }),
+    prisma.eventOccurrence.deleteMany({ where: expired }),
+    prisma.event.deleteMany({ where: expired }),
+  ]);
+  return { events: events.count, occurrences: occurrences.count, registrations: withEvents.count + registrations.count };
+}
@@ -0,0 +1,13 @@
+// src/lib/userEmail.ts
+import { Prisma } from '@prisma/client';
+import prisma from '@/lib/prisma';
+
+/** An email as stored on a user: trimmed and lowercased, so one address is one user in any case. */
+export const normalizeEmail = (email: string) => String(email).trim().toLowerCase();
+
+/**
+ * The user with this email, whatever its case. Users saved before emails were normalised may
+ * still have theirs in mixed case, so the unique index can't be used for the lookup.
+ */
+export const findUserByEmail = (email: string, db: Prisma.TransactionClient = prisma) =>
+  db.user.findFirst({ where: { email: { equals: normalizeEmail(email), mode: 'insensitive' } } });
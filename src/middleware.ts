@@ -1,32 +1,77 @@
 import { NextResponse } from 'next/server'
 import type { NextRequest } from 'next/server'
- 
+import { verifyAuthToken } from '@/lib/edgeToken'
+import { CHECK_IN_STAFF, EVENT_MANAGERS, USER_ADMINS, Role } from '@/lib/roles'
 
-export function middleware(request: NextRequest) {
+// Most specific prefix first; the first match decides which roles may open the page.
+const PROTECTED_PAGES: { prefix: string; roles: Role[] }[] = [
+  { prefix: '/signup', roles: USER_ADMINS },
+  { prefix: '/trash', roles: USER_ADMINS },
+  { prefix: '/audit', roles: EVENT_MANAGERS },
+  { prefix: '/events/create', roles: EVENT_MANAGERS },
+  { prefix: '/events/edit', roles: EVENT_MANAGERS },
+  { prefix: '/events/emails', roles: EVENT_MANAGERS },
+  { prefix: '/events/form', roles: EVENT_MANAGERS },
+  { prefix: '/events/types', roles: EVENT_MANAGERS },
+  { prefix: '/events', roles: CHECK_IN_STAFF },
+  { prefix: '/registrations/import', roles: EVENT_MANAGERS },
+  { prefix: '/registrations', roles: CHECK_IN_STAFF },
+  { prefix: '/check-in', roles: CHECK_IN_STAFF },
+  { prefix: '/profile', roles: CHECK_IN_STAFF },
+]
+
+export async function middleware(request: NextRequest) {
   const path = request.nextUrl.pathname
 
-  const isPublicPath = path === '/login' || path === '/' || path === '/verifyemail'
+  const isPublicPath = path === '/login' || path === '/verifyemail'
 
   const token = request.cookies.get('token')?.value || ''
+  const user = token ? await verifyAuthToken(token, process.env.TOKEN_SECRET || '') : null
+
+  // Signed-in staff have nothing to do on the login page. Attendees stay on it,
+  // otherwise they would bounce between here and the forbidden redirect below.
+  if (isPublicPath && user && CHECK_IN_STAFF.includes(user.role as Role)) {
+    return NextResponse.redirect(new URL('/', request.nextUrl))
+  }
+
+  if (isPublicPath) {
+    return NextResponse.next()
+  }
 
-  if(isPublicPath && token) {
-    return NextResponse.redirect(new URL('/profile', request.nextUrl))
+  // Lets the very first admin be created on a fresh install; once an admin exists,
+  // /api/users/signup itself rejects anyone who is not signed in as admin.
+  if (path === '/signup' && !user) {
+    return NextResponse.next()
   }
 
-  if (!isPublicPath && !token) {
+  if (!user) {
+    const loginUrl = new URL('/login', request.nextUrl)
+    const response = NextResponse.redirect(loginUrl)
+    // Drop an expired or tampered cookie so the login page does not bounce straight back
+    if (token) response.cookies.delete('token')
+    return response
+  }
+
+  const rule = PROTECTED_PAGES.find((p) => path === p.prefix || path.startsWith(`${p.prefix}/`))
+  const allowed = rule ? rule.roles : CHECK_IN_STAFF
+  if (!allowed.includes(user.role as Role)) {
     return NextResponse.redirect(new URL('/login', request.nextUrl))
   }
-    
 }
 
- 
+
 // See "Matching Paths" below to learn more
 export const config = {
   matcher: [
     '/',
-    '/profile',
+    '/profile/:path*',
     '/login',
     '/signup',
-    '/verifyemail'
+    '/verifyemail',
+    '/events/:path*',
+    '/registrations/:path*',
+    '/check-in/:path*',
+    '/trash/:path*',
+    '/audit/:path*',
   ]
-}
\ No newline at end of file
+}